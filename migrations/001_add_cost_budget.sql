@@ -0,0 +1,2 @@
+-- Per-connection cost budget for read queries (JSON, NULL = cost guard off)
+ALTER TABLE connections ADD COLUMN cost_budget TEXT;
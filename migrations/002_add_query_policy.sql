@@ -0,0 +1,2 @@
+-- Per-connection query policy (JSON, NULL = no policy)
+ALTER TABLE connections ADD COLUMN query_policy TEXT;
@@ -0,0 +1,2 @@
+-- Per-connection redaction rules for results (JSON, NULL = nothing redacted)
+ALTER TABLE connections ADD COLUMN redaction_rules TEXT;
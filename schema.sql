@@ -23,6 +23,9 @@ CREATE TABLE IF NOT EXISTS connections (
     neo4j_password_encrypted TEXT NOT NULL,
     neo4j_database TEXT DEFAULT 'neo4j',
     read_only INTEGER DEFAULT 0,
+    cost_budget TEXT,
+    query_policy TEXT,
+    redaction_rules TEXT,
     is_active INTEGER DEFAULT 1,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -4,12 +4,15 @@
  * Handles the setup flow for configuring Neo4j connections.
  */
 
-import type { Env } from '../types.js';
+import type { CostBudget, Env, QueryPolicy, RedactionRule } from '../types.js';
 import { HTTP_STATUS, CONTENT_TYPES } from '../config/constants.js';
 import { createNeo4jClient } from '../neo4j/client.js';
 import { createUser } from '../storage/users.js';
 import { createConnection } from '../storage/connections.js';
 import { createSession } from '../auth/session.js';
+import { normalizeCostBudget } from '../neo4j/plan.js';
+import { normalizeQueryPolicy } from '../security/query-policy.js';
+import { normalizeRedactionRules } from '../security/redaction.js';
 import * as logger from '../utils/logger.js';
 import * as audit from '../security/audit.js';
 
@@ -22,6 +25,12 @@ export interface SetupRequest {
   password: string;
   database?: string;
   readOnly?: boolean;
+  /** Cost budget for read queries: true for the defaults, or overrides */
+  costBudget?: CostBudget | null;
+  /** Labels, relationship types, procedures and clauses queries may use */
+  queryPolicy?: QueryPolicy | null;
+  /** Properties and personal data to drop, hash or mask in results */
+  redactionRules?: RedactionRule[] | null;
   email?: string;
 }
 
@@ -69,6 +78,9 @@ function validateSetupRequest(body: unknown): SetupRequest {
     password: data.password,
     database: typeof data.database === 'string' ? data.database.trim() || 'neo4j' : 'neo4j',
     readOnly: data.readOnly === true,
+    costBudget: normalizeCostBudget(data.costBudget),
+    queryPolicy: normalizeQueryPolicy(data.queryPolicy),
+    redactionRules: normalizeRedactionRules(data.redactionRules),
     email: typeof data.email === 'string' ? data.email.trim() : undefined,
   };
 }
@@ -160,6 +172,9 @@ export async function handleSetupPost(
       username: setupData.username,
       database: setupData.database,
       readOnly: setupData.readOnly,
+      costGuard: !!setupData.costBudget,
+      queryPolicy: !!setupData.queryPolicy,
+      redactionRules: setupData.redactionRules?.length ?? 0,
     });
 
     // Test connection to Neo4j
@@ -203,6 +218,9 @@ export async function handleSetupPost(
         password: setupData.password,
         database: setupData.database,
         readOnly: setupData.readOnly,
+        costBudget: setupData.costBudget,
+        queryPolicy: setupData.queryPolicy,
+        redactionRules: setupData.redactionRules,
       },
       env.ENCRYPTION_KEY
     );
@@ -75,7 +75,7 @@ export async function authenticate(
     };
   }
 
-  const { connection, readOnly } = connectionResult.data;
+  const { connection, readOnly, costBudget, queryPolicy, redactionRules } = connectionResult.data;
 
   // Build request context
   const context: RequestContext = {
@@ -83,6 +83,9 @@ export async function authenticate(
     connectionId,
     connection,
     readOnly,
+    ...(costBudget && { costBudget }),
+    ...(queryPolicy && { queryPolicy }),
+    ...(redactionRules && { redactionRules }),
   };
 
   logger.debug('Request authenticated', { userId, connectionId });
@@ -5,9 +5,21 @@
  */
 
 /**
- * MCP Protocol version
+ * MCP protocol revisions supported by this server, oldest first
  */
-export const MCP_PROTOCOL_VERSION = '2024-11-05';
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2024-11-05', '2025-03-26', '2025-06-18'] as const;
+
+/**
+ * Latest MCP protocol revision supported by this server
+ */
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+/**
+ * Revision assumed when the client does not say which one it uses
+ * (no session and no MCP-Protocol-Version header): the oldest one, so
+ * such clients never get features they may not understand
+ */
+export const DEFAULT_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
 
 /**
  * Server identification
@@ -28,12 +40,51 @@ export const DEFAULTS = {
   /** Default sample size for schema extraction */
   SCHEMA_SAMPLE_SIZE: 1000,
 
+  /** Default maximum rows returned by a read query without a LIMIT */
+  MAX_ROWS: 1000,
+
   /** Session TTL in seconds (10 years - effectively permanent) */
   SESSION_TTL: 315360000,
 
   /** Schema cache TTL in seconds (5 minutes) */
   SCHEMA_CACHE_TTL: 300,
 
+  /** Resource subscription TTL in seconds (24 hours) */
+  SUBSCRIPTION_TTL: 86400,
+
+  /** MCP transport session TTL in seconds (24 hours) */
+  MCP_SESSION_TTL: 86400,
+
+  /** Lifetime of a read_neo4j_cypher result cursor in seconds (15 minutes) */
+  CURSOR_TTL: 900,
+
+  /** How often an open GET event stream checks for queued messages, in seconds */
+  SSE_POLL_INTERVAL: 5,
+
+  /** Maximum lifetime of a GET event stream in seconds (clients reconnect) */
+  SSE_STREAM_DURATION: 300,
+
+  /** How long a request runs before it listens for cancellations sent to other Worker instances, in seconds */
+  CANCEL_LISTEN_DELAY: 1,
+
+  /** How long a cancellation channel keeps cancellations for late listeners, in seconds */
+  CANCEL_RETENTION: 10,
+
+  /** Minimum level of log messages sent to MCP clients until they call logging/setLevel */
+  MCP_LOG_LEVEL: 'info',
+
+  /** Cost guard: largest row estimate allowed in a plan unless the connection sets its own */
+  COST_GUARD_MAX_ESTIMATED_ROWS: 100000,
+
+  /** Maximum number of returned rows a write_neo4j_cypher dry run can include */
+  MAX_DRY_RUN_SAMPLE_SIZE: 100,
+
+  /** Maximum number of statements in one write_neo4j_cypher_batch transaction */
+  MAX_TRANSACTION_STATEMENTS: 100,
+
+  /** Maximum number of values in a completion/complete result (MCP limit) */
+  MAX_COMPLETION_VALUES: 100,
+
   /** Rate limit: requests per minute */
   RATE_LIMIT_REQUESTS: 100,
 
@@ -79,7 +130,48 @@ export const MCP_METHODS = {
   INITIALIZED: 'notifications/initialized',
   TOOLS_LIST: 'tools/list',
   TOOLS_CALL: 'tools/call',
+  RESOURCES_LIST: 'resources/list',
+  RESOURCES_TEMPLATES_LIST: 'resources/templates/list',
+  RESOURCES_READ: 'resources/read',
+  RESOURCES_SUBSCRIBE: 'resources/subscribe',
+  RESOURCES_UNSUBSCRIBE: 'resources/unsubscribe',
+  RESOURCES_UPDATED: 'notifications/resources/updated',
+  PROMPTS_LIST: 'prompts/list',
+  PROMPTS_GET: 'prompts/get',
   PING: 'ping',
+  CANCELLED: 'notifications/cancelled',
+  PROGRESS: 'notifications/progress',
+  LOGGING_SET_LEVEL: 'logging/setLevel',
+  LOG_MESSAGE: 'notifications/message',
+  COMPLETION_COMPLETE: 'completion/complete',
+} as const;
+
+/**
+ * MCP log levels, lowest severity first
+ */
+export const MCP_LOG_LEVELS = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+] as const;
+
+/**
+ * MCP resource URIs for the graph schema
+ */
+export const RESOURCE_URIS = {
+  /** Full schema, formatted for LLM consumption */
+  SCHEMA: 'neo4j://schema',
+
+  /** Prefix for per-label detail (followed by the URI-encoded label) */
+  LABEL_PREFIX: 'neo4j://schema/label/',
+
+  /** Prefix for per-relationship-type detail (followed by the URI-encoded type) */
+  RELATIONSHIP_PREFIX: 'neo4j://schema/relationship/',
 } as const;
 
 /**
@@ -88,7 +180,19 @@ export const MCP_METHODS = {
 export const TOOL_NAMES = {
   GET_SCHEMA: 'get_neo4j_schema',
   READ_CYPHER: 'read_neo4j_cypher',
+  EXPLAIN_CYPHER: 'explain_neo4j_cypher',
   WRITE_CYPHER: 'write_neo4j_cypher',
+  WRITE_CYPHER_BATCH: 'write_neo4j_cypher_batch',
+} as const;
+
+/**
+ * Prompt names
+ */
+export const PROMPT_NAMES = {
+  EXPLORE_LABEL: 'explore_label',
+  SHORTEST_PATH: 'find_shortest_path',
+  EXPLAIN_QUERY: 'explain_query',
+  QUESTION_TO_CYPHER: 'question_to_cypher',
 } as const;
 
 /**
@@ -98,6 +202,11 @@ export const KV_PREFIXES = {
   SESSION: 'session:',
   SCHEMA_CACHE: 'schema:',
   RATE_LIMIT: 'rate:',
+  RESOURCE_SUBSCRIPTIONS: 'subs:',
+  RESOURCE_SUBSCRIBERS: 'subs_conn:',
+  MCP_SESSION: 'mcp_session:',
+  MCP_SESSION_QUEUE: 'mcp_queue:',
+  QUERY_CURSOR: 'cursor:',
 } as const;
 
 /**
@@ -105,6 +214,7 @@ export const KV_PREFIXES = {
  */
 export const HTTP_STATUS = {
   OK: 200,
+  ACCEPTED: 202,
   NO_CONTENT: 204,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
@@ -115,6 +225,14 @@ export const HTTP_STATUS = {
   INTERNAL_ERROR: 500,
 } as const;
 
+/**
+ * HTTP headers defined by the MCP Streamable HTTP transport
+ */
+export const MCP_HEADERS = {
+  SESSION_ID: 'Mcp-Session-Id',
+  PROTOCOL_VERSION: 'MCP-Protocol-Version',
+} as const;
+
 /**
  * Content types
  */
@@ -123,4 +241,6 @@ export const CONTENT_TYPES = {
   HTML: 'text/html; charset=utf-8',
   TEXT: 'text/plain',
   SSE: 'text/event-stream',
+  MARKDOWN: 'text/markdown',
+  NEO4J_TYPED_JSON: 'application/vnd.neo4j.query',
 } as const;
@@ -5,21 +5,54 @@
  * routing, and CORS.
  */
 
-import type { Env } from './types.js';
-import { ROUTES, HTTP_STATUS, CONTENT_TYPES, SERVER_NAME, SERVER_VERSION, MCP_METHODS } from './config/constants.js';
+import type { Env, JsonRpcRequest, JsonRpcNotification, McpSessionData, RequestContext } from './types.js';
+import {
+  ROUTES,
+  HTTP_STATUS,
+  CONTENT_TYPES,
+  SERVER_NAME,
+  SERVER_VERSION,
+  MCP_METHODS,
+  MCP_HEADERS,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  DEFAULT_PROTOCOL_VERSION,
+} from './config/constants.js';
 import {
   createCorsPreflightResponse,
   addCorsHeaders,
   parseAllowedOrigins,
 } from './utils/cors.js';
-import { ParseError, toMcpError, createJsonRpcErrorResponse } from './utils/errors.js';
+import {
+  ParseError,
+  InvalidRequestError,
+  RateLimitError,
+  RequestCancelledError,
+  toMcpError,
+  createJsonRpcErrorResponse,
+} from './utils/errors.js';
 import * as logger from './utils/logger.js';
-import { parseJsonRpcRequest, isNotification, jsonRpcSuccess } from './mcp/protocol.js';
+import {
+  parseJsonRpcRequest,
+  parseJsonRpcBatch,
+  isBatchRequest,
+  isNotification,
+  jsonRpcSuccess,
+} from './mcp/protocol.js';
 import { routeRequest, type HandlerContext } from './mcp/handlers.js';
+import { ResponseChannel, acceptsEventStream, openSessionEventStream } from './mcp/transport.js';
+import { dispatchBatch, type BatchEntry } from './mcp/batch.js';
+import { isSupportedProtocolVersion, supportsFeature } from './mcp/versions.js';
 
 // Authentication and storage imports
 import { optionalAuth } from './auth/middleware.js';
 import { createNeo4jClient } from './neo4j/client.js';
+import {
+  createMcpSession,
+  generateMcpSessionId,
+  getMcpSession,
+  deleteMcpSession,
+  enqueueSessionMessages,
+} from './storage/mcp-sessions.js';
 
 // Setup UI and API imports
 import { generateSetupPageHtml } from './config/ui.js';
@@ -32,6 +65,7 @@ import {
   getRateLimitIdentifier,
   createRateLimitHeaders,
   createRateLimitResponse,
+  type RateLimitResult,
 } from './security/ratelimit.js';
 import * as audit from './security/audit.js';
 
@@ -50,6 +84,7 @@ function getServerConfig(env: Env) {
     readTimeout: parseInt(env.DEFAULT_READ_TIMEOUT, 10) || 30,
     tokenLimit: parseInt(env.DEFAULT_TOKEN_LIMIT, 10) || 10000,
     schemaSampleSize: parseInt(env.DEFAULT_SCHEMA_SAMPLE, 10) || 1000,
+    maxRows: parseInt(env.DEFAULT_MAX_ROWS, 10) || 1000,
     allowedOrigins: parseAllowedOrigins(env.ALLOWED_ORIGINS),
     environment: env.ENVIRONMENT as 'development' | 'staging' | 'production',
   };
@@ -97,19 +132,170 @@ function methodRequiresAuth(method: string): boolean {
     MCP_METHODS.INITIALIZE,
     MCP_METHODS.INITIALIZED,
     MCP_METHODS.TOOLS_LIST,
+    MCP_METHODS.RESOURCES_TEMPLATES_LIST,
+    MCP_METHODS.PROMPTS_LIST,
     MCP_METHODS.PING,
+    MCP_METHODS.CANCELLED,
+    MCP_METHODS.LOGGING_SET_LEVEL,
   ];
 
   return !publicMethods.includes(method);
 }
 
+/**
+ * Resolve the MCP transport session named by the Mcp-Session-Id header
+ *
+ * A session is bound to the credentials it was created with: sessions
+ * started by a user only accept that user's requests, and sessions
+ * started without credentials only accept requests without them.
+ *
+ * @returns The session, null if the request carries no session header,
+ *          or 'not_found' if the session is unknown, expired, or belongs
+ *          to a different caller
+ */
+async function resolveMcpSession(
+  request: Request,
+  env: Env,
+  userId: string | undefined
+): Promise<McpSessionData | null | 'not_found'> {
+  const sessionId = request.headers.get(MCP_HEADERS.SESSION_ID);
+  if (!sessionId) {
+    return null;
+  }
+
+  const session = await getMcpSession(env.SESSIONS, sessionId);
+  if (!session || session.userId !== userId) {
+    return 'not_found';
+  }
+
+  return session;
+}
+
+/**
+ * Handle unknown MCP session (client must re-initialize)
+ */
+function handleSessionNotFound(): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Session Not Found',
+      message: 'The MCP session does not exist or has expired. Send a new initialize request.',
+    }),
+    {
+      status: HTTP_STATUS.NOT_FOUND,
+      headers: { 'Content-Type': CONTENT_TYPES.JSON },
+    }
+  );
+}
+
+/**
+ * Handle missing Mcp-Session-Id header
+ */
+function handleSessionRequired(): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Bad Request',
+      message: `The ${MCP_HEADERS.SESSION_ID} header is required`,
+    }),
+    {
+      status: HTTP_STATUS.BAD_REQUEST,
+      headers: { 'Content-Type': CONTENT_TYPES.JSON },
+    }
+  );
+}
+
+/**
+ * Determine the protocol revision of an MCP request
+ *
+ * Clients on 2025-06-18 and later send an MCP-Protocol-Version header;
+ * otherwise we use the revision negotiated for the session, or the
+ * default revision when there is no session either.
+ *
+ * @returns The revision, or null if the header names one we do not support
+ */
+function resolveProtocolVersion(request: Request, mcpSession: McpSessionData | null): string | null {
+  const header = request.headers.get(MCP_HEADERS.PROTOCOL_VERSION);
+  if (header !== null) {
+    return isSupportedProtocolVersion(header) ? header : null;
+  }
+
+  return mcpSession?.protocolVersion ?? DEFAULT_PROTOCOL_VERSION;
+}
+
+/**
+ * Handle unsupported MCP-Protocol-Version header
+ */
+function handleUnsupportedProtocolVersion(): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Bad Request',
+      message: `Unsupported ${MCP_HEADERS.PROTOCOL_VERSION}. Supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`,
+    }),
+    {
+      status: HTTP_STATUS.BAD_REQUEST,
+      headers: { 'Content-Type': CONTENT_TYPES.JSON },
+    }
+  );
+}
+
+/**
+ * Create the handler context for an MCP request
+ *
+ * If authenticated, includes a Neo4j client for the user's connection.
+ */
+function createHandlerContext(
+  env: Env,
+  requestId: string,
+  authContext: RequestContext | null,
+  mcpSession: McpSessionData | null,
+  protocolVersion: string
+): HandlerContext {
+  const config = getServerConfig(env);
+
+  const context: HandlerContext = {
+    env,
+    requestId,
+    readOnly: authContext?.readOnly ?? false,
+    timeout: config.readTimeout,
+    tokenLimit: config.tokenLimit,
+    schemaSampleSize: config.schemaSampleSize,
+    maxRows: config.maxRows,
+    sessionId: mcpSession?.id,
+    protocolVersion,
+    logLevel: mcpSession?.logLevel,
+  };
+
+  if (authContext) {
+    // Bookmarks only make sense for the database they came from
+    const sameConnection = mcpSession?.connectionId === authContext.connectionId;
+
+    context.neo4jClient = createNeo4jClient(authContext.connection, {
+      defaultTimeout: config.readTimeout,
+      tokenLimit: config.tokenLimit,
+      schemaSampleSize: config.schemaSampleSize,
+      bookmarks: sameConnection ? mcpSession?.bookmarks : undefined,
+      causalConsistency: mcpSession?.causalConsistency,
+    });
+    context.connectionId = authContext.connectionId;
+    context.userId = authContext.userId;
+    context.costBudget = authContext.costBudget;
+    context.queryPolicy = authContext.queryPolicy;
+    context.redactionRules = authContext.redactionRules;
+  }
+
+  return context;
+}
+
 /**
  * Handle MCP endpoint (JSON-RPC over HTTP)
+ *
+ * Responds with JSON, or with an event stream when the client accepts
+ * one and the server sends notifications before the response.
  */
-async function handleMcpRequest(request: Request, env: Env): Promise<Response> {
+async function handleMcpRequest(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
   const requestId = generateRequestId();
   const reqLogger = logger.createRequestLogger(requestId);
-  const config = getServerConfig(env);
+
+  let rpcRequest: JsonRpcRequest | null = null;
 
   try {
     // Parse JSON body
@@ -120,8 +306,12 @@ async function handleMcpRequest(request: Request, env: Env): Promise<Response> {
       throw new ParseError('Invalid JSON in request body');
     }
 
+    if (isBatchRequest(body)) {
+      return await handleMcpBatch(request, env, ctx, body, requestId);
+    }
+
     // Parse and validate JSON-RPC request
-    const rpcRequest = parseJsonRpcRequest(body);
+    rpcRequest = parseJsonRpcRequest(body);
 
     reqLogger.info('MCP request received', { method: rpcRequest.method, id: rpcRequest.id });
 
@@ -137,30 +327,26 @@ async function handleMcpRequest(request: Request, env: Env): Promise<Response> {
       return createRateLimitResponse(rateLimitResult);
     }
 
-    // Check if authentication is required for this method
-    const requiresAuth = methodRequiresAuth(rpcRequest.method);
+    // Resolve the transport session (initialize always starts a new one)
+    const isInitialize = rpcRequest.method === MCP_METHODS.INITIALIZE;
+    const mcpSession = isInitialize ? null : await resolveMcpSession(request, env, authContext?.userId);
+
+    if (mcpSession === 'not_found') {
+      reqLogger.warn('Unknown MCP session', { method: rpcRequest.method });
+      return handleSessionNotFound();
+    }
+
+    // initialize negotiates the revision itself
+    const protocolVersion = isInitialize ? DEFAULT_PROTOCOL_VERSION : resolveProtocolVersion(request, mcpSession);
+    if (!protocolVersion) {
+      reqLogger.warn('Unsupported protocol version', { method: rpcRequest.method });
+      return handleUnsupportedProtocolVersion();
+    }
 
     // Create handler context
-    const context: HandlerContext = {
-      env,
-      requestId,
-      readOnly: authContext?.readOnly ?? false,
-      timeout: config.readTimeout,
-      tokenLimit: config.tokenLimit,
-      schemaSampleSize: config.schemaSampleSize,
-    };
+    const context = createHandlerContext(env, requestId, authContext, mcpSession, protocolVersion);
 
-    // If authenticated, create Neo4j client
     if (authContext) {
-      context.neo4jClient = createNeo4jClient(authContext.connection, {
-        defaultTimeout: config.readTimeout,
-        tokenLimit: config.tokenLimit,
-        schemaSampleSize: config.schemaSampleSize,
-      });
-      context.connectionId = authContext.connectionId;
-      context.userId = authContext.userId;
-      context.readOnly = authContext.readOnly;
-
       reqLogger.debug('Request authenticated', {
         userId: authContext.userId,
         connectionId: authContext.connectionId,
@@ -168,67 +354,276 @@ async function handleMcpRequest(request: Request, env: Env): Promise<Response> {
 
       // Audit log successful authentication
       audit.logAuthSuccess(request, authContext.userId, requestId);
-    } else if (requiresAuth) {
+    } else if (methodRequiresAuth(rpcRequest.method)) {
       // Method requires auth but user is not authenticated
       reqLogger.warn('Authentication required but not provided', { method: rpcRequest.method });
       audit.logAuthFailure(request, 'No credentials provided', requestId);
       // We still proceed - the handler will return an appropriate error
     }
 
-    // Route to appropriate handler
+    const headers: Record<string, string> = {
+      'X-Request-Id': requestId,
+      ...createRateLimitHeaders(rateLimitResult),
+      ...(mcpSession && { [MCP_HEADERS.SESSION_ID]: mcpSession.id }),
+    };
+
+    // initialize picks its session ID up front: once the response is
+    // upgraded to a stream, its headers can no longer be changed
+    const newSessionId = isInitialize ? generateMcpSessionId() : undefined;
+
+    // Notifications in, no response out: never upgraded to a stream
+    const channel = new ResponseChannel(
+      acceptsEventStream(request) && !isNotification(rpcRequest),
+      headers,
+      newSessionId ? { [MCP_HEADERS.SESSION_ID]: newSessionId } : {}
+    );
+    context.sendNotification = (method, params) =>
+      channel.notify({ jsonrpc: '2.0', method, ...(params && { params }) });
+
+    // Sessions opt out of bookmarks with ?bookmarks=off on the MCP URL
+    const causalConsistency = new URL(request.url).searchParams.get('bookmarks') !== 'off';
+    const processing = processMcpRequest(rpcRequest, context, channel, newSessionId, causalConsistency, reqLogger);
+    ctx.waitUntil(processing);
+
+    return await channel.response;
+  } catch (err) {
+    const mcpError = toMcpError(err);
+    reqLogger.error('MCP request failed', { error: mcpError.message, code: mcpError.code });
+
+    return new Response(createJsonRpcErrorResponse(rpcRequest?.id ?? null, mcpError), {
+      status: HTTP_STATUS.OK, // JSON-RPC errors still return 200
+      headers: {
+        'Content-Type': CONTENT_TYPES.JSON,
+        'X-Request-Id': requestId,
+      },
+    });
+  }
+}
+
+/**
+ * Handle a JSON-RPC batch
+ *
+ * Every request in the batch counts individually against the rate
+ * limit; requests over the limit get a rate limit error in place of a
+ * result. The response is an array in request order that leaves out
+ * notifications, or 202 Accepted if the batch held only notifications.
+ */
+async function handleMcpBatch(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  body: unknown[],
+  requestId: string
+): Promise<Response> {
+  const reqLogger = logger.createRequestLogger(requestId);
+  const entries: BatchEntry[] = parseJsonRpcBatch(body);
+
+  reqLogger.info('MCP batch received', { size: entries.length });
+
+  const authContext = await optionalAuth(request, env);
+  const mcpSession = await resolveMcpSession(request, env, authContext?.userId);
+
+  if (mcpSession === 'not_found') {
+    reqLogger.warn('Unknown MCP session', { batchSize: entries.length });
+    return handleSessionNotFound();
+  }
+
+  const protocolVersion = resolveProtocolVersion(request, mcpSession);
+  if (!protocolVersion) {
+    reqLogger.warn('Unsupported protocol version', { batchSize: entries.length });
+    return handleUnsupportedProtocolVersion();
+  }
+
+  if (!supportsFeature(protocolVersion, 'batching')) {
+    throw new InvalidRequestError(`JSON-RPC batches are not supported in protocol version ${protocolVersion}`);
+  }
+
+  // Rate limiting, one unit per request
+  const rateLimitId = getRateLimitIdentifier(request, authContext?.userId);
+  let rateLimitResult: RateLimitResult | null = null;
+  let rateLimited = 0;
+
+  for (const [index, entry] of entries.entries()) {
+    if ('error' in entry) {
+      continue;
+    }
+
+    if (entry.method === MCP_METHODS.INITIALIZE) {
+      entries[index] = { id: entry.id, error: new InvalidRequestError('initialize must not be part of a batch') };
+      continue;
+    }
+
+    rateLimitResult = await checkRateLimit(env.SESSIONS, rateLimitId);
+    if (!rateLimitResult.allowed) {
+      entries[index] = { id: entry.id, error: new RateLimitError(rateLimitResult.resetIn) };
+      rateLimited++;
+    }
+  }
+
+  if (rateLimitResult && rateLimited > 0) {
+    audit.logRateLimitExceeded(request, rateLimitId, rateLimitResult.current, rateLimitResult.limit, requestId);
+  }
+
+  const context = createHandlerContext(env, requestId, authContext, mcpSession, protocolVersion);
+
+  if (authContext) {
+    audit.logAuthSuccess(request, authContext.userId, requestId);
+  }
+
+  const headers: Record<string, string> = {
+    'X-Request-Id': requestId,
+    ...(rateLimitResult && createRateLimitHeaders(rateLimitResult)),
+    ...(mcpSession && { [MCP_HEADERS.SESSION_ID]: mcpSession.id }),
+  };
+
+  const expectsResponse = entries.some(entry => 'error' in entry || !isNotification(entry));
+  const channel = new ResponseChannel(acceptsEventStream(request) && expectsResponse, headers);
+  context.sendNotification = (method, params) =>
+    channel.notify({ jsonrpc: '2.0', method, ...(params && { params }) });
+
+  const processing = (async () => {
+    const responses = await dispatchBatch(entries, context);
+    const undelivered = responses.length > 0
+      ? await channel.complete(JSON.stringify(responses))
+      : await channel.complete(null, HTTP_STATUS.ACCEPTED);
+
+    if (undelivered.length > 0 && context.sessionId) {
+      await enqueueSessionMessages(env.SESSIONS, context.sessionId, undelivered);
+    }
+  })();
+  ctx.waitUntil(processing);
+
+  return await channel.response;
+}
+
+/**
+ * Route an MCP request and complete its response channel
+ *
+ * Runs detached from the HTTP response so that an upgraded event
+ * stream can keep receiving messages after it has been returned.
+ */
+async function processMcpRequest(
+  rpcRequest: JsonRpcRequest,
+  context: HandlerContext,
+  channel: ResponseChannel,
+  newSessionId: string | undefined,
+  causalConsistency: boolean,
+  reqLogger: ReturnType<typeof logger.createRequestLogger>
+): Promise<void> {
+  let undelivered: JsonRpcNotification[];
+
+  try {
     const result = await routeRequest(rpcRequest, context);
 
-    // Handle different result types
     switch (result.type) {
       case 'notification':
         // Notifications don't get a response
         if (isNotification(rpcRequest)) {
-          return new Response(null, {
-            status: HTTP_STATUS.NO_CONTENT,
-            headers: createRateLimitHeaders(rateLimitResult),
+          undelivered = await channel.complete(null, HTTP_STATUS.ACCEPTED);
+        } else {
+          // If client sent an id, acknowledge with empty result
+          undelivered = await channel.complete(jsonRpcSuccess(rpcRequest.id, {}));
+        }
+        break;
+
+      case 'response': {
+        // A successful initialize starts a new transport session
+        const extraHeaders: Record<string, string> = {};
+        if (newSessionId) {
+          const session = await createMcpSession(context.env.SESSIONS, {
+            id: newSessionId,
+            userId: context.userId,
+            connectionId: context.connectionId,
+            protocolVersion: context.protocolVersion,
+            causalConsistency,
           });
+          extraHeaders[MCP_HEADERS.SESSION_ID] = session.id;
+          context.sessionId = session.id;
         }
-        // If client sent an id, acknowledge with empty result
-        return new Response(
-          jsonRpcSuccess(rpcRequest.id, {}),
-          {
-            status: HTTP_STATUS.OK,
-            headers: {
-              'Content-Type': CONTENT_TYPES.JSON,
-              'X-Request-Id': requestId,
-              ...createRateLimitHeaders(rateLimitResult),
-            },
-          }
-        );
 
-      case 'response':
-        return new Response(
+        undelivered = await channel.complete(
           jsonRpcSuccess(rpcRequest.id, result.result),
-          {
-            status: HTTP_STATUS.OK,
-            headers: {
-              'Content-Type': CONTENT_TYPES.JSON,
-              'X-Request-Id': requestId,
-              ...createRateLimitHeaders(rateLimitResult),
-            },
-          }
+          HTTP_STATUS.OK,
+          extraHeaders
         );
+        break;
+      }
 
-      case 'error':
-        throw result.error;
+      case 'error': {
+        // The protocol says not to answer a cancelled request; the client
+        // has stopped waiting for it. The HTTP request still gets a status.
+        if (result.error instanceof RequestCancelledError) {
+          reqLogger.info('MCP request cancelled');
+          undelivered = await channel.complete(null, HTTP_STATUS.ACCEPTED);
+          break;
+        }
+
+        const mcpError = toMcpError(result.error);
+        reqLogger.error('MCP request failed', { error: mcpError.message, code: mcpError.code });
+        undelivered = await channel.complete(createJsonRpcErrorResponse(rpcRequest.id, mcpError));
+        break;
+      }
     }
   } catch (err) {
     const mcpError = toMcpError(err);
     reqLogger.error('MCP request failed', { error: mcpError.message, code: mcpError.code });
+    undelivered = await channel.complete(createJsonRpcErrorResponse(rpcRequest.id, mcpError));
+  }
 
-    return new Response(createJsonRpcErrorResponse(null, mcpError), {
-      status: HTTP_STATUS.OK, // JSON-RPC errors still return 200
-      headers: {
-        'Content-Type': CONTENT_TYPES.JSON,
-        'X-Request-Id': requestId,
-      },
-    });
+  // Hand anything the client could not receive inline to its GET stream
+  if (undelivered.length > 0 && context.sessionId) {
+    await enqueueSessionMessages(context.env.SESSIONS, context.sessionId, undelivered);
+  }
+}
+
+/**
+ * Handle MCP event stream (GET)
+ *
+ * Opens a standalone event stream for server-initiated messages.
+ */
+async function handleMcpEventStream(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+  if (!acceptsEventStream(request)) {
+    return handleMethodNotAllowed(['POST', 'DELETE']);
+  }
+
+  if (!request.headers.get(MCP_HEADERS.SESSION_ID)) {
+    return handleSessionRequired();
+  }
+
+  const authContext = await optionalAuth(request, env);
+  const mcpSession = await resolveMcpSession(request, env, authContext?.userId);
+
+  if (!mcpSession || mcpSession === 'not_found') {
+    return handleSessionNotFound();
+  }
+
+  const { response, done } = openSessionEventStream(env.SESSIONS, mcpSession.id, {
+    [MCP_HEADERS.SESSION_ID]: mcpSession.id,
+  });
+  ctx.waitUntil(done);
+
+  return response;
+}
+
+/**
+ * Handle MCP session termination (DELETE)
+ */
+async function handleMcpSessionDelete(request: Request, env: Env): Promise<Response> {
+  if (!request.headers.get(MCP_HEADERS.SESSION_ID)) {
+    return handleSessionRequired();
+  }
+
+  const authContext = await optionalAuth(request, env);
+  const mcpSession = await resolveMcpSession(request, env, authContext?.userId);
+
+  if (!mcpSession || mcpSession === 'not_found') {
+    return handleSessionNotFound();
   }
+
+  await deleteMcpSession(env.SESSIONS, mcpSession.id);
+  logger.info('MCP session terminated');
+
+  return new Response(null, { status: HTTP_STATUS.NO_CONTENT });
 }
 
 /**
@@ -269,7 +664,7 @@ function handleMethodNotAllowed(allowed: string[]): Response {
 /**
  * Main request handler
  */
-async function handleRequest(request: Request, env: Env): Promise<Response> {
+async function handleRequest(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
   const startTime = Date.now();
   const url = new URL(request.url);
   const path = url.pathname;
@@ -340,10 +735,14 @@ async function handleRequest(request: Request, env: Env): Promise<Response> {
 
       case ROUTES.MCP:
       case ROUTES.MCP_ALT:
-        if (method !== 'POST') {
-          response = handleMethodNotAllowed(['POST']);
+        if (method === 'POST') {
+          response = await handleMcpRequest(request, env, ctx);
+        } else if (method === 'GET') {
+          response = await handleMcpEventStream(request, env, ctx);
+        } else if (method === 'DELETE') {
+          response = await handleMcpSessionDelete(request, env);
         } else {
-          response = await handleMcpRequest(request, env);
+          response = handleMethodNotAllowed(['GET', 'POST', 'DELETE']);
         }
         break;
 
@@ -373,11 +772,16 @@ async function handleRequest(request: Request, env: Env): Promise<Response> {
   return response;
 }
 
+/**
+ * Durable Object classes, bound in wrangler.toml
+ */
+export { CancellationChannel } from './mcp/requests.js';
+
 /**
  * Cloudflare Workers export
  */
 export default {
-  async fetch(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
-    return handleRequest(request, env);
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    return handleRequest(request, env, ctx);
   },
 };
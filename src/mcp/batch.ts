@@ -0,0 +1,130 @@
+/**
+ * JSON-RPC Batch Dispatch
+ *
+ * Dispatches each entry of a JSON-RPC 2.0 batch through routeRequest.
+ * Consecutive read-only calls run concurrently; anything that may write
+ * or change session state runs on its own, after everything before it
+ * has finished, so the batch behaves as if executed in order.
+ */
+
+import type { JsonRpcRequest, JsonRpcResponse } from '../types.js';
+import { MCP_METHODS } from '../config/constants.js';
+import { RequestCancelledError, toMcpError, type McpError } from '../utils/errors.js';
+import { createSuccessResponse, createErrorResponse, isNotification } from './protocol.js';
+import { routeRequest, type HandlerContext } from './handlers.js';
+import { getToolByName } from './tools.js';
+
+/**
+ * Batch entry: a parsed request, or the error it failed with
+ */
+export type BatchEntry = JsonRpcRequest | { id: string | number | null; error: McpError };
+
+/**
+ * Methods that never modify the database or session state
+ */
+const READ_ONLY_METHODS: string[] = [
+  MCP_METHODS.TOOLS_LIST,
+  MCP_METHODS.RESOURCES_LIST,
+  MCP_METHODS.RESOURCES_TEMPLATES_LIST,
+  MCP_METHODS.RESOURCES_READ,
+  MCP_METHODS.PROMPTS_LIST,
+  MCP_METHODS.PROMPTS_GET,
+  MCP_METHODS.COMPLETION_COMPLETE,
+  MCP_METHODS.PING,
+];
+
+/**
+ * Check if a request is safe to run concurrently with other reads
+ *
+ * Tool calls are judged by their readOnlyHint annotation, as listed
+ * for the connection: on a read-only connection the write tools reject
+ * every call without touching the database, and are hinted read-only.
+ *
+ * @param request - Batch entry
+ * @param readOnly - Whether the connection is read-only
+ */
+export function isReadOnlyRequest(request: JsonRpcRequest, readOnly: boolean = false): boolean {
+  if (READ_ONLY_METHODS.includes(request.method)) {
+    return true;
+  }
+
+  if (request.method === MCP_METHODS.TOOLS_CALL) {
+    const name = request.params?.name;
+    return typeof name === 'string' && getToolByName(name, readOnly)?.annotations?.readOnlyHint === true;
+  }
+
+  return false;
+}
+
+/**
+ * Dispatch a single batch entry
+ *
+ * @returns The JSON-RPC response, or null for notifications and
+ *   cancelled requests, which the protocol says not to answer
+ */
+async function dispatchEntry(
+  request: JsonRpcRequest,
+  context: HandlerContext
+): Promise<JsonRpcResponse | null> {
+  const result = await routeRequest(request, context);
+
+  if (isNotification(request)) {
+    return null;
+  }
+
+  switch (result.type) {
+    case 'notification':
+      return createSuccessResponse(request.id, {});
+    case 'response':
+      return createSuccessResponse(request.id, result.result);
+    case 'error':
+      if (result.error instanceof RequestCancelledError) {
+        return null;
+      }
+      return createErrorResponse(request.id, toMcpError(result.error).toJsonRpcError());
+  }
+}
+
+/**
+ * Dispatch a batch
+ *
+ * @param entries - Parsed batch entries, in request order
+ * @param context - Handler context shared by all entries
+ * @returns Responses in request order, without entries for notifications
+ *   and cancelled requests
+ */
+export async function dispatchBatch(
+  entries: BatchEntry[],
+  context: HandlerContext
+): Promise<JsonRpcResponse[]> {
+  const responses: Array<JsonRpcResponse | null> = new Array(entries.length).fill(null);
+  let concurrent: Promise<void>[] = [];
+
+  const run = async (request: JsonRpcRequest, index: number): Promise<void> => {
+    responses[index] = await dispatchEntry(request, {
+      ...context,
+      requestId: `${context.requestId}:${index}`,
+    });
+  };
+
+  for (const [index, entry] of entries.entries()) {
+    if ('error' in entry) {
+      responses[index] = createErrorResponse(entry.id, entry.error.toJsonRpcError());
+      continue;
+    }
+
+    if (isReadOnlyRequest(entry, context.readOnly)) {
+      concurrent.push(run(entry, index));
+      continue;
+    }
+
+    // Writes wait for all earlier reads and block all later ones
+    await Promise.all(concurrent);
+    concurrent = [];
+    await run(entry, index);
+  }
+
+  await Promise.all(concurrent);
+
+  return responses.filter((response): response is JsonRpcResponse => response !== null);
+}
@@ -0,0 +1,190 @@
+/**
+ * MCP Argument Completion
+ *
+ * Suggests values for prompt and resource-template arguments from the
+ * connected graph:
+ * - label: node labels
+ * - type: relationship types
+ * - property: property keys, scoped to the label or type already chosen
+ *
+ * Uses the cached schema when there is one. Otherwise asks Neo4j
+ * directly with the db.labels()-style procedures, which are cheap
+ * compared to a full schema extraction. Either way, names that
+ * get_neo4j_schema would not show are never suggested.
+ */
+
+import type { McpCompleteParams, McpCompleteResult } from '../types.js';
+import type { ProcessedSchema } from '../neo4j/types.js';
+import { DEFAULTS } from '../config/constants.js';
+import { InvalidParamsError } from '../utils/errors.js';
+import { getCachedSchema } from '../storage/cache.js';
+import { isNameAllowed } from '../security/query-policy.js';
+import { createRedaction, isPropertyDropped } from '../security/redaction.js';
+import type { HandlerContext } from './handlers.js';
+import { getPromptByName } from './prompts.js';
+import { schemaResourceTemplates } from './resources.js';
+import { prepareSchema } from './schema-loader.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Kind of graph name an argument is completed from
+ */
+type CompletionSource = 'labels' | 'relationshipTypes' | 'propertyKeys';
+
+/**
+ * Completion source for each completable argument name
+ */
+const ARGUMENT_SOURCES: Record<string, CompletionSource> = {
+  label: 'labels',
+  type: 'relationshipTypes',
+  property: 'propertyKeys',
+};
+
+/**
+ * Procedures used when no schema is cached
+ */
+const FALLBACK_QUERIES: Record<CompletionSource, string> = {
+  labels: 'CALL db.labels()',
+  relationshipTypes: 'CALL db.relationshipTypes()',
+  propertyKeys: 'CALL db.propertyKeys()',
+};
+
+/**
+ * Check whether the completion ref has the argument being completed
+ *
+ * @throws InvalidParamsError if the prompt or resource template does not exist
+ */
+function isPublishedArgument(params: McpCompleteParams): boolean {
+  const { ref, argument } = params;
+
+  if (ref.type === 'ref/prompt') {
+    const prompt = getPromptByName(ref.name);
+    if (!prompt) {
+      throw new InvalidParamsError(`Unknown prompt: ${ref.name}`);
+    }
+    return (prompt.arguments ?? []).some(arg => arg.name === argument.name);
+  }
+
+  const template = schemaResourceTemplates.find(t => t.uriTemplate === ref.uri);
+  if (!template) {
+    throw new InvalidParamsError(`Unknown resource template: ${ref.uri}`);
+  }
+  return template.uriTemplate.includes(`{${argument.name}}`);
+}
+
+/**
+ * Collect candidate names from a cached schema, prepared to be shown
+ *
+ * Property keys are limited to the label or relationship type in the
+ * already-filled arguments, when there is one.
+ */
+function namesFromSchema(
+  schema: ProcessedSchema,
+  source: CompletionSource,
+  filledArgs: Record<string, string>
+): string[] {
+  switch (source) {
+    case 'labels':
+      return schema.labels.map(label => label.name);
+    case 'relationshipTypes':
+      return schema.relationshipTypes.map(relType => relType.name);
+    case 'propertyKeys': {
+      const owners = filledArgs.label
+        ? schema.labels.filter(label => label.name === filledArgs.label)
+        : filledArgs.type
+          ? schema.relationshipTypes.filter(relType => relType.name === filledArgs.type)
+          : [...schema.labels, ...schema.relationshipTypes];
+      return owners.flatMap(owner => owner.properties.map(property => property.name));
+    }
+  }
+}
+
+/**
+ * Collect candidate names from Neo4j
+ *
+ * Labels and relationship types the query policy denies are left out,
+ * and so are property keys a redaction rule drops anywhere, since the
+ * procedures do not say which label or type a key belongs to.
+ */
+async function namesFromDatabase(
+  context: HandlerContext,
+  source: CompletionSource
+): Promise<string[]> {
+  if (!context.neo4jClient) {
+    return [];
+  }
+
+  const result = await context.neo4jClient.query(FALLBACK_QUERIES[source], {}, {
+    timeout: 10,
+    signal: context.signal,
+    readOnly: true,
+  });
+
+  const names: string[] = [];
+  for (const row of result.data?.values ?? []) {
+    if (row[0] && typeof row[0] === 'string') {
+      names.push(row[0]);
+    }
+  }
+
+  if (source !== 'propertyKeys') {
+    return names.filter(name => isNameAllowed(context.queryPolicy, source, name));
+  }
+  const redaction = createRedaction(context.redactionRules);
+  return redaction ? names.filter(name => !isPropertyDropped(redaction, name)) : names;
+}
+
+/**
+ * Filter names by a case-insensitive prefix
+ *
+ * @returns Unique matches, sorted
+ */
+export function matchPrefix(names: string[], prefix: string): string[] {
+  const lowerPrefix = prefix.toLowerCase();
+  const matches = new Set(names.filter(name => name.toLowerCase().startsWith(lowerPrefix)));
+  return [...matches].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Complete a prompt or resource-template argument
+ *
+ * @param params - Validated completion/complete params
+ * @param context - Handler context
+ * @returns At most DEFAULTS.MAX_COMPLETION_VALUES matching values
+ * @throws InvalidParamsError if the ref does not exist
+ */
+export async function completeArgument(
+  params: McpCompleteParams,
+  context: HandlerContext
+): Promise<McpCompleteResult> {
+  const source = ARGUMENT_SOURCES[params.argument.name];
+
+  if (!isPublishedArgument(params) || !source) {
+    return { completion: { values: [], total: 0, hasMore: false } };
+  }
+
+  const cachedSchema = context.connectionId
+    ? await getCachedSchema(context.env.SESSIONS, context.connectionId)
+    : null;
+
+  const names = cachedSchema
+    ? namesFromSchema(prepareSchema(context, cachedSchema).schema, source, params.context?.arguments ?? {})
+    : await namesFromDatabase(context, source);
+
+  const matches = matchPrefix(names, params.argument.value);
+
+  logger.debug('Completed argument', {
+    argument: params.argument.name,
+    fromCache: !!cachedSchema,
+    matches: matches.length,
+    requestId: context.requestId,
+  });
+
+  return {
+    completion: {
+      values: matches.slice(0, DEFAULTS.MAX_COMPLETION_VALUES),
+      total: matches.length,
+      hasMore: matches.length > DEFAULTS.MAX_COMPLETION_VALUES,
+    },
+  };
+}
@@ -6,44 +6,120 @@
  * - notifications/initialized: Client ready signal
  * - tools/list: List available tools
  * - tools/call: Execute a tool
+ * - resources/list, resources/templates/list, resources/read: Schema resources
+ * - resources/subscribe, resources/unsubscribe: Schema change notifications
+ * - prompts/list, prompts/get: Prompt templates for common graph tasks
+ * - notifications/cancelled: Abort a running request
+ * - logging/setLevel: Choose which log messages the client receives
+ * - completion/complete: Suggest prompt and resource-template argument values
  */
 
 import type {
+  CostBudget,
+  QueryPolicy,
+  RedactionCounts,
+  RedactionRule,
   Env,
   JsonRpcRequest,
   McpInitializeResult,
   McpToolsListResult,
   McpToolResult,
   McpToolResultContent,
+  McpResourcesListResult,
+  McpResourceTemplatesListResult,
+  McpResourceReadResult,
+  McpPromptsListResult,
+  McpPromptGetResult,
+  McpLogLevel,
+  McpCompleteResult,
 } from '../types.js';
 import {
-  MCP_PROTOCOL_VERSION,
   SERVER_NAME,
   SERVER_VERSION,
   MCP_METHODS,
   TOOL_NAMES,
   DEFAULTS,
 } from '../config/constants.js';
-import { MethodNotFoundError, InvalidParamsError, ValidationError } from '../utils/errors.js';
-import { validateToolCallParams, getOptionalNumberParam, getOptionalObjectParam } from './protocol.js';
+import {
+  MethodNotFoundError,
+  InvalidParamsError,
+  ValidationError,
+  RequestCancelledError,
+} from '../utils/errors.js';
+import {
+  validateToolCallParams,
+  getOptionalBooleanParam,
+  getOptionalNumberParam,
+  getOptionalObjectParam,
+  getRequiredStringParam,
+  getOptionalStringParam,
+  validatePromptGetParams,
+  validateCompleteParams,
+} from './protocol.js';
 import { getAllTools, toolExists } from './tools.js';
+import { getSchemaResources, schemaResourceTemplates, readSchemaResource, parseResourceUri } from './resources.js';
+import { getAllPrompts, renderPrompt } from './prompts.js';
+import { completeArgument } from './completions.js';
+import { negotiateProtocolVersion, supportsFeature } from './versions.js';
+import { loadSanitizedSchema, getSubscriberId } from './schema-loader.js';
+import { logToClient, isMcpLogLevel } from './logging.js';
+import {
+  trackRequest,
+  cancelRequest,
+  getRequestScope,
+  getProgressToken,
+  createProgressReporter,
+} from './requests.js';
 import * as logger from '../utils/logger.js';
 
 // Neo4j imports
 import type { Neo4jClient } from '../neo4j/client.js';
-import type { ProcessedSchema } from '../neo4j/types.js';
-import { extractSchema, formatSchemaForLLM } from '../neo4j/schema.js';
-import { executeReadQuery, executeWriteQuery, isWriteQuery, validateCypherSyntax } from '../neo4j/queries.js';
+import type {
+  DryRunWriteResult,
+  GraphQueryResult,
+  ProgressCallback,
+  QueryResult,
+  WriteStatement,
+} from '../neo4j/types.js';
+import { formatSchemaForLLM } from '../neo4j/schema.js';
+import { explainQuery, formatPlanForLLM, stripPlanPrefix, enforceCostBudget } from '../neo4j/plan.js';
+import {
+  executeReadQuery,
+  executeGraphReadQuery,
+  limitReadQuery,
+  executeWriteQuery,
+  dryRunWriteQuery,
+  executeWriteTransaction,
+  isWriteQuery,
+  validateCypherSyntax,
+} from '../neo4j/queries.js';
 
 // Sanitization and token imports
-import { sanitize, sanitizeNeo4jResults } from '../utils/sanitize.js';
-import { truncateToTokens } from '../utils/tokens.js';
-
-// Cache imports
-import { getCachedSchema, cacheSchema } from '../storage/cache.js';
+import { sanitizeNeo4jResults, sanitizeProperties } from '../utils/sanitize.js';
+import { truncateToTokens, truncateRowsToTokens, estimateDataTokens } from '../utils/tokens.js';
+import {
+  OUTPUT_FORMATS,
+  isOutputFormat,
+  isTabularFormat,
+  encodeJson,
+  formatResult,
+  type OutputFormat,
+} from '../utils/formats.js';
+
+// Storage imports
+import {
+  addSubscriber,
+  addSubscription,
+  getSubscriptions,
+  removeSubscriber,
+  removeSubscription,
+} from '../storage/subscriptions.js';
+import { updateMcpSession } from '../storage/mcp-sessions.js';
+import { createQueryCursor, getQueryCursor, encodeCursor, decodeCursor, type QueryCursor } from '../storage/cursors.js';
 
 // Security imports
 import { validateQuery, sanitizeParameters } from '../security/query-validator.js';
+import { createRedaction, getRedactionCounts } from '../security/redaction.js';
 
 /**
  * Context passed to handlers
@@ -61,10 +137,30 @@ export interface HandlerContext {
   tokenLimit?: number;
   /** Sample size for schema extraction */
   schemaSampleSize?: number;
+  /** Most rows returned by a read query without a LIMIT */
+  maxRows?: number;
   /** User ID (if authenticated) */
   userId?: string;
   /** Connection ID (if authenticated) */
   connectionId?: string;
+  /** MCP transport session ID (from the Mcp-Session-Id header) */
+  sessionId?: string;
+  /** Negotiated MCP protocol revision (default revision if unknown) */
+  protocolVersion?: string;
+  /** Sink for server-to-client notifications (absent if the transport cannot deliver them) */
+  sendNotification?: (method: string, params?: Record<string, unknown>) => void;
+  /** Fires when the client cancels the request */
+  signal?: AbortSignal;
+  /** Reports progress (present only if the request carried a progress token) */
+  reportProgress?: ProgressCallback;
+  /** Minimum level of log messages sent to the client */
+  logLevel?: McpLogLevel;
+  /** Cost budget for read queries (absent if the cost guard is off) */
+  costBudget?: CostBudget;
+  /** Query policy of the connection (absent if it has none) */
+  queryPolicy?: QueryPolicy;
+  /** Redaction rules for results (absent if nothing is redacted) */
+  redactionRules?: RedactionRule[];
 }
 
 /**
@@ -78,22 +174,36 @@ export type HandlerResult =
 /**
  * Handle initialize request
  *
- * This is the first message from the client to negotiate capabilities.
+ * This is the first message from the client to negotiate capabilities
+ * and the protocol revision used for the rest of the session.
  */
 export function handleInitialize(
-  _request: JsonRpcRequest,
-  _context: HandlerContext
+  request: JsonRpcRequest,
+  context: HandlerContext
 ): McpInitializeResult {
-  logger.info('MCP Initialize', { protocolVersion: MCP_PROTOCOL_VERSION });
+  const requested = request.params?.protocolVersion;
+  const protocolVersion = negotiateProtocolVersion(requested);
+  context.protocolVersion = protocolVersion;
+
+  logger.info('MCP Initialize', { requestedVersion: requested, protocolVersion });
 
   return {
-    protocolVersion: MCP_PROTOCOL_VERSION,
+    protocolVersion,
     serverInfo: {
       name: SERVER_NAME,
       version: SERVER_VERSION,
     },
     capabilities: {
       tools: {},
+      resources: {
+        subscribe: true,
+        listChanged: false,
+      },
+      prompts: {
+        listChanged: false,
+      },
+      logging: {},
+      ...(supportsFeature(protocolVersion, 'completions') && { completions: {} }),
     },
   };
 }
@@ -112,6 +222,32 @@ export function handleInitialized(
   // Nothing to do, just acknowledge
 }
 
+/**
+ * Handle notifications/cancelled
+ *
+ * Aborts the named request if it is still running, in this Worker
+ * instance or another. Unknown or already finished requests are
+ * ignored, as the protocol requires.
+ */
+export async function handleCancelled(
+  request: JsonRpcRequest,
+  context: HandlerContext
+): Promise<void> {
+  const requestId = request.params?.requestId;
+  if (typeof requestId !== 'string' && typeof requestId !== 'number') {
+    logger.debug('Ignoring cancellation without requestId');
+    return;
+  }
+
+  const cancelled = await cancelRequest(context.env.CANCELLATIONS, getRequestScope(context), requestId);
+
+  logger.info('MCP Cancellation', {
+    cancelledRequestId: requestId,
+    reason: request.params?.reason,
+    cancelled,
+  });
+}
+
 /**
  * Handle tools/list request
  *
@@ -121,8 +257,7 @@ export function handleToolsList(
   _request: JsonRpcRequest,
   context: HandlerContext
 ): McpToolsListResult {
-  const includeWriteTool = !context.readOnly;
-  const tools = getAllTools(includeWriteTool);
+  const tools = getAllTools(context.readOnly, context.protocolVersion);
 
   logger.info('MCP Tools List', { toolCount: tools.length, readOnly: context.readOnly });
 
@@ -151,19 +286,38 @@ export async function handleToolsCall(
   }
 
   // Execute the appropriate tool
+  let result: McpToolResult;
   switch (name) {
     case TOOL_NAMES.GET_SCHEMA:
-      return executeGetSchema(args, context);
+      result = await executeGetSchema(args, context);
+      break;
 
     case TOOL_NAMES.READ_CYPHER:
-      return executeReadCypher(args, context);
+      result = await executeReadCypher(args, context);
+      break;
+
+    case TOOL_NAMES.EXPLAIN_CYPHER:
+      result = await executeExplainCypher(args, context);
+      break;
 
     case TOOL_NAMES.WRITE_CYPHER:
-      return executeWriteCypher(args, context);
+      result = await executeWriteCypher(args, context);
+      break;
+
+    case TOOL_NAMES.WRITE_CYPHER_BATCH:
+      result = await executeWriteCypherBatch(args, context);
+      break;
 
     default:
       throw new InvalidParamsError(`Unknown tool: ${name}`);
   }
+
+  // Older revisions only understand the text content
+  if (!supportsFeature(context.protocolVersion, 'structuredContent')) {
+    delete result.structuredContent;
+  }
+
+  return result;
 }
 
 /**
@@ -194,30 +348,8 @@ async function executeGetSchema(
   }
 
   try {
-    let schema: ProcessedSchema | null = null;
-
-    // Try to get schema from cache first (if we have a connectionId)
-    if (context.connectionId) {
-      const cachedSchema = await getCachedSchema(context.env.SESSIONS, context.connectionId);
-      if (cachedSchema) {
-        logger.debug('Using cached schema', { connectionId: context.connectionId, requestId: context.requestId });
-        schema = cachedSchema;
-      }
-    }
-
-    // If not cached, extract from Neo4j
-    if (!schema) {
-      schema = await extractSchema(context.neo4jClient, sampleSize);
-
-      // Cache the schema for future requests
-      if (context.connectionId) {
-        await cacheSchema(context.env.SESSIONS, context.connectionId, schema);
-        logger.debug('Schema cached', { connectionId: context.connectionId, requestId: context.requestId });
-      }
-    }
-
-    // Sanitize the schema (remove any large/irrelevant data)
-    const sanitizedSchema = sanitize(schema) as ProcessedSchema;
+    // Get schema from cache or extract it, sanitized and redacted
+    const { schema: sanitizedSchema, redactions } = await loadSanitizedSchema(context, sampleSize);
 
     // Format for LLM consumption
     const formattedSchema = formatSchemaForLLM(sanitizedSchema);
@@ -227,16 +359,20 @@ async function executeGetSchema(
     const tokenResult = truncateToTokens(formattedSchema, { maxTokens: tokenLimit });
 
     if (tokenResult.truncated) {
-      logger.info('Schema response truncated due to token limit', {
+      logToClient(context, 'notice', 'Schema truncated to fit the token limit', {
+        tool: TOOL_NAMES.GET_SCHEMA,
         originalTokens: tokenResult.originalTokens,
         finalTokens: tokenResult.finalTokens,
         tokenLimit,
-        requestId: context.requestId,
       });
     }
 
-    return createToolResult(tokenResult.text);
+    return createToolResult(tokenResult.text, false, { ...sanitizedSchema, ...(redactions && { redactions }) });
   } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      throw error;
+    }
+
     logger.error('Schema extraction failed', {
       error: error instanceof Error ? error.message : String(error),
       requestId: context.requestId,
@@ -252,6 +388,268 @@ async function executeGetSchema(
   }
 }
 
+/**
+ * Rows of a read query result that a page is taken from
+ */
+interface ReadResultSource {
+  columns: string[];
+  /** Total rows in the result */
+  rowCount: number;
+  /** Position of the first row in `rows` */
+  offset: number;
+  /** Rows from `offset` to the end of the result */
+  rows: Record<string, unknown>[];
+  /** Whether the result itself was cut short */
+  truncated: boolean;
+  /** Values redacted in the whole result, if any */
+  redactions?: RedactionCounts;
+}
+
+/**
+ * Get the page_size argument of read_neo4j_cypher
+ */
+function getPageSizeParam(args: Record<string, unknown> | undefined): number | undefined {
+  const pageSize = getOptionalNumberParam(args, 'page_size');
+  if (pageSize !== undefined && (!Number.isInteger(pageSize) || pageSize < 1)) {
+    throw new InvalidParamsError('Parameter page_size must be a positive integer');
+  }
+  return pageSize;
+}
+
+/**
+ * Get the format argument of read_neo4j_cypher
+ */
+function getOutputFormatParam(args: Record<string, unknown> | undefined): OutputFormat | undefined {
+  const format = getOptionalStringParam(args, 'format');
+  if (format !== undefined && !isOutputFormat(format)) {
+    throw new InvalidParamsError(`Parameter format must be one of ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return format;
+}
+
+/**
+ * Build a read_neo4j_cypher result from one page of rows
+ *
+ * The page holds at most `pageSize` rows, and only whole rows that fit
+ * the token limit in the chosen format. If rows are left over, they are
+ * stored under a cursor (unless they already are) and the result
+ * carries `nextCursor`.
+ *
+ * @param source - Result rows
+ * @param position - Position of the first row of the page
+ * @param pageSize - Maximum rows per page (unlimited if undefined)
+ * @param format - Encoding of the text content
+ * @param context - Handler context
+ * @param cursor - Stored cursor the rows come from, if any
+ */
+async function createReadResult(
+  source: ReadResultSource,
+  position: number,
+  pageSize: number | undefined,
+  format: OutputFormat,
+  context: HandlerContext,
+  cursor?: QueryCursor
+): Promise<McpToolResult> {
+  const tokenLimit = context.tokenLimit ?? DEFAULTS.TOKEN_LIMIT;
+  const start = position - source.offset;
+  const candidates = source.rows.slice(start, pageSize ? start + pageSize : undefined);
+
+  // Whole rows only; always at least one so paging makes progress
+  // Measured as sent; the margin of truncateRowsToTokens covers nextCursor
+  const fitted = truncateRowsToTokens(
+    candidates,
+    { maxTokens: tokenLimit },
+    rows => formatResult({ columns: source.columns, rowCount: source.rowCount, rows, truncated: true }, format)
+  );
+  const pageRows = fitted.rows.length > 0 ? fitted.rows : candidates.slice(0, 1);
+  const end = position + pageRows.length;
+  const hasMore = end < source.offset + source.rows.length;
+
+  let nextCursor: string | undefined;
+  if (hasMore && context.userId) {
+    const stored = cursor ?? await createQueryCursor(context.env.SESSIONS, {
+      userId: context.userId,
+      connectionId: context.connectionId,
+      columns: source.columns,
+      rowCount: source.rowCount,
+      offset: end,
+      rows: source.rows.slice(start + pageRows.length),
+      truncated: source.truncated,
+      ...(source.redactions && { redactions: source.redactions }),
+      pageSize,
+      format,
+    });
+    nextCursor = encodeCursor(stored.id, end);
+  }
+
+  const truncated = source.truncated || hasMore;
+  const output = {
+    columns: source.columns,
+    rowCount: source.rowCount,
+    rows: pageRows,
+    ...(truncated && { truncated: true }),
+    ...(nextCursor && { nextCursor }),
+    ...(source.redactions && { redactions: source.redactions }),
+  };
+
+  // A single oversized row can still exceed the limit
+  const tokenResult = truncateToTokens(formatResult(output, format), { maxTokens: tokenLimit });
+
+  if (fitted.truncated || tokenResult.truncated) {
+    logToClient(context, 'notice', 'Query results truncated to fit the token limit', {
+      tool: TOOL_NAMES.READ_CYPHER,
+      rowCount: source.rowCount,
+      returnedRows: pageRows.length,
+      hasNextCursor: !!nextCursor,
+      tokenLimit,
+    });
+  }
+
+  const structuredContent = {
+    columns: source.columns,
+    rowCount: source.rowCount,
+    returnedRows: pageRows.length,
+    rows: pageRows,
+    truncated,
+    ...(nextCursor && { nextCursor }),
+    ...(source.redactions && { redactions: source.redactions }),
+  };
+
+  return createToolResult(tokenResult.text, false, structuredContent);
+}
+
+/**
+ * Return the next page of a read_neo4j_cypher result
+ *
+ * @throws InvalidParamsError if the cursor is unknown, expired or not the caller's
+ */
+async function readCursorPage(
+  cursorString: string,
+  pageSize: number | undefined,
+  format: OutputFormat | undefined,
+  context: HandlerContext
+): Promise<McpToolResult> {
+  const position = decodeCursor(cursorString);
+  const cursor = position && context.userId
+    ? await getQueryCursor(context.env.SESSIONS, position.id, context.userId)
+    : null;
+
+  if (
+    !position ||
+    !cursor ||
+    (cursor.connectionId && cursor.connectionId !== context.connectionId) ||
+    position.position < cursor.offset ||
+    position.position > cursor.offset + cursor.rows.length
+  ) {
+    throw new InvalidParamsError('Invalid or expired cursor. Run the query again to get a new one.');
+  }
+
+  logger.info('Reading read_neo4j_cypher page', {
+    position: position.position,
+    rowCount: cursor.rowCount,
+    requestId: context.requestId,
+  });
+
+  return createReadResult(
+    cursor,
+    position.position,
+    pageSize ?? cursor.pageSize,
+    format ?? cursor.format ?? 'json',
+    context,
+    cursor
+  );
+}
+
+/**
+ * Get the result_format argument of read_neo4j_cypher
+ */
+function getResultFormatParam(args: Record<string, unknown> | undefined): 'rows' | 'graph' {
+  const format = getOptionalStringParam(args, 'result_format', 'rows');
+  if (format !== 'rows' && format !== 'graph') {
+    throw new InvalidParamsError('Parameter result_format must be rows or graph');
+  }
+  return format;
+}
+
+/**
+ * Build a read_neo4j_cypher result in the graph format
+ *
+ * If the graph does not fit the token limit, nodes are cut first (to
+ * at most half the limit) and only relationships between the nodes
+ * that were kept are returned, so no relationship points at a missing
+ * node.
+ */
+function createGraphResult(
+  result: GraphQueryResult,
+  format: 'json' | 'compact_json',
+  context: HandlerContext
+): McpToolResult {
+  const tokenLimit = context.tokenLimit ?? DEFAULTS.TOKEN_LIMIT;
+  const redaction = createRedaction(context.redactionRules);
+
+  const nodes = result.nodes.map(node => ({
+    ...node,
+    properties: sanitizeProperties(node.properties, node.labels, { redaction }),
+  }));
+  const relationships = result.relationships.map(rel => ({
+    ...rel,
+    properties: sanitizeProperties(rel.properties, [rel.type], { redaction }),
+  }));
+  const redactions = getRedactionCounts(redaction);
+
+  let fittedNodes = nodes;
+  let fittedRelationships = relationships;
+  const encode = (value: unknown) => encodeJson(value, format);
+
+  if (estimateDataTokens(encode({ nodes, relationships })) > tokenLimit) {
+    const nodeFit = truncateRowsToTokens(nodes, {
+      maxTokens: relationships.length > 0 ? Math.floor(tokenLimit / 2) : tokenLimit,
+    }, encode);
+    fittedNodes = nodeFit.rows;
+
+    const keptIds = new Set(fittedNodes.map(node => node.id));
+    const connected = nodeFit.truncated
+      ? relationships.filter(rel => keptIds.has(rel.startNodeId) && keptIds.has(rel.endNodeId))
+      : relationships;
+    fittedRelationships = truncateRowsToTokens(connected, {
+      maxTokens: Math.max(tokenLimit - nodeFit.finalTokens, 0),
+    }, encode).rows;
+
+    logToClient(context, 'notice', 'Graph truncated to fit the token limit', {
+      tool: TOOL_NAMES.READ_CYPHER,
+      nodeCount: nodes.length,
+      returnedNodes: fittedNodes.length,
+      relationshipCount: relationships.length,
+      returnedRelationships: fittedRelationships.length,
+      tokenLimit,
+    });
+  }
+
+  const truncated = (result.truncated ?? false) ||
+    fittedNodes.length < nodes.length ||
+    fittedRelationships.length < relationships.length;
+  const output = {
+    columns: result.columns,
+    rowCount: result.rowCount,
+    nodes: fittedNodes,
+    relationships: fittedRelationships,
+    ...(truncated && { truncated: true }),
+    ...(redactions && { redactions }),
+  };
+
+  return createToolResult(encode(output), false, { ...output, truncated });
+}
+
+/**
+ * Tell the client a read query returned more rows than the row limit
+ */
+function logRowLimit(context: HandlerContext, maxRows: number): void {
+  logToClient(context, 'notice', 'Query results truncated to the row limit; add a LIMIT to choose the rows', {
+    tool: TOOL_NAMES.READ_CYPHER,
+    maxRows,
+  });
+}
+
 /**
  * Execute read_neo4j_cypher tool
  */
@@ -259,6 +657,24 @@ async function executeReadCypher(
   args: Record<string, unknown> | undefined,
   context: HandlerContext
 ): Promise<McpToolResult> {
+  const pageSize = getPageSizeParam(args);
+  const cursor = getOptionalStringParam(args, 'cursor');
+  const resultFormat = getResultFormatParam(args);
+  const format = getOutputFormatParam(args);
+
+  // A graph is returned whole, so it has no pages, and it is not a table
+  if (resultFormat === 'graph' && (pageSize !== undefined || cursor)) {
+    throw new InvalidParamsError('Parameters page_size and cursor are only available with result_format rows');
+  }
+  if (resultFormat === 'graph' && format && isTabularFormat(format)) {
+    throw new InvalidParamsError('Graph results can only be formatted as json or compact_json');
+  }
+
+  // Later pages come from the stored result, not from Neo4j
+  if (cursor) {
+    return readCursorPage(cursor, pageSize, format, context);
+  }
+
   if (!args || typeof args.query !== 'string') {
     throw new InvalidParamsError('Missing required parameter: query');
   }
@@ -273,18 +689,21 @@ async function executeReadCypher(
   });
 
   // Security validation
-  const securityCheck = validateQuery(query);
+  const securityCheck = validateQuery(query, context.queryPolicy);
   if (!securityCheck.valid) {
     logger.warn('Query blocked by security validation', {
       error: securityCheck.error,
       requestId: context.requestId,
     });
-    throw new ValidationError(securityCheck.error ?? 'Query blocked for security reasons');
+    throw new ValidationError(
+      securityCheck.error ?? 'Query blocked for security reasons',
+      securityCheck.violation && { violation: securityCheck.violation }
+    );
   }
 
-  // Log warnings if any
-  if (securityCheck.warnings.length > 0) {
-    logger.info('Query warnings', { warnings: securityCheck.warnings, requestId: context.requestId });
+  // Pass warnings on to the client
+  for (const warning of securityCheck.warnings) {
+    logToClient(context, 'warning', warning, { tool: TOOL_NAMES.READ_CYPHER });
   }
 
   // Sanitize parameters
@@ -316,52 +735,173 @@ async function executeReadCypher(
   }
 
   try {
-    // Execute read query
-    const result = await executeReadQuery(
-      context.neo4jClient,
-      query,
-      params,
-      { timeout: context.timeout ?? DEFAULTS.READ_TIMEOUT }
+    const queryOptions = { timeout: context.timeout ?? DEFAULTS.READ_TIMEOUT, signal: context.signal };
+    const maxRows = context.maxRows ?? DEFAULTS.MAX_ROWS;
+
+    // Limited to maxRows unless it has a LIMIT of its own; one row more shows truncation
+    const limitedQuery = limitReadQuery(query, maxRows + 1);
+    const rowLimit = limitedQuery !== query ? maxRows : undefined;
+
+    // Reject expensive plans before running the query, planning the text that runs
+    if (context.costBudget) {
+      await enforceCostBudget(context.neo4jClient, limitedQuery, params, context.costBudget, queryOptions);
+    }
+
+    if (resultFormat === 'graph') {
+      const graph = await executeGraphReadQuery(context.neo4jClient, limitedQuery, params, queryOptions, rowLimit);
+      if (graph.truncated) {
+        logRowLimit(context, maxRows);
+      }
+      return createGraphResult(graph, format === 'compact_json' ? 'compact_json' : 'json', context);
+    }
+
+    const result = await executeReadQuery(context.neo4jClient, limitedQuery, params, queryOptions, rowLimit);
+    if (result.truncated) {
+      logRowLimit(context, maxRows);
+    }
+
+    // Sanitize the results (filter embeddings, large lists, etc.) and redact personal data
+    const redaction = createRedaction(context.redactionRules);
+    const sanitizedRows = sanitizeNeo4jResults(result.rows, { redaction }) as Record<string, unknown>[];
+    const redactions = getRedactionCounts(redaction);
+
+    return await createReadResult(
+      {
+        columns: result.columns,
+        rowCount: result.rowCount,
+        offset: 0,
+        rows: sanitizedRows,
+        truncated: result.truncated ?? false,
+        ...(redactions && { redactions }),
+      },
+      0,
+      pageSize,
+      format ?? 'json',
+      context
     );
+  } catch (error) {
+    if (error instanceof RequestCancelledError || error instanceof ValidationError) {
+      throw error;
+    }
 
-    // Sanitize the results (filter embeddings, large lists, etc.)
-    const sanitizedRows = sanitizeNeo4jResults(result.rows);
+    logger.error('Read query failed', {
+      error: error instanceof Error ? error.message : String(error),
+      requestId: context.requestId,
+    });
 
-    // Format result
-    const output = {
-      columns: result.columns,
-      rowCount: result.rowCount,
-      rows: sanitizedRows,
-      ...(result.truncated && { truncated: true }),
-    };
+    return createToolResult(
+      JSON.stringify({
+        error: 'Query execution failed',
+        message: error instanceof Error ? error.message : String(error),
+        query: query.substring(0, 100) + (query.length > 100 ? '...' : ''),
+      }, null, 2),
+      true
+    );
+  }
+}
+
+/**
+ * Execute explain_neo4j_cypher tool
+ */
+async function executeExplainCypher(
+  args: Record<string, unknown> | undefined,
+  context: HandlerContext
+): Promise<McpToolResult> {
+  if (!args || typeof args.query !== 'string') {
+    throw new InvalidParamsError('Missing required parameter: query');
+  }
+
+  const query = stripPlanPrefix(args.query);
+  const rawParams = getOptionalObjectParam(args, 'params');
+  const mode = getOptionalStringParam(args, 'mode', 'EXPLAIN')?.toUpperCase();
+  if (mode !== 'EXPLAIN' && mode !== 'PROFILE') {
+    throw new InvalidParamsError('Parameter mode must be EXPLAIN or PROFILE');
+  }
 
-    // Convert to JSON string
-    let jsonOutput = JSON.stringify(output, null, 2);
+  logger.info('Executing explain_neo4j_cypher', {
+    mode,
+    queryLength: query.length,
+    hasParams: !!rawParams,
+    requestId: context.requestId,
+  });
+
+  // Security validation
+  const securityCheck = validateQuery(query, context.queryPolicy);
+  if (!securityCheck.valid) {
+    logger.warn('Query blocked by security validation', {
+      error: securityCheck.error,
+      requestId: context.requestId,
+    });
+    throw new ValidationError(
+      securityCheck.error ?? 'Query blocked for security reasons',
+      securityCheck.violation && { violation: securityCheck.violation }
+    );
+  }
+
+  // Sanitize parameters
+  const params = sanitizeParameters(rawParams);
+
+  // Validate query syntax
+  const syntaxCheck = validateCypherSyntax(query);
+  if (!syntaxCheck.valid) {
+    throw new ValidationError(syntaxCheck.error ?? 'Invalid query syntax');
+  }
+
+  // PROFILE runs the query, so it must not write
+  if (mode === 'PROFILE' && isWriteQuery(query)) {
+    throw new ValidationError(
+      'PROFILE runs the query, so it is only allowed for read queries. Use mode EXPLAIN to plan a write query without running it.'
+    );
+  }
+
+  // Check if Neo4j client is available
+  if (!context.neo4jClient) {
+    return createToolResult(
+      JSON.stringify({
+        error: 'No Neo4j connection configured',
+        message: 'Please configure your Neo4j connection via the setup endpoint first.',
+        query: query.substring(0, 100) + (query.length > 100 ? '...' : ''),
+      }, null, 2),
+      true
+    );
+  }
+
+  try {
+    const summary = await explainQuery(
+      context.neo4jClient,
+      query,
+      params,
+      mode,
+      { timeout: context.timeout ?? DEFAULTS.READ_TIMEOUT, signal: context.signal }
+    );
 
     // Apply token limit truncation if configured
     const tokenLimit = context.tokenLimit ?? DEFAULTS.TOKEN_LIMIT;
-    const tokenResult = truncateToTokens(jsonOutput, { maxTokens: tokenLimit });
+    const tokenResult = truncateToTokens(formatPlanForLLM(summary), { maxTokens: tokenLimit });
 
     if (tokenResult.truncated) {
-      logger.info('Response truncated due to token limit', {
+      logToClient(context, 'notice', 'Query plan truncated to fit the token limit', {
+        tool: TOOL_NAMES.EXPLAIN_CYPHER,
         originalTokens: tokenResult.originalTokens,
         finalTokens: tokenResult.finalTokens,
         tokenLimit,
-        requestId: context.requestId,
       });
-      jsonOutput = tokenResult.text;
     }
 
-    return createToolResult(jsonOutput);
+    return createToolResult(tokenResult.text, false, { ...summary });
   } catch (error) {
-    logger.error('Read query failed', {
+    if (error instanceof RequestCancelledError || error instanceof ValidationError) {
+      throw error;
+    }
+
+    logger.error('Query planning failed', {
       error: error instanceof Error ? error.message : String(error),
       requestId: context.requestId,
     });
 
     return createToolResult(
       JSON.stringify({
-        error: 'Query execution failed',
+        error: 'Query planning failed',
         message: error instanceof Error ? error.message : String(error),
         query: query.substring(0, 100) + (query.length > 100 ? '...' : ''),
       }, null, 2),
@@ -370,6 +910,69 @@ async function executeReadCypher(
   }
 }
 
+/**
+ * Store the bookmarks of a committed write on the MCP session
+ *
+ * Later requests in the session send them with their queries, so a
+ * read routed to another cluster member still sees the write. Failing
+ * to store them only weakens consistency, so errors are logged.
+ */
+async function saveSessionBookmarks(context: HandlerContext): Promise<void> {
+  if (!context.sessionId || !context.neo4jClient) {
+    return;
+  }
+
+  try {
+    const bookmarks = context.neo4jClient.getBookmarks();
+    if (bookmarks.length > 0) {
+      await updateMcpSession(context.env.SESSIONS, context.sessionId, { bookmarks });
+    }
+  } catch (error) {
+    logger.warn('Failed to store session bookmarks', {
+      error: error instanceof Error ? error.message : String(error),
+      requestId: context.requestId,
+    });
+  }
+}
+
+/**
+ * Build a write_neo4j_cypher result for a dry run
+ *
+ * Sample rows are sanitized and redacted like read results and cut to
+ * the token limit.
+ */
+function createDryRunResult(result: DryRunWriteResult, context: HandlerContext): McpToolResult {
+  let sample: (QueryResult & { redactions?: RedactionCounts }) | undefined;
+
+  if (result.sample) {
+    const tokenLimit = context.tokenLimit ?? DEFAULTS.TOKEN_LIMIT;
+    const redaction = createRedaction(context.redactionRules);
+    const sanitizedRows = sanitizeNeo4jResults(result.sample.rows, { redaction }) as Record<string, unknown>[];
+    const fitted = truncateRowsToTokens(sanitizedRows, { maxTokens: tokenLimit });
+    const redactions = getRedactionCounts(redaction);
+
+    sample = {
+      columns: result.sample.columns,
+      rowCount: result.sample.rowCount,
+      rows: fitted.rows,
+      truncated: (result.sample.truncated ?? false) || fitted.truncated,
+      ...(redactions && { redactions }),
+    };
+  }
+
+  const output = {
+    success: true,
+    dryRun: true,
+    persisted: false,
+    message: 'Dry run: the query ran in a transaction that was rolled back. Nothing was persisted.',
+    summary: result.summary,
+    counters: result.counters,
+    ...(sample && { sample }),
+  };
+
+  return createToolResult(JSON.stringify(output, null, 2), false, output);
+}
+
 /**
  * Execute write_neo4j_cypher tool
  */
@@ -394,26 +997,40 @@ async function executeWriteCypher(
 
   const query = args.query;
   const rawParams = getOptionalObjectParam(args, 'params');
+  const dryRun = getOptionalBooleanParam(args, 'dry_run', false) ?? false;
+  const sampleSize = getOptionalNumberParam(args, 'sample_size', 0) ?? 0;
+  if (!Number.isInteger(sampleSize) || sampleSize < 0 || sampleSize > DEFAULTS.MAX_DRY_RUN_SAMPLE_SIZE) {
+    throw new InvalidParamsError(
+      `Parameter sample_size must be an integer from 0 to ${DEFAULTS.MAX_DRY_RUN_SAMPLE_SIZE}`
+    );
+  }
+  if (sampleSize > 0 && !dryRun) {
+    throw new InvalidParamsError('Parameter sample_size is only allowed with dry_run');
+  }
 
   logger.info('Executing write_neo4j_cypher', {
     queryLength: query.length,
     hasParams: !!rawParams,
+    dryRun,
     requestId: context.requestId,
   });
 
   // Security validation
-  const securityCheck = validateQuery(query);
+  const securityCheck = validateQuery(query, context.queryPolicy);
   if (!securityCheck.valid) {
     logger.warn('Query blocked by security validation', {
       error: securityCheck.error,
       requestId: context.requestId,
     });
-    throw new ValidationError(securityCheck.error ?? 'Query blocked for security reasons');
+    throw new ValidationError(
+      securityCheck.error ?? 'Query blocked for security reasons',
+      securityCheck.violation && { violation: securityCheck.violation }
+    );
   }
 
-  // Log warnings if any
-  if (securityCheck.warnings.length > 0) {
-    logger.info('Query warnings', { warnings: securityCheck.warnings, requestId: context.requestId });
+  // Pass warnings on to the client
+  for (const warning of securityCheck.warnings) {
+    logToClient(context, 'warning', warning, { tool: TOOL_NAMES.WRITE_CYPHER });
   }
 
   // Sanitize parameters
@@ -438,13 +1055,18 @@ async function executeWriteCypher(
   }
 
   try {
+    const queryOptions = { timeout: context.timeout ?? DEFAULTS.READ_TIMEOUT, signal: context.signal };
+
+    if (dryRun) {
+      return await createDryRunResult(
+        await dryRunWriteQuery(context.neo4jClient, query, params, queryOptions, sampleSize),
+        context
+      );
+    }
+
     // Execute write query
-    const result = await executeWriteQuery(
-      context.neo4jClient,
-      query,
-      params,
-      { timeout: context.timeout ?? DEFAULTS.READ_TIMEOUT }
-    );
+    const result = await executeWriteQuery(context.neo4jClient, query, params, queryOptions);
+    await saveSessionBookmarks(context);
 
     // Format result
     const output = {
@@ -453,8 +1075,12 @@ async function executeWriteCypher(
       counters: result.counters,
     };
 
-    return createToolResult(JSON.stringify(output, null, 2));
+    return createToolResult(JSON.stringify(output, null, 2), false, output);
   } catch (error) {
+    if (error instanceof RequestCancelledError || error instanceof ValidationError) {
+      throw error;
+    }
+
     logger.error('Write query failed', {
       error: error instanceof Error ? error.message : String(error),
       requestId: context.requestId,
@@ -471,10 +1097,322 @@ async function executeWriteCypher(
   }
 }
 
+/**
+ * Validate the statements argument of write_neo4j_cypher_batch
+ *
+ * Each statement gets the same checks as a write_neo4j_cypher query.
+ *
+ * @returns Statements with sanitized parameters
+ * @throws InvalidParamsError or ValidationError naming the statement
+ */
+function getWriteStatements(
+  args: Record<string, unknown> | undefined,
+  context: HandlerContext
+): WriteStatement[] {
+  const statements = args?.statements;
+  if (!Array.isArray(statements) || statements.length === 0) {
+    throw new InvalidParamsError('Missing required parameter: statements (a non-empty array)');
+  }
+  if (statements.length > DEFAULTS.MAX_TRANSACTION_STATEMENTS) {
+    throw new InvalidParamsError(
+      `Too many statements: ${statements.length} (maximum ${DEFAULTS.MAX_TRANSACTION_STATEMENTS})`
+    );
+  }
+
+  return statements.map((statement: unknown, index) => {
+    const label = `statements[${index}]`;
+
+    if (typeof statement !== 'object' || statement === null || Array.isArray(statement)) {
+      throw new InvalidParamsError(`${label} must be an object with a query`);
+    }
+
+    const fields = statement as Record<string, unknown>;
+    if (typeof fields.query !== 'string') {
+      throw new InvalidParamsError(`Missing required parameter: ${label}.query`);
+    }
+
+    const query = fields.query;
+    const rawParams = getOptionalObjectParam(fields, 'params');
+
+    // Security validation
+    const securityCheck = validateQuery(query, context.queryPolicy);
+    if (!securityCheck.valid) {
+      logger.warn('Query blocked by security validation', {
+        error: securityCheck.error,
+        statement: index,
+        requestId: context.requestId,
+      });
+      throw new ValidationError(
+        `${label}: ${securityCheck.error ?? 'Query blocked for security reasons'}`,
+        securityCheck.violation && { violation: securityCheck.violation, statement: index }
+      );
+    }
+
+    // Pass warnings on to the client
+    for (const warning of securityCheck.warnings) {
+      logToClient(context, 'warning', warning, { tool: TOOL_NAMES.WRITE_CYPHER_BATCH, statement: index });
+    }
+
+    // Validate query syntax
+    const syntaxCheck = validateCypherSyntax(query);
+    if (!syntaxCheck.valid) {
+      throw new ValidationError(`${label}: ${syntaxCheck.error ?? 'Invalid query syntax'}`);
+    }
+
+    return { query, params: sanitizeParameters(rawParams) };
+  });
+}
+
+/**
+ * Execute write_neo4j_cypher_batch tool
+ */
+async function executeWriteCypherBatch(
+  args: Record<string, unknown> | undefined,
+  context: HandlerContext
+): Promise<McpToolResult> {
+  // Check if writes are allowed
+  if (context.readOnly) {
+    return createToolResult(
+      JSON.stringify({
+        error: 'Write operations disabled',
+        message: 'This connection is configured as read-only. Write operations are not permitted.',
+      }, null, 2),
+      true
+    );
+  }
+
+  const statements = getWriteStatements(args, context);
+
+  logger.info('Executing write_neo4j_cypher_batch', {
+    statements: statements.length,
+    requestId: context.requestId,
+  });
+
+  // Check if Neo4j client is available
+  if (!context.neo4jClient) {
+    return createToolResult(
+      JSON.stringify({
+        error: 'No Neo4j connection configured',
+        message: 'Please configure your Neo4j connection via the setup endpoint first.',
+      }, null, 2),
+      true
+    );
+  }
+
+  try {
+    const result = await executeWriteTransaction(
+      context.neo4jClient,
+      statements,
+      { timeout: context.timeout ?? DEFAULTS.READ_TIMEOUT, signal: context.signal }
+    );
+    await saveSessionBookmarks(context);
+
+    // Format result
+    const output = {
+      success: true,
+      summary: result.summary,
+      counters: result.counters,
+      statements: result.statements,
+    };
+
+    return createToolResult(JSON.stringify(output, null, 2), false, output);
+  } catch (error) {
+    if (error instanceof RequestCancelledError || error instanceof ValidationError) {
+      throw error;
+    }
+
+    logger.error('Write transaction failed', {
+      error: error instanceof Error ? error.message : String(error),
+      requestId: context.requestId,
+    });
+
+    return createToolResult(
+      JSON.stringify({
+        error: 'Transaction rolled back',
+        message: error instanceof Error ? error.message : String(error),
+      }, null, 2),
+      true
+    );
+  }
+}
+
+/**
+ * Handle resources/list request
+ *
+ * Lists the full schema resource plus one resource per label and
+ * relationship type. Returns nothing when no Neo4j connection is configured.
+ */
+export async function handleResourcesList(
+  _request: JsonRpcRequest,
+  context: HandlerContext
+): Promise<McpResourcesListResult> {
+  if (!context.neo4jClient) {
+    return { resources: [] };
+  }
+
+  const { schema } = await loadSanitizedSchema(context);
+  const resources = getSchemaResources(schema);
+
+  logger.info('MCP Resources List', { resourceCount: resources.length, requestId: context.requestId });
+
+  return { resources };
+}
+
+/**
+ * Handle resources/templates/list request
+ */
+export function handleResourceTemplatesList(
+  _request: JsonRpcRequest,
+  _context: HandlerContext
+): McpResourceTemplatesListResult {
+  return {
+    resourceTemplates: schemaResourceTemplates,
+  };
+}
+
+/**
+ * Handle resources/read request
+ */
+export async function handleResourcesRead(
+  request: JsonRpcRequest,
+  context: HandlerContext
+): Promise<McpResourceReadResult> {
+  const uri = getRequiredStringParam(request.params, 'uri');
+
+  logger.info('MCP Resource Read', { uri, requestId: context.requestId });
+
+  return readSchemaResource(uri, context);
+}
+
+/**
+ * Handle resources/subscribe and resources/unsubscribe requests
+ *
+ * Subscriptions are tracked per MCP session (or per connection for
+ * clients that do not use sessions); subscribers receive
+ * notifications/resources/updated when the cached schema is refreshed,
+ * whichever session's request refreshed it.
+ */
+export async function handleResourcesSubscription(
+  request: JsonRpcRequest,
+  context: HandlerContext,
+  subscribe: boolean
+): Promise<Record<string, never>> {
+  const uri = getRequiredStringParam(request.params, 'uri');
+
+  if (!parseResourceUri(uri)) {
+    throw new InvalidParamsError(`Resource not found: ${uri}`);
+  }
+
+  const subscriberId = getSubscriberId(context);
+  if (!subscriberId) {
+    throw new InvalidParamsError('Resource subscriptions require an MCP session or an authenticated connection');
+  }
+
+  const kv = context.env.SESSIONS;
+  if (subscribe) {
+    await addSubscription(kv, subscriberId, uri);
+  } else {
+    await removeSubscription(kv, subscriberId, uri);
+  }
+
+  // Sessions are indexed by connection, so a refresh from any session reaches them all
+  if (context.sessionId && context.connectionId) {
+    if ((await getSubscriptions(kv, context.sessionId)).length > 0) {
+      await addSubscriber(kv, context.connectionId, context.sessionId);
+    } else {
+      await removeSubscriber(kv, context.connectionId, context.sessionId);
+    }
+  }
+
+  logger.info(subscribe ? 'MCP Resource Subscribe' : 'MCP Resource Unsubscribe', {
+    uri,
+    requestId: context.requestId,
+  });
+
+  return {};
+}
+
+/**
+ * Handle prompts/list request
+ */
+export function handlePromptsList(
+  _request: JsonRpcRequest,
+  _context: HandlerContext
+): McpPromptsListResult {
+  return {
+    prompts: getAllPrompts(),
+  };
+}
+
+/**
+ * Handle prompts/get request
+ *
+ * Renders the prompt with the live schema of the connected database.
+ * Falls back to a schema-less prompt if the schema cannot be loaded.
+ */
+export async function handlePromptsGet(
+  request: JsonRpcRequest,
+  context: HandlerContext
+): Promise<McpPromptGetResult> {
+  const { name, arguments: args } = validatePromptGetParams(request.params);
+
+  logger.info('MCP Prompt Get', { prompt: name, requestId: context.requestId });
+
+  let schemaText: string | null = null;
+
+  if (context.neo4jClient) {
+    try {
+      const { schema } = await loadSanitizedSchema(context);
+      const tokenLimit = context.tokenLimit ?? DEFAULTS.TOKEN_LIMIT;
+      schemaText = truncateToTokens(formatSchemaForLLM(schema), { maxTokens: tokenLimit }).text;
+    } catch (error) {
+      logger.warn('Schema unavailable for prompt', {
+        prompt: name,
+        error: error instanceof Error ? error.message : String(error),
+        requestId: context.requestId,
+      });
+    }
+  }
+
+  return renderPrompt(name, args, schemaText);
+}
+
+/**
+ * Handle completion/complete request
+ *
+ * Only available from the protocol revision that introduced completions.
+ */
+export async function handleCompletionComplete(
+  request: JsonRpcRequest,
+  context: HandlerContext
+): Promise<McpCompleteResult> {
+  if (!supportsFeature(context.protocolVersion, 'completions')) {
+    throw new MethodNotFoundError(request.method);
+  }
+
+  const params = validateCompleteParams(request.params);
+
+  logger.info('MCP Completion', {
+    ref: params.ref,
+    argument: params.argument.name,
+    requestId: context.requestId,
+  });
+
+  return completeArgument(params, context);
+}
+
 /**
  * Create a tool result with text content
+ *
+ * @param text - Text content (the fallback for clients without structured output)
+ * @param isError - Whether the tool call failed
+ * @param structuredContent - Typed result matching the tool's outputSchema
  */
-function createToolResult(text: string, isError: boolean = false): McpToolResult {
+function createToolResult(
+  text: string,
+  isError: boolean = false,
+  structuredContent?: Record<string, unknown>
+): McpToolResult {
   const content: McpToolResultContent[] = [
     {
       type: 'text',
@@ -484,16 +1422,74 @@ function createToolResult(text: string, isError: boolean = false): McpToolResult
 
   return {
     content,
+    ...(structuredContent && { structuredContent }),
     ...(isError && { isError: true }),
   };
 }
 
+/**
+ * Handle logging/setLevel request
+ *
+ * Stores the level on the MCP session, so it applies to every later
+ * request of the session.
+ */
+export async function handleSetLogLevel(
+  request: JsonRpcRequest,
+  context: HandlerContext
+): Promise<Record<string, never>> {
+  const level = getRequiredStringParam(request.params, 'level');
+  if (!isMcpLogLevel(level)) {
+    throw new InvalidParamsError(`Invalid log level: ${level}`);
+  }
+
+  if (!context.sessionId) {
+    throw new InvalidParamsError('Setting the log level requires an MCP session');
+  }
+
+  const session = await updateMcpSession(context.env.SESSIONS, context.sessionId, { logLevel: level });
+  if (!session) {
+    throw new InvalidParamsError('MCP session not found');
+  }
+
+  context.logLevel = level;
+  logger.info('MCP Log Level', { level, requestId: context.requestId });
+
+  return {};
+}
+
 /**
  * Route a request to the appropriate handler
+ *
+ * Requests are tracked while they run so the client can cancel them,
+ * except for initialize, which the protocol forbids cancelling.
  */
 export async function routeRequest(
   request: JsonRpcRequest,
   context: HandlerContext
+): Promise<HandlerResult> {
+  if (request.id === null || request.method === MCP_METHODS.INITIALIZE) {
+    return dispatchRequest(request, context);
+  }
+
+  const tracked = trackRequest(context.env.CANCELLATIONS, getRequestScope(context), request.id);
+
+  try {
+    return await dispatchRequest(request, {
+      ...context,
+      signal: tracked.signal,
+      reportProgress: createProgressReporter(context, getProgressToken(request)),
+    });
+  } finally {
+    tracked.done();
+  }
+}
+
+/**
+ * Dispatch a request to its handler
+ */
+async function dispatchRequest(
+  request: JsonRpcRequest,
+  context: HandlerContext
 ): Promise<HandlerResult> {
   const { method } = request;
 
@@ -513,9 +1509,40 @@ export async function routeRequest(
         const result = await handleToolsCall(request, context);
         return { type: 'response', result };
 
+      case MCP_METHODS.RESOURCES_LIST:
+        return { type: 'response', result: await handleResourcesList(request, context) };
+
+      case MCP_METHODS.RESOURCES_TEMPLATES_LIST:
+        return { type: 'response', result: handleResourceTemplatesList(request, context) };
+
+      case MCP_METHODS.RESOURCES_READ:
+        return { type: 'response', result: await handleResourcesRead(request, context) };
+
+      case MCP_METHODS.RESOURCES_SUBSCRIBE:
+        return { type: 'response', result: await handleResourcesSubscription(request, context, true) };
+
+      case MCP_METHODS.RESOURCES_UNSUBSCRIBE:
+        return { type: 'response', result: await handleResourcesSubscription(request, context, false) };
+
+      case MCP_METHODS.PROMPTS_LIST:
+        return { type: 'response', result: handlePromptsList(request, context) };
+
+      case MCP_METHODS.PROMPTS_GET:
+        return { type: 'response', result: await handlePromptsGet(request, context) };
+
       case MCP_METHODS.PING:
         return { type: 'response', result: {} };
 
+      case MCP_METHODS.CANCELLED:
+        await handleCancelled(request, context);
+        return { type: 'notification' };
+
+      case MCP_METHODS.LOGGING_SET_LEVEL:
+        return { type: 'response', result: await handleSetLogLevel(request, context) };
+
+      case MCP_METHODS.COMPLETION_COMPLETE:
+        return { type: 'response', result: await handleCompletionComplete(request, context) };
+
       default:
         throw new MethodNotFoundError(method);
     }
@@ -0,0 +1,87 @@
+/**
+ * MCP Logging
+ *
+ * Forwards selected log entries to the client as notifications/message,
+ * filtered by the level the client chose with logging/setLevel. Every
+ * forwarded entry is also written to the structured server log.
+ */
+
+import type { McpLogLevel } from '../types.js';
+import type { HandlerContext } from './handlers.js';
+import { DEFAULTS, MCP_LOG_LEVELS, MCP_METHODS, SERVER_NAME } from '../config/constants.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Check if a value is a valid MCP log level
+ */
+export function isMcpLogLevel(value: unknown): value is McpLogLevel {
+  return typeof value === 'string' && (MCP_LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Write an entry to the server log at the closest matching level
+ */
+function writeServerLog(level: McpLogLevel, message: string, data?: Record<string, unknown>): void {
+  switch (level) {
+    case 'debug':
+      logger.debug(message, data);
+      break;
+    case 'info':
+    case 'notice':
+      logger.info(message, data);
+      break;
+    case 'warning':
+      logger.warn(message, data);
+      break;
+    default:
+      logger.error(message, data);
+  }
+}
+
+/**
+ * Forward a log message to the MCP client without writing the server log
+ *
+ * For entries the caller already logged. The client receives the message
+ * only if its level is at or above the client's chosen level and the
+ * transport can deliver notifications.
+ *
+ * @param context - Handler context
+ * @param level - Severity
+ * @param message - Human-readable message
+ * @param data - Structured details, sent along with the message
+ */
+export function notifyClient(
+  context: HandlerContext,
+  level: McpLogLevel,
+  message: string,
+  data?: Record<string, unknown>
+): void {
+  const minimumLevel: McpLogLevel = context.logLevel ?? DEFAULTS.MCP_LOG_LEVEL;
+  if (!context.sendNotification || MCP_LOG_LEVELS.indexOf(level) < MCP_LOG_LEVELS.indexOf(minimumLevel)) {
+    return;
+  }
+
+  context.sendNotification(MCP_METHODS.LOG_MESSAGE, {
+    level,
+    logger: SERVER_NAME,
+    data: { message, ...data },
+  });
+}
+
+/**
+ * Log a message and forward it to the MCP client
+ *
+ * @param context - Handler context
+ * @param level - Severity
+ * @param message - Human-readable message
+ * @param data - Structured details, sent along with the message
+ */
+export function logToClient(
+  context: HandlerContext,
+  level: McpLogLevel,
+  message: string,
+  data?: Record<string, unknown>
+): void {
+  writeServerLog(level, message, { requestId: context.requestId, ...data });
+  notifyClient(context, level, message, data);
+}
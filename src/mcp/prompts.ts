@@ -0,0 +1,186 @@
+/**
+ * MCP Prompts Definition
+ *
+ * Built-in prompt templates for common graph tasks:
+ * - explore_label: Explore the nodes and neighbourhood of a label
+ * - find_shortest_path: Find the shortest path between two nodes
+ * - explain_query: Explain what a query does and how it will perform
+ * - question_to_cypher: Translate a natural-language question into Cypher
+ *
+ * Rendered prompts embed the live schema of the connected database
+ * so the model already knows its labels and relationship types.
+ */
+
+import type { McpPrompt, McpPromptGetResult } from '../types.js';
+import { PROMPT_NAMES, TOOL_NAMES } from '../config/constants.js';
+import { InvalidParamsError } from '../utils/errors.js';
+
+/**
+ * Prompt template: definition plus renderer
+ */
+interface PromptTemplate {
+  definition: McpPrompt;
+  render: (args: Record<string, string>) => string;
+}
+
+/**
+ * Prompt: explore_label
+ */
+const exploreLabelPrompt: PromptTemplate = {
+  definition: {
+    name: PROMPT_NAMES.EXPLORE_LABEL,
+    description: 'Explore the nodes of a label: their properties, typical values and how they connect to the rest of the graph.',
+    arguments: [
+      { name: 'label', description: 'Node label to explore', required: true },
+      { name: 'sample_size', description: 'Number of sample nodes to inspect (default: 10)', required: false },
+      { name: 'property', description: 'Property to look at in more detail (optional)', required: false },
+    ],
+  },
+  render: (args) => [
+    `Explore the nodes labelled \`${args.label}\` in the connected Neo4j database.`,
+    '',
+    `1. Count the nodes and look at ${args.sample_size ?? '10'} sample nodes with ${TOOL_NAMES.READ_CYPHER}.`,
+    '2. Summarise their properties, including which ones are always present and their typical values.',
+    '3. List the relationship types connecting them to other labels, with counts per direction.',
+    '4. Point out anything unusual, such as missing properties, orphan nodes or very high-degree nodes.',
+    ...(args.property
+      ? [`5. Describe the distribution of \`${args.property}\`: how often it is set, its distinct values and any outliers.`]
+      : []),
+  ].join('\n'),
+};
+
+/**
+ * Prompt: find_shortest_path
+ */
+const shortestPathPrompt: PromptTemplate = {
+  definition: {
+    name: PROMPT_NAMES.SHORTEST_PATH,
+    description: 'Find the shortest path between two nodes and explain how they are connected.',
+    arguments: [
+      { name: 'from', description: 'Start node, e.g. "Person with name Alice"', required: true },
+      { name: 'to', description: 'End node, e.g. "Company with name Acme"', required: true },
+      { name: 'max_hops', description: 'Maximum path length (default: 6)', required: false },
+    ],
+  },
+  render: (args) => [
+    `Find the shortest path between ${args.from} and ${args.to} in the connected Neo4j database.`,
+    '',
+    '1. Write MATCH clauses that identify each endpoint using the labels and properties in the schema, and check that each matches exactly one node.',
+    `2. Use \`shortestPath()\` with an upper bound of ${args.max_hops ?? '6'} hops, and run the query with ${TOOL_NAMES.READ_CYPHER}.`,
+    '3. Describe the path step by step, naming each intermediate node and relationship.',
+    '4. If no path exists within the bound, say so instead of raising the limit.',
+  ].join('\n'),
+};
+
+/**
+ * Prompt: explain_query
+ */
+const explainQueryPrompt: PromptTemplate = {
+  definition: {
+    name: PROMPT_NAMES.EXPLAIN_QUERY,
+    description: 'Explain what a Cypher query does and review its likely performance against the schema.',
+    arguments: [
+      { name: 'query', description: 'The Cypher query to explain', required: true },
+    ],
+  },
+  render: (args) => [
+    'Explain the following Cypher query:',
+    '',
+    '```cypher',
+    args.query ?? '',
+    '```',
+    '',
+    '1. Describe in plain language what the query returns or changes.',
+    '2. Check every label, relationship type and property against the schema and flag any that do not exist.',
+    '3. Identify likely performance problems: label scans without indexes, Cartesian products, unbounded variable-length patterns or missing LIMITs.',
+    '4. Suggest a rewritten query if it can be improved.',
+  ].join('\n'),
+};
+
+/**
+ * Prompt: question_to_cypher
+ */
+const questionToCypherPrompt: PromptTemplate = {
+  definition: {
+    name: PROMPT_NAMES.QUESTION_TO_CYPHER,
+    description: 'Translate a natural-language question into a read-only Cypher query and answer it.',
+    arguments: [
+      { name: 'question', description: 'The question to answer from the graph', required: true },
+    ],
+  },
+  render: (args) => [
+    `Answer this question from the connected Neo4j database: ${args.question}`,
+    '',
+    '1. Write a read-only Cypher query that uses only labels, relationship types and properties from the schema.',
+    '2. Use parameters ($name) for literal values and add a LIMIT.',
+    `3. Run it with ${TOOL_NAMES.READ_CYPHER} and answer the question from the results.`,
+    '4. Show the query you ran.',
+  ].join('\n'),
+};
+
+/**
+ * All prompt templates, in listing order
+ */
+const PROMPT_TEMPLATES: PromptTemplate[] = [
+  exploreLabelPrompt,
+  shortestPathPrompt,
+  explainQueryPrompt,
+  questionToCypherPrompt,
+];
+
+/**
+ * Get all prompt definitions
+ */
+export function getAllPrompts(): McpPrompt[] {
+  return PROMPT_TEMPLATES.map(template => template.definition);
+}
+
+/**
+ * Get a prompt definition by name
+ */
+export function getPromptByName(name: string): McpPrompt | undefined {
+  return PROMPT_TEMPLATES.find(template => template.definition.name === name)?.definition;
+}
+
+/**
+ * Render a prompt
+ *
+ * @param name - Prompt name
+ * @param args - Prompt arguments (string values only, per MCP)
+ * @param schema - Formatted schema of the connected database, or null if unavailable
+ * @returns Prompt messages
+ * @throws InvalidParamsError if the prompt is unknown or a required argument is missing
+ */
+export function renderPrompt(
+  name: string,
+  args: Record<string, string>,
+  schema: string | null
+): McpPromptGetResult {
+  const template = PROMPT_TEMPLATES.find(t => t.definition.name === name);
+  if (!template) {
+    throw new InvalidParamsError(`Unknown prompt: ${name}`);
+  }
+
+  for (const arg of template.definition.arguments ?? []) {
+    if (arg.required && !args[arg.name]) {
+      throw new InvalidParamsError(`Missing required argument for prompt ${name}: ${arg.name}`);
+    }
+  }
+
+  const schemaSection = schema
+    ? `Schema of the connected database:\n\n${schema}`
+    : `The database schema is not available yet. Call ${TOOL_NAMES.GET_SCHEMA} first.`;
+
+  return {
+    description: template.definition.description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: `${template.render(args)}\n\n---\n\n${schemaSection}`,
+        },
+      },
+    ],
+  };
+}
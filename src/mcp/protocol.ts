@@ -11,8 +11,9 @@ import type {
   JsonRpcSuccessResponse,
   JsonRpcErrorResponse,
   JsonRpcError,
+  McpCompleteParams,
 } from '../types.js';
-import { ParseError, InvalidRequestError, InvalidParamsError } from '../utils/errors.js';
+import { ParseError, InvalidRequestError, InvalidParamsError, McpError, toMcpError } from '../utils/errors.js';
 
 /**
  * Validate and parse a JSON-RPC 2.0 request
@@ -55,6 +56,43 @@ export function parseJsonRpcRequest(body: unknown): JsonRpcRequest {
   };
 }
 
+/**
+ * Check if a request body is a JSON-RPC batch
+ */
+export function isBatchRequest(body: unknown): body is unknown[] {
+  return Array.isArray(body);
+}
+
+/**
+ * Validate and parse a JSON-RPC 2.0 batch
+ *
+ * Each entry is parsed independently: invalid entries are returned as
+ * errors (paired with their id, if one could be read) so that the rest
+ * of the batch can still be processed.
+ *
+ * @throws InvalidRequestError if the batch is empty
+ */
+export function parseJsonRpcBatch(
+  body: unknown[]
+): Array<JsonRpcRequest | { id: string | number | null; error: McpError }> {
+  if (body.length === 0) {
+    throw new InvalidRequestError('Batch must contain at least one request');
+  }
+
+  return body.map(entry => {
+    try {
+      return parseJsonRpcRequest(entry);
+    } catch (error) {
+      const rawId = typeof entry === 'object' && entry !== null ? (entry as Record<string, unknown>).id : null;
+      const id = typeof rawId === 'string' || typeof rawId === 'number' ? rawId : null;
+      const mcpError = toMcpError(error);
+
+      // A non-object entry is an invalid request, not a parse error of the whole body
+      return { id, error: mcpError instanceof ParseError ? new InvalidRequestError(mcpError.message) : mcpError };
+    }
+  });
+}
+
 /**
  * Check if request is a notification (no id means no response expected)
  */
@@ -167,6 +205,23 @@ export function getOptionalNumberParam(
   return params[name] as number;
 }
 
+/**
+ * Extract an optional boolean parameter from params
+ */
+export function getOptionalBooleanParam(
+  params: Record<string, unknown> | undefined,
+  name: string,
+  defaultValue?: boolean
+): boolean | undefined {
+  if (!params || params[name] === undefined) {
+    return defaultValue;
+  }
+  if (typeof params[name] !== 'boolean') {
+    throw new InvalidParamsError(`Parameter ${name} must be a boolean`);
+  }
+  return params[name] as boolean;
+}
+
 /**
  * Extract an optional object parameter from params
  */
@@ -208,3 +263,85 @@ export function validateToolCallParams(
     arguments: args as Record<string, unknown> | undefined,
   };
 }
+
+/**
+ * Validate prompts/get params structure
+ */
+export function validatePromptGetParams(
+  params: Record<string, unknown> | undefined
+): { name: string; arguments: Record<string, string> } {
+  if (!params) {
+    throw new InvalidParamsError('Missing params for prompts/get');
+  }
+
+  const name = params.name;
+  if (typeof name !== 'string' || name.length === 0) {
+    throw new InvalidParamsError('Prompt name must be a non-empty string');
+  }
+
+  const args = params.arguments;
+  if (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) {
+    throw new InvalidParamsError('Prompt arguments must be an object');
+  }
+
+  const stringArgs: Record<string, string> = {};
+  for (const [key, value] of Object.entries((args ?? {}) as Record<string, unknown>)) {
+    if (typeof value !== 'string') {
+      throw new InvalidParamsError(`Prompt argument ${key} must be a string`);
+    }
+    stringArgs[key] = value;
+  }
+
+  return { name, arguments: stringArgs };
+}
+
+/**
+ * Validate completion/complete params structure
+ */
+export function validateCompleteParams(
+  params: Record<string, unknown> | undefined
+): McpCompleteParams {
+  if (!params) {
+    throw new InvalidParamsError('Missing params for completion/complete');
+  }
+
+  const ref = params.ref as Record<string, unknown> | undefined;
+  if (typeof ref !== 'object' || ref === null) {
+    throw new InvalidParamsError('Completion ref must be an object');
+  }
+
+  let validRef: McpCompleteParams['ref'];
+  if (ref.type === 'ref/prompt' && typeof ref.name === 'string') {
+    validRef = { type: 'ref/prompt', name: ref.name };
+  } else if (ref.type === 'ref/resource' && typeof ref.uri === 'string') {
+    validRef = { type: 'ref/resource', uri: ref.uri };
+  } else {
+    throw new InvalidParamsError('Completion ref must be a ref/prompt with a name or a ref/resource with a uri');
+  }
+
+  const argument = params.argument as Record<string, unknown> | undefined;
+  if (
+    typeof argument !== 'object' ||
+    argument === null ||
+    typeof argument.name !== 'string' ||
+    typeof argument.value !== 'string'
+  ) {
+    throw new InvalidParamsError('Completion argument must have a string name and value');
+  }
+
+  const contextArgs = (params.context as Record<string, unknown> | undefined)?.arguments;
+  const stringArgs: Record<string, string> = {};
+  if (typeof contextArgs === 'object' && contextArgs !== null && !Array.isArray(contextArgs)) {
+    for (const [key, value] of Object.entries(contextArgs)) {
+      if (typeof value === 'string') {
+        stringArgs[key] = value;
+      }
+    }
+  }
+
+  return {
+    ref: validRef,
+    argument: { name: argument.name, value: argument.value },
+    context: { arguments: stringArgs },
+  };
+}
@@ -0,0 +1,314 @@
+/**
+ * In-flight Request Tracking
+ *
+ * Tracks running requests by JSON-RPC id so that notifications/cancelled
+ * can abort them, and turns progress tokens into notifications/progress.
+ *
+ * A cancellation usually reaches the Worker isolate running the request
+ * and aborts it at once. When it lands on another isolate, it is posted
+ * to the scope's CancellationChannel Durable Object, which passes it on
+ * to the isolate running the request.
+ */
+
+import type { JsonRpcRequest } from '../types.js';
+import type { ProgressCallback } from '../neo4j/types.js';
+import type { HandlerContext } from './handlers.js';
+import { DEFAULTS, MCP_METHODS } from '../config/constants.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * URL of a CancellationChannel; Durable Objects only look at method and body
+ */
+const CHANNEL_URL = 'https://cancellations.internal/';
+
+/**
+ * Cancellation passed on by a CancellationChannel
+ */
+interface Cancellation {
+  /** Request ID (see getChannelId) */
+  id: string;
+  /** When the channel received it, in milliseconds since the epoch */
+  at: number;
+}
+
+/**
+ * Abort controllers of running requests in this isolate, keyed by scope and request ID
+ */
+const inFlight = new Map<string, AbortController>();
+
+/**
+ * Build the ID a request is known by within its scope
+ *
+ * Keeps numeric and string IDs apart.
+ */
+function getChannelId(id: string | number): string {
+  return `${typeof id}:${id}`;
+}
+
+/**
+ * Build the key a request is tracked under
+ *
+ * Scoped so that one client cannot cancel another client's requests.
+ */
+function getRequestKey(scope: string, id: string | number): string {
+  return `${scope}:${getChannelId(id)}`;
+}
+
+/**
+ * Get the CancellationChannel of a scope
+ */
+function getChannel(channels: DurableObjectNamespace, scope: string): DurableObjectStub {
+  return channels.get(channels.idFromName(scope));
+}
+
+/**
+ * Get the scope requests are tracked in
+ *
+ * The MCP session when the client uses one, otherwise the user.
+ */
+export function getRequestScope(context: HandlerContext): string | undefined {
+  return context.sessionId ?? context.userId;
+}
+
+/**
+ * Durable Object that passes cancellations between Worker isolates
+ *
+ * There is one per request scope. An isolate whose request is still
+ * running after DEFAULTS.CANCEL_LISTEN_DELAY listens on it, and an
+ * isolate that receives a cancellation for a request it is not running
+ * posts it here. Cancellations are kept for DEFAULTS.CANCEL_RETENTION
+ * so that a listener connecting after them still sees them.
+ */
+export class CancellationChannel {
+  private readonly encoder = new TextEncoder();
+  private readonly listeners = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+  private recent: Cancellation[] = [];
+
+  /**
+   * POST records a cancellation (body `{ id }`) and passes it to every
+   * listener; GET opens a stream of cancellations as JSON lines.
+   */
+  async fetch(request: Request): Promise<Response> {
+    const now = Date.now();
+    this.recent = this.recent.filter(cancellation => now - cancellation.at < DEFAULTS.CANCEL_RETENTION * 1000);
+
+    if (request.method === 'POST') {
+      const { id } = await request.json<{ id: string }>();
+      const cancellation: Cancellation = { id, at: now };
+      this.recent.push(cancellation);
+
+      for (const listener of this.listeners) {
+        this.send(listener, cancellation);
+      }
+      return new Response(null, { status: 204 });
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const listener = writable.getWriter();
+    this.listeners.add(listener);
+    // Closed when the listening isolate goes away
+    listener.closed.catch(() => this.listeners.delete(listener));
+
+    for (const cancellation of this.recent) {
+      this.send(listener, cancellation);
+    }
+    return new Response(readable, { headers: { 'Content-Type': 'application/x-ndjson' } });
+  }
+
+  /**
+   * Write a cancellation to a listener
+   */
+  private send(listener: WritableStreamDefaultWriter<Uint8Array>, cancellation: Cancellation): void {
+    listener.write(this.encoder.encode(`${JSON.stringify(cancellation)}\n`)).catch(() => {
+      this.listeners.delete(listener);
+    });
+  }
+}
+
+/**
+ * Wait for another isolate to cancel a request
+ *
+ * @param since - When the request started; earlier cancellations were
+ *   meant for an earlier request with the same ID
+ * @param signal - Stops listening
+ * @returns Whether the request was cancelled; false if listening stopped first
+ */
+async function listenForCancellation(
+  channels: DurableObjectNamespace,
+  scope: string,
+  id: string | number,
+  since: number,
+  signal: AbortSignal
+): Promise<boolean> {
+  const response = await getChannel(channels, scope).fetch(CHANNEL_URL, { signal });
+  if (!response.body) {
+    return false;
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  signal.addEventListener('abort', () => reader.cancel().catch(() => {}), { once: true });
+
+  const channelId = getChannelId(id);
+  let pending = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return false;
+    }
+
+    const lines = (pending + value).split('\n');
+    pending = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const cancellation = JSON.parse(line) as Cancellation;
+      if (cancellation.id === channelId && cancellation.at >= since) {
+        return true;
+      }
+    }
+  }
+}
+
+/**
+ * Start tracking a request
+ *
+ * A request still running after DEFAULTS.CANCEL_LISTEN_DELAY also
+ * listens for cancellations that reached another isolate. Requests
+ * without a scope get a signal but cannot be cancelled.
+ *
+ * @param channels - CancellationChannel namespace binding
+ * @param scope - Request scope (see getRequestScope)
+ * @param id - JSON-RPC request ID
+ * @returns Signal that fires on cancellation, and a callback to stop tracking
+ */
+export function trackRequest(
+  channels: DurableObjectNamespace,
+  scope: string | undefined,
+  id: string | number
+): { signal: AbortSignal; done: () => void } {
+  const controller = new AbortController();
+
+  if (scope === undefined) {
+    return { signal: controller.signal, done: () => {} };
+  }
+
+  const key = getRequestKey(scope, id);
+  inFlight.set(key, controller);
+
+  const startedAt = Date.now();
+  const listening = new AbortController();
+
+  // Most requests finish before anyone could cancel them, so only slow ones listen
+  const listen = setTimeout(() => {
+    listenForCancellation(channels, scope, id, startedAt, listening.signal)
+      .then(cancelled => {
+        if (cancelled && !controller.signal.aborted) {
+          logger.debug('Request cancelled from another instance', { scope, id });
+          controller.abort();
+        }
+      })
+      .catch(() => {
+        // Stopped listening, or the channel failed; the request runs on
+      });
+  }, DEFAULTS.CANCEL_LISTEN_DELAY * 1000);
+
+  return {
+    signal: controller.signal,
+    done: () => {
+      clearTimeout(listen);
+      listening.abort();
+
+      // A later request may have reused the ID
+      if (inFlight.get(key) === controller) {
+        inFlight.delete(key);
+      }
+    },
+  };
+}
+
+/**
+ * Cancel a running request
+ *
+ * Aborts the request if it runs in this isolate; otherwise posts the
+ * cancellation to the scope's CancellationChannel for the isolate
+ * running it.
+ *
+ * @param channels - CancellationChannel namespace binding
+ * @param scope - Request scope (see getRequestScope)
+ * @param id - JSON-RPC ID of the request to cancel
+ * @returns Whether a running request was found in this isolate and aborted
+ */
+export async function cancelRequest(
+  channels: DurableObjectNamespace,
+  scope: string | undefined,
+  id: string | number
+): Promise<boolean> {
+  if (scope === undefined) {
+    return false;
+  }
+
+  const key = getRequestKey(scope, id);
+  const controller = inFlight.get(key);
+  if (controller) {
+    controller.abort();
+    inFlight.delete(key);
+    return true;
+  }
+
+  await getChannel(channels, scope).fetch(CHANNEL_URL, {
+    method: 'POST',
+    body: JSON.stringify({ id: getChannelId(id) }),
+  });
+  return false;
+}
+
+/**
+ * Get the progress token from a request's _meta, if any
+ */
+export function getProgressToken(request: JsonRpcRequest): string | number | undefined {
+  const meta = request.params?._meta;
+  if (typeof meta !== 'object' || meta === null) {
+    return undefined;
+  }
+
+  const token = (meta as Record<string, unknown>).progressToken;
+  return typeof token === 'string' || typeof token === 'number' ? token : undefined;
+}
+
+/**
+ * Create a progress callback that sends notifications/progress
+ *
+ * Progress must increase with every notification, so stale or repeated
+ * values are dropped.
+ *
+ * @param context - Handler context (needs sendNotification)
+ * @param progressToken - Token from the request's _meta
+ * @returns Callback, or undefined if progress cannot be reported
+ */
+export function createProgressReporter(
+  context: HandlerContext,
+  progressToken: string | number | undefined
+): ProgressCallback | undefined {
+  const send = context.sendNotification;
+  if (progressToken === undefined || !send) {
+    return undefined;
+  }
+
+  let last = -Infinity;
+
+  return (progress, total, message) => {
+    if (progress <= last) {
+      return;
+    }
+    last = progress;
+
+    logger.debug('Reporting progress', { progress, total, requestId: context.requestId });
+
+    send(MCP_METHODS.PROGRESS, {
+      progressToken,
+      progress,
+      ...(total !== undefined && { total }),
+      ...(message !== undefined && { message }),
+    });
+  };
+}
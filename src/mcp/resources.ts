@@ -0,0 +1,192 @@
+/**
+ * MCP Resources Definition
+ *
+ * Publishes the graph schema as MCP resources so clients can attach
+ * it as context without spending a tool call:
+ * - neo4j://schema: Full schema formatted for LLM consumption
+ * - neo4j://schema/label/{label}: Detail for a single node label
+ * - neo4j://schema/relationship/{type}: Detail for a single relationship type
+ */
+
+import type {
+  McpResource,
+  McpResourceTemplate,
+  McpResourceReadResult,
+} from '../types.js';
+import type { ProcessedSchema } from '../neo4j/types.js';
+import { RESOURCE_URIS, CONTENT_TYPES, DEFAULTS } from '../config/constants.js';
+import { InvalidParamsError } from '../utils/errors.js';
+import { formatSchemaForLLM } from '../neo4j/schema.js';
+import { truncateToTokens } from '../utils/tokens.js';
+import type { HandlerContext } from './handlers.js';
+import { loadSanitizedSchema } from './schema-loader.js';
+import { logToClient } from './logging.js';
+
+/**
+ * Parsed schema resource URI
+ */
+export type SchemaResourceRef =
+  | { kind: 'schema' }
+  | { kind: 'label'; name: string }
+  | { kind: 'relationship'; name: string };
+
+/**
+ * Resource: neo4j://schema
+ */
+export const schemaResourceDefinition: McpResource = {
+  uri: RESOURCE_URIS.SCHEMA,
+  name: 'Graph schema',
+  description: 'Node labels, relationship types and their properties for the connected Neo4j database.',
+  mimeType: CONTENT_TYPES.MARKDOWN,
+};
+
+/**
+ * Resource templates for per-label and per-relationship-type detail
+ */
+export const schemaResourceTemplates: McpResourceTemplate[] = [
+  {
+    uriTemplate: `${RESOURCE_URIS.LABEL_PREFIX}{label}`,
+    name: 'Node label schema',
+    description: 'Properties, counts and relationships for a single node label.',
+    mimeType: CONTENT_TYPES.JSON,
+  },
+  {
+    uriTemplate: `${RESOURCE_URIS.RELATIONSHIP_PREFIX}{type}`,
+    name: 'Relationship type schema',
+    description: 'Properties, counts and endpoint labels for a single relationship type.',
+    mimeType: CONTENT_TYPES.JSON,
+  },
+];
+
+/**
+ * Build the resource URI for a node label
+ */
+export function labelResourceUri(label: string): string {
+  return `${RESOURCE_URIS.LABEL_PREFIX}${encodeURIComponent(label)}`;
+}
+
+/**
+ * Build the resource URI for a relationship type
+ */
+export function relationshipResourceUri(type: string): string {
+  return `${RESOURCE_URIS.RELATIONSHIP_PREFIX}${encodeURIComponent(type)}`;
+}
+
+/**
+ * Parse a schema resource URI
+ *
+ * @returns Parsed reference, or null if the URI is not a schema resource
+ */
+export function parseResourceUri(uri: string): SchemaResourceRef | null {
+  if (uri === RESOURCE_URIS.SCHEMA) {
+    return { kind: 'schema' };
+  }
+
+  try {
+    if (uri.startsWith(RESOURCE_URIS.LABEL_PREFIX)) {
+      const name = decodeURIComponent(uri.slice(RESOURCE_URIS.LABEL_PREFIX.length));
+      return name ? { kind: 'label', name } : null;
+    }
+
+    if (uri.startsWith(RESOURCE_URIS.RELATIONSHIP_PREFIX)) {
+      const name = decodeURIComponent(uri.slice(RESOURCE_URIS.RELATIONSHIP_PREFIX.length));
+      return name ? { kind: 'relationship', name } : null;
+    }
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+
+  return null;
+}
+
+/**
+ * List concrete resources for a schema
+ *
+ * One resource for the full schema plus one per label and relationship type.
+ */
+export function getSchemaResources(schema: ProcessedSchema): McpResource[] {
+  const resources: McpResource[] = [schemaResourceDefinition];
+
+  for (const label of schema.labels) {
+    resources.push({
+      uri: labelResourceUri(label.name),
+      name: `Label: ${label.name}`,
+      description: `Schema for nodes labelled ${label.name}`,
+      mimeType: CONTENT_TYPES.JSON,
+    });
+  }
+
+  for (const relType of schema.relationshipTypes) {
+    resources.push({
+      uri: relationshipResourceUri(relType.name),
+      name: `Relationship: ${relType.name}`,
+      description: `Schema for ${relType.name} relationships`,
+      mimeType: CONTENT_TYPES.JSON,
+    });
+  }
+
+  return resources;
+}
+
+/**
+ * Read a schema resource
+ *
+ * @param uri - Resource URI
+ * @param context - Handler context (must have a Neo4j client)
+ * @returns Resource contents
+ * @throws InvalidParamsError if the URI is unknown or names a missing label/type
+ */
+export async function readSchemaResource(
+  uri: string,
+  context: HandlerContext
+): Promise<McpResourceReadResult> {
+  const ref = parseResourceUri(uri);
+  if (!ref) {
+    throw new InvalidParamsError(`Resource not found: ${uri}`);
+  }
+
+  const { schema } = await loadSanitizedSchema(context);
+
+  switch (ref.kind) {
+    case 'schema': {
+      const tokenLimit = context.tokenLimit ?? DEFAULTS.TOKEN_LIMIT;
+      const tokenResult = truncateToTokens(formatSchemaForLLM(schema), { maxTokens: tokenLimit });
+
+      if (tokenResult.truncated) {
+        logToClient(context, 'notice', 'Schema truncated to fit the token limit', {
+          uri,
+          originalTokens: tokenResult.originalTokens,
+          finalTokens: tokenResult.finalTokens,
+          tokenLimit,
+        });
+      }
+
+      return {
+        contents: [{ uri, mimeType: CONTENT_TYPES.MARKDOWN, text: tokenResult.text }],
+      };
+    }
+
+    case 'label': {
+      const label = schema.labels.find(l => l.name === ref.name);
+      if (!label) {
+        throw new InvalidParamsError(`Resource not found: unknown label "${ref.name}"`);
+      }
+
+      return {
+        contents: [{ uri, mimeType: CONTENT_TYPES.JSON, text: JSON.stringify(label, null, 2) }],
+      };
+    }
+
+    case 'relationship': {
+      const relType = schema.relationshipTypes.find(r => r.name === ref.name);
+      if (!relType) {
+        throw new InvalidParamsError(`Resource not found: unknown relationship type "${ref.name}"`);
+      }
+
+      return {
+        contents: [{ uri, mimeType: CONTENT_TYPES.JSON, text: JSON.stringify(relType, null, 2) }],
+      };
+    }
+  }
+}
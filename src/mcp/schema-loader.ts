@@ -0,0 +1,168 @@
+/**
+ * Schema Loader
+ *
+ * Shared cache-or-extract logic for the graph schema, used by the
+ * get_neo4j_schema tool and the schema resources. Notifies resource
+ * subscribers whenever the cached schema is refreshed.
+ *
+ * The cached schema is the full one; the connection's query policy and
+ * redaction rules are applied each time it is shown.
+ */
+
+import type { HandlerContext } from './handlers.js';
+import type { RedactionCounts } from '../types.js';
+import type { ProcessedSchema } from '../neo4j/types.js';
+import { DEFAULTS, MCP_METHODS, RESOURCE_URIS } from '../config/constants.js';
+import { Neo4jConnectionError } from '../utils/errors.js';
+import { extractSchema, generateSchemaSummary } from '../neo4j/schema.js';
+import { getCachedSchema, cacheSchema } from '../storage/cache.js';
+import { getSubscribers, getSubscriptions, removeSubscriber } from '../storage/subscriptions.js';
+import { enqueueSessionMessages, getMcpSession } from '../storage/mcp-sessions.js';
+import { sanitize } from '../utils/sanitize.js';
+import { createRedaction, getRedactionCounts, redactSchema } from '../security/redaction.js';
+import { filterSchemaByPolicy } from '../security/query-policy.js';
+import { notifyClient } from './logging.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Load the schema for the current connection
+ *
+ * Returns the cached schema when available, otherwise extracts it
+ * from Neo4j, caches it and notifies subscribers of the refresh.
+ *
+ * @param context - Handler context (must have a Neo4j client)
+ * @param sampleSize - Sample size for schema extraction
+ * @returns Processed schema
+ */
+export async function loadSchema(
+  context: HandlerContext,
+  sampleSize: number = context.schemaSampleSize ?? DEFAULTS.SCHEMA_SAMPLE_SIZE
+): Promise<ProcessedSchema> {
+  if (!context.neo4jClient) {
+    throw new Neo4jConnectionError(
+      'No Neo4j connection configured. Please configure your Neo4j connection via the setup endpoint first.'
+    );
+  }
+
+  // Try to get schema from cache first (if we have a connectionId)
+  if (context.connectionId) {
+    const cachedSchema = await getCachedSchema(context.env.SESSIONS, context.connectionId);
+    if (cachedSchema) {
+      logger.debug('Using cached schema', { connectionId: context.connectionId, requestId: context.requestId });
+      return cachedSchema;
+    }
+  }
+
+  // If not cached, extract from Neo4j
+  const schema = await extractSchema(context.neo4jClient, sampleSize, {
+    signal: context.signal,
+    onProgress: context.reportProgress,
+    onWarning: (message, details) => notifyClient(context, 'warning', message, details),
+  });
+
+  // Cache the schema for future requests
+  if (context.connectionId) {
+    await cacheSchema(context.env.SESSIONS, context.connectionId, schema);
+    logger.debug('Schema cached', { connectionId: context.connectionId, requestId: context.requestId });
+
+    await notifySchemaSubscribers(context, context.connectionId);
+  }
+
+  return schema;
+}
+
+/**
+ * Load the schema for the current connection, ready to show
+ *
+ * @param context - Handler context (must have a Neo4j client)
+ * @param sampleSize - Sample size for schema extraction
+ * @returns Schema, and the redaction counts if any property was redacted
+ */
+export async function loadSanitizedSchema(
+  context: HandlerContext,
+  sampleSize?: number
+): Promise<{ schema: ProcessedSchema; redactions?: RedactionCounts }> {
+  return prepareSchema(context, await loadSchema(context, sampleSize));
+}
+
+/**
+ * Prepare a loaded schema to be shown on the current connection
+ *
+ * Large data is sanitized away, labels and relationship types the
+ * query policy denies are left out, and the connection's redaction
+ * rules are applied: dropped properties are left out, hashed and
+ * masked ones are tagged. The summary is rebuilt to match.
+ *
+ * @param context - Handler context
+ * @param schema - Full schema, as cached
+ * @returns Schema, and the redaction counts if any property was redacted
+ */
+export function prepareSchema(
+  context: HandlerContext,
+  schema: ProcessedSchema
+): { schema: ProcessedSchema; redactions?: RedactionCounts } {
+  const sanitized = sanitize(schema) as ProcessedSchema;
+  const filtered = filterSchemaByPolicy(sanitized, context.queryPolicy);
+  const redaction = createRedaction(context.redactionRules);
+  if (filtered === sanitized && !redaction) {
+    return { schema: sanitized };
+  }
+
+  const prepared = redaction ? redactSchema(filtered, redaction) : filtered;
+  const redactions = redaction ? getRedactionCounts(redaction) : undefined;
+  prepared.summary = generateSchemaSummary(prepared.labels, prepared.relationshipTypes);
+  return { schema: prepared, ...(redactions && { redactions }) };
+}
+
+/**
+ * Get the ID that resource subscriptions are stored under
+ *
+ * The MCP session when the client uses one, otherwise the connection.
+ */
+export function getSubscriberId(context: HandlerContext): string | undefined {
+  return context.sessionId ?? context.connectionId;
+}
+
+/**
+ * Get the subscribed URIs that cover the schema
+ */
+async function getSchemaSubscriptions(kv: KVNamespace, subscriberId: string): Promise<string[]> {
+  const uris = await getSubscriptions(kv, subscriberId);
+  return uris.filter(uri => uri === RESOURCE_URIS.SCHEMA || uri.startsWith(`${RESOURCE_URIS.SCHEMA}/`));
+}
+
+/**
+ * Send notifications/resources/updated for every subscribed schema resource
+ *
+ * The subscriber making the request is notified on its own response;
+ * every other MCP session subscribed to the connection's schema gets
+ * the notifications queued for its GET event stream.
+ */
+async function notifySchemaSubscribers(context: HandlerContext, connectionId: string): Promise<void> {
+  const kv = context.env.SESSIONS;
+  const subscriberId = getSubscriberId(context);
+
+  if (subscriberId && context.sendNotification) {
+    for (const uri of await getSchemaSubscriptions(kv, subscriberId)) {
+      context.sendNotification(MCP_METHODS.RESOURCES_UPDATED, { uri });
+    }
+  }
+
+  for (const sessionId of await getSubscribers(kv, connectionId)) {
+    if (sessionId === context.sessionId && context.sendNotification) {
+      continue;
+    }
+
+    if (!(await getMcpSession(kv, sessionId))) {
+      await removeSubscriber(kv, connectionId, sessionId);
+      continue;
+    }
+
+    const uris = await getSchemaSubscriptions(kv, sessionId);
+    await enqueueSessionMessages(kv, sessionId, uris.map(uri => ({
+      jsonrpc: '2.0' as const,
+      method: MCP_METHODS.RESOURCES_UPDATED,
+      params: { uri },
+    })));
+  }
+}
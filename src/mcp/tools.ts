@@ -4,11 +4,258 @@
  * Defines the MCP tools available in this server:
  * - get_neo4j_schema: Retrieve database schema
  * - read_neo4j_cypher: Execute read-only Cypher queries
+ * - explain_neo4j_cypher: Show the query plan of a Cypher query
  * - write_neo4j_cypher: Execute write Cypher queries
  */
 
-import type { McpTool } from '../types.js';
+import type { McpTool, McpToolAnnotations, McpToolOutputSchema, McpToolProperty } from '../types.js';
 import { TOOL_NAMES, DEFAULTS } from '../config/constants.js';
+import { supportsFeature } from './versions.js';
+import { OUTPUT_FORMATS } from '../utils/formats.js';
+
+/**
+ * Output schema fragment: property of a label or relationship type
+ */
+const propertySchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    type: { type: 'string' },
+    indexed: { type: 'boolean' },
+    redacted: {
+      type: 'string',
+      enum: ['hash', 'mask', 'detect'],
+      description: 'How values of the property are redacted in results (absent if they are not)',
+    },
+  },
+  required: ['name', 'type'],
+};
+
+/**
+ * Output schema fragment: values redacted by the connection's redaction rules
+ */
+const redactionsSchema = {
+  type: 'object',
+  description: 'Number of values dropped, hashed or masked by redaction rules (present only if any were)',
+  properties: {
+    drop: { type: 'integer' },
+    hash: { type: 'integer' },
+    mask: { type: 'integer' },
+  },
+  required: ['drop', 'hash', 'mask'],
+};
+
+/**
+ * Output schema fragment: write counters reported by Neo4j
+ */
+const countersSchema = {
+  type: 'object',
+  description: 'Counters reported by Neo4j for the query',
+  additionalProperties: { type: ['integer', 'boolean'] },
+};
+
+/**
+ * Input schema fragment: query parameters, with the typed parameter convention
+ */
+const paramsSchema: McpToolProperty = {
+  type: 'object',
+  description:
+    'Optional parameters for the Cypher query. Use $paramName syntax in the query to reference parameters. ' +
+    'For values JSON cannot express, pass {"$type": ..., "value": ...}: ' +
+    'Date, Time, LocalTime, DateTime, OffsetDateTime, LocalDateTime, ZonedDateTime or Duration with an ISO 8601 string ' +
+    '(e.g. {"$type": "Date", "value": "2025-01-01"}), Point with {"srid", "x", "y", "z"}, ' +
+    'Integer with a string of digits for numbers beyond 2^53, or Float.',
+};
+
+/**
+ * Output schema: get_neo4j_schema
+ */
+const schemaOutputSchema: McpToolOutputSchema = {
+  type: 'object',
+  properties: {
+    labels: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          count: { type: 'integer' },
+          properties: { type: 'array', items: propertySchema },
+          outgoingRelationships: { type: 'array', items: { type: 'object' } },
+          incomingRelationships: { type: 'array', items: { type: 'object' } },
+        },
+        required: ['name', 'properties'],
+      },
+    },
+    relationshipTypes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          count: { type: 'integer' },
+          properties: { type: 'array', items: propertySchema },
+          startLabels: { type: 'array', items: { type: 'string' } },
+          endLabels: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['name', 'properties'],
+      },
+    },
+    summary: { type: 'string' },
+    redactions: redactionsSchema,
+  },
+  required: ['labels', 'relationshipTypes'],
+};
+
+/**
+ * Output schema: read_neo4j_cypher
+ */
+const readOutputSchema: McpToolOutputSchema = {
+  type: 'object',
+  properties: {
+    columns: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Column names, in RETURN order',
+    },
+    rowCount: {
+      type: 'integer',
+      description: 'Number of rows returned by the query',
+    },
+    returnedRows: {
+      type: 'integer',
+      description: 'Number of rows included in this result',
+    },
+    rows: {
+      type: 'array',
+      items: { type: 'object' },
+      description: 'Result rows keyed by column name',
+    },
+    truncated: {
+      type: 'boolean',
+      description: 'Whether rows were left out to respect row or token limits',
+    },
+    nextCursor: {
+      type: 'string',
+      description: 'Pass as cursor to get the next page (present only if more rows are available)',
+    },
+    nodes: {
+      type: 'array',
+      items: { type: 'object' },
+      description: 'Graph format only: distinct nodes as { id, labels, properties }',
+    },
+    relationships: {
+      type: 'array',
+      items: { type: 'object' },
+      description: 'Graph format only: distinct relationships as { id, type, startNodeId, endNodeId, properties }',
+    },
+    redactions: redactionsSchema,
+  },
+  required: ['columns', 'rowCount', 'truncated'],
+};
+
+/**
+ * Output schema fragment: operator of a query plan
+ */
+const planOperatorSchema = {
+  type: 'object',
+  properties: {
+    operator: { type: 'string' },
+    details: { type: 'string' },
+    estimatedRows: { type: 'integer' },
+    rows: { type: 'integer' },
+    dbHits: { type: 'integer' },
+    children: { type: 'array', items: { type: 'object' } },
+  },
+  required: ['operator', 'children'],
+};
+
+/**
+ * Output schema: explain_neo4j_cypher
+ */
+const explainOutputSchema: McpToolOutputSchema = {
+  type: 'object',
+  properties: {
+    mode: { type: 'string', enum: ['EXPLAIN', 'PROFILE'] },
+    root: planOperatorSchema,
+    estimatedRows: {
+      type: 'integer',
+      description: 'Estimated rows produced by the query',
+    },
+    totalDbHits: {
+      type: 'integer',
+      description: 'Database hits across all operators (PROFILE only)',
+    },
+    indexes: { type: 'array', items: { type: 'string' } },
+    warnings: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['mode', 'root', 'estimatedRows', 'indexes', 'warnings'],
+};
+
+/**
+ * Output schema: write_neo4j_cypher
+ */
+const writeOutputSchema: McpToolOutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    summary: {
+      type: 'string',
+      description: 'Human-readable summary of the changes',
+    },
+    counters: countersSchema,
+    dryRun: {
+      type: 'boolean',
+      description: 'Whether the query was rolled back instead of committed (dry runs only)',
+    },
+    persisted: {
+      type: 'boolean',
+      description: 'Whether the changes were saved (false for dry runs)',
+    },
+    message: { type: 'string' },
+    sample: {
+      type: 'object',
+      description: 'Rows returned by the query (dry runs with sample_size only)',
+      properties: {
+        columns: { type: 'array', items: { type: 'string' } },
+        rowCount: { type: 'integer' },
+        rows: { type: 'array', items: { type: 'object' } },
+        truncated: { type: 'boolean' },
+        redactions: redactionsSchema,
+      },
+      required: ['columns', 'rowCount', 'rows', 'truncated'],
+    },
+  },
+  required: ['success', 'summary', 'counters'],
+};
+
+/**
+ * Output schema: write_neo4j_cypher_batch
+ */
+const writeBatchOutputSchema: McpToolOutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    summary: {
+      type: 'string',
+      description: 'Human-readable summary of the changes of all statements',
+    },
+    counters: countersSchema,
+    statements: {
+      type: 'array',
+      description: 'Changes of each statement, in order',
+      items: {
+        type: 'object',
+        properties: {
+          summary: { type: 'string' },
+          counters: countersSchema,
+        },
+        required: ['summary', 'counters'],
+      },
+    },
+  },
+  required: ['success', 'summary', 'counters', 'statements'],
+};
 
 /**
  * Tool: get_neo4j_schema
@@ -18,6 +265,7 @@ import { TOOL_NAMES, DEFAULTS } from '../config/constants.js';
  */
 export const getSchemaToolDefinition: McpTool = {
   name: TOOL_NAMES.GET_SCHEMA,
+  title: 'Get Neo4j Schema',
   description: `Retrieve the schema of the Neo4j database. Returns information about node labels, their properties (with types), and relationships between them. Use this tool first to understand the database structure before writing queries.`,
   inputSchema: {
     type: 'object',
@@ -30,6 +278,12 @@ export const getSchemaToolDefinition: McpTool = {
     },
     required: [],
   },
+  outputSchema: schemaOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
 };
 
 /**
@@ -39,21 +293,79 @@ export const getSchemaToolDefinition: McpTool = {
  */
 export const readCypherToolDefinition: McpTool = {
   name: TOOL_NAMES.READ_CYPHER,
-  description: `Execute a read-only Cypher query against the Neo4j database. Use this for MATCH, RETURN, and other read operations. The query must not contain any write operations (CREATE, MERGE, DELETE, SET, REMOVE). Returns query results as JSON.`,
+  title: 'Read Neo4j Cypher',
+  description: `Execute a read-only Cypher query against the Neo4j database. Use this for MATCH, RETURN, and other read operations. The query must not contain any write operations (CREATE, MERGE, DELETE, SET, REMOVE). Returns query results as JSON. If not all rows fit, the result includes a nextCursor: call this tool again with only that cursor to get the next page. For queries returning paths or overlapping nodes, set result_format to graph to get each node and relationship once.`,
   inputSchema: {
     type: 'object',
     properties: {
       query: {
         type: 'string',
-        description: 'The Cypher query to execute. Must be a read-only query.',
+        description: 'The Cypher query to execute. Must be a read-only query. Required unless cursor is given.',
       },
-      params: {
-        type: 'object',
-        description: 'Optional parameters for the Cypher query. Use $paramName syntax in the query to reference parameters.',
+      params: paramsSchema,
+      page_size: {
+        type: 'number',
+        description: 'Maximum number of rows per page. Pages also stop at the token limit. Default: as many rows as fit',
+      },
+      cursor: {
+        type: 'string',
+        description: `nextCursor from a previous result, to get the next page of that result. Cursors expire after ${DEFAULTS.CURSOR_TTL / 60} minutes.`,
+      },
+      result_format: {
+        type: 'string',
+        enum: ['rows', 'graph'],
+        description: 'rows for one object per result row; graph for { nodes, relationships } with each node and relationship listed once and relationships referencing node ids. Values other than nodes and relationships are left out of graphs, and graphs are not paged. Default: rows',
+        default: 'rows',
+      },
+      format: {
+        type: 'string',
+        enum: [...OUTPUT_FORMATS],
+        description: 'Encoding of the result text. markdown and csv are the most compact for flat rows and fit more rows in the token limit; nested maps become one column per key. Graph results support only json and compact_json. Default: json, or the format of the first page for cursor calls',
+        default: 'json',
+      },
+    },
+    required: [],
+  },
+  outputSchema: readOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+};
+
+/**
+ * Tool: explain_neo4j_cypher
+ *
+ * Shows the execution plan of a Cypher query.
+ */
+export const explainCypherToolDefinition: McpTool = {
+  name: TOOL_NAMES.EXPLAIN_CYPHER,
+  title: 'Explain Neo4j Cypher',
+  description: `Show the execution plan of a Cypher query: the operator tree with estimated rows, the indexes used and warnings such as Cartesian products or label scans. Use this before running a query that may be expensive. EXPLAIN (the default) does not run the query. PROFILE runs it and adds actual rows and db hits, so it is only allowed for read-only queries.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'The Cypher query to plan.',
+      },
+      params: paramsSchema,
+      mode: {
+        type: 'string',
+        enum: ['EXPLAIN', 'PROFILE'],
+        description: 'EXPLAIN to plan without running the query, PROFILE to run it and measure. Default: EXPLAIN',
+        default: 'EXPLAIN',
       },
     },
     required: ['query'],
   },
+  outputSchema: explainOutputSchema,
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
 };
 
 /**
@@ -63,7 +375,8 @@ export const readCypherToolDefinition: McpTool = {
  */
 export const writeCypherToolDefinition: McpTool = {
   name: TOOL_NAMES.WRITE_CYPHER,
-  description: `Execute a write Cypher query against the Neo4j database. Use this for CREATE, MERGE, DELETE, SET, and REMOVE operations. Returns the count of affected nodes/relationships. This tool may be disabled if the connection is configured as read-only.`,
+  title: 'Write Neo4j Cypher',
+  description: `Execute a write Cypher query against the Neo4j database. Use this for CREATE, MERGE, DELETE, SET, and REMOVE operations. Returns the count of affected nodes/relationships. Set dry_run to preview what a query would change: it runs and is then rolled back, so nothing is saved. This tool may be disabled if the connection is configured as read-only.`,
   inputSchema: {
     type: 'object',
     properties: {
@@ -71,44 +384,170 @@ export const writeCypherToolDefinition: McpTool = {
         type: 'string',
         description: 'The Cypher query to execute. Should contain write operations.',
       },
-      params: {
-        type: 'object',
-        description: 'Optional parameters for the Cypher query. Use $paramName syntax in the query to reference parameters.',
+      params: paramsSchema,
+      dry_run: {
+        type: 'boolean',
+        description: 'Run the query in a transaction that is always rolled back and report what would change. Nothing is persisted. Default: false',
+        default: false,
+      },
+      sample_size: {
+        type: 'number',
+        description: `Dry runs only: number of rows returned by the query to include, to see which nodes or relationships would be affected (at most ${DEFAULTS.MAX_DRY_RUN_SAMPLE_SIZE}). Default: 0`,
       },
     },
     required: ['query'],
   },
+  outputSchema: writeOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+};
+
+/**
+ * Tool: write_neo4j_cypher_batch
+ *
+ * Executes several write Cypher queries in one transaction.
+ */
+export const writeCypherBatchToolDefinition: McpTool = {
+  name: TOOL_NAMES.WRITE_CYPHER_BATCH,
+  title: 'Write Neo4j Cypher Batch',
+  description: `Execute several write Cypher queries in order in one transaction. Either all of them are committed or, if one fails, none are. Use this for multi-step changes that must not be left half done, such as migrations. Returns the changes of each query and the total. At most ${DEFAULTS.MAX_TRANSACTION_STATEMENTS} queries per call. This tool may be disabled if the connection is configured as read-only.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      statements: {
+        type: 'array',
+        description: 'The queries to execute, in order. Each item has a query and optional params.',
+        items: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'The Cypher query to execute.' },
+            params: paramsSchema,
+          },
+          required: ['query'],
+        },
+      },
+    },
+    required: ['statements'],
+  },
+  outputSchema: writeBatchOutputSchema,
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+};
+
+/**
+ * Annotations for the write tools on a read-only connection,
+ * where every call is rejected without touching the database
+ */
+const readOnlyWriteAnnotations: McpToolAnnotations = {
+  readOnlyHint: true,
+  idempotentHint: true,
+  openWorldHint: false,
 };
 
+/**
+ * Adapt a write tool definition to a read-only connection
+ *
+ * The tool stays listed, so clients see why writes fail, with hints
+ * that match what a call actually does there.
+ */
+function toReadOnlyWriteTool(tool: McpTool): McpTool {
+  return {
+    ...tool,
+    description: `${tool.description} This connection is read-only, so every call is rejected.`,
+    annotations: readOnlyWriteAnnotations,
+  };
+}
+
+/**
+ * Get the write_neo4j_cypher definition for a connection
+ *
+ * @param readOnly - Whether the connection is read-only
+ */
+export function getWriteCypherToolDefinition(readOnly: boolean): McpTool {
+  return readOnly ? toReadOnlyWriteTool(writeCypherToolDefinition) : writeCypherToolDefinition;
+}
+
+/**
+ * Get the write_neo4j_cypher_batch definition for a connection
+ *
+ * @param readOnly - Whether the connection is read-only
+ */
+export function getWriteCypherBatchToolDefinition(readOnly: boolean): McpTool {
+  return readOnly ? toReadOnlyWriteTool(writeCypherBatchToolDefinition) : writeCypherBatchToolDefinition;
+}
+
+/**
+ * Adapt a tool definition to a protocol revision
+ *
+ * Drops fields the client's revision does not know about. Before
+ * 2025-06-18 the title lives in the annotations instead.
+ */
+function formatToolForRevision(tool: McpTool, protocolVersion: string | undefined): McpTool {
+  const { title, outputSchema, annotations, ...rest } = tool;
+  const formatted: McpTool = { ...rest };
+
+  if (supportsFeature(protocolVersion, 'titles') && title) {
+    formatted.title = title;
+  }
+
+  if (supportsFeature(protocolVersion, 'structuredContent') && outputSchema) {
+    formatted.outputSchema = outputSchema;
+  }
+
+  if (supportsFeature(protocolVersion, 'toolAnnotations') && annotations) {
+    formatted.annotations = supportsFeature(protocolVersion, 'titles') || !title
+      ? annotations
+      : { title, ...annotations };
+  }
+
+  return formatted;
+}
+
 /**
  * Get all tool definitions
  *
- * @param includeWriteTool - Whether to include the write tool (false if read-only mode)
+ * @param readOnly - Whether the connection is read-only
+ * @param protocolVersion - Negotiated protocol revision of the session
  */
-export function getAllTools(includeWriteTool: boolean = true): McpTool[] {
+export function getAllTools(readOnly: boolean = false, protocolVersion?: string): McpTool[] {
   const tools: McpTool[] = [
     getSchemaToolDefinition,
     readCypherToolDefinition,
+    explainCypherToolDefinition,
+    getWriteCypherToolDefinition(readOnly),
+    getWriteCypherBatchToolDefinition(readOnly),
   ];
 
-  if (includeWriteTool) {
-    tools.push(writeCypherToolDefinition);
-  }
-
-  return tools;
+  return tools.map(tool => formatToolForRevision(tool, protocolVersion));
 }
 
 /**
  * Get a tool definition by name
+ *
+ * @param name - Tool name
+ * @param readOnly - Whether the connection is read-only; only batch scheduling
+ *                   looks up write tools on read-only connections
  */
-export function getToolByName(name: string): McpTool | undefined {
+export function getToolByName(name: string, readOnly: boolean = false): McpTool | undefined {
   switch (name) {
     case TOOL_NAMES.GET_SCHEMA:
       return getSchemaToolDefinition;
     case TOOL_NAMES.READ_CYPHER:
       return readCypherToolDefinition;
+    case TOOL_NAMES.EXPLAIN_CYPHER:
+      return explainCypherToolDefinition;
     case TOOL_NAMES.WRITE_CYPHER:
-      return writeCypherToolDefinition;
+      return getWriteCypherToolDefinition(readOnly);
+    case TOOL_NAMES.WRITE_CYPHER_BATCH:
+      return getWriteCypherBatchToolDefinition(readOnly);
     default:
       return undefined;
   }
@@ -0,0 +1,251 @@
+/**
+ * MCP Streamable HTTP Transport
+ *
+ * Server-Sent Events support for the MCP endpoint:
+ * - POST responses start as plain JSON and are upgraded to an event
+ *   stream as soon as the server has a notification (progress, log
+ *   message, resource update) to send before the response
+ * - GET opens a standalone event stream that delivers messages queued
+ *   for the client's MCP session
+ */
+
+import type { JsonRpcNotification } from '../types.js';
+import { CONTENT_TYPES, DEFAULTS, HTTP_STATUS } from '../config/constants.js';
+import { drainSessionMessages } from '../storage/mcp-sessions.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Check if the client accepts an event stream response
+ */
+export function acceptsEventStream(request: Request): boolean {
+  const accept = request.headers.get('Accept') ?? '';
+  return accept.includes(CONTENT_TYPES.SSE);
+}
+
+/**
+ * Format a JSON-RPC message as an SSE event
+ */
+export function formatSseEvent(message: unknown): string {
+  const data = typeof message === 'string' ? message : JSON.stringify(message);
+  return `event: message\ndata: ${data}\n\n`;
+}
+
+/**
+ * Headers for an event stream response
+ */
+function createSseHeaders(headers: Record<string, string>): Record<string, string> {
+  return {
+    ...headers,
+    'Content-Type': CONTENT_TYPES.SSE,
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  };
+}
+
+/**
+ * Writer for a Server-Sent Events stream
+ *
+ * Writes are queued so callers never need to await them. Once the
+ * client disconnects, further writes are dropped and `closed` is set.
+ */
+export class SseWriter {
+  readonly readable: ReadableStream<Uint8Array>;
+  private readonly writer: WritableStreamDefaultWriter<Uint8Array>;
+  private readonly encoder = new TextEncoder();
+  private pending: Promise<void> = Promise.resolve();
+  private isClosed = false;
+
+  constructor() {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    this.readable = readable;
+    this.writer = writable.getWriter();
+  }
+
+  /**
+   * Whether the stream has been closed (by us or by the client)
+   */
+  get closed(): boolean {
+    return this.isClosed;
+  }
+
+  /**
+   * Send a JSON-RPC message (object or pre-serialized string)
+   */
+  send(message: unknown): void {
+    this.write(formatSseEvent(message));
+  }
+
+  /**
+   * Send an SSE comment (ignored by clients, keeps the connection alive)
+   */
+  comment(text: string): void {
+    this.write(`: ${text}\n\n`);
+  }
+
+  /**
+   * Flush pending writes and close the stream
+   */
+  async close(): Promise<void> {
+    await this.pending;
+
+    if (this.isClosed) {
+      return;
+    }
+
+    this.isClosed = true;
+    try {
+      await this.writer.close();
+    } catch {
+      // Client already disconnected
+    }
+  }
+
+  private write(chunk: string): void {
+    if (this.isClosed) {
+      return;
+    }
+
+    const bytes = this.encoder.encode(chunk);
+    this.pending = this.pending
+      .then(() => this.writer.write(bytes))
+      .catch(() => {
+        this.isClosed = true;
+      });
+  }
+}
+
+/**
+ * Response channel for a single POST request
+ *
+ * `response` resolves either with a JSON response when the request
+ * completes, or with an event stream as soon as the first notification
+ * is sent - whichever comes first. Notifications sent when the client
+ * cannot receive a stream are returned from `complete()` undelivered.
+ */
+export class ResponseChannel {
+  readonly response: Promise<Response>;
+  private resolveResponse!: (response: Response) => void;
+  private sse: SseWriter | null = null;
+  private readonly undelivered: JsonRpcNotification[] = [];
+
+  /**
+   * @param canStream - Whether the response may be upgraded to an event stream
+   * @param headers - Headers for the eventual response
+   * @param streamHeaders - Headers only for an event stream; a JSON response
+   *                        gets its own from `complete()` instead
+   */
+  constructor(
+    private readonly canStream: boolean,
+    private readonly headers: Record<string, string>,
+    private readonly streamHeaders: Record<string, string> = {}
+  ) {
+    this.response = new Promise(resolve => {
+      this.resolveResponse = resolve;
+    });
+  }
+
+  /**
+   * Send a notification ahead of the response
+   */
+  notify(message: JsonRpcNotification): void {
+    if (!this.canStream) {
+      this.undelivered.push(message);
+      return;
+    }
+
+    if (!this.sse) {
+      this.sse = new SseWriter();
+      this.resolveResponse(
+        new Response(this.sse.readable, {
+          status: HTTP_STATUS.OK,
+          headers: createSseHeaders({ ...this.headers, ...this.streamHeaders }),
+        })
+      );
+      logger.debug('MCP response upgraded to event stream');
+    }
+
+    this.sse.send(message);
+  }
+
+  /**
+   * Complete the request
+   *
+   * @param body - Serialized JSON-RPC response, or null if there is none
+   * @param status - HTTP status when responding with plain JSON
+   * @param extraHeaders - Headers to add when responding with plain JSON
+   * @returns Notifications that could not be delivered on this request
+   */
+  async complete(
+    body: string | null,
+    status: number = HTTP_STATUS.OK,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<JsonRpcNotification[]> {
+    if (this.sse) {
+      if (body !== null) {
+        this.sse.send(body);
+      }
+      await this.sse.close();
+    } else {
+      this.resolveResponse(
+        new Response(body, {
+          status,
+          headers: {
+            ...this.headers,
+            ...extraHeaders,
+            ...(body !== null && { 'Content-Type': CONTENT_TYPES.JSON }),
+          },
+        })
+      );
+    }
+
+    return this.undelivered;
+  }
+}
+
+/**
+ * Open a standalone event stream for an MCP session (GET)
+ *
+ * Polls the session's message queue and forwards queued messages until
+ * the client disconnects or the maximum stream lifetime is reached, at
+ * which point the client is expected to reconnect.
+ *
+ * @param kv - KV namespace binding
+ * @param sessionId - MCP session ID
+ * @param headers - Additional response headers
+ * @returns Streaming response, and a promise that settles when the stream ends
+ */
+export function openSessionEventStream(
+  kv: KVNamespace,
+  sessionId: string,
+  headers: Record<string, string> = {}
+): { response: Response; done: Promise<void> } {
+  const sse = new SseWriter();
+
+  const done = (async () => {
+    const deadline = Date.now() + DEFAULTS.SSE_STREAM_DURATION * 1000;
+    sse.comment('stream opened');
+
+    while (!sse.closed && Date.now() < deadline) {
+      const messages = await drainSessionMessages(kv, sessionId);
+
+      if (messages.length > 0) {
+        for (const message of messages) {
+          sse.send(message);
+        }
+      } else {
+        sse.comment('keepalive');
+      }
+
+      await new Promise(resolve => setTimeout(resolve, DEFAULTS.SSE_POLL_INTERVAL * 1000));
+    }
+
+    await sse.close();
+  })();
+
+  const response = new Response(sse.readable, {
+    status: HTTP_STATUS.OK,
+    headers: createSseHeaders(headers),
+  });
+
+  return { response, done };
+}
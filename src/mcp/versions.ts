@@ -0,0 +1,79 @@
+/**
+ * MCP Protocol Revisions
+ *
+ * Version negotiation and the features that differ between the protocol
+ * revisions this server supports. Revision strings are dates, so they
+ * compare correctly as strings.
+ */
+
+import {
+  SUPPORTED_PROTOCOL_VERSIONS,
+  MCP_PROTOCOL_VERSION,
+  DEFAULT_PROTOCOL_VERSION,
+} from '../config/constants.js';
+
+/**
+ * Features whose availability depends on the protocol revision
+ */
+export type ProtocolFeature =
+  | 'batching'
+  | 'toolAnnotations'
+  | 'completions'
+  | 'structuredContent'
+  | 'titles';
+
+/**
+ * First (and, for removed features, last) revision with each feature
+ */
+const PROTOCOL_FEATURES: Record<ProtocolFeature, { since: string; until?: string }> = {
+  /** JSON-RPC batches, removed in 2025-06-18 */
+  batching: { since: '2024-11-05', until: '2025-03-26' },
+  /** readOnlyHint, destructiveHint, idempotentHint on tools */
+  toolAnnotations: { since: '2025-03-26' },
+  /** completion/complete for prompt and resource arguments */
+  completions: { since: '2025-03-26' },
+  /** structuredContent on tool results and outputSchema on tools */
+  structuredContent: { since: '2025-06-18' },
+  /** Human-readable title on tools */
+  titles: { since: '2025-06-18' },
+};
+
+/**
+ * Check if a protocol revision is supported by this server
+ */
+export function isSupportedProtocolVersion(version: unknown): version is string {
+  return typeof version === 'string' &&
+    (SUPPORTED_PROTOCOL_VERSIONS as readonly string[]).includes(version);
+}
+
+/**
+ * Negotiate the protocol revision for a session
+ *
+ * The client requests the latest revision it supports. We answer with
+ * the highest revision we support that is not newer than that. If the
+ * client is older than anything we support, we answer with our latest
+ * and the client decides whether to disconnect.
+ *
+ * @param requested - protocolVersion from the initialize request
+ * @returns The revision to use for the session
+ */
+export function negotiateProtocolVersion(requested: unknown): string {
+  if (typeof requested !== 'string') {
+    return MCP_PROTOCOL_VERSION;
+  }
+
+  const compatible = SUPPORTED_PROTOCOL_VERSIONS.filter(version => version <= requested);
+  return compatible.pop() ?? MCP_PROTOCOL_VERSION;
+}
+
+/**
+ * Check if a feature is available in a protocol revision
+ *
+ * @param version - Negotiated revision (defaults to the revision assumed for unknown clients)
+ * @param feature - Feature to check
+ */
+export function supportsFeature(version: string | undefined, feature: ProtocolFeature): boolean {
+  const effective = version ?? DEFAULT_PROTOCOL_VERSION;
+  const { since, until } = PROTOCOL_FEATURES[feature];
+  return effective >= since && (until === undefined || effective <= until);
+}
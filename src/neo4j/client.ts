@@ -10,12 +10,96 @@ import type {
   Neo4jConnectionConfig,
   Neo4jHttpRequest,
   Neo4jHttpResponse,
+  Neo4jQueryPlan,
+  Neo4jResponseError,
+  Neo4jValue,
   Neo4jClientConfig,
   QueryOptions,
+  TransactionOptions,
+  TransactionStatement,
 } from './types.js';
-import { Neo4jConnectionError, Neo4jQueryError } from '../utils/errors.js';
+import { decodeValue, encodeParameters } from './codec.js';
+import { CONTENT_TYPES } from '../config/constants.js';
+import {
+  Neo4jConnectionError,
+  Neo4jQueryError,
+  RequestCancelledError,
+  ValidationError,
+} from '../utils/errors.js';
 import * as logger from '../utils/logger.js';
 
+/**
+ * Response header that pins a transaction to one cluster member
+ */
+const CLUSTER_AFFINITY_HEADER = 'neo4j-cluster-affinity';
+
+/**
+ * Neo4j error codes for a write refused by a read-only request
+ */
+const WRITE_REJECTION_CODES: ReadonlySet<string> = new Set([
+  'Neo.ClientError.Statement.AccessMode',
+  'Neo.ClientError.Cluster.NotALeader',
+  'Neo.ClientError.General.ForbiddenOnReadOnlyDatabase',
+]);
+
+/**
+ * Check if Neo4j refused a query because it writes
+ */
+function isWriteRejection(error: unknown): boolean {
+  return error instanceof Neo4jQueryError && error.neo4jCode !== undefined && WRITE_REJECTION_CODES.has(error.neo4jCode);
+}
+
+/**
+ * Decode the arguments of a plan operator and its children
+ */
+function decodePlan(plan: Neo4jQueryPlan): Neo4jQueryPlan {
+  return {
+    ...plan,
+    ...(plan.arguments && {
+      arguments: Object.fromEntries(
+        Object.entries(plan.arguments).map(([key, value]) => [key, decodeValue(value as Neo4jValue)])
+      ),
+    }),
+    ...(plan.children && { children: plan.children.map(decodePlan) }),
+  };
+}
+
+/**
+ * Decode the result values and plan of a response
+ *
+ * Responses are typed JSON (see send), so every value arrives wrapped
+ * as `{ $type, _value }`. Decoding them here means callers only ever
+ * see plain values.
+ *
+ * @param raw - Leave the result values as sent; plans are still decoded
+ */
+function decodeResponse(result: Neo4jHttpResponse, raw: boolean): Neo4jHttpResponse {
+  return {
+    ...result,
+    ...(result.data && !raw && {
+      data: {
+        fields: result.data.fields,
+        values: result.data.values.map(row => row.map(value => decodeValue(value as Neo4jValue))),
+      },
+    }),
+    ...(result.queryPlan && { queryPlan: decodePlan(result.queryPlan) }),
+    ...(result.profiledQueryPlan && { profiledQueryPlan: decodePlan(result.profiledQueryPlan) }),
+  };
+}
+
+/**
+ * Read the first Neo4j error from an error response body
+ */
+function parseResponseError(body: string): Neo4jResponseError | undefined {
+  try {
+    const parsed = JSON.parse(body) as Neo4jHttpResponse;
+    const error = parsed.errors?.[0];
+    return error && typeof error.message === 'string' ? error : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Neo4j HTTP Client
  *
@@ -27,6 +111,8 @@ export class Neo4jClient {
   private readonly authHeader: string;
   private readonly database: string;
   private readonly defaultTimeout: number;
+  private readonly causalConsistency: boolean;
+  private bookmarks: string[];
 
   constructor(config: Neo4jClientConfig) {
     this.httpUrl = this.convertToHttpUrl(config.connection.uri);
@@ -36,6 +122,35 @@ export class Neo4jClient {
     );
     this.database = config.connection.database;
     this.defaultTimeout = config.defaultTimeout;
+    this.causalConsistency = config.causalConsistency ?? true;
+    this.bookmarks = this.causalConsistency ? [...(config.bookmarks ?? [])] : [];
+  }
+
+  /**
+   * Get the bookmarks of the latest committed work
+   *
+   * Queries sent with these bookmarks wait until the cluster member
+   * serving them has caught up with that work. Empty if causal
+   * consistency is off.
+   */
+  getBookmarks(): string[] {
+    return [...this.bookmarks];
+  }
+
+  /**
+   * Add the current bookmarks to a request that starts new work
+   */
+  private withBookmarks(body: Neo4jHttpRequest): Neo4jHttpRequest {
+    return this.bookmarks.length > 0 ? { ...body, bookmarks: this.bookmarks } : body;
+  }
+
+  /**
+   * Remember the bookmarks returned for completed work
+   */
+  private recordBookmarks(result: Neo4jHttpResponse): void {
+    if (this.causalConsistency && result.bookmarks && result.bookmarks.length > 0) {
+      this.bookmarks = result.bookmarks;
+    }
   }
 
   /**
@@ -102,42 +217,63 @@ export class Neo4jClient {
   }
 
   /**
-   * Execute a Cypher query
+   * Get the URL of an explicit transaction endpoint
+   *
+   * @param transactionId - Open transaction, or undefined to open one
+   * @param action - Trailing path segment, e.g. `commit`
    */
-  async query(
-    cypher: string,
-    parameters?: Record<string, unknown>,
-    options?: QueryOptions
-  ): Promise<Neo4jHttpResponse> {
-    const timeout = options?.timeout ?? this.defaultTimeout;
-    const includeCounters = options?.includeCounters ?? false;
-
-    const requestBody: Neo4jHttpRequest = {
-      statement: cypher,
-      parameters: parameters ?? {},
-      includeCounters,
-    };
+  private getTransactionUrl(transactionId?: string, action?: string): string {
+    const parts = [`${this.getQueryUrl()}/tx`];
+    if (transactionId) {
+      parts.push(encodeURIComponent(transactionId));
+    }
+    if (action) {
+      parts.push(action);
+    }
+    return parts.join('/');
+  }
 
-    const url = this.getQueryUrl();
+  /**
+   * Send a request to the Query API and check the response for errors
+   *
+   * @param url - Endpoint URL
+   * @param method - HTTP method
+   * @param body - Request body, if any
+   * @param options - Timeout and cancellation
+   * @param headers - Extra request headers
+   * @returns Decoded response body and response headers
+   */
+  private async send(
+    url: string,
+    method: 'POST' | 'DELETE',
+    body: Neo4jHttpRequest | undefined,
+    options?: QueryOptions,
+    headers: Record<string, string> = {}
+  ): Promise<{ result: Neo4jHttpResponse; headers: Headers }> {
+    const timeout = options?.timeout ?? this.defaultTimeout;
 
-    logger.debug('Neo4j query', {
-      url,
-      cypher: cypher.substring(0, 100),
-      hasParams: !!parameters,
-    });
+    // Aborted on timeout, or when the caller's signal fires
+    const controller = new AbortController();
+    const abortFromCaller = () => controller.abort();
+    options?.signal?.addEventListener('abort', abortFromCaller, { once: true });
 
     try {
-      const controller = new AbortController();
+      if (options?.signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+
       const timeoutId = setTimeout(() => controller.abort(), timeout * 1000);
 
       const response = await fetch(url, {
-        method: 'POST',
+        method,
         headers: {
-          'Content-Type': 'application/json',
+          'Content-Type': CONTENT_TYPES.NEO4J_TYPED_JSON,
           Authorization: this.authHeader,
-          Accept: 'application/json',
+          // Typed JSON both ways keeps temporal, spatial and integer values intact
+          Accept: CONTENT_TYPES.NEO4J_TYPED_JSON,
+          ...headers,
         },
-        body: JSON.stringify(requestBody),
+        ...(body && { body: JSON.stringify(body) }),
         signal: controller.signal,
       });
 
@@ -164,12 +300,21 @@ export class Neo4jClient {
           );
         }
 
+        // Query errors come back as 400 with the Neo4j error in the body
+        const queryError = parseResponseError(errorText);
+        if (queryError) {
+          throw new Neo4jQueryError(queryError.message, queryError.code);
+        }
+
         throw new Neo4jConnectionError(
           `Neo4j HTTP error: ${response.status} ${response.statusText}`
         );
       }
 
-      const result = (await response.json()) as Neo4jHttpResponse;
+      // Rollback responses carry nothing we use
+      const result = method === 'DELETE'
+        ? {}
+        : decodeResponse((await response.json()) as Neo4jHttpResponse, options?.raw ?? false);
 
       // Check for Neo4j query errors in the response
       if (result.errors && result.errors.length > 0) {
@@ -183,10 +328,13 @@ export class Neo4jClient {
         }
       }
 
-      return result;
+      return { result, headers: response.headers };
     } catch (error) {
-      // Handle abort/timeout
+      // Handle abort: cancellation or timeout
       if (error instanceof Error && error.name === 'AbortError') {
+        if (options?.signal?.aborted) {
+          throw new RequestCancelledError();
+        }
         throw new Neo4jQueryError(`Query timed out after ${timeout} seconds`);
       }
 
@@ -198,7 +346,11 @@ export class Neo4jClient {
       }
 
       // Re-throw known errors
-      if (error instanceof Neo4jConnectionError || error instanceof Neo4jQueryError) {
+      if (
+        error instanceof Neo4jConnectionError ||
+        error instanceof Neo4jQueryError ||
+        error instanceof RequestCancelledError
+      ) {
         throw error;
       }
 
@@ -206,6 +358,178 @@ export class Neo4jClient {
       throw new Neo4jConnectionError(
         `Unexpected error: ${error instanceof Error ? error.message : String(error)}`
       );
+    } finally {
+      options?.signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+
+  /**
+   * Execute a Cypher query
+   *
+   * With `options.readOnly` the query runs in the READ access mode, so
+   * Neo4j itself refuses writes, including writes made by procedures.
+   *
+   * @throws ValidationError if a typed parameter is invalid, or if a
+   * read-only query tries to write
+   */
+  async query(
+    cypher: string,
+    parameters?: Record<string, unknown>,
+    options?: QueryOptions
+  ): Promise<Neo4jHttpResponse> {
+    const requestBody: Neo4jHttpRequest = {
+      statement: cypher,
+      parameters: encodeParameters(parameters ?? {}),
+      includeCounters: options?.includeCounters ?? false,
+      ...(options?.readOnly && { accessMode: 'READ' as const }),
+    };
+
+    const url = this.getQueryUrl();
+
+    logger.debug('Neo4j query', {
+      url,
+      cypher: cypher.substring(0, 100),
+      hasParams: !!parameters,
+    });
+
+    try {
+      const { result } = await this.send(url, 'POST', this.withBookmarks(requestBody), options);
+      this.recordBookmarks(result);
+      return result;
+    } catch (error) {
+      if (options?.readOnly && isWriteRejection(error)) {
+        throw new ValidationError(
+          'This query writes to the database, which Neo4j refused in read mode. Use write_neo4j_cypher for queries that create, change or delete data, including write procedures such as apoc.create.node.'
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run statements in order in one explicit transaction
+   *
+   * Opens a transaction with the first statement, runs the rest in it
+   * and commits, or rolls back if `options.rollback` is set. If any
+   * statement fails, the transaction is rolled back and nothing is
+   * persisted. The timeout applies to each request.
+   *
+   * @param statements - Statements to run, in order
+   * @param options - Transaction options
+   * @returns One response per statement
+   * @throws Neo4jQueryError, naming the failed statement if there are several
+   * @throws ValidationError if a typed parameter is invalid, before anything is sent
+   */
+  async runTransaction(
+    statements: TransactionStatement[],
+    options?: TransactionOptions
+  ): Promise<Neo4jHttpResponse[]> {
+    const includeCounters = options?.includeCounters ?? false;
+    const responses: Neo4jHttpResponse[] = [];
+    let transactionId: string | undefined;
+    // Aura routes all requests of a transaction to the same cluster member
+    const headers: Record<string, string> = {};
+
+    // Encode every statement first so an invalid parameter opens no transaction
+    const requestBodies: Neo4jHttpRequest[] = statements.map((statement, index) => {
+      try {
+        return {
+          statement: statement.statement,
+          parameters: encodeParameters(statement.parameters ?? {}),
+          includeCounters,
+          ...(options?.readOnly && { accessMode: 'READ' as const }),
+        };
+      } catch (error) {
+        if (error instanceof ValidationError && statements.length > 1) {
+          throw new ValidationError(`Statement ${index + 1} of ${statements.length}: ${error.message}`);
+        }
+        throw error;
+      }
+    });
+
+    logger.debug('Neo4j transaction', { statements: statements.length });
+
+    for (const [index, requestBody] of requestBodies.entries()) {
+      try {
+        const { result, headers: responseHeaders } = await this.send(
+          this.getTransactionUrl(transactionId),
+          'POST',
+          // Bookmarks are only needed to open the transaction
+          transactionId ? requestBody : this.withBookmarks(requestBody),
+          options,
+          headers
+        );
+
+        if (!transactionId) {
+          transactionId = result.transaction?.id;
+          if (!transactionId) {
+            throw new Neo4jConnectionError('Neo4j did not open a transaction');
+          }
+
+          const affinity = responseHeaders.get(CLUSTER_AFFINITY_HEADER);
+          if (affinity) {
+            headers[CLUSTER_AFFINITY_HEADER] = affinity;
+          }
+        }
+
+        responses.push(result);
+      } catch (error) {
+        await this.rollbackTransaction(transactionId, headers);
+
+        if (error instanceof Neo4jQueryError && statements.length > 1) {
+          throw new Neo4jQueryError(
+            `Statement ${index + 1} of ${statements.length} failed: ${error.message}`,
+            error.neo4jCode
+          );
+        }
+        throw error;
+      }
+    }
+
+    if (options?.rollback) {
+      await this.rollbackTransaction(transactionId, headers);
+      return responses;
+    }
+
+    if (transactionId) {
+      try {
+        const { result } = await this.send(
+          this.getTransactionUrl(transactionId, 'commit'),
+          'POST',
+          undefined,
+          options,
+          headers
+        );
+        this.recordBookmarks(result);
+      } catch (error) {
+        await this.rollbackTransaction(transactionId, headers);
+        throw error;
+      }
+    }
+
+    return responses;
+  }
+
+  /**
+   * Roll back an open transaction
+   *
+   * Best effort: Neo4j also rolls back on statement errors and when the
+   * transaction expires, so failures are only logged.
+   */
+  private async rollbackTransaction(
+    transactionId: string | undefined,
+    headers: Record<string, string>
+  ): Promise<void> {
+    if (!transactionId) {
+      return;
+    }
+
+    try {
+      await this.send(this.getTransactionUrl(transactionId), 'DELETE', undefined, { timeout: 10 }, headers);
+    } catch (error) {
+      logger.warn('Neo4j transaction rollback failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
   }
 
@@ -264,5 +588,7 @@ export function createNeo4jClient(
     defaultTimeout: options?.defaultTimeout ?? 30,
     tokenLimit: options?.tokenLimit ?? 10000,
     schemaSampleSize: options?.schemaSampleSize ?? 1000,
+    bookmarks: options?.bookmarks,
+    causalConsistency: options?.causalConsistency,
   });
 }
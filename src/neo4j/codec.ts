@@ -0,0 +1,607 @@
+/**
+ * Neo4j Value Codec
+ *
+ * Decodes values returned by the Query API into plain JSON for LLMs:
+ * - nodes and relationships become objects of their properties,
+ *   tagged with `_labels` or `_type`
+ * - paths become their nodes and relationships in traversal order
+ * - temporals become `{ $type, value }` with an ISO 8601 value
+ * - points become `{ srid, x, y, z }`
+ * - byte arrays become `{ $type: 'ByteArray', length }`
+ *
+ * Results can also be collected as a graph: every node and relationship
+ * once, keyed by element id, with relationships referencing their nodes.
+ *
+ * Handles both the plain JSON format and the typed JSON format, where
+ * every value is wrapped as `{ $type, _value }`.
+ *
+ * Also encodes query parameters the other way, as typed JSON:
+ * `{ $type, value }` objects from tool callers name their type, so
+ * Neo4j receives a real date, point or 64-bit integer instead of a
+ * string.
+ */
+
+import type {
+  DecodedByteArray,
+  DecodedPath,
+  DecodedPoint,
+  DecodedTemporal,
+  GraphNode,
+  GraphRelationship,
+  GraphResult,
+  Neo4jNode,
+  Neo4jPath,
+  Neo4jRelationship,
+  Neo4jTypedValue,
+  Neo4jValue,
+  TemporalType,
+  TypedParameter,
+  TypedParameterType,
+} from './types.js';
+import { ValidationError } from '../utils/errors.js';
+
+/**
+ * Temporal type names of the typed JSON format
+ */
+const TEMPORAL_TYPES: ReadonlySet<string> = new Set<TemporalType>([
+  'Date',
+  'Time',
+  'LocalTime',
+  'DateTime',
+  'OffsetDateTime',
+  'LocalDateTime',
+  'ZonedDateTime',
+  'Duration',
+]);
+
+/**
+ * ISO 8601 formats accepted for temporal parameters
+ */
+const DATE = '[+-]?\\d{4,9}-\\d{2}-\\d{2}';
+const LOCAL_TIME = '\\d{2}:\\d{2}(?::\\d{2}(?:\\.\\d{1,9})?)?';
+const OFFSET = '(?:Z|[+-]\\d{2}(?::?\\d{2})?)';
+const ZONE = '\\[[A-Za-z0-9_+\\-/]+\\]';
+const DURATION_PART = '\\d+(?:\\.\\d+)?';
+
+/**
+ * Pattern and example value of each temporal parameter type
+ */
+const TEMPORAL_PATTERNS: Record<TemporalType, { pattern: RegExp; example: string }> = {
+  Date: { pattern: new RegExp(`^${DATE}$`), example: '2025-01-01' },
+  Time: { pattern: new RegExp(`^${LOCAL_TIME}${OFFSET}$`), example: '12:30:00+01:00' },
+  LocalTime: { pattern: new RegExp(`^${LOCAL_TIME}$`), example: '12:30:00' },
+  DateTime: {
+    pattern: new RegExp(`^${DATE}T${LOCAL_TIME}(?:${OFFSET}(?:${ZONE})?|${ZONE})$`),
+    example: '2025-01-01T12:30:00Z',
+  },
+  OffsetDateTime: { pattern: new RegExp(`^${DATE}T${LOCAL_TIME}${OFFSET}$`), example: '2025-01-01T12:30:00+01:00' },
+  LocalDateTime: { pattern: new RegExp(`^${DATE}T${LOCAL_TIME}$`), example: '2025-01-01T12:30:00' },
+  ZonedDateTime: {
+    pattern: new RegExp(`^${DATE}T${LOCAL_TIME}${OFFSET}?${ZONE}$`),
+    example: '2025-01-01T12:30:00+01:00[Europe/Paris]',
+  },
+  Duration: {
+    pattern: new RegExp(
+      `^-?P(?=\\d|T\\d)(?:${DURATION_PART}Y)?(?:${DURATION_PART}M)?(?:${DURATION_PART}W)?(?:${DURATION_PART}D)?` +
+      `(?:T(?=\\d)(?:${DURATION_PART}H)?(?:${DURATION_PART}M)?(?:${DURATION_PART}S)?)?$`
+    ),
+    example: 'P1DT2H',
+  },
+};
+
+/**
+ * Range of a Neo4j Integer (64-bit signed)
+ */
+const MIN_INTEGER = -(2n ** 63n);
+const MAX_INTEGER = 2n ** 63n - 1n;
+
+/**
+ * Well-known text of a point, e.g. `SRID=4326;POINT Z (1.5 2 3)`
+ */
+const POINT_PATTERN = /^SRID=(\d+);\s*POINT\s*(?:Z\s*)?\(\s*(\S+)\s+(\S+)(?:\s+(\S+))?\s*\)$/i;
+
+/**
+ * Check if value is a Neo4j Node
+ */
+export function isNeo4jNode(value: unknown): value is Neo4jNode {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    '_element_id' in value &&
+    '_labels' in value
+  );
+}
+
+/**
+ * Check if value is a Neo4j Relationship
+ */
+export function isNeo4jRelationship(value: unknown): value is Neo4jRelationship {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    '_element_id' in value &&
+    '_type' in value &&
+    '_start_node_element_id' in value
+  );
+}
+
+/**
+ * Check if value is a Neo4j Path
+ */
+export function isNeo4jPath(value: unknown): value is Neo4jPath {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as Neo4jPath)._nodes) &&
+    Array.isArray((value as Neo4jPath)._relationships)
+  );
+}
+
+/**
+ * Check if value is wrapped in the typed JSON format
+ */
+export function isNeo4jTypedValue(value: unknown): value is Neo4jTypedValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as Neo4jTypedValue).$type === 'string' &&
+    '_value' in value &&
+    Object.keys(value).length === 2
+  );
+}
+
+/**
+ * Check if a decoded value is a temporal
+ */
+export function isDecodedTemporal(value: unknown): value is DecodedTemporal {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    TEMPORAL_TYPES.has((value as DecodedTemporal).$type) &&
+    typeof (value as DecodedTemporal).value === 'string'
+  );
+}
+
+/**
+ * Check if a decoded value is a point
+ */
+export function isDecodedPoint(value: unknown): value is DecodedPoint {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+
+  const point = value as Record<string, unknown>;
+  return (
+    typeof point.srid === 'number' &&
+    typeof point.x === 'number' &&
+    typeof point.y === 'number' &&
+    Object.keys(point).every(key => ['srid', 'x', 'y', 'z'].includes(key))
+  );
+}
+
+/**
+ * Check if a decoded value is a byte array summary
+ */
+export function isDecodedByteArray(value: unknown): value is DecodedByteArray {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as DecodedByteArray).$type === 'ByteArray' &&
+    typeof (value as DecodedByteArray).length === 'number'
+  );
+}
+
+/**
+ * Check if a decoded value is a path
+ */
+export function isDecodedPath(value: unknown): value is DecodedPath {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as DecodedPath).$type === 'Path' &&
+    Array.isArray((value as DecodedPath).nodes) &&
+    Array.isArray((value as DecodedPath).relationships)
+  );
+}
+
+/**
+ * Parse the well-known text of a point
+ *
+ * @returns The point, or null if the text is not a point
+ */
+export function parsePoint(text: string): DecodedPoint | null {
+  const match = POINT_PATTERN.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, srid, x, y, z] = match;
+  const point: DecodedPoint = { srid: Number(srid), x: Number(x), y: Number(y) };
+  if (z !== undefined) {
+    point.z = Number(z);
+  }
+
+  return Number.isNaN(point.x) || Number.isNaN(point.y) || Number.isNaN(point.z ?? 0) ? null : point;
+}
+
+/**
+ * Number of bytes encoded by a base64 string
+ */
+function base64Length(base64: string): number {
+  const trimmed = base64.replace(/\s/g, '');
+  const padding = trimmed.endsWith('==') ? 2 : trimmed.endsWith('=') ? 1 : 0;
+  return Math.floor((trimmed.length * 3) / 4) - padding;
+}
+
+/**
+ * Decode the properties of a node or relationship
+ */
+function decodeProperties(entity: Record<string, unknown>, into: Record<string, unknown>): Record<string, unknown> {
+  // Typed JSON nests properties; plain JSON puts them next to the metadata
+  const properties = typeof entity._properties === 'object' && entity._properties !== null
+    ? entity._properties as Record<string, unknown>
+    : entity;
+
+  for (const [key, value] of Object.entries(properties)) {
+    if (!key.startsWith('_')) {
+      into[key] = decodeValue(value as Neo4jValue);
+    }
+  }
+
+  return into;
+}
+
+/**
+ * Decode a Neo4j Node to a plain object
+ */
+function decodeNode(node: Neo4jNode): Record<string, unknown> {
+  return decodeProperties(node, { _labels: node._labels });
+}
+
+/**
+ * Decode a Neo4j Relationship to a plain object
+ */
+function decodeRelationship(rel: Neo4jRelationship): Record<string, unknown> {
+  return decodeProperties(rel, { _type: rel._type });
+}
+
+/**
+ * Decode the elements of a path given as alternating nodes and relationships
+ */
+function decodePathElements(elements: unknown[]): DecodedPath {
+  const nodes: Record<string, unknown>[] = [];
+  const relationships: Record<string, unknown>[] = [];
+
+  for (const element of elements) {
+    const decoded = decodeValue(element as Neo4jValue);
+    if (typeof decoded !== 'object' || decoded === null) {
+      continue;
+    }
+
+    if ('_labels' in decoded) {
+      nodes.push(decoded as Record<string, unknown>);
+    } else if ('_type' in decoded) {
+      relationships.push(decoded as Record<string, unknown>);
+    }
+  }
+
+  return { $type: 'Path', length: relationships.length, nodes, relationships };
+}
+
+/**
+ * Decode a value in the typed JSON format
+ */
+function decodeTypedValue(typed: Neo4jTypedValue): unknown {
+  const { $type: type, _value: value } = typed;
+
+  if (TEMPORAL_TYPES.has(type)) {
+    return { $type: type, value: String(value) };
+  }
+
+  switch (type) {
+    case 'Null':
+      return null;
+    case 'Boolean':
+    case 'String':
+      return value;
+    case 'Integer': {
+      // Keep integers beyond 2^53 as strings rather than lose precision
+      const integer = Number(value);
+      return Number.isSafeInteger(integer) ? integer : String(value);
+    }
+    case 'Float': {
+      // NaN and Infinity have no JSON number form
+      const float = Number(value);
+      return Number.isFinite(float) ? float : String(value);
+    }
+    case 'Base64':
+      return { $type: 'ByteArray', length: base64Length(String(value)) };
+    case 'List':
+      return Array.isArray(value) ? value.map(item => decodeValue(item as Neo4jValue)) : [];
+    case 'Map':
+      return decodeValue(value as Neo4jValue);
+    case 'Point':
+      return parsePoint(String(value)) ?? { $type: type, value: String(value) };
+    case 'Node':
+      return decodeNode(value as Neo4jNode);
+    case 'Relationship':
+      return decodeRelationship(value as Neo4jRelationship);
+    case 'Path':
+      return decodePathElements(Array.isArray(value) ? value : []);
+    default:
+      return { $type: type, value };
+  }
+}
+
+/**
+ * Decode a Neo4j value to a plain JavaScript value
+ */
+export function decodeValue(value: Neo4jValue): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  // Handle arrays
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+
+  if (typeof value !== 'object') {
+    return value;
+  }
+
+  if (isNeo4jTypedValue(value)) {
+    return decodeTypedValue(value);
+  }
+
+  if (isNeo4jPath(value)) {
+    return decodePathElements(
+      value._nodes.flatMap((node, index) => {
+        const rel = value._relationships[index];
+        return rel ? [node, rel] : [node];
+      })
+    );
+  }
+
+  if (isNeo4jNode(value)) {
+    return decodeNode(value);
+  }
+
+  if (isNeo4jRelationship(value)) {
+    return decodeRelationship(value);
+  }
+
+  // Handle plain objects (maps)
+  const result: Record<string, unknown> = {};
+  for (const [key, val] of Object.entries(value)) {
+    result[key] = decodeValue(val as Neo4jValue);
+  }
+  return result;
+}
+
+/**
+ * Collect the nodes and relationships of query result values
+ *
+ * Walks every value, including lists, maps and paths, and keeps each
+ * node and relationship once, in order of first appearance. Values
+ * that are not graph elements are left out.
+ *
+ * @param values - Result values, e.g. the rows of a query response
+ * @returns Deduplicated nodes and relationships
+ */
+export function collectGraph(values: Neo4jValue[]): GraphResult {
+  const nodes = new Map<string, GraphNode>();
+  const relationships = new Map<string, GraphRelationship>();
+
+  const visit = (value: unknown): void => {
+    if (typeof value !== 'object' || value === null) {
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+
+    if (isNeo4jTypedValue(value)) {
+      // Only containers and graph elements can hold nodes
+      if (['List', 'Map', 'Path', 'Node', 'Relationship'].includes(value.$type)) {
+        visit(value._value);
+      }
+      return;
+    }
+
+    if (isNeo4jPath(value)) {
+      value._nodes.forEach(visit);
+      value._relationships.forEach(visit);
+      return;
+    }
+
+    if (isNeo4jNode(value)) {
+      const id = String(value._element_id);
+      if (!nodes.has(id)) {
+        nodes.set(id, { id, labels: value._labels ?? [], properties: decodeProperties(value, {}) });
+      }
+      return;
+    }
+
+    if (isNeo4jRelationship(value)) {
+      const id = String(value._element_id);
+      if (!relationships.has(id)) {
+        relationships.set(id, {
+          id,
+          type: String(value._type),
+          startNodeId: String(value._start_node_element_id),
+          endNodeId: String(value._end_node_element_id),
+          properties: decodeProperties(value, {}),
+        });
+      }
+      return;
+    }
+
+    Object.values(value).forEach(visit);
+  };
+
+  visit(values);
+
+  return { nodes: [...nodes.values()], relationships: [...relationships.values()] };
+}
+
+/**
+ * Check if a parameter value uses the typed parameter convention
+ */
+export function isTypedParameter(value: unknown): value is TypedParameter {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as TypedParameter).$type === 'string' &&
+    'value' in value &&
+    Object.keys(value).length === 2
+  );
+}
+
+/**
+ * Encode a point parameter as well-known text
+ */
+function encodePoint(value: unknown, name: string): string {
+  const point = typeof value === 'string' ? parsePoint(value) : value;
+
+  if (!isDecodedPoint(point) || (point.z !== undefined && typeof point.z !== 'number')) {
+    throw new ValidationError(
+      `Parameter ${name}: Point value must be { srid, x, y } or { srid, x, y, z } with numbers, ` +
+      'or well-known text such as "SRID=4326;POINT (12.5 56.1)"'
+    );
+  }
+
+  return point.z === undefined
+    ? `SRID=${point.srid};POINT (${point.x} ${point.y})`
+    : `SRID=${point.srid};POINT Z (${point.x} ${point.y} ${point.z})`;
+}
+
+/**
+ * Encode an integer parameter as a string of digits
+ */
+function encodeInteger(value: unknown, name: string): string {
+  const text = typeof value === 'number' ? String(value) : value;
+
+  if (
+    typeof text !== 'string' ||
+    !/^-?\d+$/.test(text) ||
+    (typeof value === 'number' && !Number.isSafeInteger(value)) ||
+    BigInt(text) < MIN_INTEGER ||
+    BigInt(text) > MAX_INTEGER
+  ) {
+    throw new ValidationError(
+      `Parameter ${name}: Integer value must be a whole number between -2^63 and 2^63-1, ` +
+      'given as a string of digits beyond 2^53'
+    );
+  }
+
+  return text;
+}
+
+/**
+ * Encode a float parameter
+ */
+function encodeFloat(value: unknown, name: string): string {
+  if (typeof value === 'number' || (typeof value === 'string' && ['NaN', 'Infinity', '-Infinity'].includes(value))) {
+    return String(value);
+  }
+
+  throw new ValidationError(`Parameter ${name}: Float value must be a number, "NaN", "Infinity" or "-Infinity"`);
+}
+
+/**
+ * Encode a typed parameter in the typed JSON format
+ */
+function encodeTypedParameter(parameter: TypedParameter, name: string): Neo4jTypedValue {
+  const { $type: type, value } = parameter;
+
+  if (type in TEMPORAL_PATTERNS) {
+    const { pattern, example } = TEMPORAL_PATTERNS[type as TemporalType];
+    if (typeof value !== 'string' || !pattern.test(value)) {
+      throw new ValidationError(`Parameter ${name}: ${type} value must be an ISO 8601 string such as "${example}"`);
+    }
+    return { $type: type, _value: value };
+  }
+
+  switch (type as TypedParameterType) {
+    case 'Point':
+      return { $type: 'Point', _value: encodePoint(value, name) };
+    case 'Integer':
+      return { $type: 'Integer', _value: encodeInteger(value, name) };
+    case 'Float':
+      return { $type: 'Float', _value: encodeFloat(value, name) };
+    default:
+      throw new ValidationError(
+        `Parameter ${name}: unknown $type "${String(type)}". ` +
+        `Supported types: ${[...Object.keys(TEMPORAL_PATTERNS), 'Point', 'Integer', 'Float'].join(', ')}`
+      );
+  }
+}
+
+/**
+ * Encode a plain number as an Integer when it is one, otherwise as a Float
+ */
+function encodeNumber(value: number): Neo4jTypedValue {
+  return Number.isSafeInteger(value)
+    ? { $type: 'Integer', _value: String(value) }
+    : { $type: 'Float', _value: String(value) };
+}
+
+/**
+ * Encode a parameter value in the typed JSON format, at any depth
+ */
+function encodeParameter(value: unknown, name: string): Neo4jTypedValue {
+  if (value === null || value === undefined) {
+    return { $type: 'Null', _value: null };
+  }
+
+  switch (typeof value) {
+    case 'boolean':
+      return { $type: 'Boolean', _value: value };
+    case 'string':
+      return { $type: 'String', _value: value };
+    case 'number':
+      return encodeNumber(value);
+  }
+
+  if (Array.isArray(value)) {
+    return { $type: 'List', _value: value.map((item, index) => encodeParameter(item, `${name}[${index}]`)) };
+  }
+
+  if (typeof value !== 'object') {
+    throw new ValidationError(`Parameter ${name}: unsupported value of type ${typeof value}`);
+  }
+
+  if (isTypedParameter(value)) {
+    return encodeTypedParameter(value, name);
+  }
+
+  const entries: Record<string, Neo4jTypedValue> = {};
+  for (const [key, val] of Object.entries(value)) {
+    entries[key] = encodeParameter(val, `${name}.${key}`);
+  }
+  return { $type: 'Map', _value: entries };
+}
+
+/**
+ * Encode query parameters for the Query API
+ *
+ * Requests are sent as typed JSON, so every value is wrapped: strings,
+ * booleans, numbers, lists and maps by their JSON type, and values of
+ * the form `{ $type, value }` by the type they name.
+ *
+ * @param parameters - Query parameters
+ * @returns Encoded parameters
+ * @throws ValidationError naming the parameter if a typed value is invalid
+ */
+export function encodeParameters(parameters: Record<string, unknown>): Record<string, Neo4jTypedValue> {
+  const encoded: Record<string, Neo4jTypedValue> = {};
+  for (const [key, value] of Object.entries(parameters)) {
+    encoded[key] = encodeParameter(value, key);
+  }
+  return encoded;
+}
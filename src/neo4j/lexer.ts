@@ -0,0 +1,425 @@
+/**
+ * Cypher Lexer
+ *
+ * Splits a Cypher query into tokens so queries can be classified
+ * without being fooled by their contents: keywords inside string
+ * literals, backtick-quoted identifiers, comments, property names
+ * (`n.set`), labels (`:Create`) and map keys (`{delete: 1}`) are not
+ * clauses.
+ *
+ * This is not a parser. A word is taken as a clause keyword from its
+ * position: after the end of an expression or a bracket, never after
+ * `.`, `:`, `,`, an operator or a word that expects an expression
+ * such as RETURN or AS.
+ */
+
+/**
+ * Kind of a token
+ * - word: unquoted identifier or keyword
+ * - identifier: backtick-quoted identifier
+ * - string: string literal
+ * - number: numeric literal
+ * - parameter: `$name`
+ * - symbol: punctuation or operator
+ */
+export type CypherTokenType = 'word' | 'identifier' | 'string' | 'number' | 'parameter' | 'symbol';
+
+/**
+ * Token of a Cypher query
+ */
+export interface CypherToken {
+  type: CypherTokenType;
+  /** Source text of the token */
+  text: string;
+  /** Unquoted and unescaped value of strings, identifiers and parameters; the text otherwise */
+  value: string;
+  /** Offset of the token in the query */
+  offset: number;
+  /** Upper-case keyword, if the token is a word in clause position */
+  keyword?: string;
+}
+
+/**
+ * Result of tokenizing a query
+ */
+export interface CypherLexResult {
+  tokens: CypherToken[];
+  /** Why tokenizing stopped early, e.g. an unterminated string */
+  error?: string;
+}
+
+/**
+ * Kind of query
+ */
+export type CypherQueryType = 'read' | 'write' | 'admin' | 'unknown';
+
+/**
+ * Words that start or continue a clause
+ */
+const CLAUSE_KEYWORDS: ReadonlySet<string> = new Set([
+  'MATCH', 'OPTIONAL', 'WHERE', 'RETURN', 'WITH', 'UNWIND', 'CALL', 'YIELD', 'ORDER', 'SKIP', 'LIMIT',
+  'UNION', 'USE', 'FINISH', 'LOAD', 'CREATE', 'MERGE', 'DELETE', 'DETACH', 'NODETACH', 'SET', 'REMOVE',
+  'FOREACH', 'ON', 'DROP', 'ALTER', 'RENAME', 'GRANT', 'DENY', 'REVOKE', 'SHOW', 'START', 'STOP',
+  'TERMINATE', 'ENABLE',
+]);
+
+/**
+ * Clause keywords that write to the graph or the schema
+ */
+const WRITE_KEYWORDS: ReadonlySet<string> = new Set([
+  'CREATE', 'MERGE', 'DELETE', 'DETACH', 'NODETACH', 'SET', 'REMOVE', 'FOREACH', 'DROP',
+]);
+
+/**
+ * Clause keywords that only appear in read queries
+ */
+const READ_KEYWORDS: ReadonlySet<string> = new Set(['MATCH', 'RETURN', 'WITH', 'UNWIND', 'CALL']);
+
+/**
+ * Words followed by an expression, so a keyword after them is an operand
+ */
+const EXPRESSION_WORDS: ReadonlySet<string> = new Set([
+  'RETURN', 'WITH', 'WHERE', 'UNWIND', 'YIELD', 'BY', 'SKIP', 'LIMIT', 'AS', 'DISTINCT', 'AND', 'OR',
+  'XOR', 'NOT', 'IN', 'IS', 'CONTAINS', 'STARTS', 'ENDS', 'CASE', 'WHEN', 'THEN', 'ELSE',
+]);
+
+/**
+ * Symbols after which a clause may start
+ */
+const CLAUSE_BOUNDARY_SYMBOLS: ReadonlySet<string> = new Set([')', ']', '}', '{', '|', ';', '*']);
+
+/**
+ * Symbols that cannot follow a clause keyword, so a word before them is
+ * a name: a map key `{set: 1}`, a property `set.x` or a projected key
+ * `n {.name, set}`
+ */
+const NAME_FOLLOWERS: ReadonlySet<string> = new Set([':', ',', '.', '}', ')', ']', '=']);
+
+/**
+ * Objects created or dropped by administration commands
+ */
+const ADMIN_OBJECTS: ReadonlySet<string> = new Set([
+  'INDEX', 'CONSTRAINT', 'DATABASE', 'USER', 'ROLE', 'ALIAS', 'COMPOSITE', 'SERVER',
+  'RANGE', 'TEXT', 'POINT', 'LOOKUP', 'FULLTEXT', 'VECTOR', 'BTREE',
+]);
+
+/**
+ * Operators of more than one character
+ */
+const MULTI_CHAR_SYMBOLS = ['<>', '<=', '>=', '=~', '+=', '->', '<-', '..', '::', '||'];
+
+const WORD_START = /[\p{L}_]/u;
+const WORD_PART = /[\p{L}\p{N}_]/u;
+const NUMBER = /^(?:0x[0-9a-f]+|0o[0-7]+|(?:\d[\d_]*)?\.?\d[\d_]*(?:e[+-]?\d+)?)/i;
+
+/**
+ * Find the end of a quoted token
+ *
+ * @returns Offset after the closing quote, or -1 if there is none
+ */
+function findClosingQuote(cypher: string, start: number, quote: string): number {
+  for (let i = start + 1; i < cypher.length; i++) {
+    const char = cypher[i];
+    if (char === '\\' && quote !== '`') {
+      i++;
+    } else if (char === quote) {
+      // Backticks are escaped by doubling them
+      if (quote === '`' && cypher[i + 1] === '`') {
+        i++;
+        continue;
+      }
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Unescape the body of a string literal
+ */
+function unescapeString(body: string): string {
+  return body.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escape: string) => {
+    switch (escape[0]) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case 'u': return escape.length === 5 ? String.fromCharCode(parseInt(escape.slice(1), 16)) : escape;
+      default: return escape;
+    }
+  });
+}
+
+/**
+ * Check if a word is in clause position
+ */
+function isClausePosition(tokens: CypherToken[], index: number): boolean {
+  const previous = tokens[index - 1];
+  const next = tokens[index + 1];
+
+  if (next?.type === 'symbol' && NAME_FOLLOWERS.has(next.value)) {
+    return false;
+  }
+
+  if (!previous) {
+    return true;
+  }
+
+  if (previous.type === 'symbol') {
+    // `|` also separates labels (:A|Set), which are followed by a bracket
+    if (previous.value === '|') {
+      return !next || next.type !== 'symbol' || next.value === '(';
+    }
+    return CLAUSE_BOUNDARY_SYMBOLS.has(previous.value);
+  }
+
+  if (previous.type === 'word') {
+    // A property such as `n.limit` ends an expression whatever its name
+    const beforePrevious = tokens[index - 2];
+    if (beforePrevious?.type === 'symbol' && beforePrevious.value === '.') {
+      return true;
+    }
+    return !EXPRESSION_WORDS.has(previous.value.toUpperCase());
+  }
+
+  // The end of a literal, parameter or quoted identifier
+  return true;
+}
+
+/**
+ * Set `keyword` on the words in clause position
+ */
+function markKeywords(tokens: CypherToken[]): CypherToken[] {
+  tokens.forEach((token, index) => {
+    if (token.type === 'word' && CLAUSE_KEYWORDS.has(token.value.toUpperCase()) && isClausePosition(tokens, index)) {
+      token.keyword = token.value.toUpperCase();
+    }
+  });
+  return tokens;
+}
+
+/**
+ * Split a Cypher query into tokens
+ *
+ * Comments and whitespace are dropped. Words in clause position get
+ * their upper-case `keyword`.
+ *
+ * @param cypher - Cypher query
+ * @returns Tokens, and an error if the query has an unterminated string,
+ * identifier or comment (the tokens before it are still returned)
+ */
+export function tokenizeCypher(cypher: string): CypherLexResult {
+  const tokens: CypherToken[] = [];
+  let i = 0;
+
+  const done = (error?: string): CypherLexResult => ({ tokens: markKeywords(tokens), ...(error && { error }) });
+  const push = (type: CypherTokenType, end: number, value?: string) => {
+    const text = cypher.slice(i, end);
+    tokens.push({ type, text, value: value ?? text, offset: i });
+    i = end;
+  };
+
+  while (i < cypher.length) {
+    const char = cypher[i] ?? '';
+    const rest = cypher.slice(i, i + 2);
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (rest === '//') {
+      const end = cypher.indexOf('\n', i);
+      i = end === -1 ? cypher.length : end + 1;
+      continue;
+    }
+
+    if (rest === '/*') {
+      const end = cypher.indexOf('*/', i + 2);
+      if (end === -1) {
+        return done('Unterminated comment in query');
+      }
+      i = end + 2;
+      continue;
+    }
+
+    if (char === '\'' || char === '"') {
+      const end = findClosingQuote(cypher, i, char);
+      if (end === -1) {
+        return done('Unterminated string in query');
+      }
+      push('string', end, unescapeString(cypher.slice(i + 1, end - 1)));
+      continue;
+    }
+
+    if (char === '`') {
+      const end = findClosingQuote(cypher, i, '`');
+      if (end === -1) {
+        return done('Unterminated quoted identifier in query');
+      }
+      push('identifier', end, cypher.slice(i + 1, end - 1).replace(/``/g, '`'));
+      continue;
+    }
+
+    if (char === '$') {
+      const next = cypher[i + 1] ?? '';
+      if (next === '`') {
+        const end = findClosingQuote(cypher, i + 1, '`');
+        if (end === -1) {
+          return done('Unterminated quoted identifier in query');
+        }
+        push('parameter', end, cypher.slice(i + 2, end - 1).replace(/``/g, '`'));
+        continue;
+      }
+      if (WORD_PART.test(next)) {
+        let end = i + 1;
+        while (end < cypher.length && WORD_PART.test(cypher[end] ?? '')) {
+          end++;
+        }
+        push('parameter', end, cypher.slice(i + 1, end));
+        continue;
+      }
+    }
+
+    if (WORD_START.test(char)) {
+      let end = i + 1;
+      while (end < cypher.length && WORD_PART.test(cypher[end] ?? '')) {
+        end++;
+      }
+      push('word', end);
+      continue;
+    }
+
+    // A dot starts a number only if no range or property access can be meant
+    if (/\d/.test(char) || (char === '.' && /\d/.test(cypher[i + 1] ?? '') && tokens.at(-1)?.type === 'symbol')) {
+      const match = NUMBER.exec(cypher.slice(i));
+      // `1..3` is a range, not the number `1.`
+      const length = match?.[0].length ?? 1;
+      push('number', i + length);
+      continue;
+    }
+
+    const symbol = MULTI_CHAR_SYMBOLS.find(candidate => cypher.startsWith(candidate, i)) ?? char;
+    push('symbol', i + symbol.length);
+  }
+
+  return done();
+}
+
+/**
+ * Check if a token is one of the given words, ignoring case
+ */
+export function isWord(token: CypherToken | undefined, ...words: string[]): boolean {
+  return token?.type === 'word' && words.includes(token.value.toUpperCase());
+}
+
+/**
+ * Check if the tokens at an index spell out a sequence of words
+ */
+export function startsWithWords(tokens: CypherToken[], index: number, ...words: string[]): boolean {
+  return words.every((word, offset) => isWord(tokens[index + offset], word));
+}
+
+/**
+ * Check if a clause keyword starts an administration command
+ */
+function isAdminCommand(tokens: CypherToken[], index: number): boolean {
+  const keyword = tokens[index]?.keyword;
+
+  if (keyword === 'ALTER' || keyword === 'GRANT' || keyword === 'DENY' || keyword === 'REVOKE' || keyword === 'RENAME') {
+    return true;
+  }
+
+  if (keyword === 'CREATE' || keyword === 'DROP') {
+    // CREATE OR REPLACE DATABASE, CREATE TEXT INDEX, ...
+    let next = index + 1;
+    if (startsWithWords(tokens, next, 'OR', 'REPLACE')) {
+      next += 2;
+    }
+    return isWord(tokens[next], ...ADMIN_OBJECTS);
+  }
+
+  return false;
+}
+
+/**
+ * Classify a tokenized query
+ *
+ * Administration commands come first, then any write clause, then read
+ * clauses. Queries with none of them, such as `SHOW INDEXES`, are unknown.
+ */
+export function classifyCypher(tokens: CypherToken[]): CypherQueryType {
+  if (tokens.some((token, index) => token.keyword && isAdminCommand(tokens, index))) {
+    return 'admin';
+  }
+
+  if (tokens.some(token => token.keyword && WRITE_KEYWORDS.has(token.keyword))) {
+    return 'write';
+  }
+
+  if (tokens.some(token => token.keyword && READ_KEYWORDS.has(token.keyword))) {
+    return 'read';
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Check if a tokenized query has a clause that writes to the graph or the schema
+ */
+export function hasWriteClause(tokens: CypherToken[]): boolean {
+  return tokens.some(token => token.keyword && WRITE_KEYWORDS.has(token.keyword));
+}
+
+/**
+ * Name of the procedure called by a CALL keyword, e.g. `db.labels`
+ *
+ * Quoted name parts are unquoted, so `` `dbms`.security `` is `dbms.security`.
+ *
+ * @returns The name, or undefined if the token is not a procedure call
+ */
+export function getProcedureName(tokens: CypherToken[], index: number): string | undefined {
+  if (tokens[index]?.keyword !== 'CALL') {
+    return undefined;
+  }
+
+  const parts: string[] = [];
+  let next = index + 1;
+  while (tokens[next]?.type === 'word' || tokens[next]?.type === 'identifier') {
+    parts.push(tokens[next]?.value ?? '');
+    if (tokens[next + 1]?.value !== '.') {
+      break;
+    }
+    next += 2;
+  }
+
+  return parts.length > 0 ? parts.join('.') : undefined;
+}
+
+/**
+ * Find the bracket closing the one at an index
+ *
+ * @returns Index of the closing bracket, or -1 if it is missing
+ */
+export function findClosingBracket(tokens: CypherToken[], index: number): number {
+  const open = tokens[index]?.value;
+  const close = open === '(' ? ')' : open === '[' ? ']' : open === '{' ? '}' : undefined;
+  if (!close || tokens[index]?.type !== 'symbol') {
+    return -1;
+  }
+
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token?.type !== 'symbol') {
+      continue;
+    }
+    if (token.value === open) {
+      depth++;
+    } else if (token.value === close && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
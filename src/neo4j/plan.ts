@@ -0,0 +1,365 @@
+/**
+ * Neo4j Query Plans
+ *
+ * Runs EXPLAIN or PROFILE for a query and condenses the plan Neo4j
+ * returns into a compact operator tree, the indexes it uses and
+ * warnings about operators that tend to be expensive. Also checks
+ * plans against a connection's cost budget.
+ */
+
+import type { CostBudget } from '../types.js';
+import type { Neo4jClient } from './client.js';
+import type {
+  Neo4jNotification,
+  Neo4jQueryPlan,
+  PlanMode,
+  PlanOperator,
+  QueryOptions,
+  QueryPlanSummary,
+} from './types.js';
+import { DEFAULTS } from '../config/constants.js';
+import { Neo4jQueryError, ValidationError } from '../utils/errors.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Leading EXPLAIN or PROFILE keyword
+ */
+const PLAN_PREFIX_PATTERN = /^\s*(EXPLAIN|PROFILE)\b\s*/i;
+
+/**
+ * Remove a leading EXPLAIN or PROFILE keyword from a query
+ */
+export function stripPlanPrefix(cypher: string): string {
+  return cypher.replace(PLAN_PREFIX_PATTERN, '');
+}
+
+/**
+ * Get the plan for a query
+ *
+ * EXPLAIN never runs the query. PROFILE runs it to completion, so
+ * callers must only profile read queries.
+ *
+ * @param client - Neo4j client
+ * @param cypher - Query to plan, with or without an EXPLAIN/PROFILE prefix
+ * @param params - Query parameters
+ * @param mode - EXPLAIN or PROFILE
+ * @param options - Query options
+ * @throws Neo4jQueryError if Neo4j does not return a plan
+ */
+export async function explainQuery(
+  client: Neo4jClient,
+  cypher: string,
+  params: Record<string, unknown> | undefined,
+  mode: PlanMode,
+  options?: QueryOptions
+): Promise<QueryPlanSummary> {
+  logger.info('Planning query', { mode, cypherLength: cypher.length });
+
+  // PROFILE runs the query, so Neo4j must refuse it if it writes
+  const result = await client.query(`${mode} ${stripPlanPrefix(cypher)}`, params, {
+    ...options,
+    includeCounters: false,
+    readOnly: mode === 'PROFILE',
+  });
+
+  const plan = mode === 'PROFILE' ? result.profiledQueryPlan : result.queryPlan;
+  if (!plan) {
+    throw new Neo4jQueryError(`Neo4j did not return a query plan for ${mode}`);
+  }
+
+  return summarizePlan(plan, mode, result.notifications);
+}
+
+/**
+ * Convert a Neo4j plan operator (and its children) to the compact form
+ */
+function toPlanOperator(plan: Neo4jQueryPlan, mode: PlanMode): PlanOperator {
+  const args = plan.arguments ?? {};
+  const estimatedRows = typeof args.EstimatedRows === 'number' ? Math.round(args.EstimatedRows) : undefined;
+
+  return {
+    operator: plan.operatorType.split('@')[0] ?? plan.operatorType,
+    ...(typeof args.Details === 'string' && args.Details && { details: args.Details }),
+    ...(estimatedRows !== undefined && { estimatedRows }),
+    ...(mode === 'PROFILE' && typeof plan.records === 'number' && { rows: plan.records }),
+    ...(mode === 'PROFILE' && typeof plan.dbHits === 'number' && { dbHits: plan.dbHits }),
+    children: (plan.children ?? []).map(child => toPlanOperator(child, mode)),
+  };
+}
+
+/**
+ * Visit every operator in a plan tree, parents first
+ */
+export function walkPlan(root: PlanOperator, visit: (operator: PlanOperator) => void): void {
+  visit(root);
+  for (const child of root.children) {
+    walkPlan(child, visit);
+  }
+}
+
+/**
+ * Check if an operator expands a variable-length pattern without an upper bound
+ *
+ * Looks for `*`, `*2..` and similar in the operator details.
+ */
+export function isUnboundedVarLength(operator: PlanOperator): boolean {
+  if (!operator.operator.includes('VarExpand') && !operator.operator.includes('VarLengthExpand')) {
+    return false;
+  }
+
+  const match = /\*\s*(\d*)\s*(\.\.\s*(\d*))?/.exec(operator.details ?? '');
+  if (!match) {
+    return false;
+  }
+
+  const [, min, range, max] = match;
+  return range ? !max : !min;
+}
+
+/**
+ * Warning for an operator that tends to be expensive, if any
+ */
+function getOperatorWarning(operator: PlanOperator): string | null {
+  const target = operator.details ? ` (${operator.details})` : '';
+
+  if (isUnboundedVarLength(operator)) {
+    return `${operator.operator}${target}: the variable-length pattern has no upper bound. Limit the number of hops, e.g. *1..5.`;
+  }
+
+  switch (operator.operator) {
+    case 'CartesianProduct':
+      return 'CartesianProduct: every row of one pattern is combined with every row of another. Connect the patterns with a relationship or use separate queries.';
+    case 'AllNodesScan':
+      return `AllNodesScan${target}: every node in the database is read. Add a label to the pattern.`;
+    case 'NodeByLabelScan':
+      return `NodeByLabelScan${target}: every node with the label is read. Add an index if the query filters on a property.`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Summarise a Neo4j query plan
+ *
+ * @param plan - Plan returned by Neo4j
+ * @param mode - EXPLAIN or PROFILE
+ * @param notifications - Notifications returned with the plan
+ */
+export function summarizePlan(
+  plan: Neo4jQueryPlan,
+  mode: PlanMode,
+  notifications: Neo4jNotification[] = []
+): QueryPlanSummary {
+  const root = toPlanOperator(plan, mode);
+  const indexes = new Set<string>();
+  const warnings = new Set<string>();
+  let totalDbHits = 0;
+
+  walkPlan(root, operator => {
+    if (operator.operator.includes('Index')) {
+      indexes.add(operator.details ? `${operator.operator}: ${operator.details}` : operator.operator);
+    }
+
+    const warning = getOperatorWarning(operator);
+    if (warning) {
+      warnings.add(warning);
+    }
+
+    totalDbHits += operator.dbHits ?? 0;
+  });
+
+  for (const notification of notifications) {
+    warnings.add(notification.description || notification.title);
+  }
+
+  return {
+    mode,
+    root,
+    estimatedRows: root.estimatedRows ?? 0,
+    ...(mode === 'PROFILE' && { totalDbHits }),
+    indexes: [...indexes],
+    warnings: [...warnings],
+  };
+}
+
+/**
+ * Format one operator line of the plan tree
+ */
+function formatOperator(operator: PlanOperator, depth: number): string {
+  const stats: string[] = [];
+  if (operator.estimatedRows !== undefined) {
+    stats.push(`est. ${operator.estimatedRows} rows`);
+  }
+  if (operator.rows !== undefined) {
+    stats.push(`${operator.rows} rows`);
+  }
+  if (operator.dbHits !== undefined) {
+    stats.push(`${operator.dbHits} db hits`);
+  }
+
+  const details = operator.details ? ` ${operator.details}` : '';
+  const statsText = stats.length > 0 ? ` [${stats.join(', ')}]` : '';
+
+  return `${'  '.repeat(depth)}- ${operator.operator}${details}${statsText}`;
+}
+
+/**
+ * Format a plan summary for LLM consumption
+ *
+ * Warnings and indexes come before the operator tree, so they survive
+ * when the text is truncated to a token limit.
+ */
+export function formatPlanForLLM(summary: QueryPlanSummary): string {
+  const lines: string[] = [];
+
+  const totals = [`estimated rows: ${summary.estimatedRows}`];
+  if (summary.totalDbHits !== undefined) {
+    totals.push(`total db hits: ${summary.totalDbHits}`);
+  }
+  lines.push(`${summary.mode} plan (${totals.join(', ')})`);
+  lines.push('');
+
+  lines.push('Warnings:');
+  if (summary.warnings.length === 0) {
+    lines.push('- None');
+  }
+  for (const warning of summary.warnings) {
+    lines.push(`- ${warning}`);
+  }
+  lines.push('');
+
+  lines.push('Indexes used:');
+  if (summary.indexes.length === 0) {
+    lines.push('- None');
+  }
+  for (const index of summary.indexes) {
+    lines.push(`- ${index}`);
+  }
+  lines.push('');
+
+  lines.push('Operators:');
+  const addOperator = (operator: PlanOperator, depth: number): void => {
+    lines.push(formatOperator(operator, depth));
+    for (const child of operator.children) {
+      addOperator(child, depth + 1);
+    }
+  };
+  addOperator(summary.root, 0);
+
+  return lines.join('\n');
+}
+
+/**
+ * Build a cost budget from connection settings
+ *
+ * Missing fields take their defaults: the row estimate from
+ * DEFAULTS.COST_GUARD_MAX_ESTIMATED_ROWS, and every operator check on.
+ *
+ * @param value - `true` for the defaults, an object of overrides, or null/false for no guard
+ * @returns Cost budget, or null if the guard is off
+ * @throws ValidationError if a field has the wrong type
+ */
+export function normalizeCostBudget(value: unknown): CostBudget | null {
+  if (value === undefined || value === null || value === false) {
+    return null;
+  }
+
+  const overrides = value === true ? {} : value;
+  if (typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new ValidationError('costBudget must be true or an object');
+  }
+
+  const fields = overrides as Record<string, unknown>;
+  const maxEstimatedRows = fields.maxEstimatedRows ?? DEFAULTS.COST_GUARD_MAX_ESTIMATED_ROWS;
+  if (typeof maxEstimatedRows !== 'number' || !Number.isInteger(maxEstimatedRows) || maxEstimatedRows < 1) {
+    throw new ValidationError('costBudget.maxEstimatedRows must be a positive integer');
+  }
+
+  const flag = (name: string): boolean => {
+    const flagValue = fields[name] ?? true;
+    if (typeof flagValue !== 'boolean') {
+      throw new ValidationError(`costBudget.${name} must be a boolean`);
+    }
+    return flagValue;
+  };
+
+  return {
+    maxEstimatedRows,
+    rejectAllNodesScan: flag('rejectAllNodesScan'),
+    rejectCartesianProduct: flag('rejectCartesianProduct'),
+    rejectUnboundedVarLength: flag('rejectUnboundedVarLength'),
+  };
+}
+
+/**
+ * Find the ways a plan exceeds a cost budget
+ *
+ * @returns One actionable message per problem (empty if within budget)
+ */
+export function findCostViolations(summary: QueryPlanSummary, budget: CostBudget): string[] {
+  const violations: string[] = [];
+  let largestEstimate = 0;
+  let largestOperator = summary.root;
+
+  walkPlan(summary.root, operator => {
+    const target = operator.details ? ` (${operator.details})` : '';
+
+    if ((operator.estimatedRows ?? 0) > largestEstimate) {
+      largestEstimate = operator.estimatedRows ?? 0;
+      largestOperator = operator;
+    }
+
+    if (budget.rejectAllNodesScan && operator.operator === 'AllNodesScan') {
+      violations.push(`AllNodesScan${target} reads every node in the database. Add a label to the pattern.`);
+    }
+
+    if (budget.rejectCartesianProduct && operator.operator === 'CartesianProduct') {
+      violations.push('CartesianProduct combines unrelated patterns. Connect them with a relationship or use separate queries.');
+    }
+
+    if (budget.rejectUnboundedVarLength && isUnboundedVarLength(operator)) {
+      violations.push(`${operator.operator}${target} has no upper bound on the number of hops. Use a bound such as *1..5.`);
+    }
+  });
+
+  if (largestEstimate > budget.maxEstimatedRows) {
+    violations.push(
+      `${largestOperator.operator} is estimated to produce ${largestEstimate} rows, over the budget of ${budget.maxEstimatedRows}. ` +
+      'Add a LIMIT, filter on an indexed property or create an index for the filter.'
+    );
+  }
+
+  return violations;
+}
+
+/**
+ * Plan a read query and reject it if it exceeds the cost budget
+ *
+ * @param client - Neo4j client
+ * @param cypher - Read query
+ * @param params - Query parameters
+ * @param budget - Cost budget of the connection
+ * @param options - Query options
+ * @throws ValidationError listing the problems if the plan is over budget
+ */
+export async function enforceCostBudget(
+  client: Neo4jClient,
+  cypher: string,
+  params: Record<string, unknown> | undefined,
+  budget: CostBudget,
+  options?: QueryOptions
+): Promise<void> {
+  const summary = await explainQuery(client, cypher, params, 'EXPLAIN', options);
+  const violations = findCostViolations(summary, budget);
+
+  if (violations.length === 0) {
+    return;
+  }
+
+  logger.warn('Query rejected by cost guard', { violations: violations.length, estimatedRows: summary.estimatedRows });
+
+  throw new ValidationError(
+    `Query rejected by the cost guard: ${violations.join(' ')} Use explain_neo4j_cypher to inspect the plan.`,
+    { violations, estimatedRows: summary.estimatedRows }
+  );
+}
@@ -8,25 +8,32 @@
 import type { Neo4jClient } from './client.js';
 import type {
   QueryResult,
+  GraphQueryResult,
   WriteResult,
+  DryRunWriteResult,
+  TransactionWriteResult,
+  WriteStatement,
   Neo4jQueryCounters,
   Neo4jValue,
-  Neo4jNode,
-  Neo4jRelationship,
+  Neo4jHttpResponse,
+  Neo4jResponseData,
   QueryOptions,
 } from './types.js';
+import { tokenizeCypher, hasWriteClause, isWord } from './lexer.js';
+import type { CypherToken } from './lexer.js';
+import { collectGraph } from './codec.js';
 import { ValidationError } from '../utils/errors.js';
 import * as logger from '../utils/logger.js';
 
 /**
- * Execute a read query and transform results
+ * Run a read query and return the raw response
  */
-export async function executeReadQuery(
+async function runReadQuery(
   client: Neo4jClient,
   cypher: string,
   params?: Record<string, unknown>,
   options?: QueryOptions
-): Promise<QueryResult> {
+): Promise<Neo4jHttpResponse> {
   // Validate this is a read query
   if (isWriteQuery(cypher)) {
     throw new ValidationError(
@@ -39,12 +46,62 @@ export async function executeReadQuery(
     hasParams: !!params,
   });
 
-  const result = await client.query(cypher, params, {
+  // Neo4j refuses writes the check above cannot see, e.g. CALL apoc.create.node
+  return client.query(cypher, params, {
     ...options,
     includeCounters: false,
+    readOnly: true,
   });
+}
 
-  return transformQueryResult(result.data);
+/**
+ * Execute a read query and transform results
+ *
+ * @param cypher - Query to run; when `maxRows` is given, already limited
+ *   to one row more than it (see limitReadQuery)
+ * @param maxRows - Most rows to return; a result with more is cut short and
+ *   reported as truncated (unlimited if undefined)
+ */
+export async function executeReadQuery(
+  client: Neo4jClient,
+  cypher: string,
+  params?: Record<string, unknown>,
+  options?: QueryOptions,
+  maxRows?: number
+): Promise<QueryResult> {
+  const result = await runReadQuery(client, cypher, params, options);
+  return transformQueryResult(result.data, maxRows);
+}
+
+/**
+ * Execute a read query and return its nodes and relationships
+ *
+ * Each node and relationship appears once, however many rows and
+ * paths contain it. Values that are not graph elements are dropped.
+ *
+ * @param cypher - Query to run, limited as for executeReadQuery
+ * @param maxRows - Most rows to collect from (unlimited if undefined)
+ */
+export async function executeGraphReadQuery(
+  client: Neo4jClient,
+  cypher: string,
+  params?: Record<string, unknown>,
+  options?: QueryOptions,
+  maxRows?: number
+): Promise<GraphQueryResult> {
+  // Graph elements are collected by element ID, which decoding drops
+  const result = await runReadQuery(client, cypher, params, { ...options, raw: true });
+
+  const values = (result.data?.values ?? []) as Neo4jValue[][];
+  const truncated = maxRows !== undefined && values.length > maxRows;
+  const rows = truncated ? values.slice(0, maxRows) : values;
+
+  return {
+    columns: result.data?.fields ?? [],
+    rowCount: rows.length,
+    ...collectGraph(rows),
+    truncated,
+  };
 }
 
 /**
@@ -73,168 +130,253 @@ export async function executeWriteQuery(
 }
 
 /**
- * Check if a query contains write operations
- */
-export function isWriteQuery(cypher: string): boolean {
-  const normalizedQuery = cypher
-    .toLowerCase()
-    .replace(/\/\*[\s\S]*?\*\//g, '') // Remove block comments
-    .replace(/\/\/.*$/gm, '') // Remove line comments
-    .replace(/\s+/g, ' ')
-    .trim();
-
-  // Write operation patterns
-  const writePatterns = [
-    /\bcreate\s/,
-    /\bmerge\s/,
-    /\bdelete\s/,
-    /\bdetach\s+delete\s/,
-    /\bset\s/,
-    /\bremove\s/,
-    /\bdrop\s/,
-    /\bcall\s*\{[^}]*\b(create|merge|delete|set|remove)\b/,
-    /\bforeach\s*\(/,
-  ];
-
-  return writePatterns.some((pattern) => pattern.test(normalizedQuery));
-}
-
-/**
- * Transform Neo4j query result to our format
+ * Run a write query and roll it back
+ *
+ * Reports the counters the query would produce without persisting
+ * anything. The query still runs, so it takes the same locks and time
+ * as a real write.
+ *
+ * @param sampleSize - Number of returned rows to include (none if 0)
  */
-function transformQueryResult(
-  data?: { fields: string[]; values: Neo4jValue[][] }
-): QueryResult {
-  if (!data) {
-    return {
-      columns: [],
-      rows: [],
-      rowCount: 0,
-    };
-  }
-
-  const columns = data.fields;
-  const rows: Record<string, unknown>[] = [];
-
-  for (const valueRow of data.values) {
-    const row: Record<string, unknown> = {};
+export async function dryRunWriteQuery(
+  client: Neo4jClient,
+  cypher: string,
+  params?: Record<string, unknown>,
+  options?: QueryOptions,
+  sampleSize: number = 0
+): Promise<DryRunWriteResult> {
+  logger.info('Executing write query dry run', {
+    cypherLength: cypher.length,
+    hasParams: !!params,
+    sampleSize,
+  });
 
-    for (let i = 0; i < columns.length; i++) {
-      const colName = columns[i];
-      const value = valueRow[i];
+  const [result] = await client.runTransaction(
+    [{ statement: cypher, parameters: params }],
+    { ...options, includeCounters: true, rollback: true }
+  );
 
-      if (colName !== undefined && value !== undefined) {
-        row[colName] = transformValue(value);
-      } else if (colName !== undefined) {
-        row[colName] = null;
-      }
-    }
+  const counters = result?.counters ?? {};
+  const summary = generateWriteSummary(counters);
 
-    rows.push(row);
+  if (sampleSize === 0) {
+    return { counters, summary };
   }
 
+  const rows = transformQueryResult(result?.data);
   return {
-    columns,
-    rows,
-    rowCount: rows.length,
+    counters,
+    summary,
+    sample: {
+      ...rows,
+      rows: rows.rows.slice(0, sampleSize),
+      truncated: rows.rowCount > sampleSize,
+    },
   };
 }
 
 /**
- * Transform a Neo4j value to a plain JavaScript value
+ * Execute write statements in order in one transaction
+ *
+ * Either every statement is committed or, if one fails, none are.
+ *
+ * @returns Counters per statement and for the whole transaction
  */
-function transformValue(value: Neo4jValue): unknown {
-  if (value === null || value === undefined) {
-    return null;
-  }
+export async function executeWriteTransaction(
+  client: Neo4jClient,
+  statements: WriteStatement[],
+  options?: QueryOptions
+): Promise<TransactionWriteResult> {
+  logger.info('Executing write transaction', {
+    statements: statements.length,
+  });
 
-  // Handle arrays
-  if (Array.isArray(value)) {
-    return value.map(transformValue);
-  }
+  const responses = await client.runTransaction(
+    statements.map(({ query, params }) => ({ statement: query, parameters: params })),
+    { ...options, includeCounters: true }
+  );
 
-  // Handle Neo4j Node
-  if (isNeo4jNode(value)) {
-    return transformNode(value);
-  }
+  const results = responses.map(response => {
+    const counters = response.counters ?? {};
+    return { counters, summary: generateWriteSummary(counters) };
+  });
+  const counters = sumCounters(results.map(result => result.counters));
 
-  // Handle Neo4j Relationship
-  if (isNeo4jRelationship(value)) {
-    return transformRelationship(value);
-  }
+  return {
+    counters,
+    summary: generateWriteSummary(counters),
+    statements: results,
+  };
+}
 
-  // Handle plain objects (maps)
-  if (typeof value === 'object') {
-    const result: Record<string, unknown> = {};
-    for (const [key, val] of Object.entries(value)) {
-      result[key] = transformValue(val as Neo4jValue);
+/**
+ * Add up the counters of several statements
+ */
+function sumCounters(all: Neo4jQueryCounters[]): Neo4jQueryCounters {
+  const total: Record<string, number | boolean> = {};
+
+  for (const counters of all) {
+    for (const [key, value] of Object.entries(counters)) {
+      if (typeof value === 'number') {
+        total[key] = ((total[key] as number | undefined) ?? 0) + value;
+      } else if (typeof value === 'boolean') {
+        total[key] = (total[key] as boolean | undefined) === true || value;
+      }
     }
-    return result;
   }
 
-  // Return primitives as-is
-  return value;
+  return total as Neo4jQueryCounters;
 }
 
 /**
- * Check if value is a Neo4j Node
+ * Check if a query contains write operations
  */
-function isNeo4jNode(value: unknown): value is Neo4jNode {
-  return (
-    typeof value === 'object' &&
-    value !== null &&
-    '_element_id' in value &&
-    '_labels' in value
-  );
+export function isWriteQuery(cypher: string): boolean {
+  return hasWriteClause(tokenizeCypher(cypher).tokens);
 }
 
 /**
- * Check if value is a Neo4j Relationship
+ * Check if a LIMIT keyword starts a clause rather than naming something
+ *
+ * A property (`n.limit`) is never a clause, and neither is a variable
+ * the lexer takes for one, such as `limit` in `RETURN n.x * limit`:
+ * a real LIMIT is followed by its row count.
  */
-function isNeo4jRelationship(value: unknown): value is Neo4jRelationship {
-  return (
-    typeof value === 'object' &&
-    value !== null &&
-    '_element_id' in value &&
-    '_type' in value &&
-    '_start_node_element_id' in value
-  );
+function isLimitClause(tokens: CypherToken[], index: number): boolean {
+  const previous = tokens[index - 1];
+  const next = tokens[index + 1];
+
+  if (previous?.type === 'symbol' && previous.value === '.') {
+    return false;
+  }
+  return next !== undefined && !(next.type === 'symbol' && next.value === ';');
 }
 
 /**
- * Transform Neo4j Node to plain object
+ * Limit a read query that has no LIMIT of its own
+ *
+ * Appends `LIMIT n` after the final RETURN, or wraps a UNION in
+ * `CALL { ... } RETURN *` so the limit covers every branch. A LIMIT in
+ * a subquery or on an earlier WITH does not bound the result, so only
+ * one after the final top-level RETURN counts.
+ *
+ * @param cypher - Read query
+ * @param limit - Rows to limit the result to
+ * @returns The limited query, or the query unchanged if it has a LIMIT,
+ *   returns no rows to limit (e.g. a standalone CALL) or cannot be
+ *   rewritten safely
  */
-function transformNode(node: Neo4jNode): Record<string, unknown> {
-  const result: Record<string, unknown> = {
-    _labels: node._labels,
-  };
+export function limitReadQuery(cypher: string, limit: number): string {
+  const { tokens, error } = tokenizeCypher(cypher);
+  if (error) {
+    return cypher;
+  }
+
+  let depth = 0;
+  let end = cypher.length;
+  let hasReturn = false;
+  let hasLimit = false;
+  let hasUnion = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (!token) {
+      continue;
+    }
 
-  // Copy all properties except internal ones
-  for (const [key, value] of Object.entries(node)) {
-    if (!key.startsWith('_')) {
-      result[key] = transformValue(value as Neo4jValue);
+    if (token.type === 'symbol') {
+      if (['(', '[', '{'].includes(token.value)) {
+        depth++;
+      } else if ([')', ']', '}'].includes(token.value)) {
+        depth--;
+      } else if (token.value === ';') {
+        // A trailing semicolon is dropped; several statements are left alone
+        if (i !== tokens.length - 1) {
+          return cypher;
+        }
+        end = token.offset;
+      }
+      continue;
+    }
+
+    if (depth !== 0 || !token.keyword) {
+      continue;
+    }
+    if (token.keyword === 'RETURN') {
+      hasReturn = true;
+      hasLimit = false;
+    } else if (token.keyword === 'LIMIT' && isLimitClause(tokens, i)) {
+      hasLimit = true;
+    } else if (token.keyword === 'UNION') {
+      hasUnion = true;
     }
   }
 
-  return result;
+  if (!hasReturn) {
+    return cypher;
+  }
+
+  // On a new line, so a trailing line comment cannot swallow the limit
+  const body = cypher.slice(0, end).trimEnd();
+
+  if (hasUnion) {
+    // Query options and USE must stay in front of the whole query
+    if (isWord(tokens[0], 'CYPHER', 'USE', 'EXPLAIN', 'PROFILE')) {
+      return cypher;
+    }
+    return `CALL {\n${body}\n}\nRETURN * LIMIT ${limit}`;
+  }
+
+  return hasLimit ? cypher : `${body}\nLIMIT ${limit}`;
 }
 
 /**
- * Transform Neo4j Relationship to plain object
+ * Transform decoded Neo4j query result to our format
+ *
+ * @param maxRows - Most rows to keep; a result with more is cut and
+ *   marked truncated (unlimited if undefined)
  */
-function transformRelationship(rel: Neo4jRelationship): Record<string, unknown> {
-  const result: Record<string, unknown> = {
-    _type: rel._type,
-  };
+function transformQueryResult(
+  data?: Neo4jResponseData,
+  maxRows?: number
+): QueryResult {
+  if (!data) {
+    return {
+      columns: [],
+      rows: [],
+      rowCount: 0,
+      truncated: false,
+    };
+  }
+
+  const columns = data.fields;
+  const rows: Record<string, unknown>[] = [];
+  const truncated = maxRows !== undefined && data.values.length > maxRows;
+  const values = truncated ? data.values.slice(0, maxRows) : data.values;
+
+  for (const valueRow of values) {
+    const row: Record<string, unknown> = {};
+
+    for (let i = 0; i < columns.length; i++) {
+      const colName = columns[i];
+      const value = valueRow[i];
 
-  // Copy all properties except internal ones
-  for (const [key, value] of Object.entries(rel)) {
-    if (!key.startsWith('_')) {
-      result[key] = transformValue(value as Neo4jValue);
+      if (colName !== undefined && value !== undefined) {
+        row[colName] = value;
+      } else if (colName !== undefined) {
+        row[colName] = null;
+      }
     }
+
+    rows.push(row);
   }
 
-  return result;
+  return {
+    columns,
+    rows,
+    rowCount: rows.length,
+    truncated,
+  };
 }
 
 /**
@@ -294,13 +436,22 @@ export function validateCypherSyntax(cypher: string): { valid: boolean; error?:
     return { valid: false, error: 'Query cannot be empty' };
   }
 
-  // Check for unbalanced parentheses
+  const { tokens, error } = tokenizeCypher(trimmed);
+  if (error) {
+    return { valid: false, error };
+  }
+
+  // Brackets inside strings, identifiers and comments don't count
   let parenCount = 0;
   let bracketCount = 0;
   let braceCount = 0;
 
-  for (const char of trimmed) {
-    switch (char) {
+  for (const token of tokens) {
+    if (token.type !== 'symbol') {
+      continue;
+    }
+
+    switch (token.value) {
       case '(':
         parenCount++;
         break;
@@ -11,7 +11,9 @@ import type {
   ProcessedLabel,
   ProcessedRelationship,
   ProcessedRelationshipType,
+  ProcessedProperty,
   ApocSchemaResult,
+  SchemaExtractionOptions,
 } from './types.js';
 import * as logger from '../utils/logger.js';
 
@@ -23,20 +25,29 @@ import * as logger from '../utils/logger.js';
  */
 export async function extractSchema(
   client: Neo4jClient,
-  sampleSize: number = 1000
+  sampleSize: number = 1000,
+  options: SchemaExtractionOptions = {}
 ): Promise<ProcessedSchema> {
   logger.info('Extracting Neo4j schema', { sampleSize });
 
   try {
     // Try APOC first
-    return await extractSchemaWithApoc(client, sampleSize);
+    const schema = await extractSchemaWithApoc(client, sampleSize, options);
+    options.onProgress?.(1, 1, 'Schema extracted with APOC');
+    return schema;
   } catch (error) {
-    logger.warn('APOC schema extraction failed, using fallback', {
-      error: error instanceof Error ? error.message : String(error),
-    });
+    // A cancelled request must not fall back to another round of queries
+    if (options.signal?.aborted) {
+      throw error;
+    }
+
+    const message = 'APOC schema extraction failed, using fallback';
+    const details = { error: error instanceof Error ? error.message : String(error) };
+    logger.warn(message, details);
+    options.onWarning?.(message, details);
 
     // Fallback to manual extraction
-    return await extractSchemaManually(client, sampleSize);
+    return await extractSchemaManually(client, sampleSize, options);
   }
 }
 
@@ -45,12 +56,13 @@ export async function extractSchema(
  */
 async function extractSchemaWithApoc(
   client: Neo4jClient,
-  sampleSize: number
+  sampleSize: number,
+  options: SchemaExtractionOptions
 ): Promise<ProcessedSchema> {
   const result = await client.query(
     `CALL apoc.meta.schema({sample: $sample})`,
     { sample: sampleSize },
-    { timeout: 60 }
+    { timeout: 60, signal: options.signal, readOnly: true }
   );
 
   if (!result.data || result.data.values.length === 0) {
@@ -159,16 +171,21 @@ function processApocSchema(schema: ApocSchemaResult): ProcessedSchema {
 
 /**
  * Extract schema manually without APOC
+ *
+ * Runs two queries per label, so progress is reported per label:
+ * one step for listing labels, one per label, one for relationship types.
  */
 async function extractSchemaManually(
   client: Neo4jClient,
-  sampleSize: number
+  sampleSize: number,
+  options: SchemaExtractionOptions
 ): Promise<ProcessedSchema> {
+  const { signal, onProgress } = options;
   const labels: ProcessedLabel[] = [];
   const relationshipTypes: ProcessedRelationshipType[] = [];
 
   // Get all labels
-  const labelsResult = await client.query('CALL db.labels()', {}, { timeout: 30 });
+  const labelsResult = await client.query('CALL db.labels()', {}, { timeout: 30, signal, readOnly: true });
   const labelNames: string[] = [];
 
   if (labelsResult.data) {
@@ -179,8 +196,11 @@ async function extractSchemaManually(
     }
   }
 
+  const totalSteps = labelNames.length + 2;
+  onProgress?.(1, totalSteps, `Found ${labelNames.length} labels`);
+
   // Get properties for each label
-  for (const labelName of labelNames) {
+  for (const [index, labelName] of labelNames.entries()) {
     const label: ProcessedLabel = {
       name: labelName,
       properties: [],
@@ -208,7 +228,7 @@ async function extractSchemaManually(
                   ELSE 'Unknown'
                 END AS type`,
         { limit: sampleSize },
-        { timeout: 30 }
+        { timeout: 30, signal, readOnly: true }
       );
 
       if (propsResult.data) {
@@ -221,7 +241,10 @@ async function extractSchemaManually(
           }
         }
       }
-    } catch {
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
       // Continue with empty properties if query fails
     }
 
@@ -234,7 +257,7 @@ async function extractSchemaManually(
          UNWIND targetLabels AS target
          RETURN DISTINCT relType, target`,
         { limit: sampleSize },
-        { timeout: 30 }
+        { timeout: 30, signal, readOnly: true }
       );
 
       if (relsResult.data) {
@@ -247,18 +270,22 @@ async function extractSchemaManually(
           }
         }
       }
-    } catch {
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
       // Continue without relationships if query fails
     }
 
     labels.push(label);
+    onProgress?.(index + 2, totalSteps, `Inspected label ${labelName}`);
   }
 
   // Get relationship types
   const relTypesResult = await client.query(
     'CALL db.relationshipTypes()',
     {},
-    { timeout: 30 }
+    { timeout: 30, signal, readOnly: true }
   );
 
   if (relTypesResult.data) {
@@ -274,6 +301,8 @@ async function extractSchemaManually(
     }
   }
 
+  onProgress?.(totalSteps, totalSteps, `Found ${relationshipTypes.length} relationship types`);
+
   // Generate summary
   const summary = generateSchemaSummary(labels, relationshipTypes);
 
@@ -283,7 +312,7 @@ async function extractSchemaManually(
 /**
  * Generate a human-readable schema summary
  */
-function generateSchemaSummary(
+export function generateSchemaSummary(
   labels: ProcessedLabel[],
   relationshipTypes: ProcessedRelationshipType[]
 ): string {
@@ -314,8 +343,27 @@ function generateSchemaSummary(
   return lines.join('\n');
 }
 
+/**
+ * Tags telling the model how a property's values are redacted
+ */
+const REDACTION_TAGS: Record<NonNullable<ProcessedProperty['redacted']>, string> = {
+  hash: ' [hashed]',
+  mask: ' [masked]',
+  detect: ' [redacted]',
+};
+
+/**
+ * Get the tag of a property whose values are redacted
+ */
+function formatRedactionTag(prop: ProcessedProperty): string {
+  return prop.redacted ? REDACTION_TAGS[prop.redacted] : '';
+}
+
 /**
  * Format schema for LLM consumption
+ *
+ * Properties whose values are redacted in results are tagged, so the
+ * model does not filter on values it will never see in plain text.
  */
 export function formatSchemaForLLM(schema: ProcessedSchema): string {
   const sections: string[] = [];
@@ -341,7 +389,7 @@ export function formatSchemaForLLM(schema: ProcessedSchema): string {
           let propLine = `  - ${prop.name}: ${prop.type}`;
           if (prop.indexed) propLine += ' [indexed]';
           if (prop.unique) propLine += ' [unique]';
-          sections.push(propLine);
+          sections.push(propLine + formatRedactionTag(prop));
         }
       }
 
@@ -377,7 +425,7 @@ export function formatSchemaForLLM(schema: ProcessedSchema): string {
       if (relType.properties.length > 0) {
         sections.push('Properties:');
         for (const prop of relType.properties) {
-          sections.push(`  - ${prop.name}: ${prop.type}`);
+          sections.push(`  - ${prop.name}: ${prop.type}${formatRedactionTag(prop)}`);
         }
       }
 
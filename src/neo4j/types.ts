@@ -15,6 +15,10 @@ export interface Neo4jHttpRequest {
   statement: string;
   parameters?: Record<string, unknown>;
   includeCounters?: boolean;
+  /** Work the query must see: it waits until the server has caught up with these */
+  bookmarks?: string[];
+  /** READ makes Neo4j refuse any write, and lets a cluster route to a secondary */
+  accessMode?: 'READ' | 'WRITE';
 }
 
 /**
@@ -23,18 +27,41 @@ export interface Neo4jHttpRequest {
 export interface Neo4jHttpResponse {
   data?: Neo4jResponseData;
   counters?: Neo4jQueryCounters;
-  profiledQueryPlan?: unknown;
+  queryPlan?: Neo4jQueryPlan;
+  profiledQueryPlan?: Neo4jQueryPlan;
   notifications?: Neo4jNotification[];
   errors?: Neo4jResponseError[];
   bookmarks?: string[];
+  /** Open explicit transaction (transaction endpoints only) */
+  transaction?: Neo4jTransactionInfo;
+}
+
+/**
+ * Explicit transaction returned by the transaction endpoints
+ */
+export interface Neo4jTransactionInfo {
+  id: string;
+  /** When the transaction is rolled back if left idle */
+  expires?: string;
+}
+
+/**
+ * Statement run in an explicit transaction
+ */
+export interface TransactionStatement {
+  statement: string;
+  parameters?: Record<string, unknown>;
 }
 
 /**
  * Neo4j Response Data structure
+ *
+ * The client decodes `values` to plain JavaScript values (see
+ * decodeValue), unless the query asked for them raw.
  */
 export interface Neo4jResponseData {
   fields: string[];
-  values: Neo4jValue[][];
+  values: unknown[][];
 }
 
 /**
@@ -51,6 +78,7 @@ export type Neo4jValue =
   | Neo4jNode
   | Neo4jRelationship
   | Neo4jPath
+  | Neo4jTypedValue
   | Neo4jValueArray
   | Neo4jValueMap;
 
@@ -94,6 +122,15 @@ export interface Neo4jPath {
   _relationships: Neo4jRelationship[];
 }
 
+/**
+ * Value in the Query API typed JSON format, e.g.
+ * `{ "$type": "Date", "_value": "2024-05-01" }`
+ */
+export interface Neo4jTypedValue {
+  $type: string;
+  _value: unknown;
+}
+
 /**
  * Neo4j Query Counters
  */
@@ -137,6 +174,21 @@ export interface Neo4jNotification {
   };
 }
 
+/**
+ * Query plan operator returned for EXPLAIN and PROFILE
+ *
+ * Profile statistics (dbHits, records, time) are only present for PROFILE.
+ */
+export interface Neo4jQueryPlan {
+  operatorType: string;
+  arguments?: Record<string, unknown>;
+  identifiers?: string[];
+  children?: Neo4jQueryPlan[];
+  dbHits?: number;
+  records?: number;
+  time?: number;
+}
+
 // ============================================
 // Schema Types
 // ============================================
@@ -206,6 +258,8 @@ export interface ProcessedProperty {
   type: string;
   indexed?: boolean;
   unique?: boolean;
+  /** How the property's values are redacted in results, if they are */
+  redacted?: 'hash' | 'mask' | 'detect';
 }
 
 /**
@@ -250,6 +304,191 @@ export interface WriteResult {
   summary: string;
 }
 
+/**
+ * Write statement with its parameters
+ */
+export interface WriteStatement {
+  query: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Result of a write query run in a transaction that was rolled back
+ */
+export interface DryRunWriteResult extends WriteResult {
+  /** Rows the query returned, up to the requested sample size */
+  sample?: QueryResult;
+}
+
+/**
+ * Result of write statements run in one transaction
+ *
+ * `counters` and `summary` cover all statements together.
+ */
+export interface TransactionWriteResult extends WriteResult {
+  statements: WriteResult[];
+}
+
+// ============================================
+// Decoded Value Types
+// ============================================
+
+/**
+ * Temporal types, decoded to `{ $type, value }` with an ISO 8601 value
+ */
+export type TemporalType =
+  | 'Date'
+  | 'Time'
+  | 'LocalTime'
+  | 'DateTime'
+  | 'OffsetDateTime'
+  | 'LocalDateTime'
+  | 'ZonedDateTime'
+  | 'Duration';
+
+/**
+ * Decoded temporal value
+ */
+export interface DecodedTemporal {
+  $type: TemporalType;
+  /** ISO 8601 representation, e.g. 2024-05-01 or P1DT2H */
+  value: string;
+}
+
+/**
+ * Decoded spatial point (z only for 3D points)
+ */
+export interface DecodedPoint {
+  srid: number;
+  x: number;
+  y: number;
+  z?: number;
+}
+
+/**
+ * Decoded byte array: only its size, the content is not useful to an LLM
+ */
+export interface DecodedByteArray {
+  $type: 'ByteArray';
+  length: number;
+}
+
+/**
+ * Decoded path: nodes and relationships in traversal order
+ *
+ * `relationships[i]` connects `nodes[i]` and `nodes[i + 1]`.
+ */
+export interface DecodedPath {
+  $type: 'Path';
+  /** Number of relationships */
+  length: number;
+  nodes: Record<string, unknown>[];
+  relationships: Record<string, unknown>[];
+}
+
+// ============================================
+// Graph Result Types
+// ============================================
+
+/**
+ * Node of a graph-shaped result
+ */
+export interface GraphNode {
+  id: string;
+  labels: string[];
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Relationship of a graph-shaped result, referencing nodes by id
+ */
+export interface GraphRelationship {
+  id: string;
+  type: string;
+  startNodeId: string;
+  endNodeId: string;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Nodes and relationships of a result, each listed once
+ */
+export interface GraphResult {
+  nodes: GraphNode[];
+  relationships: GraphRelationship[];
+}
+
+/**
+ * Graph-shaped query result
+ */
+export interface GraphQueryResult extends GraphResult {
+  columns: string[];
+  rowCount: number;
+  /** Whether rows were left out to respect the row limit */
+  truncated?: boolean;
+}
+
+// ============================================
+// Typed Parameter Types
+// ============================================
+
+/**
+ * Types a tool caller can give a parameter with `{ $type, value }`
+ */
+export type TypedParameterType = TemporalType | 'Point' | 'Integer' | 'Float';
+
+/**
+ * Parameter with an explicit Neo4j type
+ *
+ * Temporals take an ISO 8601 string, points a `{ srid, x, y, z }` object
+ * or well-known text, integers a number or a string of digits, and
+ * floats a number or `NaN`, `Infinity` or `-Infinity`.
+ */
+export interface TypedParameter {
+  $type: TypedParameterType;
+  value: unknown;
+}
+
+// ============================================
+// Query Plan Types
+// ============================================
+
+/**
+ * How a plan is obtained: EXPLAIN plans without running the query,
+ * PROFILE runs it and reports actual rows and db hits
+ */
+export type PlanMode = 'EXPLAIN' | 'PROFILE';
+
+/**
+ * Compact plan operator
+ */
+export interface PlanOperator {
+  operator: string;
+  details?: string;
+  estimatedRows?: number;
+  /** Actual rows produced (PROFILE only) */
+  rows?: number;
+  /** Database hits (PROFILE only) */
+  dbHits?: number;
+  children: PlanOperator[];
+}
+
+/**
+ * Summary of a query plan
+ */
+export interface QueryPlanSummary {
+  mode: PlanMode;
+  root: PlanOperator;
+  /** Estimated rows produced by the query */
+  estimatedRows: number;
+  /** Total database hits across all operators (PROFILE only) */
+  totalDbHits?: number;
+  /** Index lookups used by the plan */
+  indexes: string[];
+  /** Likely performance problems, including Neo4j notifications */
+  warnings: string[];
+}
+
 // ============================================
 // Connection Types
 // ============================================
@@ -269,8 +508,38 @@ export interface Neo4jConnectionConfig {
  */
 export interface QueryOptions {
   timeout?: number;
+  /** Run with the READ access mode, so Neo4j refuses any write */
   readOnly?: boolean;
   includeCounters?: boolean;
+  /** Aborts the request when the caller cancels it */
+  signal?: AbortSignal;
+  /** Keep result values as Neo4j sent them, e.g. to collect graph elements by element ID */
+  raw?: boolean;
+}
+
+/**
+ * Explicit transaction options
+ */
+export interface TransactionOptions extends QueryOptions {
+  /** Roll back instead of committing, so nothing is persisted (dry runs) */
+  rollback?: boolean;
+}
+
+/**
+ * Progress callback for multi-step operations
+ */
+export type ProgressCallback = (progress: number, total?: number, message?: string) => void;
+
+/**
+ * Schema extraction options
+ */
+export interface SchemaExtractionOptions {
+  /** Aborts extraction when the caller cancels it */
+  signal?: AbortSignal;
+  /** Called after each step of extraction */
+  onProgress?: ProgressCallback;
+  /** Called when extraction degrades, e.g. falls back from APOC */
+  onWarning?: (message: string, context?: Record<string, unknown>) => void;
 }
 
 /**
@@ -281,4 +550,8 @@ export interface Neo4jClientConfig {
   defaultTimeout: number;
   tokenLimit: number;
   schemaSampleSize: number;
+  /** Bookmarks of earlier work to wait for, e.g. from the MCP session */
+  bookmarks?: string[];
+  /** Send and track bookmarks (default: true) */
+  causalConsistency?: boolean;
 }
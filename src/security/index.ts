@@ -6,4 +6,6 @@
 
 export * from './ratelimit.js';
 export * from './query-validator.js';
+export * from './query-policy.js';
 export * from './audit.js';
+export * from './redaction.js';
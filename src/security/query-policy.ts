@@ -0,0 +1,581 @@
+/**
+ * Query Policy
+ *
+ * Checks queries against the policy of their connection: which labels,
+ * relationship types, procedures and clauses they may use, and how
+ * deep variable-length patterns may go. Checks run on tokens, so names
+ * inside strings and comments never count, and map keys are told apart
+ * from labels.
+ *
+ * Label and relationship type rules only see names written in patterns
+ * and label predicates, so with such a rule in place, queries that could
+ * test names some other way are rejected: `labels()`, `type()`, dynamic
+ * labels and procedures that run Cypher from a string. They do not filter
+ * results: `MATCH (n) RETURN n` and `MATCH ()-[r]->() RETURN r` name no
+ * label or type and return elements of every one.
+ *
+ * Procedure rules also cover user-defined functions, such as
+ * `apoc.text.join()`, which come from the same plugins.
+ *
+ * Denied labels and relationship types are also left out of the schema
+ * shown to clients, and of argument completions.
+ */
+
+import type { PolicyRule, QueryPolicy } from '../types.js';
+import type { ProcessedRelationship, ProcessedSchema } from '../neo4j/types.js';
+import { ValidationError } from '../utils/errors.js';
+import { getProcedureName, isWord } from '../neo4j/lexer.js';
+import type { CypherToken } from '../neo4j/lexer.js';
+
+/**
+ * Way a query breaks its connection's policy
+ */
+export interface PolicyViolation {
+  /** Policy field that was broken */
+  rule: keyof QueryPolicy;
+  /** Offending token as written in the query, e.g. `apoc.load.json` or `*1..20` */
+  token: string;
+  /** Offset of the token in the query */
+  offset: number;
+  message: string;
+}
+
+/**
+ * Fields of a policy that hold a rule, with how to describe and match their names
+ */
+const RULE_FIELDS = {
+  labels: { noun: 'Label', ignoreCase: false },
+  relationshipTypes: { noun: 'Relationship type', ignoreCase: false },
+  procedures: { noun: 'Procedure', ignoreCase: true },
+  clauses: { noun: 'Clause', ignoreCase: true },
+} as const;
+
+type RuleField = keyof typeof RULE_FIELDS;
+
+/**
+ * Kinds of open bracket, which decide what a `:` or `*` inside them means
+ */
+type Frame = 'paren' | 'relationship' | 'list' | 'map' | 'block' | 'quantifier';
+
+/**
+ * Words whose `{` opens a subquery rather than a map
+ */
+const BLOCK_WORDS = ['CALL', 'EXISTS', 'COUNT', 'COLLECT'];
+
+/**
+ * Procedures and functions that run Cypher given to them as a string,
+ * whose labels and relationship types cannot be checked
+ */
+const DYNAMIC_CYPHER = ['apoc.cypher.*', 'apoc.periodic.*', 'apoc.do.*', 'apoc.when', 'apoc.case'];
+
+/**
+ * Functions that read the labels or relationship type of an element,
+ * so a query can test for a name without writing it as a label
+ */
+const NAME_FUNCTIONS: Record<string, 'labels' | 'relationshipTypes'> = {
+  labels: 'labels',
+  type: 'relationshipTypes',
+};
+
+/**
+ * Namespaces of built-in Cypher functions, which procedure rules leave alone
+ */
+const BUILT_IN_FUNCTION_NAMESPACES = [
+  'date', 'datetime', 'localdatetime', 'localtime', 'time', 'duration', 'point', 'vector', 'graph', 'db',
+];
+
+/**
+ * Build a policy from connection settings
+ *
+ * @param value - Policy object, or null/undefined for no policy
+ * @returns Policy with only the given fields, or null for no policy
+ * @throws ValidationError if a field is unknown or has the wrong type
+ */
+export function normalizeQueryPolicy(value: unknown): QueryPolicy | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError('queryPolicy must be an object');
+  }
+
+  const policy: QueryPolicy = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    if (field === 'maxVarLengthHops') {
+      if (typeof fieldValue !== 'number' || !Number.isInteger(fieldValue) || fieldValue < 1) {
+        throw new ValidationError('queryPolicy.maxVarLengthHops must be a positive integer');
+      }
+      policy.maxVarLengthHops = fieldValue;
+    } else if (field in RULE_FIELDS) {
+      policy[field as RuleField] = normalizeRule(field, fieldValue);
+    } else {
+      throw new ValidationError(`queryPolicy has unknown field "${field}"`);
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Check one allow/deny rule of a policy
+ */
+function normalizeRule(field: string, value: unknown): PolicyRule {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError(`queryPolicy.${field} must be an object with allow and/or deny`);
+  }
+
+  const rule: PolicyRule = {};
+  for (const [key, globs] of Object.entries(value)) {
+    if (key !== 'allow' && key !== 'deny') {
+      throw new ValidationError(`queryPolicy.${field} has unknown field "${key}"`);
+    }
+    if (!Array.isArray(globs) || !globs.every(glob => typeof glob === 'string' && glob.length > 0)) {
+      throw new ValidationError(`queryPolicy.${field}.${key} must be a list of non-empty strings`);
+    }
+    rule[key] = globs as string[];
+  }
+  return rule;
+}
+
+/**
+ * Convert a glob where `*` matches any characters to a regular expression
+ */
+function globToRegExp(glob: string, ignoreCase: boolean): RegExp {
+  const source = glob
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, ignoreCase ? 'i' : '');
+}
+
+/**
+ * Check if a name matches any of a list of globs
+ */
+export function matchesGlob(globs: string[], name: string, ignoreCase: boolean): boolean {
+  return globs.some(glob => globToRegExp(glob, ignoreCase).test(name));
+}
+
+/**
+ * Check if a rule denies a name
+ */
+function isDenied(rule: PolicyRule, name: string, ignoreCase: boolean): boolean {
+  if (rule.deny && matchesGlob(rule.deny, name, ignoreCase)) {
+    return true;
+  }
+  return rule.allow !== undefined && !matchesGlob(rule.allow, name, ignoreCase);
+}
+
+/**
+ * Check a name against one rule of a policy
+ *
+ * @returns The violation, or null if the name is allowed or the policy has no such rule
+ */
+function checkName(policy: QueryPolicy, field: RuleField, name: string, offset: number): PolicyViolation | null {
+  const rule = policy[field];
+  const { noun, ignoreCase } = RULE_FIELDS[field];
+
+  if (!rule || !isDenied(rule, name, ignoreCase)) {
+    return null;
+  }
+  return {
+    rule: field,
+    token: name,
+    offset,
+    message: `${noun} "${name}" is not allowed on this connection`,
+  };
+}
+
+/**
+ * Get the rule field whose names a query could reach without writing them
+ *
+ * @returns The field, or undefined if the policy restricts neither labels nor relationship types
+ */
+function getNameRuleField(policy: QueryPolicy): 'labels' | 'relationshipTypes' | undefined {
+  if (policy.labels) {
+    return 'labels';
+  }
+  return policy.relationshipTypes ? 'relationshipTypes' : undefined;
+}
+
+/**
+ * Check a call that runs Cypher from a string, which name rules cannot see into
+ *
+ * @param name - Procedure or function name
+ */
+function checkDynamicCypher(policy: QueryPolicy, name: string, offset: number): PolicyViolation | null {
+  const field = getNameRuleField(policy);
+  if (!field || !matchesGlob(DYNAMIC_CYPHER, name, true)) {
+    return null;
+  }
+  return {
+    rule: field,
+    token: name,
+    offset,
+    message: `"${name}" runs Cypher from a string, which the label and relationship type rules of this connection cannot check`,
+  };
+}
+
+/**
+ * Check a function call that could test for a restricted name
+ *
+ * `labels(n)` and `type(r)` compare names as strings, so a label or
+ * relationship type rule would not see them. User-defined functions
+ * are checked against the procedure rule.
+ */
+function checkFunction(policy: QueryPolicy, name: string, offset: number): PolicyViolation | null {
+  const field = NAME_FUNCTIONS[name.toLowerCase()];
+  if (field && policy[field]) {
+    return {
+      rule: field,
+      token: name,
+      offset,
+      message: `Function "${name}()" is not allowed on this connection; match ${RULE_FIELDS[field].noun.toLowerCase()}s in the pattern instead`,
+    };
+  }
+
+  const namespace = name.split('.')[0]?.toLowerCase() ?? '';
+  if (name.includes('.') && !BUILT_IN_FUNCTION_NAMESPACES.includes(namespace)
+      && checkName(policy, 'procedures', name, offset)) {
+    return {
+      rule: 'procedures',
+      token: name,
+      offset,
+      message: `Function "${name}()" is not allowed on this connection`,
+    };
+  }
+
+  return checkDynamicCypher(policy, name, offset);
+}
+
+/**
+ * Check the upper bound of a variable-length pattern
+ *
+ * @param text - The pattern's quantifier as written, e.g. `*1..20` or `{2,}`
+ * @param upper - Upper bound, or undefined if there is none
+ */
+function checkHops(policy: QueryPolicy, text: string, upper: number | undefined, offset: number): PolicyViolation | null {
+  const max = policy.maxVarLengthHops;
+  if (max === undefined || (upper !== undefined && upper <= max)) {
+    return null;
+  }
+  return {
+    rule: 'maxVarLengthHops',
+    token: text,
+    offset,
+    message: upper === undefined
+      ? `Variable-length pattern "${text}" has no upper bound; this connection allows at most ${max} hops`
+      : `Variable-length pattern "${text}" allows ${upper} hops; this connection allows at most ${max}`,
+  };
+}
+
+/**
+ * Read a numeric token as an integer
+ */
+function readInteger(token: CypherToken | undefined): number | undefined {
+  return token?.type === 'number' ? Number(token.value.replace(/_/g, '')) : undefined;
+}
+
+/**
+ * Check if a token is a given symbol
+ */
+function isSymbol(token: CypherToken | undefined, ...symbols: string[]): boolean {
+  return token?.type === 'symbol' && symbols.includes(token.value);
+}
+
+/**
+ * Decide what a `{` opens from the tokens around it
+ */
+function openBraceFrame(tokens: CypherToken[], index: number): Frame {
+  const previous = tokens[index - 1];
+  const next = tokens[index + 1];
+
+  // ((a)-->(b)){1,3} and -[:R]->{2,}
+  if (isSymbol(previous, ')', '-', '->', '<-') && (next?.type === 'number' || isSymbol(next, ','))) {
+    return 'quantifier';
+  }
+  // CALL { ... }, CALL (x) { ... } and EXISTS { ... }
+  if (isWord(previous, ...BLOCK_WORDS) || isSymbol(previous, ')')) {
+    return 'block';
+  }
+  return 'map';
+}
+
+/**
+ * Check if a `:` in a map follows one of its keys, as in `{name: 'x'}`
+ *
+ * Other colons in a map are label predicates in a value, as in `{x: n:A}`.
+ */
+function isMapKeyColon(tokens: CypherToken[], index: number): boolean {
+  const key = tokens[index - 1];
+  return (key?.type === 'word' || key?.type === 'identifier') && isSymbol(tokens[index - 2], '{', ',');
+}
+
+/**
+ * Get the name of a function called at an index, e.g. `labels` or `apoc.cypher.runFirstColumn`
+ *
+ * @returns The name, or undefined if the token does not start a function call
+ */
+function getFunctionName(tokens: CypherToken[], index: number): string | undefined {
+  if (isSymbol(tokens[index - 1], '.')) {
+    return undefined;
+  }
+
+  const parts: string[] = [];
+  let next = index;
+  while (tokens[next]?.type === 'word' || tokens[next]?.type === 'identifier') {
+    parts.push(tokens[next]?.value ?? '');
+    if (!isSymbol(tokens[next + 1], '.')) {
+      break;
+    }
+    next += 2;
+  }
+
+  return isSymbol(tokens[next + 1], '(') ? parts.join('.') : undefined;
+}
+
+/**
+ * Read a label expression after `:`, e.g. `A`, `A|B`, `A&!B` or `(A|B)`
+ *
+ * @returns The names in the expression and the index after it
+ */
+function readLabelExpression(tokens: CypherToken[], start: number): { names: CypherToken[]; end: number } {
+  const names: CypherToken[] = [];
+  let depth = 0;
+  let i = start;
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (isSymbol(token, '!', '%')) {
+      i++;
+    } else if (isSymbol(token, '(')) {
+      depth++;
+      i++;
+    } else if (token?.type === 'word' || token?.type === 'identifier') {
+      names.push(token);
+      i++;
+      while (depth > 0 && isSymbol(tokens[i], ')')) {
+        depth--;
+        i++;
+      }
+      if (!isSymbol(tokens[i], '|', '&')) {
+        break;
+      }
+      // Also accept the older :A|:B form
+      i += isSymbol(tokens[i + 1], ':') ? 2 : 1;
+    } else {
+      break;
+    }
+  }
+
+  return { names, end: i };
+}
+
+/**
+ * Read the bounds of a variable-length relationship after `*`
+ *
+ * @returns Upper bound (undefined if there is none), source text and the index after it
+ */
+function readStarRange(tokens: CypherToken[], star: number): { upper: number | undefined; text: string; end: number } {
+  let i = star + 1;
+  const lower = readInteger(tokens[i]);
+  if (lower !== undefined) {
+    i++;
+  }
+
+  let upper = lower;
+  if (isSymbol(tokens[i], '..')) {
+    i++;
+    upper = readInteger(tokens[i]);
+    if (upper !== undefined) {
+      i++;
+    }
+  } else if (lower === undefined) {
+    upper = undefined;
+  }
+
+  const text = tokens.slice(star, i).map(token => token.text).join('');
+  return { upper, text, end: i };
+}
+
+/**
+ * Read the bounds of a quantifier after `{`, e.g. `{1,3}`, `{2,}` or `{3}`
+ */
+function readQuantifier(tokens: CypherToken[], brace: number): { upper: number | undefined; text: string } {
+  let i = brace + 1;
+  const lower = readInteger(tokens[i]);
+  if (lower !== undefined) {
+    i++;
+  }
+
+  let upper = lower;
+  if (isSymbol(tokens[i], ',')) {
+    upper = readInteger(tokens[i + 1]);
+    i += upper !== undefined ? 2 : 1;
+  }
+
+  const end = isSymbol(tokens[i], '}') ? i + 1 : i;
+  return { upper, text: tokens.slice(brace, end).map(token => token.text).join('') };
+}
+
+/**
+ * Find the first place a tokenized query breaks a policy
+ *
+ * @param tokens - Tokens of the query
+ * @param policy - Policy of the connection
+ * @returns The first violation in the query, or null if it follows the policy
+ */
+export function findPolicyViolation(tokens: CypherToken[], policy: QueryPolicy): PolicyViolation | null {
+  const frames: Frame[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (!token) {
+      continue;
+    }
+
+    if (token.keyword) {
+      const violation = checkName(policy, 'clauses', token.keyword, token.offset);
+      if (violation) {
+        return violation;
+      }
+
+      const procedure = getProcedureName(tokens, i);
+      const nameToken = tokens[i + 1];
+      if (procedure && nameToken) {
+        const procedureViolation = checkName(policy, 'procedures', procedure, nameToken.offset)
+          ?? checkDynamicCypher(policy, procedure, nameToken.offset);
+        if (procedureViolation) {
+          return procedureViolation;
+        }
+      }
+      continue;
+    }
+
+    if (token.type === 'word' || token.type === 'identifier') {
+      const name = getFunctionName(tokens, i);
+      const violation = name !== undefined ? checkFunction(policy, name, token.offset) : null;
+      if (violation) {
+        return violation;
+      }
+      continue;
+    }
+
+    if (token.type !== 'symbol') {
+      continue;
+    }
+
+    const frame = frames.at(-1);
+    switch (token.value) {
+      case '(':
+        frames.push('paren');
+        break;
+      case '[':
+        frames.push(isSymbol(tokens[i - 1], '-', '<-') ? 'relationship' : 'list');
+        break;
+      case '{': {
+        const opened = openBraceFrame(tokens, i);
+        if (opened === 'quantifier') {
+          const { upper, text } = readQuantifier(tokens, i);
+          const violation = checkHops(policy, text, upper, token.offset);
+          if (violation) {
+            return violation;
+          }
+        }
+        frames.push(opened);
+        break;
+      }
+      case ')':
+      case ']':
+      case '}':
+        frames.pop();
+        break;
+      case '*':
+        if (frame === 'relationship') {
+          const { upper, text, end } = readStarRange(tokens, i);
+          const violation = checkHops(policy, text, upper, token.offset);
+          if (violation) {
+            return violation;
+          }
+          i = end - 1;
+        }
+        break;
+      case ':': {
+        // Map keys are not labels
+        if (frame === 'map' && isMapKeyColon(tokens, i)) {
+          break;
+        }
+        const field = frame === 'relationship' ? 'relationshipTypes' : 'labels';
+
+        // :$(expr) and :$any(list) name labels only known when the query runs
+        const dynamic = tokens[i + 1];
+        if (policy[field] && dynamic && (isSymbol(dynamic, '$') || dynamic.type === 'parameter')) {
+          return {
+            rule: field,
+            token: dynamic.text,
+            offset: dynamic.offset,
+            message: `Dynamic ${RULE_FIELDS[field].noun.toLowerCase()}s are not allowed on this connection`,
+          };
+        }
+
+        const { names, end } = readLabelExpression(tokens, i + 1);
+        for (const name of names) {
+          const violation = checkName(policy, field, name.value, name.offset);
+          if (violation) {
+            return violation;
+          }
+        }
+        // Brackets in the expression are balanced, so the frames stay right
+        i = end - 1;
+        break;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check if a policy lets queries name a label or relationship type
+ */
+export function isNameAllowed(
+  policy: QueryPolicy | undefined,
+  field: 'labels' | 'relationshipTypes',
+  name: string
+): boolean {
+  const rule = policy?.[field];
+  return !rule || !isDenied(rule, name, RULE_FIELDS[field].ignoreCase);
+}
+
+/**
+ * Leave the labels and relationship types a policy denies out of a schema
+ *
+ * Relationships to or from a denied label, or of a denied type, go too.
+ * The summary is left as it is, for the caller to regenerate.
+ */
+export function filterSchemaByPolicy(schema: ProcessedSchema, policy: QueryPolicy | undefined): ProcessedSchema {
+  if (!policy?.labels && !policy?.relationshipTypes) {
+    return schema;
+  }
+
+  const labelAllowed = (name: string) => isNameAllowed(policy, 'labels', name);
+  const relationshipAllowed = (rel: ProcessedRelationship) =>
+    isNameAllowed(policy, 'relationshipTypes', rel.type) && labelAllowed(rel.targetLabel);
+
+  return {
+    ...schema,
+    labels: schema.labels
+      .filter(label => labelAllowed(label.name))
+      .map(label => ({
+        ...label,
+        outgoingRelationships: label.outgoingRelationships.filter(relationshipAllowed),
+        incomingRelationships: label.incomingRelationships.filter(relationshipAllowed),
+      })),
+    relationshipTypes: schema.relationshipTypes
+      .filter(relType => isNameAllowed(policy, 'relationshipTypes', relType.name))
+      .map(relType => ({
+        ...relType,
+        startLabels: relType.startLabels.filter(labelAllowed),
+        endLabels: relType.endLabels.filter(labelAllowed),
+      })),
+  };
+}
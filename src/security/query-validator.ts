@@ -2,10 +2,24 @@
  * Query Validator
  *
  * Validates Cypher queries for security concerns.
- * Blocks dangerous operations and detects potential issues.
+ * Blocks dangerous operations and detects potential issues. Checks run
+ * on tokens, so keywords in strings, comments or names are ignored.
  */
 
 import * as logger from '../utils/logger.js';
+import {
+  tokenizeCypher,
+  classifyCypher,
+  hasWriteClause,
+  getProcedureName,
+  findClosingBracket,
+  isWord,
+  startsWithWords,
+} from '../neo4j/lexer.js';
+import type { CypherToken, CypherQueryType } from '../neo4j/lexer.js';
+import { findPolicyViolation } from './query-policy.js';
+import type { PolicyViolation } from './query-policy.js';
+import type { QueryPolicy } from '../types.js';
 
 /**
  * Query validation result
@@ -15,76 +29,153 @@ export interface QueryValidationResult {
   valid: boolean;
   /** Error message if invalid */
   error?: string;
+  /** How the query breaks the connection's policy, if that made it invalid */
+  violation?: PolicyViolation;
   /** Warnings (non-blocking) */
   warnings: string[];
   /** Detected query type */
-  queryType: 'read' | 'write' | 'admin' | 'unknown';
+  queryType: CypherQueryType;
 }
 
+/**
+ * Check on the token at an index of a tokenized query
+ */
+type TokenCheck = (tokens: CypherToken[], index: number) => boolean;
+
+/**
+ * Match a clause keyword, optionally followed by the object it acts on
+ *
+ * `CREATE OR REPLACE` and `CREATE COMPOSITE` are skipped before the object.
+ */
+function command(keyword: string, object?: string): TokenCheck {
+  return (tokens, index) => {
+    if (tokens[index]?.keyword !== keyword) {
+      return false;
+    }
+    if (!object) {
+      return true;
+    }
+
+    let next = index + 1;
+    if (startsWithWords(tokens, next, 'OR', 'REPLACE')) {
+      next += 2;
+    }
+    if (isWord(tokens[next], 'COMPOSITE')) {
+      next++;
+    }
+    return isWord(tokens[next], object);
+  };
+}
+
+/**
+ * Match a CALL subquery: `CALL { ... }` or `CALL (x) { ... }`
+ */
+const subqueryCall: TokenCheck = (tokens, index) => {
+  if (tokens[index]?.keyword !== 'CALL') {
+    return false;
+  }
+  const next = tokens[index + 1];
+  if (next?.value === '(' && next.type === 'symbol') {
+    return tokens[findClosingBracket(tokens, index + 1) + 1]?.value === '{';
+  }
+  return next?.type === 'symbol' && next.value === '{';
+};
+
+/**
+ * Match a call to a procedure whose name passes a test
+ */
+function procedure(test: (name: string) => boolean): TokenCheck {
+  return (tokens, index) => {
+    const name = getProcedureName(tokens, index);
+    return name !== undefined && test(name.toLowerCase());
+  };
+}
+
+/**
+ * Match `LOAD CSV [WITH HEADERS] FROM` a literal http(s) URL
+ */
+const remoteLoadCsv: TokenCheck = (tokens, index) => {
+  if (tokens[index]?.keyword !== 'LOAD' || !isWord(tokens[index + 1], 'CSV')) {
+    return false;
+  }
+  let next = index + 2;
+  if (startsWithWords(tokens, next, 'WITH', 'HEADERS')) {
+    next += 2;
+  }
+  const url = tokens[next + 1];
+  return isWord(tokens[next], 'FROM') && url?.type === 'string' && /^https?:/i.test(url.value);
+};
+
+/**
+ * db.* procedures that only inspect the schema
+ */
+const ALLOWED_DB_PROCEDURES = ['db.labels', 'db.relationshiptypes', 'db.propertykeys', 'db.schema'];
+
 /**
  * Dangerous Cypher operations that should be blocked
  */
-const DANGEROUS_OPERATIONS = [
+const DANGEROUS_OPERATIONS: Array<{ matches: TokenCheck; message: string }> = [
   // Database administration
-  { pattern: /\bCREATE\s+DATABASE\b/i, message: 'CREATE DATABASE is not allowed' },
-  { pattern: /\bDROP\s+DATABASE\b/i, message: 'DROP DATABASE is not allowed' },
-  { pattern: /\bSTOP\s+DATABASE\b/i, message: 'STOP DATABASE is not allowed' },
-  { pattern: /\bSTART\s+DATABASE\b/i, message: 'START DATABASE is not allowed' },
+  { matches: command('CREATE', 'DATABASE'), message: 'CREATE DATABASE is not allowed' },
+  { matches: command('DROP', 'DATABASE'), message: 'DROP DATABASE is not allowed' },
+  { matches: command('STOP', 'DATABASE'), message: 'STOP DATABASE is not allowed' },
+  { matches: command('START', 'DATABASE'), message: 'START DATABASE is not allowed' },
 
   // User management
-  { pattern: /\bCREATE\s+USER\b/i, message: 'CREATE USER is not allowed' },
-  { pattern: /\bDROP\s+USER\b/i, message: 'DROP USER is not allowed' },
-  { pattern: /\bALTER\s+USER\b/i, message: 'ALTER USER is not allowed' },
-  { pattern: /\bCREATE\s+ROLE\b/i, message: 'CREATE ROLE is not allowed' },
-  { pattern: /\bDROP\s+ROLE\b/i, message: 'DROP ROLE is not allowed' },
-  { pattern: /\bGRANT\b/i, message: 'GRANT is not allowed' },
-  { pattern: /\bREVOKE\b/i, message: 'REVOKE is not allowed' },
-  { pattern: /\bDENY\b/i, message: 'DENY is not allowed' },
+  { matches: command('CREATE', 'USER'), message: 'CREATE USER is not allowed' },
+  { matches: command('DROP', 'USER'), message: 'DROP USER is not allowed' },
+  { matches: command('ALTER', 'USER'), message: 'ALTER USER is not allowed' },
+  { matches: command('CREATE', 'ROLE'), message: 'CREATE ROLE is not allowed' },
+  { matches: command('DROP', 'ROLE'), message: 'DROP ROLE is not allowed' },
+  { matches: command('GRANT'), message: 'GRANT is not allowed' },
+  { matches: command('REVOKE'), message: 'REVOKE is not allowed' },
+  { matches: command('DENY'), message: 'DENY is not allowed' },
 
   // Potentially destructive operations
-  { pattern: /\bDETACH\s+DELETE\b/i, message: 'DETACH DELETE is potentially dangerous - use with caution' },
-  { pattern: /\bCALL\s+\{/i, message: 'Subquery CALL blocks may be restricted' },
+  { matches: command('DETACH', 'DELETE'), message: 'DETACH DELETE is potentially dangerous - use with caution' },
+  { matches: subqueryCall, message: 'Subquery CALL blocks may be restricted' },
 
   // System procedures (block most)
-  { pattern: /\bCALL\s+dbms\./i, message: 'System DBMS procedures are not allowed' },
-  { pattern: /\bCALL\s+db\.(?!labels|relationshipTypes|propertyKeys|schema)/i, message: 'Most db.* procedures are not allowed' },
+  { matches: procedure(name => name.startsWith('dbms.')), message: 'System DBMS procedures are not allowed' },
+  {
+    matches: procedure(name => name.startsWith('db.') && !ALLOWED_DB_PROCEDURES.some(allowed => name.startsWith(allowed))),
+    message: 'Most db.* procedures are not allowed',
+  },
 
   // Load CSV from remote URLs (potential SSRF)
-  { pattern: /\bLOAD\s+CSV\s+FROM\s+['"]https?:/i, message: 'LOAD CSV from remote URLs is not allowed' },
+  { matches: remoteLoadCsv, message: 'LOAD CSV from remote URLs is not allowed' },
 ];
 
 /**
- * Operations that indicate a write query
+ * Match a MATCH whose first node pattern is neither filtered nor joined
+ * to a relationship, e.g. `MATCH (n) RETURN n` is bounded by nothing
  */
-const WRITE_OPERATIONS = [
-  /\bCREATE\b/i,
-  /\bMERGE\b/i,
-  /\bDELETE\b/i,
-  /\bSET\b/i,
-  /\bREMOVE\b/i,
-  /\bFOREACH\b/i,
-];
+const unboundedMatch: TokenCheck = (tokens, index) => {
+  if (tokens[index]?.keyword !== 'MATCH' || tokens[index + 1]?.value !== '(') {
+    return false;
+  }
+  const close = findClosingBracket(tokens, index + 1);
+  if (close === -1) {
+    return false;
+  }
+  const next = tokens[close + 1];
+  return !isWord(next, 'WHERE', 'RETURN') && !(next?.type === 'symbol' && ['-', '<', '<-', '->'].includes(next.value));
+};
 
 /**
- * Operations that indicate an admin query
+ * Match a LIMIT over 10000
  */
-const ADMIN_OPERATIONS = [
-  /\bCREATE\s+(INDEX|CONSTRAINT|DATABASE|USER|ROLE)\b/i,
-  /\bDROP\s+(INDEX|CONSTRAINT|DATABASE|USER|ROLE)\b/i,
-  /\bALTER\b/i,
-  /\bGRANT\b/i,
-  /\bREVOKE\b/i,
-];
+const largeLimit: TokenCheck = (tokens, index) => {
+  const value = tokens[index + 1];
+  return tokens[index]?.keyword === 'LIMIT' && value?.type === 'number' && Number(value.value.replace(/_/g, '')) > 10000;
+};
 
 /**
  * Patterns that generate warnings but don't block
  */
-const WARNING_PATTERNS = [
-  { pattern: /MATCH\s+\([^)]*\)\s*(?!WHERE|RETURN|-)/i, message: 'Unbounded MATCH may return large results' },
-  { pattern: /\bLIMIT\s+(\d+)/i, check: (match: RegExpMatchArray) => {
-    const limit = parseInt(match[1] ?? '0', 10);
-    return limit > 10000 ? 'Large LIMIT value may cause performance issues' : null;
-  }},
+const WARNING_PATTERNS: Array<{ matches: TokenCheck; message: string }> = [
+  { matches: unboundedMatch, message: 'Unbounded MATCH may return large results' },
+  { matches: largeLimit, message: 'Large LIMIT value may cause performance issues' },
 ];
 
 /**
@@ -96,9 +187,10 @@ const MAX_QUERY_LENGTH = 50000;
  * Validate a Cypher query for security concerns
  *
  * @param query - The Cypher query to validate
+ * @param policy - Query policy of the connection, if it has one
  * @returns Validation result
  */
-export function validateQuery(query: string): QueryValidationResult {
+export function validateQuery(query: string, policy?: QueryPolicy): QueryValidationResult {
   const warnings: string[] = [];
 
   // Check query length
@@ -121,12 +213,11 @@ export function validateQuery(query: string): QueryValidationResult {
     };
   }
 
-  // Normalize query for pattern matching (remove comments)
-  const normalizedQuery = removeComments(query);
+  const { tokens } = tokenizeCypher(query);
 
   // Check for dangerous operations
-  for (const { pattern, message } of DANGEROUS_OPERATIONS) {
-    if (pattern.test(normalizedQuery)) {
+  for (const { matches, message } of DANGEROUS_OPERATIONS) {
+    if (tokens.some((_, index) => matches(tokens, index))) {
       logger.warn('Dangerous query blocked', {
         reason: message,
         queryPreview: query.substring(0, 100),
@@ -141,21 +232,30 @@ export function validateQuery(query: string): QueryValidationResult {
     }
   }
 
-  // Determine query type
-  const queryType = detectQueryType(normalizedQuery);
+  const queryType = classifyCypher(tokens);
+
+  // Check the connection's own policy
+  const violation = policy ? findPolicyViolation(tokens, policy) : null;
+  if (violation) {
+    logger.warn('Query blocked by connection policy', {
+      rule: violation.rule,
+      token: violation.token,
+      queryPreview: query.substring(0, 100),
+    });
+
+    return {
+      valid: false,
+      error: violation.message,
+      violation,
+      warnings: [],
+      queryType,
+    };
+  }
 
   // Check for warning patterns
-  for (const { pattern, check, message } of WARNING_PATTERNS) {
-    const match = normalizedQuery.match(pattern);
-    if (match) {
-      if (check) {
-        const warningMessage = check(match);
-        if (warningMessage) {
-          warnings.push(warningMessage);
-        }
-      } else if (message) {
-        warnings.push(message);
-      }
+  for (const { matches, message } of WARNING_PATTERNS) {
+    if (tokens.some((_, index) => matches(tokens, index))) {
+      warnings.push(message);
     }
   }
 
@@ -166,45 +266,6 @@ export function validateQuery(query: string): QueryValidationResult {
   };
 }
 
-/**
- * Remove comments from Cypher query
- */
-function removeComments(query: string): string {
-  // Remove single-line comments
-  let result = query.replace(/\/\/.*$/gm, '');
-
-  // Remove multi-line comments
-  result = result.replace(/\/\*[\s\S]*?\*\//g, '');
-
-  return result;
-}
-
-/**
- * Detect the type of query
- */
-function detectQueryType(query: string): 'read' | 'write' | 'admin' | 'unknown' {
-  // Check for admin operations first
-  for (const pattern of ADMIN_OPERATIONS) {
-    if (pattern.test(query)) {
-      return 'admin';
-    }
-  }
-
-  // Check for write operations
-  for (const pattern of WRITE_OPERATIONS) {
-    if (pattern.test(query)) {
-      return 'write';
-    }
-  }
-
-  // If it has MATCH or RETURN, it's likely a read
-  if (/\b(MATCH|RETURN|WITH|UNWIND|CALL)\b/i.test(query)) {
-    return 'read';
-  }
-
-  return 'unknown';
-}
-
 /**
  * Check if a query is a read-only query
  *
@@ -212,8 +273,7 @@ function detectQueryType(query: string): 'read' | 'write' | 'admin' | 'unknown'
  * @returns true if the query is read-only
  */
 export function isReadOnlyQuery(query: string): boolean {
-  const normalizedQuery = removeComments(query);
-  const queryType = detectQueryType(normalizedQuery);
+  const queryType = classifyCypher(tokenizeCypher(query).tokens);
   return queryType === 'read' || queryType === 'unknown';
 }
 
@@ -224,8 +284,7 @@ export function isReadOnlyQuery(query: string): boolean {
  * @returns true if the query contains write operations
  */
 export function containsWriteOperations(query: string): boolean {
-  const normalizedQuery = removeComments(query);
-  return WRITE_OPERATIONS.some(pattern => pattern.test(normalizedQuery));
+  return hasWriteClause(tokenizeCypher(query).tokens);
 }
 
 /**
@@ -0,0 +1,294 @@
+/**
+ * Result Redaction
+ *
+ * Removes personal data from query results and schemas before they
+ * reach the model, following the redaction rules of the connection.
+ * Rules pick properties by name (optionally only on some labels) or
+ * find emails and phone numbers inside any string, and drop, hash or
+ * mask what they match.
+ */
+
+import { createHash } from 'node:crypto';
+import type {
+  RedactionAction,
+  RedactionCounts,
+  RedactionDetector,
+  RedactionRule,
+} from '../types.js';
+import type { ProcessedProperty, ProcessedSchema } from '../neo4j/types.js';
+import { ValidationError } from '../utils/errors.js';
+import { maskSensitive } from './audit.js';
+import { matchesGlob } from './query-policy.js';
+
+/**
+ * Redaction rules in use, and what they redacted so far
+ */
+export interface Redaction {
+  rules: RedactionRule[];
+  counts: RedactionCounts;
+}
+
+/**
+ * Labels or relationship type of the element a value belongs to
+ */
+export type RedactionScope = string[] | undefined;
+
+const ACTIONS: readonly RedactionAction[] = ['drop', 'hash', 'mask'];
+
+/**
+ * Patterns of the detectors; global, so every match in a string is found
+ */
+const DETECTORS: Record<RedactionDetector, RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  // 8 to 15 digits, optionally grouped by spaces, dots, dashes or brackets, but not ISO dates
+  phone: /(?<![\w+])(?!\d{4}-\d{2}-\d{2}(?!\d))\+?(?:\(\d{1,4}\)|\d)(?:[\s.-]?(?:\(\d{1,4}\)|\d)){7,14}(?!\w)/g,
+};
+
+/**
+ * Text that replaces a dropped detector match
+ */
+const DROPPED_MATCH = '[redacted]';
+
+/**
+ * Build redaction rules from connection settings
+ *
+ * @param value - List of rules, or null/undefined for none
+ * @returns The rules, or null if there are none
+ * @throws ValidationError if a rule is malformed
+ */
+export function normalizeRedactionRules(value: unknown): RedactionRule[] | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (!Array.isArray(value)) {
+    throw new ValidationError('redactionRules must be a list of rules');
+  }
+
+  const rules = value.map((rule: unknown, index) => {
+    const path = `redactionRules[${index}]`;
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      throw new ValidationError(`${path} must be an object`);
+    }
+
+    const fields = rule as Record<string, unknown>;
+    for (const field of Object.keys(fields)) {
+      if (!['properties', 'labels', 'detect', 'action'].includes(field)) {
+        throw new ValidationError(`${path} has unknown field "${field}"`);
+      }
+    }
+
+    if (!ACTIONS.includes(fields.action as RedactionAction)) {
+      throw new ValidationError(`${path}.action must be drop, hash or mask`);
+    }
+    if (fields.detect !== undefined && !(typeof fields.detect === 'string' && fields.detect in DETECTORS)) {
+      throw new ValidationError(`${path}.detect must be email or phone`);
+    }
+    for (const field of ['properties', 'labels']) {
+      const globs = fields[field];
+      if (globs !== undefined && (!Array.isArray(globs) || !globs.every(glob => typeof glob === 'string' && glob.length > 0))) {
+        throw new ValidationError(`${path}.${field} must be a list of non-empty strings`);
+      }
+    }
+    if (fields.properties === undefined && fields.detect === undefined) {
+      throw new ValidationError(`${path} needs properties, detect or both`);
+    }
+
+    return fields as unknown as RedactionRule;
+  });
+
+  return rules.length > 0 ? rules : null;
+}
+
+/**
+ * Start redacting with a connection's rules
+ *
+ * @returns The redaction, or null if there are no rules
+ */
+export function createRedaction(rules: RedactionRule[] | undefined): Redaction | null {
+  if (!rules || rules.length === 0) {
+    return null;
+  }
+  return { rules, counts: { drop: 0, hash: 0, mask: 0 } };
+}
+
+/**
+ * Get the counts to report in a response
+ *
+ * @returns Counts by action, or undefined if nothing was redacted
+ */
+export function getRedactionCounts(redaction: Redaction | null | undefined): RedactionCounts | undefined {
+  if (!redaction || redaction.counts.drop + redaction.counts.hash + redaction.counts.mask === 0) {
+    return undefined;
+  }
+  return { ...redaction.counts };
+}
+
+/**
+ * Get the labels or relationship type of a decoded node or relationship
+ */
+export function getRedactionScope(value: Record<string, unknown>): RedactionScope {
+  if (Array.isArray(value._labels)) {
+    return value._labels.filter((label): label is string => typeof label === 'string');
+  }
+  return typeof value._type === 'string' ? [value._type] : undefined;
+}
+
+/**
+ * Check if a rule applies to an element
+ */
+function inScope(rule: RedactionRule, scope: RedactionScope): boolean {
+  const labels = rule.labels;
+  return !labels || (scope ?? []).some(name => matchesGlob(labels, name, false));
+}
+
+/**
+ * Check if a rule applies to a property
+ *
+ * Result columns such as `p.email` are matched by the name after the
+ * last dot, so `RETURN p.email` is redacted like the property itself.
+ */
+function appliesTo(rule: RedactionRule, key: string | undefined, scope: RedactionScope): boolean {
+  if (!inScope(rule, scope)) {
+    return false;
+  }
+  if (!rule.properties) {
+    return true;
+  }
+  return key !== undefined && matchesGlob(rule.properties, key.slice(key.lastIndexOf('.') + 1), true);
+}
+
+/**
+ * Replace text with a stable pseudonym
+ */
+function hashText(text: string): string {
+  return `sha256:${createHash('sha256').update(text).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Apply an action to a whole value
+ */
+function redactWhole(value: unknown, action: 'hash' | 'mask'): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  return action === 'hash' ? hashText(text) : maskSensitive(text);
+}
+
+/**
+ * Find the rule that redacts a whole property
+ *
+ * Rules with a detector only redact matches inside strings, so they
+ * are left to redactText.
+ *
+ * @param key - Property name, or result column
+ * @param scope - Labels or relationship type of the element holding it
+ * @returns The action, or undefined if the property is kept
+ */
+export function findPropertyAction(
+  redaction: Redaction,
+  key: string,
+  scope: RedactionScope
+): RedactionAction | undefined {
+  return redaction.rules.find(rule => !rule.detect && appliesTo(rule, key, scope))?.action;
+}
+
+/**
+ * Check if a property key is dropped on any element
+ *
+ * For property keys listed without their owner, such as those of
+ * db.propertyKeys(); rules limited to some labels count too.
+ */
+export function isPropertyDropped(redaction: Redaction, key: string): boolean {
+  return redaction.rules.some(rule =>
+    rule.action === 'drop' && !rule.detect && !!rule.properties && matchesGlob(rule.properties, key, true)
+  );
+}
+
+/**
+ * Redact a whole property value
+ *
+ * @returns The redacted value, or undefined if it is dropped
+ */
+export function redactProperty(redaction: Redaction, value: unknown, action: RedactionAction): unknown {
+  redaction.counts[action]++;
+  return action === 'drop' ? undefined : redactWhole(value, action);
+}
+
+/**
+ * Redact the detector matches inside a string
+ *
+ * @param key - Property name or result column holding the string, if any
+ * @param scope - Labels or relationship type of the element holding it
+ */
+export function redactText(
+  redaction: Redaction,
+  text: string,
+  key: string | undefined,
+  scope: RedactionScope
+): string {
+  let result = text;
+  for (const rule of redaction.rules) {
+    if (!rule.detect || !appliesTo(rule, key, scope)) {
+      continue;
+    }
+
+    result = result.replace(DETECTORS[rule.detect], match => {
+      redaction.counts[rule.action]++;
+      if (rule.action === 'drop') {
+        return DROPPED_MATCH;
+      }
+      return rule.action === 'hash' ? hashText(match) : maskSensitive(match);
+    });
+  }
+  return result;
+}
+
+/**
+ * Redact the properties of one label or relationship type
+ */
+function redactSchemaProperties(
+  redaction: Redaction,
+  properties: ProcessedProperty[],
+  scope: string
+): ProcessedProperty[] {
+  const kept: ProcessedProperty[] = [];
+
+  for (const property of properties) {
+    const rule = redaction.rules.find(candidate =>
+      candidate.properties && appliesTo(candidate, property.name, [scope])
+    );
+
+    if (!rule) {
+      kept.push(property);
+      continue;
+    }
+
+    redaction.counts[rule.action]++;
+    if (rule.detect) {
+      kept.push({ ...property, redacted: 'detect' });
+    } else if (rule.action !== 'drop') {
+      kept.push({ ...property, redacted: rule.action });
+    }
+  }
+
+  return kept;
+}
+
+/**
+ * Redact a schema
+ *
+ * Properties whose values are dropped are left out, so the model does
+ * not ask for them; properties whose values are hashed or masked are
+ * marked, so it knows not to filter on their plain values.
+ */
+export function redactSchema(schema: ProcessedSchema, redaction: Redaction): ProcessedSchema {
+  return {
+    ...schema,
+    labels: schema.labels.map(label => ({
+      ...label,
+      properties: redactSchemaProperties(redaction, label.properties, label.name),
+    })),
+    relationshipTypes: schema.relationshipTypes.map(relType => ({
+      ...relType,
+      properties: redactSchemaProperties(redaction, relType.properties, relType.name),
+    })),
+  };
+}
@@ -5,7 +5,14 @@
  * Handles encryption/decryption of credentials.
  */
 
-import type { Neo4jConnection, Neo4jConnectionRecord, Result } from '../types.js';
+import type {
+  CostBudget,
+  Neo4jConnection,
+  Neo4jConnectionRecord,
+  QueryPolicy,
+  RedactionRule,
+  Result,
+} from '../types.js';
 import { encryptToString, decryptFromString, generateUrlSafeToken } from '../auth/crypto.js';
 import * as logger from '../utils/logger.js';
 
@@ -20,6 +27,12 @@ export interface CreateConnectionData {
   password: string;
   database?: string;
   readOnly?: boolean;
+  /** Cost budget for read queries (omit to leave the cost guard off) */
+  costBudget?: CostBudget | null;
+  /** Query policy (omit for none) */
+  queryPolicy?: QueryPolicy | null;
+  /** Redaction rules for results (omit for none) */
+  redactionRules?: RedactionRule[] | null;
 }
 
 /**
@@ -32,6 +45,12 @@ export interface UpdateConnectionData {
   password?: string;
   database?: string;
   readOnly?: boolean;
+  /** Cost budget for read queries (null turns the cost guard off) */
+  costBudget?: CostBudget | null;
+  /** Query policy (null removes it) */
+  queryPolicy?: QueryPolicy | null;
+  /** Redaction rules for results (null removes them) */
+  redactionRules?: RedactionRule[] | null;
   isActive?: boolean;
 }
 
@@ -41,6 +60,12 @@ export interface UpdateConnectionData {
 export interface DecryptedConnection {
   connection: Neo4jConnection;
   readOnly: boolean;
+  /** Cost budget for read queries, or null if the cost guard is off */
+  costBudget: CostBudget | null;
+  /** Query policy, or null if the connection has none */
+  queryPolicy: QueryPolicy | null;
+  /** Redaction rules for results, or null if nothing is redacted */
+  redactionRules: RedactionRule[] | null;
   name: string;
   isActive: boolean;
 }
@@ -54,6 +79,63 @@ function generateConnectionId(): string {
   return `conn_${generateUrlSafeToken(16)}`;
 }
 
+/**
+ * Parse the stored cost budget of a connection
+ *
+ * A malformed value turns the guard off rather than making the
+ * connection unusable.
+ */
+function parseCostBudget(value: string | null | undefined): CostBudget | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(value) as CostBudget;
+  } catch {
+    logger.warn('Ignoring malformed cost budget');
+    return null;
+  }
+}
+
+/**
+ * Parse the stored query policy of a connection
+ *
+ * Unlike a malformed cost budget, a malformed policy must not lift the
+ * restrictions it was meant to impose, so it denies every clause.
+ */
+function parseQueryPolicy(value: string | null | undefined): QueryPolicy | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(value) as QueryPolicy;
+  } catch {
+    logger.error('Malformed query policy, blocking all queries');
+    return { clauses: { allow: [] } };
+  }
+}
+
+/**
+ * Parse the stored redaction rules of a connection
+ *
+ * Like a malformed policy, malformed rules must not reveal the data
+ * they were meant to hide, so every property is dropped.
+ */
+function parseRedactionRules(value: string | null | undefined): RedactionRule[] | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(value) as RedactionRule[];
+  } catch {
+    logger.error('Malformed redaction rules, dropping all properties');
+    return [{ properties: ['*'], action: 'drop' }];
+  }
+}
+
 /**
  * Create a new connection
  *
@@ -83,8 +165,9 @@ export async function createConnection(
       .prepare(
         `INSERT INTO connections
          (id, user_id, name, neo4j_uri_encrypted, neo4j_user_encrypted,
-          neo4j_password_encrypted, neo4j_database, read_only, is_active)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1)`
+          neo4j_password_encrypted, neo4j_database, read_only, cost_budget, query_policy,
+          redaction_rules, is_active)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)`
       )
       .bind(
         id,
@@ -94,7 +177,10 @@ export async function createConnection(
         encryptedUser,
         encryptedPassword,
         data.database ?? 'neo4j',
-        data.readOnly ? 1 : 0
+        data.readOnly ? 1 : 0,
+        data.costBudget ? JSON.stringify(data.costBudget) : null,
+        data.queryPolicy ? JSON.stringify(data.queryPolicy) : null,
+        data.redactionRules ? JSON.stringify(data.redactionRules) : null
       )
       .run();
 
@@ -158,6 +244,9 @@ export async function getConnectionById(
           database: record.neo4j_database,
         },
         readOnly: record.read_only === 1,
+        costBudget: parseCostBudget(record.cost_budget),
+        queryPolicy: parseQueryPolicy(record.query_policy),
+        redactionRules: parseRedactionRules(record.redaction_rules),
         name: record.name,
         isActive: record.is_active === 1,
       },
@@ -248,6 +337,9 @@ export async function getActiveConnectionForUser(
             database: record.neo4j_database,
           },
           readOnly: record.read_only === 1,
+          costBudget: parseCostBudget(record.cost_budget),
+          queryPolicy: parseQueryPolicy(record.query_policy),
+          redactionRules: parseRedactionRules(record.redaction_rules),
           name: record.name,
           isActive: true,
         },
@@ -283,7 +375,7 @@ export async function updateConnection(
 ): Promise<Result<void>> {
   try {
     const updates: string[] = [];
-    const values: (string | number)[] = [];
+    const values: (string | number | null)[] = [];
 
     if (data.name !== undefined) {
       updates.push('name = ?');
@@ -315,6 +407,21 @@ export async function updateConnection(
       values.push(data.readOnly ? 1 : 0);
     }
 
+    if (data.costBudget !== undefined) {
+      updates.push('cost_budget = ?');
+      values.push(data.costBudget ? JSON.stringify(data.costBudget) : null);
+    }
+
+    if (data.queryPolicy !== undefined) {
+      updates.push('query_policy = ?');
+      values.push(data.queryPolicy ? JSON.stringify(data.queryPolicy) : null);
+    }
+
+    if (data.redactionRules !== undefined) {
+      updates.push('redaction_rules = ?');
+      values.push(data.redactionRules ? JSON.stringify(data.redactionRules) : null);
+    }
+
     if (data.isActive !== undefined) {
       updates.push('is_active = ?');
       values.push(data.isActive ? 1 : 0);
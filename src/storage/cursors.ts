@@ -0,0 +1,160 @@
+/**
+ * Query Cursor Storage
+ *
+ * Keeps the rows of a read query that did not fit in the first page,
+ * so the client can fetch the rest with an opaque cursor instead of
+ * running the query again. Cursors belong to the user who ran the
+ * query and expire after DEFAULTS.CURSOR_TTL.
+ *
+ * A cursor string encodes the stored result and a row position, so
+ * every page has its own cursor and fetching a page twice returns
+ * the same rows.
+ */
+
+import { KV_PREFIXES, DEFAULTS } from '../config/constants.js';
+import { generateUrlSafeToken } from '../auth/crypto.js';
+import * as logger from '../utils/logger.js';
+import type { RedactionCounts } from '../types.js';
+import type { OutputFormat } from '../utils/formats.js';
+
+/**
+ * Stored remainder of a query result
+ */
+export interface QueryCursor {
+  id: string;
+  userId: string;
+  connectionId?: string;
+  columns: string[];
+  /** Total rows in the result */
+  rowCount: number;
+  /** Position of the first stored row in the result */
+  offset: number;
+  /** Rows from `offset` to the end of the result */
+  rows: Record<string, unknown>[];
+  /** Whether the result itself was cut short before paging */
+  truncated: boolean;
+  /** Values redacted in the whole result, if any */
+  redactions?: RedactionCounts;
+  /** Page size requested with the query, if any */
+  pageSize?: number;
+  /** Output format requested with the query */
+  format?: OutputFormat;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Position within a stored result
+ */
+export interface CursorPosition {
+  id: string;
+  position: number;
+}
+
+/**
+ * Generate a cursor key for KV storage
+ */
+function getCursorKey(cursorId: string): string {
+  return `${KV_PREFIXES.QUERY_CURSOR}${cursorId}`;
+}
+
+/**
+ * Encode a position within a stored result as an opaque cursor string
+ */
+export function encodeCursor(id: string, position: number): string {
+  return btoa(`${id}:${position}`);
+}
+
+/**
+ * Decode a cursor string
+ *
+ * @returns The position, or null if the string is not a cursor
+ */
+export function decodeCursor(cursor: string): CursorPosition | null {
+  let decoded: string;
+  try {
+    decoded = atob(cursor);
+  } catch {
+    return null;
+  }
+
+  const match = /^([A-Za-z0-9_-]+):(\d+)$/.exec(decoded);
+  if (!match?.[1] || !match[2]) {
+    return null;
+  }
+
+  return { id: match[1], position: Number(match[2]) };
+}
+
+/**
+ * Store the remainder of a query result
+ *
+ * @param kv - KV namespace binding
+ * @param data - Result remainder and its owner
+ * @returns The stored cursor
+ */
+export async function createQueryCursor(
+  kv: KVNamespace,
+  data: Omit<QueryCursor, 'id' | 'createdAt' | 'expiresAt'>
+): Promise<QueryCursor> {
+  const now = Date.now();
+  const cursor: QueryCursor = {
+    id: generateUrlSafeToken(24),
+    ...data,
+    createdAt: now,
+    expiresAt: now + (DEFAULTS.CURSOR_TTL * 1000),
+  };
+
+  await kv.put(getCursorKey(cursor.id), JSON.stringify(cursor), {
+    expirationTtl: DEFAULTS.CURSOR_TTL,
+  });
+
+  logger.debug('Query cursor created', {
+    userId: data.userId,
+    storedRows: data.rows.length,
+  });
+
+  return cursor;
+}
+
+/**
+ * Get a stored result for its owner
+ *
+ * @param kv - KV namespace binding
+ * @param cursorId - Cursor ID
+ * @param userId - User requesting the cursor
+ * @returns Stored cursor, or null if not found, expired or owned by someone else
+ */
+export async function getQueryCursor(
+  kv: KVNamespace,
+  cursorId: string,
+  userId: string
+): Promise<QueryCursor | null> {
+  try {
+    const data = await kv.get(getCursorKey(cursorId));
+
+    if (!data) {
+      return null;
+    }
+
+    const cursor = JSON.parse(data) as QueryCursor;
+
+    // Double-check expiration (KV TTL is eventually consistent)
+    if (cursor.expiresAt < Date.now()) {
+      await kv.delete(getCursorKey(cursorId));
+      return null;
+    }
+
+    if (cursor.userId !== userId) {
+      logger.warn('Query cursor used by another user', { userId });
+      return null;
+    }
+
+    return cursor;
+  } catch (error) {
+    logger.warn('Failed to read query cursor', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
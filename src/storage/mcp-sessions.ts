@@ -0,0 +1,267 @@
+/**
+ * MCP Transport Session Storage
+ *
+ * Stores Streamable HTTP transport sessions (the Mcp-Session-Id issued
+ * on initialize) and a per-session queue of server-to-client messages
+ * waiting for delivery on the session's GET event stream.
+ *
+ * These are distinct from the authentication sessions in auth/session.ts,
+ * which identify the user and their Neo4j connection.
+ */
+
+import type { JsonRpcNotification, McpSessionData } from '../types.js';
+import { KV_PREFIXES, DEFAULTS } from '../config/constants.js';
+import { generateUrlSafeToken } from '../auth/crypto.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Generate a session key for KV storage
+ */
+function getSessionKey(sessionId: string): string {
+  return `${KV_PREFIXES.MCP_SESSION}${sessionId}`;
+}
+
+/**
+ * Generate the key prefix of a session's message queue
+ */
+function getQueuePrefix(sessionId: string): string {
+  return `${KV_PREFIXES.MCP_SESSION_QUEUE}${sessionId}:`;
+}
+
+/**
+ * Last enqueue time used by this isolate, so its messages never share one
+ */
+let lastEnqueuedAt = 0;
+
+/**
+ * Generate the key of one queued message
+ *
+ * KV lists keys in lexicographic order, so the zero-padded enqueue time
+ * and position keep messages in order; the random suffix keeps keys
+ * written in the same millisecond by different requests apart.
+ */
+function getMessageKey(sessionId: string, enqueuedAt: number, position: number): string {
+  const time = enqueuedAt.toString().padStart(15, '0');
+  const index = position.toString().padStart(4, '0');
+  return `${getQueuePrefix(sessionId)}${time}-${index}-${generateUrlSafeToken(8)}`;
+}
+
+/**
+ * List the keys of a session's queued messages, oldest first
+ */
+async function listMessageKeys(kv: KVNamespace, sessionId: string): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listResult = await kv.list({ prefix: getQueuePrefix(sessionId), cursor });
+    keys.push(...listResult.keys.map(key => key.name));
+    cursor = listResult.list_complete ? undefined : listResult.cursor;
+  } while (cursor);
+
+  return keys;
+}
+
+/**
+ * Generate a new MCP transport session ID
+ */
+export function generateMcpSessionId(): string {
+  return generateUrlSafeToken(32);
+}
+
+/**
+ * Create a new MCP transport session
+ *
+ * @param kv - KV namespace binding
+ * @param details - Session ID to use (a new one if not given),
+ *                  user and connection the session is bound to (if authenticated),
+ *                  the negotiated protocol revision, and whether the client
+ *                  opted out of bookmarks
+ * @returns Session data, including the new session ID
+ */
+export async function createMcpSession(
+  kv: KVNamespace,
+  details: {
+    id?: string;
+    userId?: string;
+    connectionId?: string;
+    protocolVersion?: string;
+    causalConsistency?: boolean;
+  } = {}
+): Promise<McpSessionData> {
+  const now = Date.now();
+  const session: McpSessionData = {
+    id: details.id ?? generateMcpSessionId(),
+    ...(details.userId && { userId: details.userId }),
+    ...(details.connectionId && { connectionId: details.connectionId }),
+    ...(details.protocolVersion && { protocolVersion: details.protocolVersion }),
+    ...(details.causalConsistency === false && { causalConsistency: false }),
+    createdAt: now,
+    expiresAt: now + (DEFAULTS.MCP_SESSION_TTL * 1000),
+  };
+
+  await kv.put(getSessionKey(session.id), JSON.stringify(session), {
+    expirationTtl: DEFAULTS.MCP_SESSION_TTL,
+  });
+
+  logger.debug('MCP session created', {
+    userId: details.userId,
+    protocolVersion: details.protocolVersion,
+  });
+
+  return session;
+}
+
+/**
+ * Get an MCP transport session
+ *
+ * @param kv - KV namespace binding
+ * @param sessionId - Session ID from the Mcp-Session-Id header
+ * @returns Session data or null if not found/expired
+ */
+export async function getMcpSession(
+  kv: KVNamespace,
+  sessionId: string
+): Promise<McpSessionData | null> {
+  try {
+    const data = await kv.get(getSessionKey(sessionId));
+
+    if (!data) {
+      return null;
+    }
+
+    const session = JSON.parse(data) as McpSessionData;
+
+    // Double-check expiration (KV TTL is eventually consistent)
+    if (session.expiresAt < Date.now()) {
+      await deleteMcpSession(kv, sessionId);
+      return null;
+    }
+
+    return session;
+  } catch (error) {
+    logger.warn('Failed to read MCP session', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Update client preferences and bookmarks stored on an MCP transport session
+ *
+ * Keeps the session's original expiry.
+ *
+ * @param kv - KV namespace binding
+ * @param sessionId - Session ID
+ * @param changes - Fields to update
+ * @returns Updated session data, or null if the session no longer exists
+ */
+export async function updateMcpSession(
+  kv: KVNamespace,
+  sessionId: string,
+  changes: Partial<Pick<McpSessionData, 'logLevel' | 'bookmarks'>>
+): Promise<McpSessionData | null> {
+  const session = await getMcpSession(kv, sessionId);
+  if (!session) {
+    return null;
+  }
+
+  const updated: McpSessionData = { ...session, ...changes };
+  const remainingTtl = Math.ceil((updated.expiresAt - Date.now()) / 1000);
+
+  // KV rejects TTLs under 60 seconds
+  await kv.put(getSessionKey(sessionId), JSON.stringify(updated), {
+    expirationTtl: Math.max(remainingTtl, 60),
+  });
+
+  return updated;
+}
+
+/**
+ * Delete an MCP transport session and its message queue
+ *
+ * @param kv - KV namespace binding
+ * @param sessionId - Session ID
+ */
+export async function deleteMcpSession(
+  kv: KVNamespace,
+  sessionId: string
+): Promise<void> {
+  const messageKeys = await listMessageKeys(kv, sessionId).catch(() => []);
+
+  await Promise.all([
+    kv.delete(getSessionKey(sessionId)),
+    ...messageKeys.map(key => kv.delete(key)),
+  ]);
+}
+
+/**
+ * Queue messages for delivery on the session's GET event stream
+ *
+ * Every message is stored under its own key, so concurrent requests
+ * queueing messages for the same session never overwrite each other.
+ *
+ * @param kv - KV namespace binding
+ * @param sessionId - Session ID
+ * @param messages - Messages to append to the queue
+ */
+export async function enqueueSessionMessages(
+  kv: KVNamespace,
+  sessionId: string,
+  messages: JsonRpcNotification[]
+): Promise<void> {
+  if (messages.length === 0) {
+    return;
+  }
+
+  const enqueuedAt = Math.max(Date.now(), lastEnqueuedAt + 1);
+  lastEnqueuedAt = enqueuedAt;
+
+  try {
+    await Promise.all(messages.map((message, position) =>
+      kv.put(getMessageKey(sessionId, enqueuedAt, position), JSON.stringify(message), {
+        expirationTtl: DEFAULTS.MCP_SESSION_TTL,
+      })
+    ));
+  } catch (error) {
+    logger.warn('Failed to queue MCP session messages', {
+      count: messages.length,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Take all queued messages for a session, emptying the queue
+ *
+ * Only keys that were read are deleted, so a message queued while the
+ * queue is drained stays for the next drain.
+ *
+ * @param kv - KV namespace binding
+ * @param sessionId - Session ID
+ * @returns Queued messages, oldest first (empty if none)
+ */
+export async function drainSessionMessages(
+  kv: KVNamespace,
+  sessionId: string
+): Promise<JsonRpcNotification[]> {
+  const messages: JsonRpcNotification[] = [];
+
+  try {
+    for (const key of await listMessageKeys(kv, sessionId)) {
+      const data = await kv.get(key);
+      await kv.delete(key);
+
+      if (data) {
+        messages.push(JSON.parse(data) as JsonRpcNotification);
+      }
+    }
+  } catch (error) {
+    logger.warn('Failed to drain MCP session messages', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return messages;
+}
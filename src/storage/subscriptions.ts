@@ -0,0 +1,180 @@
+/**
+ * Resource Subscription Storage
+ *
+ * Tracks which MCP resource URIs a subscriber has asked to be
+ * notified about, and which MCP sessions subscribe to each
+ * connection's resources, using Cloudflare KV.
+ */
+
+import { KV_PREFIXES, DEFAULTS } from '../config/constants.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Generate a subscription key
+ *
+ * @param subscriberId - Subscriber ID (MCP session or connection ID)
+ * @returns KV key
+ */
+function getSubscriptionKey(subscriberId: string): string {
+  return `${KV_PREFIXES.RESOURCE_SUBSCRIPTIONS}${subscriberId}`;
+}
+
+/**
+ * Get all subscribed resource URIs for a subscriber
+ *
+ * @param kv - KV namespace binding
+ * @param subscriberId - Subscriber ID
+ * @returns Subscribed URIs (empty if none)
+ */
+export async function getSubscriptions(
+  kv: KVNamespace,
+  subscriberId: string
+): Promise<string[]> {
+  try {
+    const data = await kv.get(getSubscriptionKey(subscriberId));
+
+    if (!data) {
+      return [];
+    }
+
+    const uris = JSON.parse(data) as unknown;
+    return Array.isArray(uris) ? uris.filter((uri): uri is string => typeof uri === 'string') : [];
+  } catch (error) {
+    logger.warn('Failed to read resource subscriptions', {
+      subscriberId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * Subscribe to a resource URI
+ *
+ * @param kv - KV namespace binding
+ * @param subscriberId - Subscriber ID
+ * @param uri - Resource URI
+ */
+export async function addSubscription(
+  kv: KVNamespace,
+  subscriberId: string,
+  uri: string
+): Promise<void> {
+  const uris = await getSubscriptions(kv, subscriberId);
+
+  if (uris.includes(uri)) {
+    return;
+  }
+
+  uris.push(uri);
+  await kv.put(getSubscriptionKey(subscriberId), JSON.stringify(uris), {
+    expirationTtl: DEFAULTS.SUBSCRIPTION_TTL,
+  });
+
+  logger.debug('Resource subscription added', { subscriberId, uri });
+}
+
+/**
+ * Unsubscribe from a resource URI
+ *
+ * @param kv - KV namespace binding
+ * @param subscriberId - Subscriber ID
+ * @param uri - Resource URI
+ */
+export async function removeSubscription(
+  kv: KVNamespace,
+  subscriberId: string,
+  uri: string
+): Promise<void> {
+  const uris = await getSubscriptions(kv, subscriberId);
+  const remaining = uris.filter(existing => existing !== uri);
+
+  if (remaining.length === uris.length) {
+    return;
+  }
+
+  const key = getSubscriptionKey(subscriberId);
+
+  if (remaining.length === 0) {
+    await kv.delete(key);
+  } else {
+    await kv.put(key, JSON.stringify(remaining), {
+      expirationTtl: DEFAULTS.SUBSCRIPTION_TTL,
+    });
+  }
+
+  logger.debug('Resource subscription removed', { subscriberId, uri });
+}
+
+/**
+ * Generate the key recording that an MCP session subscribes to a connection's resources
+ */
+function getSubscriberKey(connectionId: string, sessionId: string): string {
+  return `${KV_PREFIXES.RESOURCE_SUBSCRIBERS}${connectionId}:${sessionId}`;
+}
+
+/**
+ * Record that an MCP session subscribes to resources of a connection
+ *
+ * One key per session, so sessions subscribing at the same time do
+ * not overwrite each other.
+ *
+ * @param kv - KV namespace binding
+ * @param connectionId - Connection whose resources are subscribed to
+ * @param sessionId - MCP session ID
+ */
+export async function addSubscriber(
+  kv: KVNamespace,
+  connectionId: string,
+  sessionId: string
+): Promise<void> {
+  await kv.put(getSubscriberKey(connectionId, sessionId), '1', {
+    expirationTtl: DEFAULTS.SUBSCRIPTION_TTL,
+  });
+}
+
+/**
+ * Forget that an MCP session subscribes to resources of a connection
+ *
+ * @param kv - KV namespace binding
+ * @param connectionId - Connection whose resources were subscribed to
+ * @param sessionId - MCP session ID
+ */
+export async function removeSubscriber(
+  kv: KVNamespace,
+  connectionId: string,
+  sessionId: string
+): Promise<void> {
+  await kv.delete(getSubscriberKey(connectionId, sessionId));
+}
+
+/**
+ * Get the MCP sessions subscribing to resources of a connection
+ *
+ * @param kv - KV namespace binding
+ * @param connectionId - Connection ID
+ * @returns Session IDs (empty if none)
+ */
+export async function getSubscribers(
+  kv: KVNamespace,
+  connectionId: string
+): Promise<string[]> {
+  const prefix = getSubscriberKey(connectionId, '');
+  const sessionIds: string[] = [];
+  let cursor: string | undefined;
+
+  try {
+    do {
+      const listResult = await kv.list({ prefix, cursor });
+      sessionIds.push(...listResult.keys.map(key => key.name.slice(prefix.length)));
+      cursor = listResult.list_complete ? undefined : listResult.cursor;
+    } while (cursor);
+  } catch (error) {
+    logger.warn('Failed to list resource subscribers', {
+      connectionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return sessionIds;
+}
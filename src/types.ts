@@ -19,6 +19,9 @@ export interface Env {
   // KV Namespace for sessions and cache
   SESSIONS: KVNamespace;
 
+  // Durable Objects passing request cancellations between Worker instances
+  CANCELLATIONS: DurableObjectNamespace;
+
   // Secrets
   ENCRYPTION_KEY: string;
 
@@ -27,6 +30,7 @@ export interface Env {
   DEFAULT_READ_TIMEOUT: string;
   DEFAULT_TOKEN_LIMIT: string;
   DEFAULT_SCHEMA_SAMPLE: string;
+  DEFAULT_MAX_ROWS: string;
   ALLOWED_ORIGINS: string;
 }
 
@@ -71,6 +75,15 @@ export interface JsonRpcError {
   data?: unknown;
 }
 
+/**
+ * JSON-RPC 2.0 Notification (server to client, no id)
+ */
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
 /**
  * Union type for JSON-RPC responses
  */
@@ -91,6 +104,7 @@ export const JSON_RPC_ERROR_CODES = {
   AUTHENTICATION_ERROR: -32003,
   RATE_LIMIT_ERROR: -32004,
   VALIDATION_ERROR: -32005,
+  REQUEST_CANCELLED: -32006,
 } as const;
 
 // ============================================
@@ -112,8 +126,23 @@ export interface McpCapabilities {
   tools?: Record<string, unknown>;
   resources?: Record<string, unknown>;
   prompts?: Record<string, unknown>;
+  logging?: Record<string, unknown>;
+  completions?: Record<string, unknown>;
 }
 
+/**
+ * MCP log level (RFC 5424 severities, lowest first)
+ */
+export type McpLogLevel =
+  | 'debug'
+  | 'info'
+  | 'notice'
+  | 'warning'
+  | 'error'
+  | 'critical'
+  | 'alert'
+  | 'emergency';
+
 /**
  * MCP Initialize Result
  */
@@ -128,8 +157,32 @@ export interface McpInitializeResult {
  */
 export interface McpTool {
   name: string;
+  /** Human-readable name (protocol 2025-06-18 and later) */
+  title?: string;
   description: string;
   inputSchema: McpToolInputSchema;
+  /** Schema of the tool's structuredContent (protocol 2025-06-18 and later) */
+  outputSchema?: McpToolOutputSchema;
+  /** Behaviour hints for clients (protocol 2025-03-26 and later) */
+  annotations?: McpToolAnnotations;
+}
+
+/**
+ * MCP Tool Annotations
+ *
+ * Hints only: clients must not rely on them for security decisions.
+ */
+export interface McpToolAnnotations {
+  /** Human-readable name (the 2025-03-26 location of the tool title) */
+  title?: string;
+  /** The tool does not modify its environment */
+  readOnlyHint?: boolean;
+  /** The tool may perform destructive updates (meaningful only if not read-only) */
+  destructiveHint?: boolean;
+  /** Repeating a call with the same arguments has no additional effect */
+  idempotentHint?: boolean;
+  /** The tool interacts with an open world of external entities */
+  openWorldHint?: boolean;
 }
 
 /**
@@ -141,6 +194,15 @@ export interface McpToolInputSchema {
   required?: string[];
 }
 
+/**
+ * MCP Tool Output Schema (JSON Schema format)
+ */
+export interface McpToolOutputSchema {
+  type: 'object';
+  properties: Record<string, Record<string, unknown>>;
+  required?: string[];
+}
+
 /**
  * MCP Tool Property Definition
  */
@@ -149,6 +211,8 @@ export interface McpToolProperty {
   description: string;
   default?: unknown;
   enum?: unknown[];
+  /** Schema of the elements of an array property */
+  items?: Record<string, unknown>;
 }
 
 /**
@@ -174,6 +238,8 @@ export interface McpToolResultContent {
  */
 export interface McpToolResult {
   content: McpToolResultContent[];
+  /** Typed result matching the tool's outputSchema (successful results only) */
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
@@ -184,6 +250,133 @@ export interface McpToolsListResult {
   tools: McpTool[];
 }
 
+/**
+ * MCP Resource Definition
+ */
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * MCP Resource Template Definition (RFC 6570 URI template)
+ */
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * MCP Resource Contents (text only - the schema is never binary)
+ */
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text: string;
+}
+
+/**
+ * MCP Resources List Result
+ */
+export interface McpResourcesListResult {
+  resources: McpResource[];
+}
+
+/**
+ * MCP Resource Templates List Result
+ */
+export interface McpResourceTemplatesListResult {
+  resourceTemplates: McpResourceTemplate[];
+}
+
+/**
+ * MCP Resource Read Result
+ */
+export interface McpResourceReadResult {
+  contents: McpResourceContents[];
+}
+
+/**
+ * MCP Prompt Argument Definition
+ */
+export interface McpPromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+/**
+ * MCP Prompt Definition
+ */
+export interface McpPrompt {
+  name: string;
+  description: string;
+  arguments?: McpPromptArgument[];
+}
+
+/**
+ * MCP Prompt Message
+ */
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: {
+    type: 'text';
+    text: string;
+  };
+}
+
+/**
+ * MCP Prompts List Result
+ */
+export interface McpPromptsListResult {
+  prompts: McpPrompt[];
+}
+
+/**
+ * MCP Prompt Get Result
+ */
+export interface McpPromptGetResult {
+  description?: string;
+  messages: McpPromptMessage[];
+}
+
+/**
+ * MCP Completion Reference (what is being completed)
+ */
+export type McpCompletionReference =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string };
+
+/**
+ * MCP Completion Request Params
+ */
+export interface McpCompleteParams {
+  ref: McpCompletionReference;
+  argument: {
+    name: string;
+    value: string;
+  };
+  /** Arguments the client has already filled in */
+  context?: {
+    arguments?: Record<string, string>;
+  };
+}
+
+/**
+ * MCP Completion Result
+ */
+export interface McpCompleteResult {
+  completion: {
+    values: string[];
+    total?: number;
+    hasMore?: boolean;
+  };
+}
+
 // ============================================
 // Neo4j Types
 // ============================================
@@ -198,6 +391,88 @@ export interface Neo4jConnection {
   database: string;
 }
 
+/**
+ * Cost budget for read queries on a connection
+ *
+ * When set, read queries are planned with EXPLAIN first and rejected
+ * if the plan exceeds the budget.
+ */
+export interface CostBudget {
+  /** Largest row estimate allowed for any operator in the plan */
+  maxEstimatedRows: number;
+  /** Reject plans that scan every node in the database */
+  rejectAllNodesScan: boolean;
+  /** Reject plans containing a Cartesian product */
+  rejectCartesianProduct: boolean;
+  /** Reject variable-length patterns without an upper bound */
+  rejectUnboundedVarLength: boolean;
+}
+
+/**
+ * Allowed and denied names, as globs where `*` matches any characters
+ *
+ * A name is denied if it matches a `deny` glob, or if `allow` is set
+ * and it matches none of its globs.
+ */
+export interface PolicyRule {
+  allow?: string[];
+  deny?: string[];
+}
+
+/**
+ * Query policy of a connection
+ *
+ * Checked against every query before it is sent to Neo4j, on top of
+ * the operations blocked for all connections.
+ */
+export interface QueryPolicy {
+  /** Node labels in patterns, label predicates and SET/REMOVE */
+  labels?: PolicyRule;
+  /** Relationship types in patterns */
+  relationshipTypes?: PolicyRule;
+  /** Procedures called with CALL, e.g. `apoc.path.*` */
+  procedures?: PolicyRule;
+  /** Clause keywords, e.g. `MATCH`, `DETACH` or `LOAD` */
+  clauses?: PolicyRule;
+  /** Largest upper bound of a variable-length pattern; unbounded patterns are rejected */
+  maxVarLengthHops?: number;
+}
+
+/**
+ * What a redaction rule does with a value
+ * - drop: leave the property out (a detected match becomes `[redacted]`)
+ * - hash: replace it with a stable SHA-256 pseudonym, so equal values still match
+ * - mask: keep the first characters and star out the rest
+ */
+export type RedactionAction = 'drop' | 'hash' | 'mask';
+
+/**
+ * Kinds of personal data found by pattern in any string value
+ */
+export type RedactionDetector = 'email' | 'phone';
+
+/**
+ * Rule for redacting property values before results reach the model
+ *
+ * A rule needs `properties`, `detect` or both. With `properties` it
+ * redacts whole values of matching properties; with `detect` it
+ * redacts only the matches inside strings (of matching properties, if
+ * `properties` is set too).
+ */
+export interface RedactionRule {
+  /** Property-name globs, where `*` matches any characters (case-insensitive) */
+  properties?: string[];
+  /** Only for nodes with a label, or relationships with a type, matching one of these globs */
+  labels?: string[];
+  detect?: RedactionDetector;
+  action: RedactionAction;
+}
+
+/**
+ * Number of values redacted, by action
+ */
+export type RedactionCounts = Record<RedactionAction, number>;
+
 /**
  * Neo4j Connection from D1 (encrypted)
  */
@@ -211,6 +486,12 @@ export interface Neo4jConnectionRecord {
   neo4j_database: string;
   read_only: number;
   is_active: number;
+  /** CostBudget as JSON, or null if the cost guard is off */
+  cost_budget: string | null;
+  /** QueryPolicy as JSON, or null if the connection has no policy */
+  query_policy: string | null;
+  /** RedactionRule[] as JSON, or null if nothing is redacted */
+  redaction_rules: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -335,6 +616,27 @@ export interface SessionData {
   expiresAt: number;
 }
 
+/**
+ * MCP transport session stored in KV (issued on initialize via Mcp-Session-Id)
+ */
+export interface McpSessionData {
+  id: string;
+  /** User that initialized the session (if authenticated) */
+  userId?: string;
+  /** Connection bound to the session (if authenticated) */
+  connectionId?: string;
+  /** Protocol revision negotiated during initialize */
+  protocolVersion?: string;
+  /** Minimum level of log messages sent to the client (logging/setLevel) */
+  logLevel?: McpLogLevel;
+  /** Bookmarks of the session's latest write, sent with later queries */
+  bookmarks?: string[];
+  /** False if the client opted out of bookmarks for throughput */
+  causalConsistency?: boolean;
+  createdAt: number;
+  expiresAt: number;
+}
+
 /**
  * Request Context (after authentication)
  */
@@ -343,6 +645,12 @@ export interface RequestContext {
   connectionId: string;
   connection: Neo4jConnection;
   readOnly: boolean;
+  /** Cost budget for read queries (absent if the cost guard is off) */
+  costBudget?: CostBudget;
+  /** Query policy (absent if the connection has none) */
+  queryPolicy?: QueryPolicy;
+  /** Redaction rules for results (absent if nothing is redacted) */
+  redactionRules?: RedactionRule[];
 }
 
 // ============================================
@@ -356,6 +664,7 @@ export interface ServerConfig {
   readTimeout: number;
   tokenLimit: number;
   schemaSampleSize: number;
+  maxRows: number;
   allowedOrigins: string[];
   environment: 'development' | 'staging' | 'production';
 }
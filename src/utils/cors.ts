@@ -53,10 +53,10 @@ export function getCorsHeaders(
 
   return {
     'Access-Control-Allow-Origin': corsOrigin,
-    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Session-Token',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Session-Token, Mcp-Session-Id, Last-Event-ID, MCP-Protocol-Version',
     'Access-Control-Max-Age': '86400',
-    'Access-Control-Expose-Headers': 'X-Request-Id, X-Rate-Limit-Remaining',
+    'Access-Control-Expose-Headers': 'X-Request-Id, X-Rate-Limit-Remaining, Mcp-Session-Id',
   };
 }
 
@@ -146,6 +146,19 @@ export class ValidationError extends McpError {
   }
 }
 
+/**
+ * Request Cancelled Error (-32006)
+ *
+ * The client cancelled the request with notifications/cancelled.
+ * Cancelled requests get no response, so the code never reaches the client.
+ */
+export class RequestCancelledError extends McpError {
+  constructor(message = 'Request cancelled by the client') {
+    super(message, JSON_RPC_ERROR_CODES.REQUEST_CANCELLED);
+    this.name = 'RequestCancelledError';
+  }
+}
+
 /**
  * Convert any error to McpError
  */
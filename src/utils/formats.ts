@@ -0,0 +1,176 @@
+/**
+ * Output Formats for Query Results
+ *
+ * Encodes result rows for LLM consumption. Pretty-printed JSON is the
+ * most readable but also the most token-hungry encoding of flat rows:
+ * - json: pretty-printed JSON (the default)
+ * - compact_json: JSON without whitespace
+ * - markdown: a Markdown table
+ * - csv: RFC 4180 CSV with a header row
+ *
+ * Tables have one cell per value, so nested values are flattened first:
+ * maps and nodes become one column per key (`person.name`), temporals
+ * their ISO 8601 value and lists and paths compact JSON.
+ */
+
+import type { RedactionCounts } from '../types.js';
+import { isDecodedByteArray, isDecodedPath, isDecodedTemporal } from '../neo4j/codec.js';
+
+/**
+ * Supported output formats
+ */
+export const OUTPUT_FORMATS = ['json', 'compact_json', 'markdown', 'csv'] as const;
+
+/**
+ * Output format of a result
+ */
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Table cell value
+ */
+export type CellValue = string | number | boolean | null;
+
+/**
+ * Result to encode
+ */
+export interface FormattableResult {
+  columns: string[];
+  rowCount: number;
+  rows: Record<string, unknown>[];
+  truncated?: boolean;
+  nextCursor?: string;
+  redactions?: RedactionCounts;
+}
+
+/**
+ * Check if a value is a supported output format
+ */
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return typeof value === 'string' && (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Check if a format encodes rows as a table
+ */
+export function isTabularFormat(format: OutputFormat): format is 'markdown' | 'csv' {
+  return format === 'markdown' || format === 'csv';
+}
+
+/**
+ * Encode a value in one of the JSON formats
+ */
+export function encodeJson(value: unknown, format: 'json' | 'compact_json'): string {
+  return format === 'json' ? JSON.stringify(value, null, 2) : JSON.stringify(value);
+}
+
+/**
+ * Flatten a value into cells, adding one cell per nested map key
+ */
+function flattenInto(cells: Record<string, CellValue>, key: string, value: unknown): void {
+  if (value === null || value === undefined) {
+    cells[key] = null;
+  } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    cells[key] = value;
+  } else if (Array.isArray(value) || isDecodedPath(value)) {
+    cells[key] = JSON.stringify(value);
+  } else if (isDecodedTemporal(value)) {
+    cells[key] = value.value;
+  } else if (isDecodedByteArray(value)) {
+    cells[key] = `[ByteArray: ${value.length} bytes]`;
+  } else if (typeof value === 'object' && Object.keys(value).length > 0) {
+    for (const [nestedKey, nestedValue] of Object.entries(value)) {
+      flattenInto(cells, `${key}.${nestedKey}`, nestedValue);
+    }
+  } else {
+    cells[key] = JSON.stringify(value);
+  }
+}
+
+/**
+ * Flatten a result row into table cells
+ *
+ * @param row - Result row keyed by column name
+ * @returns Cells keyed by column name, with `.` joining nested keys
+ */
+export function flattenRow(row: Record<string, unknown>): Record<string, CellValue> {
+  const cells: Record<string, CellValue> = {};
+  for (const [key, value] of Object.entries(row)) {
+    flattenInto(cells, key, value);
+  }
+  return cells;
+}
+
+/**
+ * Quote a CSV field if it needs it
+ */
+function escapeCsv(value: CellValue): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escape a Markdown table cell
+ */
+function escapeMarkdown(value: CellValue): string {
+  const text = value === null ? '' : String(value);
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Encode rows as a Markdown table or CSV
+ *
+ * Columns are the flattened columns of all rows, in order of first
+ * appearance, so a row without a nested key gets an empty cell.
+ *
+ * @param columns - Result columns, used for the header of an empty result
+ * @param rows - Result rows
+ * @param format - Table format
+ */
+export function encodeTable(
+  columns: string[],
+  rows: Record<string, unknown>[],
+  format: 'markdown' | 'csv'
+): string {
+  const flattened = rows.map(flattenRow);
+  const header = flattened.length > 0
+    ? [...new Set(flattened.flatMap(cells => Object.keys(cells)))]
+    : columns;
+  const cellRows = flattened.map(cells => header.map(column => cells[column] ?? null));
+
+  if (format === 'csv') {
+    return [header, ...cellRows]
+      .map(cells => cells.map(escapeCsv).join(','))
+      .join('\n');
+  }
+
+  const line = (cells: CellValue[]) => `| ${cells.map(escapeMarkdown).join(' | ')} |`;
+  return [line(header), `|${header.map(() => ' --- |').join('')}`, ...cellRows.map(line)].join('\n');
+}
+
+/**
+ * Encode a result in an output format
+ *
+ * JSON formats encode the whole result object. Tables are followed by a
+ * note with the row count and next cursor when rows were left out, and
+ * with the redaction counts when values were redacted.
+ */
+export function formatResult(result: FormattableResult, format: OutputFormat): string {
+  if (!isTabularFormat(format)) {
+    return encodeJson(result, format);
+  }
+
+  const table = encodeTable(result.columns, result.rows, format);
+  const notes: string[] = [];
+
+  if (result.truncated) {
+    notes.push(`Showing ${result.rows.length} of ${result.rowCount} rows.` +
+      (result.nextCursor ? ` nextCursor: ${result.nextCursor}` : ''));
+  }
+  if (result.redactions) {
+    const { drop, hash, mask } = result.redactions;
+    notes.push(`Redacted values: ${drop} dropped, ${hash} hashed, ${mask} masked.`);
+  }
+
+  return notes.length > 0 ? `${table}\n\n${notes.join('\n')}` : table;
+}
@@ -7,7 +7,21 @@
  * Based on the original Python implementation in mcp-neo4j-cypher.
  */
 
+import type { DecodedPath } from '../neo4j/types.js';
 import { DEFAULTS } from '../config/constants.js';
+import {
+  findPropertyAction,
+  getRedactionScope,
+  redactProperty,
+  redactText,
+} from '../security/redaction.js';
+import type { Redaction, RedactionScope } from '../security/redaction.js';
+import {
+  isDecodedByteArray,
+  isDecodedPath,
+  isDecodedPoint,
+  isDecodedTemporal,
+} from '../neo4j/codec.js';
 
 /**
  * Configuration options for sanitization
@@ -23,6 +37,16 @@ export interface SanitizeOptions {
   maxStringLength?: number;
   /** Maximum object depth for recursion (default: 20) */
   maxDepth?: number;
+  /** Redaction rules of the connection, with counts of what they redacted (default: none) */
+  redaction?: Redaction | null;
+}
+
+/**
+ * Property (or result column) a value belongs to, for redaction
+ */
+interface SanitizeField {
+  key: string;
+  scope: RedactionScope;
 }
 
 /**
@@ -34,6 +58,7 @@ const DEFAULT_OPTIONS: Required<SanitizeOptions> = {
   removeNulls: true,
   maxStringLength: 0, // 0 means no limit
   maxDepth: 20,
+  redaction: null,
 };
 
 /**
@@ -91,6 +116,42 @@ export function isEmbeddingKey(key: string): boolean {
   return embeddingPatterns.some(pattern => lowerKey.includes(pattern));
 }
 
+/**
+ * Check if a value is a decoded node, relationship or path
+ */
+function isGraphValue(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  return isDecodedPath(value) || getRedactionScope(value as Record<string, unknown>) !== undefined;
+}
+
+/**
+ * Sanitize a decoded path
+ *
+ * Long paths are cut after maxListSize nodes, keeping the relationships
+ * between them, so nodes and relationships stay aligned.
+ */
+function sanitizePath(
+  path: DecodedPath,
+  options: Required<SanitizeOptions>,
+  depth: number
+): Record<string, unknown> {
+  const sanitizeAll = (items: Record<string, unknown>[]) =>
+    items.map(item => sanitizeValue(item, options, depth + 2) ?? {});
+
+  const maxNodes = options.maxListSize;
+  const truncated = path.nodes.length > maxNodes;
+
+  return {
+    $type: path.$type,
+    length: path.length,
+    nodes: sanitizeAll(path.nodes.slice(0, maxNodes)),
+    relationships: sanitizeAll(path.relationships.slice(0, Math.max(maxNodes - 1, 0))),
+    ...(truncated && { truncated: `...[${path.nodes.length - maxNodes} more nodes truncated]` }),
+  };
+}
+
 /**
  * Sanitize a single value
  *
@@ -99,12 +160,14 @@ export function isEmbeddingKey(key: string): boolean {
  * @param value - Value to sanitize
  * @param options - Sanitization options
  * @param depth - Current recursion depth
+ * @param field - Property holding the value, for redaction
  * @returns Sanitized value or undefined if should be removed
  */
 export function sanitizeValue(
   value: unknown,
   options: Required<SanitizeOptions> = DEFAULT_OPTIONS,
-  depth: number = 0
+  depth: number = 0,
+  field?: SanitizeField
 ): unknown {
   // Prevent infinite recursion
   if (depth > options.maxDepth) {
@@ -118,10 +181,13 @@ export function sanitizeValue(
 
   // Handle primitives
   if (typeof value === 'string') {
-    if (options.maxStringLength > 0 && value.length > options.maxStringLength) {
-      return value.substring(0, options.maxStringLength) + '...[truncated]';
+    const text = options.redaction
+      ? redactText(options.redaction, value, field?.key, field?.scope)
+      : value;
+    if (options.maxStringLength > 0 && text.length > options.maxStringLength) {
+      return text.substring(0, options.maxStringLength) + '...[truncated]';
     }
-    return value;
+    return text;
   }
 
   if (typeof value === 'number' || typeof value === 'boolean') {
@@ -139,7 +205,7 @@ export function sanitizeValue(
     if (value.length > options.maxListSize) {
       const truncated = value.slice(0, options.maxListSize);
       const sanitized = truncated
-        .map(item => sanitizeValue(item, options, depth + 1))
+        .map(item => sanitizeValue(item, options, depth + 1, field))
         .filter(item => item !== undefined);
 
       return [
@@ -150,23 +216,51 @@ export function sanitizeValue(
 
     // Sanitize each element
     return value
-      .map(item => sanitizeValue(item, options, depth + 1))
+      .map(item => sanitizeValue(item, options, depth + 1, field))
       .filter(item => item !== undefined);
   }
 
+  // Decoded temporals, points and byte arrays are kept whole
+  if (isDecodedTemporal(value) || isDecodedPoint(value) || isDecodedByteArray(value)) {
+    return value;
+  }
+
+  if (isDecodedPath(value)) {
+    return sanitizePath(value, options, depth);
+  }
+
   // Handle objects
   if (typeof value === 'object') {
     const result: Record<string, unknown> = {};
     const obj = value as Record<string, unknown>;
+    const scope = getRedactionScope(obj);
 
     for (const [key, val] of Object.entries(obj)) {
+      // Labels and types say what the element is, and are never redacted
+      if (scope && (key === '_labels' || key === '_type')) {
+        result[key] = val;
+        continue;
+      }
+
+      // Whole nodes, relationships and paths in a column are redacted property by property
+      const action = options.redaction && !isGraphValue(val)
+        ? findPropertyAction(options.redaction, key, scope)
+        : undefined;
+      if (options.redaction && action) {
+        const redacted = redactProperty(options.redaction, val, action);
+        if (redacted !== undefined) {
+          result[key] = redacted;
+        }
+        continue;
+      }
+
       // Skip embedding keys entirely
       if (options.removeEmbeddings && isEmbeddingKey(key)) {
         result[key] = `[Embedding property - filtered]`;
         continue;
       }
 
-      const sanitized = sanitizeValue(val, options, depth + 1);
+      const sanitized = sanitizeValue(val, options, depth + 1, { key, scope });
       if (sanitized !== undefined) {
         result[key] = sanitized;
       }
@@ -188,6 +282,9 @@ export function sanitizeValue(
  * - Removing null/undefined values
  * - Truncating long strings (if configured)
  *
+ * Decoded temporals, points and byte arrays pass through unchanged;
+ * paths are shortened with their nodes and relationships in step.
+ *
  * @param data - Data to sanitize
  * @param options - Sanitization options
  * @returns Sanitized data
@@ -204,6 +301,30 @@ export function sanitize<T = unknown>(
   return sanitizeValue(data, mergedOptions, 0) as T;
 }
 
+/**
+ * Sanitize the properties of a graph node or relationship
+ *
+ * @param properties - Properties of the element
+ * @param scope - Labels of the node, or type of the relationship
+ * @param options - Sanitization options
+ * @returns Sanitized properties
+ */
+export function sanitizeProperties(
+  properties: Record<string, unknown>,
+  scope: string[],
+  options: SanitizeOptions = {}
+): Record<string, unknown> {
+  const mergedOptions: Required<SanitizeOptions> = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  };
+
+  // Tag the properties like a decoded element, so rules scoped to labels apply
+  const sanitized = sanitizeValue({ ...properties, _labels: scope }, mergedOptions, 0) as Record<string, unknown>;
+  delete sanitized._labels;
+  return sanitized;
+}
+
 /**
  * Sanitize Neo4j query results
  *
@@ -258,6 +258,80 @@ export function truncateDataToTokens<T = unknown>(
   }
 }
 
+/**
+ * Truncate an array of rows to fit within token limits
+ *
+ * Unlike truncateDataToTokens, only whole rows are kept and no
+ * truncation marker is added, so every element keeps the row shape.
+ *
+ * @param rows - Rows to truncate
+ * @param options - Token options
+ * @param encode - Encoding the rows are sent in (default: compact JSON)
+ * @returns The leading rows that fit, and whether any were dropped
+ */
+export function truncateRowsToTokens<T>(
+  rows: T[],
+  options: TokenOptions = {},
+  encode: (rows: T[]) => unknown = rows => rows
+): { rows: T[]; truncated: boolean; originalTokens: number; finalTokens: number } {
+  const mergedOptions: Required<TokenOptions> = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  };
+
+  const measure = (items: T[]) => estimateDataTokens(encode(items), mergedOptions.charsPerToken);
+  const originalTokens = measure(rows);
+
+  if (originalTokens <= mergedOptions.maxTokens) {
+    return {
+      rows,
+      truncated: false,
+      originalTokens,
+      finalTokens: originalTokens,
+    };
+  }
+
+  const fitted = rows.slice(0, countFittingItems(rows, mergedOptions, measure));
+
+  return {
+    rows: fitted,
+    truncated: true,
+    originalTokens,
+    finalTokens: measure(fitted),
+  };
+}
+
+/**
+ * Count how many leading elements of an array fit within token limits
+ *
+ * Uses binary search, leaving a 10% margin for truncation messages.
+ */
+function countFittingItems<T>(
+  arr: T[],
+  options: Required<TokenOptions>,
+  measure: (items: T[]) => number = items => estimateDataTokens(items, options.charsPerToken)
+): number {
+  const targetTokens = options.maxTokens;
+
+  let low = 0;
+  let high = arr.length;
+  let bestFit = 0;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const tokens = measure(arr.slice(0, mid));
+
+    if (tokens <= targetTokens * 0.9) { // Leave 10% margin for truncation message
+      bestFit = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return bestFit;
+}
+
 /**
  * Truncate an array to fit within token limits
  *
@@ -275,11 +349,6 @@ function truncateArray(
   const targetTokens = options.maxTokens;
   const totalItems = arr.length;
 
-  // Binary search for the right array size
-  let low = 0;
-  let high = arr.length;
-  let bestFit = 0;
-
   // Quick check: if first few elements already exceed limit, return minimal
   const minimalArray = arr.slice(0, 1);
   if (estimateDataTokens(minimalArray, options.charsPerToken) > targetTokens) {
@@ -290,21 +359,8 @@ function truncateArray(
     }];
   }
 
-  while (low <= high) {
-    const mid = Math.floor((low + high) / 2);
-    const slice = arr.slice(0, mid);
-    const tokens = estimateDataTokens(slice, options.charsPerToken);
-
-    if (tokens <= targetTokens * 0.9) { // Leave 10% margin for truncation message
-      bestFit = mid;
-      low = mid + 1;
-    } else {
-      high = mid - 1;
-    }
-  }
-
   // Ensure we include at least some items
-  bestFit = Math.max(bestFit, Math.min(5, arr.length));
+  const bestFit = Math.max(countFittingItems(arr, options), Math.min(5, arr.length));
 
   const truncatedArr = arr.slice(0, bestFit);
 
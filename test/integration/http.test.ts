@@ -0,0 +1,68 @@
+/**
+ * Integration tests for the MCP endpoint over HTTP
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import worker from '../../src/index.js';
+import { getMcpSession } from '../../src/storage/mcp-sessions.js';
+import { RequestCancelledError } from '../../src/utils/errors.js';
+import { createMockEnv, createMockRequest, createMcpRequest } from '../setup.js';
+
+// initialize sends a log message before its result, as a slow server would;
+// the cancelled_by_client tool stands in for a request the client cancelled
+vi.mock('../../src/mcp/handlers.js', async importOriginal => {
+  const handlers = await importOriginal<typeof import('../../src/mcp/handlers.js')>();
+  return {
+    ...handlers,
+    routeRequest: vi.fn(async (request, context) => {
+      if (request.method === 'initialize') {
+        context.sendNotification?.('notifications/message', { level: 'info', data: 'warming up' });
+      }
+      if (request.params?.name === 'cancelled_by_client') {
+        return { type: 'error', error: new RequestCancelledError() };
+      }
+      return handlers.routeRequest(request, context);
+    }),
+  };
+});
+
+describe('MCP endpoint', () => {
+  it('should send the session ID on an initialize response upgraded to an event stream', async () => {
+    const env = createMockEnv();
+    const pending: Promise<unknown>[] = [];
+    const ctx = { waitUntil: (promise: Promise<unknown>) => pending.push(promise) } as unknown as ExecutionContext;
+
+    const response = await worker.fetch(createMockRequest('https://example.com/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: createMcpRequest('initialize', {
+        protocolVersion: '2025-06-18',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '1.0.0' },
+      }),
+    }), env as unknown as Env, ctx);
+    const text = await response.text();
+    await Promise.all(pending);
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(text).toContain('"method":"notifications/message"');
+    expect(text).toContain('"protocolVersion":"2025-06-18"');
+
+    const sessionId = response.headers.get('Mcp-Session-Id');
+    expect(sessionId).toBeTruthy();
+    expect(await getMcpSession(env.SESSIONS, sessionId!)).toMatchObject({ id: sessionId });
+  });
+
+  it('should not answer a cancelled request', async () => {
+    const env = createMockEnv();
+
+    const response = await worker.fetch(createMockRequest('https://example.com/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: createMcpRequest('tools/call', { name: 'cancelled_by_client', arguments: {} }),
+    }), env as unknown as Env, { waitUntil: () => {} } as unknown as ExecutionContext);
+
+    expect(response.status).toBe(202);
+    expect(await response.text()).toBe('');
+  });
+});
@@ -2,11 +2,37 @@
  * Integration tests for MCP protocol flow
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { routeRequest, type HandlerContext } from '../../src/mcp/handlers.js';
-import { parseJsonRpcRequest } from '../../src/mcp/protocol.js';
+import { parseJsonRpcRequest, parseJsonRpcBatch } from '../../src/mcp/protocol.js';
+import { dispatchBatch } from '../../src/mcp/batch.js';
+import { cacheSchema } from '../../src/storage/cache.js';
+import { createNeo4jClient, type Neo4jClient } from '../../src/neo4j/client.js';
+import { Neo4jQueryError, RequestCancelledError, ValidationError, toMcpError } from '../../src/utils/errors.js';
+import { createMcpSession, drainSessionMessages, getMcpSession } from '../../src/storage/mcp-sessions.js';
+import type { ProcessedSchema } from '../../src/neo4j/types.js';
+import type { McpTool } from '../../src/types.js';
 import { createMockEnv, createMcpRequest } from '../setup.js';
 
+/**
+ * Create a real Neo4j client whose requests get these typed JSON response bodies, in order
+ */
+function createTypedClient(...bodies: unknown[]) {
+  const fetch = vi.fn();
+  for (const body of bodies) {
+    fetch.mockResolvedValueOnce({ ok: true, json: async () => body });
+  }
+  vi.stubGlobal('fetch', fetch);
+
+  const client = createNeo4jClient({
+    uri: 'neo4j+s://test.databases.neo4j.io',
+    username: 'neo4j',
+    password: 'password123',
+    database: 'neo4j',
+  });
+  return { client, fetch };
+}
+
 describe('MCP Protocol Integration', () => {
   let mockEnv: ReturnType<typeof createMockEnv>;
   let baseContext: HandlerContext;
@@ -23,6 +49,10 @@ describe('MCP Protocol Integration', () => {
     };
   });
 
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
   describe('initialize', () => {
     it('should return server info and capabilities', async () => {
       const request = parseJsonRpcRequest(createMcpRequest('initialize', {
@@ -44,6 +74,40 @@ describe('MCP Protocol Integration', () => {
         expect(response.capabilities).toHaveProperty('tools');
       }
     });
+
+    it('should negotiate the newest revision both sides support', async () => {
+      const initialize = (protocolVersion: string) => routeRequest(
+        parseJsonRpcRequest(createMcpRequest('initialize', {
+          protocolVersion,
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' },
+        })),
+        baseContext
+      );
+
+      const versions = await Promise.all(
+        ['2025-06-18', '2025-04-01', '2030-01-01'].map(async version => {
+          const result = await initialize(version);
+          return result.type === 'response'
+            ? (result.result as { protocolVersion: string }).protocolVersion
+            : null;
+        })
+      );
+
+      expect(versions).toEqual(['2025-06-18', '2025-03-26', '2025-06-18']);
+    });
+
+    it('should record the negotiated revision on the context', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('initialize', {
+        protocolVersion: '2025-03-26',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '1.0.0' },
+      }));
+
+      await routeRequest(request, baseContext);
+
+      expect(baseContext.protocolVersion).toBe('2025-03-26');
+    });
   });
 
   describe('notifications/initialized', () => {
@@ -68,24 +132,77 @@ describe('MCP Protocol Integration', () => {
       expect(result.type).toBe('response');
       if (result.type === 'response') {
         const response = result.result as { tools: Array<{ name: string }> };
-        expect(response.tools).toHaveLength(3);
+        expect(response.tools).toHaveLength(5);
         expect(response.tools.map(t => t.name)).toContain('get_neo4j_schema');
         expect(response.tools.map(t => t.name)).toContain('read_neo4j_cypher');
+        expect(response.tools.map(t => t.name)).toContain('explain_neo4j_cypher');
         expect(response.tools.map(t => t.name)).toContain('write_neo4j_cypher');
+        expect(response.tools.map(t => t.name)).toContain('write_neo4j_cypher_batch');
       }
     });
 
-    it('should hide write tool when read-only', async () => {
-      const readOnlyContext = { ...baseContext, readOnly: true };
+    it('should list write tools with read-only hints when read-only', async () => {
+      const readOnlyContext = { ...baseContext, readOnly: true, protocolVersion: '2025-06-18' };
       const request = parseJsonRpcRequest(createMcpRequest('tools/list', {}));
 
       const result = await routeRequest(request, readOnlyContext);
 
       expect(result.type).toBe('response');
       if (result.type === 'response') {
-        const response = result.result as { tools: Array<{ name: string }> };
-        expect(response.tools).toHaveLength(2);
-        expect(response.tools.map(t => t.name)).not.toContain('write_neo4j_cypher');
+        const response = result.result as { tools: McpTool[] };
+        expect(response.tools).toHaveLength(5);
+        for (const name of ['write_neo4j_cypher', 'write_neo4j_cypher_batch']) {
+          const tool = response.tools.find(t => t.name === name);
+          expect(tool?.annotations).toEqual({ readOnlyHint: true, idempotentHint: true, openWorldHint: false });
+          expect(tool?.description).toContain('This connection is read-only, so every call is rejected.');
+        }
+      }
+    });
+
+    it('should annotate tools from protocol 2025-03-26', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('tools/list', {}));
+
+      const [oldest, older, newer] = await Promise.all([
+        routeRequest(request, { ...baseContext, protocolVersion: '2024-11-05' }),
+        routeRequest(request, { ...baseContext, protocolVersion: '2025-03-26' }),
+        routeRequest(request, { ...baseContext, protocolVersion: '2025-06-18' }),
+      ]);
+
+      type Tool = { name: string; title?: string; annotations?: Record<string, unknown> };
+      const toolsOf = (result: typeof oldest) =>
+        result.type === 'response' ? (result.result as { tools: Tool[] }).tools : [];
+      const byName = (tools: Tool[], name: string) => tools.find(tool => tool.name === name);
+
+      expect(toolsOf(oldest).every(tool => !tool.annotations && !tool.title)).toBe(true);
+
+      // 2025-03-26 carries the title inside the annotations
+      expect(byName(toolsOf(older), 'read_neo4j_cypher')).toMatchObject({
+        annotations: { title: 'Read Neo4j Cypher', readOnlyHint: true, idempotentHint: true },
+      });
+      expect(byName(toolsOf(older), 'read_neo4j_cypher')).not.toHaveProperty('title');
+
+      expect(byName(toolsOf(newer), 'write_neo4j_cypher')).toMatchObject({
+        title: 'Write Neo4j Cypher',
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+      });
+      expect(byName(toolsOf(newer), 'get_neo4j_schema')?.annotations?.readOnlyHint).toBe(true);
+    });
+
+    it('should include output schemas only from protocol 2025-06-18', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('tools/list', {}));
+
+      const [older, newer] = await Promise.all([
+        routeRequest(request, { ...baseContext, protocolVersion: '2025-03-26' }),
+        routeRequest(request, { ...baseContext, protocolVersion: '2025-06-18' }),
+      ]);
+
+      expect(older.type).toBe('response');
+      expect(newer.type).toBe('response');
+      if (older.type === 'response' && newer.type === 'response') {
+        const olderTools = (older.result as { tools: Array<Record<string, unknown>> }).tools;
+        const newerTools = (newer.result as { tools: Array<Record<string, unknown>> }).tools;
+        expect(olderTools.every(tool => !('outputSchema' in tool))).toBe(true);
+        expect(newerTools.every(tool => 'outputSchema' in tool)).toBe(true);
       }
     });
   });
@@ -107,6 +224,43 @@ describe('MCP Protocol Integration', () => {
           expect(response.content[0].text).toContain('No Neo4j connection');
         }
       });
+
+      it('should leave out labels and relationships the query policy denies', async () => {
+        await cacheSchema(mockEnv.SESSIONS, 'conn_test', {
+          labels: [
+            {
+              name: 'Person',
+              properties: [],
+              outgoingRelationships: [{ type: 'OWNS', targetLabel: 'Secret' }, { type: 'KNOWS', targetLabel: 'Person' }],
+              incomingRelationships: [],
+            },
+            { name: 'Secret', properties: [], outgoingRelationships: [], incomingRelationships: [] },
+          ],
+          relationshipTypes: [
+            { name: 'OWNS', properties: [], startLabels: ['Person'], endLabels: ['Secret'] },
+            { name: 'KNOWS', properties: [], startLabels: ['Person'], endLabels: ['Person'] },
+          ],
+          summary: 'Database Schema Summary:\n- 2 node label(s)',
+        });
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'get_neo4j_schema',
+          arguments: {},
+        }));
+
+        const result = await routeRequest(request, {
+          ...baseContext,
+          neo4jClient: { query: vi.fn() } as unknown as Neo4jClient,
+          connectionId: 'conn_test',
+          queryPolicy: { labels: { deny: ['Secret'] } },
+        });
+
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const response = result.result as { content: Array<{ text: string }> };
+          expect(response.content[0].text).not.toContain('Secret');
+          expect(response.content[0].text).toContain('KNOWS');
+        }
+      });
     });
 
     describe('read_neo4j_cypher', () => {
@@ -147,55 +301,1787 @@ describe('MCP Protocol Integration', () => {
 
         expect(result.type).toBe('error');
       });
+
+      it('should return structured rows from protocol 2025-06-18', async () => {
+        const client = {
+          query: vi.fn().mockResolvedValue({
+            data: { fields: ['name', 'age'], values: [['Alice', 30], ['Bob', 25]] },
+          }),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'read_neo4j_cypher',
+          arguments: { query: 'MATCH (p:Person) RETURN p.name AS name, p.age AS age' },
+        }));
+
+        const result = await routeRequest(request, {
+          ...baseContext,
+          neo4jClient: client,
+          protocolVersion: '2025-06-18',
+        });
+
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const response = result.result as { content: Array<{ text: string }>, structuredContent?: unknown };
+          expect(response.structuredContent).toEqual({
+            columns: ['name', 'age'],
+            rowCount: 2,
+            returnedRows: 2,
+            rows: [{ name: 'Alice', age: 30 }, { name: 'Bob', age: 25 }],
+            truncated: false,
+          });
+          expect(JSON.parse(response.content[0].text).rows).toHaveLength(2);
+        }
+      });
+
+      it('should run in the READ access mode and report writes Neo4j refused', async () => {
+        const client = {
+          query: vi.fn().mockRejectedValue(
+            new ValidationError('This query writes to the database, which Neo4j refused in read mode. Use write_neo4j_cypher.')
+          ),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'read_neo4j_cypher',
+          arguments: { query: 'CALL apoc.create.node(["Test"], {}) YIELD node RETURN node' },
+        }));
+
+        const result = await routeRequest(request, { ...baseContext, neo4jClient: client });
+
+        expect(client.query).toHaveBeenCalledWith(
+          expect.stringContaining('apoc.create.node'),
+          undefined,
+          expect.objectContaining({ readOnly: true })
+        );
+        expect(result.type).toBe('error');
+        if (result.type === 'error') {
+          expect(result.error.code).toBe(-32005);
+          expect(result.error.message).toContain('write_neo4j_cypher');
+        }
+      });
+
+      it('should return text only on older protocol revisions', async () => {
+        const client = {
+          query: vi.fn().mockResolvedValue({ data: { fields: ['n'], values: [[1]] } }),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'read_neo4j_cypher',
+          arguments: { query: 'RETURN 1 AS n' },
+        }));
+
+        const result = await routeRequest(request, {
+          ...baseContext,
+          neo4jClient: client,
+          protocolVersion: '2024-11-05',
+        });
+
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          expect(result.result).not.toHaveProperty('structuredContent');
+        }
+      });
     });
 
-    describe('write_neo4j_cypher', () => {
-      it('should return error when read-only', async () => {
-        const readOnlyContext = { ...baseContext, readOnly: true };
+    describe('read_neo4j_cypher pagination', () => {
+      const readPage = (args: Record<string, unknown>) =>
+        parseJsonRpcRequest(createMcpRequest('tools/call', { name: 'read_neo4j_cypher', arguments: args }));
+
+      const pageOf = (result: Awaited<ReturnType<typeof routeRequest>>) => {
+        expect(result.type).toBe('response');
+        const response = (result as { result: { content: Array<{ text: string }>; isError?: boolean } }).result;
+        return JSON.parse(response.content[0]!.text) as { rows: Array<{ n: number }>; nextCursor?: string; truncated?: boolean };
+      };
+
+      let client: Neo4jClient;
+
+      beforeEach(() => {
+        client = {
+          query: vi.fn().mockResolvedValue({
+            data: { fields: ['n'], values: Array.from({ length: 5 }, (_, i) => [i]) },
+          }),
+        } as unknown as Neo4jClient;
+      });
+
+      it('should page through a result with cursors', async () => {
+        const context = { ...baseContext, neo4jClient: client, userId: 'user-1', connectionId: 'conn_test' };
+
+        const first = pageOf(await routeRequest(readPage({ query: 'UNWIND range(0, 4) AS n RETURN n', page_size: 2 }), context));
+        expect(first.rows).toEqual([{ n: 0 }, { n: 1 }]);
+        expect(first.truncated).toBe(true);
+        expect(first.nextCursor).toBeDefined();
+
+        const second = pageOf(await routeRequest(readPage({ cursor: first.nextCursor }), context));
+        expect(second.rows).toEqual([{ n: 2 }, { n: 3 }]);
+
+        const last = pageOf(await routeRequest(readPage({ cursor: second.nextCursor }), context));
+        expect(last.rows).toEqual([{ n: 4 }]);
+        expect(last.nextCursor).toBeUndefined();
+
+        // Pages are fetched from the stored result, and can be fetched again
+        const again = pageOf(await routeRequest(readPage({ cursor: first.nextCursor }), context));
+        expect(again.rows).toEqual(second.rows);
+        expect(client.query).toHaveBeenCalledTimes(1);
+      });
+
+      it('should not hand out cursors without a user', async () => {
+        const page = pageOf(await routeRequest(
+          readPage({ query: 'UNWIND range(0, 4) AS n RETURN n', page_size: 2 }),
+          { ...baseContext, neo4jClient: client }
+        ));
+
+        expect(page.rows).toHaveLength(2);
+        expect(page.truncated).toBe(true);
+        expect(page.nextCursor).toBeUndefined();
+      });
+
+      it('should reject cursors of other users and connections', async () => {
+        const context = { ...baseContext, neo4jClient: client, userId: 'user-1', connectionId: 'conn_test' };
+        const { nextCursor } = pageOf(await routeRequest(
+          readPage({ query: 'UNWIND range(0, 4) AS n RETURN n', page_size: 2 }),
+          context
+        ));
+
+        const otherUser = await routeRequest(readPage({ cursor: nextCursor }), { ...context, userId: 'user-2' });
+        const otherConnection = await routeRequest(readPage({ cursor: nextCursor }), { ...context, connectionId: 'conn_other' });
+
+        expect(otherUser.type).toBe('error');
+        expect(otherConnection.type).toBe('error');
+      });
+
+      it('should reject invalid cursors and page sizes', async () => {
+        const context = { ...baseContext, neo4jClient: client, userId: 'user-1' };
+
+        const badCursor = await routeRequest(readPage({ cursor: 'not-a-cursor' }), context);
+        const badPageSize = await routeRequest(readPage({ query: 'RETURN 1 AS n', page_size: 0 }), context);
+
+        expect(badCursor.type).toBe('error');
+        if (badCursor.type === 'error') {
+          expect(badCursor.error.message).toContain('Invalid or expired cursor');
+        }
+        expect(badPageSize.type).toBe('error');
+        expect(client.query).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('read_neo4j_cypher output formats', () => {
+      const people = Array.from({ length: 60 }, (_, i) => [`person-${i}`, { city: 'Malmö', zip: 21100 + i }]);
+      const client = () => ({
+        query: vi.fn().mockResolvedValue({ data: { fields: ['name', 'address'], values: people } }),
+      }) as unknown as Neo4jClient;
+
+      const readAs = (args: Record<string, unknown>) =>
+        parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'read_neo4j_cypher',
+          arguments: { query: 'MATCH (p:Person) RETURN p.name AS name, p.address AS address', ...args },
+        }));
+
+      const textOf = (result: Awaited<ReturnType<typeof routeRequest>>) => {
+        expect(result.type).toBe('response');
+        return (result as { result: { content: Array<{ text: string }> } }).result.content[0]!.text;
+      };
+
+      it('should fit more rows in csv than in json', async () => {
+        const context = { ...baseContext, neo4jClient: client(), tokenLimit: 200 };
+
+        const json = JSON.parse(textOf(await routeRequest(readAs({}), context)));
+        const csv = textOf(await routeRequest(readAs({ format: 'csv' }), context));
+        const csvRows = csv.split('\n\n')[0]!.split('\n').slice(1);
+
+        expect(csv.startsWith('name,address.city,address.zip\nperson-0,Malmö,21100\n')).toBe(true);
+        expect(csvRows.length).toBeGreaterThan(json.rows.length);
+        expect(csv).toContain(`Showing ${csvRows.length} of 60 rows.`);
+      });
+
+      it('should keep the format of the first page for cursor pages', async () => {
+        const context = { ...baseContext, neo4jClient: client(), userId: 'user-1' };
+
+        const first = textOf(await routeRequest(readAs({ format: 'markdown', page_size: 2 }), context));
+        const cursor = /nextCursor: (\S+)/.exec(first)?.[1];
+        const second = textOf(await routeRequest(readAs({ query: undefined, cursor }), context));
+
+        expect(first.startsWith('| name | address.city | address.zip |\n| --- | --- | --- |\n| person-0 |')).toBe(true);
+        expect(second).toContain('| person-2 | Malmö | 21102 |');
+      });
+
+      it('should reject unknown formats and tables of graphs', async () => {
+        const unknown = await routeRequest(readAs({ format: 'yaml' }), baseContext);
+        const graphTable = await routeRequest(readAs({ format: 'csv', result_format: 'graph' }), baseContext);
+
+        expect(unknown.type).toBe('error');
+        expect(graphTable.type).toBe('error');
+      });
+    });
+
+    describe('read_neo4j_cypher graph format', () => {
+      const alice = { _element_id: '4:a:1', _labels: ['Person'], name: 'Alice' };
+      const bob = { _element_id: '4:a:2', _labels: ['Person'], name: 'Bob', embedding: Array(128).fill(0.1) };
+      const knows = {
+        _element_id: '5:a:1',
+        _start_node_element_id: '4:a:1',
+        _end_node_element_id: '4:a:2',
+        _type: 'KNOWS',
+      };
+
+      const readGraph = (args: Record<string, unknown>) =>
+        parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'read_neo4j_cypher',
+          arguments: { query: 'MATCH p = (:Person)-[:KNOWS]->(:Person) RETURN p, 1 AS one', result_format: 'graph', ...args },
+        }));
+
+      it('should return each node and relationship once', async () => {
+        const client = {
+          query: vi.fn().mockResolvedValue({
+            data: {
+              fields: ['p', 'one'],
+              values: [
+                [{ _nodes: [alice, bob], _relationships: [knows] }, 1],
+                [{ _nodes: [alice, bob], _relationships: [knows] }, 1],
+              ],
+            },
+          }),
+        } as unknown as Neo4jClient;
+
+        const result = await routeRequest(readGraph({}), { ...baseContext, neo4jClient: client });
+
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const response = result.result as { content: Array<{ text: string }> };
+          const graph = JSON.parse(response.content[0]!.text);
+          expect(graph.rowCount).toBe(2);
+          expect(graph.nodes).toEqual([
+            { id: '4:a:1', labels: ['Person'], properties: { name: 'Alice' } },
+            { id: '4:a:2', labels: ['Person'], properties: { name: 'Bob', embedding: expect.stringContaining('Embedding') } },
+          ]);
+          expect(graph.relationships).toEqual([
+            { id: '5:a:1', type: 'KNOWS', startNodeId: '4:a:1', endNodeId: '4:a:2', properties: {} },
+          ]);
+          expect(graph.truncated).toBeUndefined();
+        }
+      });
+
+      it('should drop relationships to nodes cut by the token limit', async () => {
+        const people = Array.from({ length: 40 }, (_, i) => ({
+          _element_id: `4:a:${i}`,
+          _labels: ['Person'],
+          bio: 'x'.repeat(200),
+        }));
+        const rels = people.slice(1).map((person, i) => ({
+          _element_id: `5:a:${i}`,
+          _start_node_element_id: '4:a:0',
+          _end_node_element_id: person._element_id,
+          _type: 'KNOWS',
+        }));
+        const client = {
+          query: vi.fn().mockResolvedValue({
+            data: { fields: ['p'], values: [[{ _nodes: people, _relationships: rels }]] },
+          }),
+        } as unknown as Neo4jClient;
+
+        const result = await routeRequest(readGraph({}), { ...baseContext, neo4jClient: client, tokenLimit: 1000 });
+
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const response = result.result as { content: Array<{ text: string }> };
+          const graph = JSON.parse(response.content[0]!.text);
+          const ids = new Set(graph.nodes.map((node: { id: string }) => node.id));
+          expect(graph.truncated).toBe(true);
+          expect(graph.nodes.length).toBeLessThan(40);
+          expect(graph.relationships.every((rel: { endNodeId: string }) => ids.has(rel.endNodeId))).toBe(true);
+        }
+      });
+
+      it('should reject paging arguments', async () => {
+        const result = await routeRequest(readGraph({ page_size: 10 }), baseContext);
+
+        expect(result.type).toBe('error');
+      });
+    });
+
+    describe('typed JSON round trip', () => {
+      const sentBody = (fetch: ReturnType<typeof vi.fn>, call = 0) =>
+        JSON.parse(fetch.mock.calls[call]?.[1].body) as { statement: string; parameters: Record<string, unknown> };
+
+      it('should send typed parameters and return decoded rows', async () => {
+        const { client, fetch } = createTypedClient({
+          data: {
+            fields: ['name', 'born', 'score'],
+            values: [[
+              { $type: 'String', _value: 'Alice' },
+              { $type: 'Date', _value: '1990-01-01' },
+              { $type: 'Float', _value: '0.5' },
+            ]],
+          },
+        });
         const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
-          name: 'write_neo4j_cypher',
-          arguments: { query: 'CREATE (n:Test) RETURN n' },
+          name: 'read_neo4j_cypher',
+          arguments: {
+            query: 'MATCH (p:Person) WHERE p.born >= $since RETURN p.name AS name, p.born AS born, p.score AS score LIMIT $n',
+            params: { since: { $type: 'Date', value: '1980-01-01' }, n: 5 },
+          },
         }));
 
-        const result = await routeRequest(request, readOnlyContext);
+        const result = await routeRequest(request, { ...baseContext, neo4jClient: client, protocolVersion: '2025-06-18' });
 
+        expect(sentBody(fetch).parameters).toEqual({
+          since: { $type: 'Date', _value: '1980-01-01' },
+          n: { $type: 'Integer', _value: '5' },
+        });
         expect(result.type).toBe('response');
         if (result.type === 'response') {
-          const response = result.result as { content: Array<{ text: string }>, isError?: boolean };
-          expect(response.isError).toBe(true);
-          expect(response.content[0].text).toContain('Write operations disabled');
+          const response = result.result as { structuredContent?: { rows: unknown[] } };
+          expect(response.structuredContent?.rows).toEqual([
+            { name: 'Alice', born: { $type: 'Date', value: '1990-01-01' }, score: 0.5 },
+          ]);
         }
       });
 
-      it('should return error when no neo4j client', async () => {
+      it('should collect typed graph elements by element ID', async () => {
+        const person = (id: string, name: string) => ({
+          $type: 'Node',
+          _value: { _element_id: id, _labels: ['Person'], _properties: { name: { $type: 'String', _value: name } } },
+        });
+        const { client, fetch } = createTypedClient({
+          data: {
+            fields: ['a', 'r', 'b'],
+            values: [[
+              person('4:a:1', 'Alice'),
+              {
+                $type: 'Relationship',
+                _value: {
+                  _element_id: '5:a:1',
+                  _start_node_element_id: '4:a:1',
+                  _end_node_element_id: '4:a:2',
+                  _type: 'KNOWS',
+                  _properties: { since: { $type: 'Integer', _value: '2020' } },
+                },
+              },
+              person('4:a:2', 'Bob'),
+            ]],
+          },
+        });
         const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
-          name: 'write_neo4j_cypher',
-          arguments: { query: 'CREATE (n:Test) RETURN n' },
+          name: 'read_neo4j_cypher',
+          arguments: {
+            query: 'MATCH (a:Person {name: $name})-[r:KNOWS]->(b) RETURN a, r, b',
+            params: { name: 'Alice' },
+            result_format: 'graph',
+          },
         }));
 
-        const result = await routeRequest(request, baseContext);
+        const result = await routeRequest(request, { ...baseContext, neo4jClient: client });
 
+        expect(sentBody(fetch).parameters).toEqual({ name: { $type: 'String', _value: 'Alice' } });
         expect(result.type).toBe('response');
         if (result.type === 'response') {
-          const response = result.result as { content: Array<{ text: string }>, isError?: boolean };
-          expect(response.isError).toBe(true);
-          expect(response.content[0].text).toContain('No Neo4j connection');
+          const graph = JSON.parse((result.result as { content: Array<{ text: string }> }).content[0]!.text);
+          expect(graph.nodes).toEqual([
+            { id: '4:a:1', labels: ['Person'], properties: { name: 'Alice' } },
+            { id: '4:a:2', labels: ['Person'], properties: { name: 'Bob' } },
+          ]);
+          expect(graph.relationships).toEqual([
+            { id: '5:a:1', type: 'KNOWS', startNodeId: '4:a:1', endNodeId: '4:a:2', properties: { since: 2020 } },
+          ]);
         }
       });
+
+      it('should send typed parameters for writes', async () => {
+        const { client, fetch } = createTypedClient({ counters: { nodesCreated: 1, propertiesSet: 2 } });
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'write_neo4j_cypher',
+          arguments: {
+            query: 'CREATE (e:Event {on: $on, tags: $tags})',
+            params: { on: { $type: 'DateTime', value: '2025-01-01T12:30:00Z' }, tags: ['a', 1.5] },
+          },
+        }));
+
+        const result = await routeRequest(request, { ...baseContext, neo4jClient: client });
+
+        expect(sentBody(fetch).parameters).toEqual({
+          on: { $type: 'DateTime', _value: '2025-01-01T12:30:00Z' },
+          tags: { $type: 'List', _value: [{ $type: 'String', _value: 'a' }, { $type: 'Float', _value: '1.5' }] },
+        });
+        expect(result.type).toBe('response');
+      });
     });
 
-    describe('unknown tool', () => {
-      it('should return error for unknown tool', async () => {
+    describe('read_neo4j_cypher cost guard', () => {
+      const budget = {
+        maxEstimatedRows: 1000,
+        rejectAllNodesScan: true,
+        rejectCartesianProduct: true,
+        rejectUnboundedVarLength: true,
+      };
+
+      it('should reject plans over the connection budget without running them', async () => {
+        const client = {
+          query: vi.fn().mockResolvedValue({
+            queryPlan: {
+              operatorType: 'ProduceResults@neo4j',
+              children: [{ operatorType: 'AllNodesScan@neo4j', arguments: { Details: 'n', EstimatedRows: 50 } }],
+            },
+          }),
+        } as unknown as Neo4jClient;
         const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
-          name: 'unknown_tool',
-          arguments: {},
+          name: 'read_neo4j_cypher',
+          arguments: { query: 'MATCH (n) WHERE n.name = "x" RETURN n' },
         }));
 
-        const result = await routeRequest(request, baseContext);
+        const result = await routeRequest(request, { ...baseContext, neo4jClient: client, costBudget: budget });
+
+        expect(result.type).toBe('error');
+        if (result.type === 'error') {
+          expect(result.error.message).toContain('AllNodesScan (n) reads every node');
+        }
+        expect(client.query).toHaveBeenCalledTimes(1);
+        expect(vi.mocked(client.query).mock.calls[0]?.[0]).toMatch(/^EXPLAIN /);
+      });
+
+      it('should run queries within the budget', async () => {
+        const client = {
+          query: vi.fn()
+            .mockResolvedValueOnce({ queryPlan: { operatorType: 'ProduceResults@neo4j', arguments: { EstimatedRows: 10 } } })
+            .mockResolvedValueOnce({ data: { fields: ['name'], values: [['Alice']] } }),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'read_neo4j_cypher',
+          arguments: { query: 'MATCH (p:Person) RETURN p.name AS name LIMIT 10' },
+        }));
+
+        const result = await routeRequest(request, { ...baseContext, neo4jClient: client, costBudget: budget });
+
+        expect(result.type).toBe('response');
+        expect(client.query).toHaveBeenCalledTimes(2);
+      });
+
+      it('should plan the row-limited query that it runs', async () => {
+        const client = {
+          query: vi.fn()
+            .mockResolvedValueOnce({ queryPlan: { operatorType: 'ProduceResults@neo4j', arguments: { EstimatedRows: 10 } } })
+            .mockResolvedValueOnce({ data: { fields: ['name'], values: [['Alice']] } }),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'read_neo4j_cypher',
+          arguments: { query: 'MATCH (p:Person) RETURN p.name AS name' },
+        }));
+
+        await routeRequest(request, { ...baseContext, neo4jClient: client, costBudget: budget, maxRows: 100 });
+
+        const [explained, executed] = vi.mocked(client.query).mock.calls.map(call => call[0]);
+        expect(executed).toBe('MATCH (p:Person) RETURN p.name AS name\nLIMIT 101');
+        expect(explained).toBe(`EXPLAIN ${executed}`);
+      });
+
+      it('should read estimates from a typed JSON plan', async () => {
+        const { client, fetch } = createTypedClient({
+          queryPlan: {
+            operatorType: 'ProduceResults@neo4j',
+            arguments: { EstimatedRows: { $type: 'Float', _value: '5000.0' } },
+            children: [{
+              operatorType: 'NodeIndexSeek@neo4j',
+              arguments: { Details: { $type: 'String', _value: 'p:Person(name)' } },
+            }],
+          },
+        });
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'read_neo4j_cypher',
+          arguments: { query: 'MATCH (p:Person) RETURN p LIMIT 10' },
+        }));
+
+        const result = await routeRequest(request, { ...baseContext, neo4jClient: client, costBudget: budget });
+
+        expect(result.type).toBe('error');
+        if (result.type === 'error') {
+          expect(result.error.message).toContain('5000');
+        }
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+
+      it('should skip the pre-flight without a budget', async () => {
+        const client = {
+          query: vi.fn().mockResolvedValue({ data: { fields: ['name'], values: [] } }),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'read_neo4j_cypher',
+          arguments: { query: 'MATCH (p:Person) RETURN p.name AS name LIMIT 10' },
+        }));
+
+        await routeRequest(request, { ...baseContext, neo4jClient: client });
+
+        expect(client.query).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('query policy', () => {
+      const queryPolicy = { procedures: { deny: ['apoc.load.*'] }, labels: { deny: ['Secret'] } };
+
+      it('should reject reads that break the connection policy, naming the token', async () => {
+        const client = { query: vi.fn() } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'read_neo4j_cypher',
+          arguments: { query: 'CALL apoc.load.json($url) YIELD value RETURN value', params: { url: 'x' } },
+        }));
+
+        const result = await routeRequest(request, { ...baseContext, neo4jClient: client, queryPolicy });
+
+        expect(result.type).toBe('error');
+        if (result.type === 'error') {
+          expect(toMcpError(result.error).toJsonRpcError()).toEqual({
+            code: -32005,
+            message: 'Procedure "apoc.load.json" is not allowed on this connection',
+            data: { violation: { rule: 'procedures', token: 'apoc.load.json', offset: 5, message: 'Procedure "apoc.load.json" is not allowed on this connection' } },
+          });
+        }
+        expect(client.query).not.toHaveBeenCalled();
+      });
+
+      it('should name the batch statement that breaks the policy', async () => {
+        const client = { runTransaction: vi.fn() } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'write_neo4j_cypher_batch',
+          arguments: { statements: [{ query: 'CREATE (:Person)' }, { query: 'CREATE (:Secret)' }] },
+        }));
+
+        const result = await routeRequest(request, { ...baseContext, neo4jClient: client, queryPolicy });
 
         expect(result.type).toBe('error');
+        if (result.type === 'error') {
+          expect(result.error.message).toContain('Label "Secret" is not allowed');
+          expect(toMcpError(result.error).toJsonRpcError().data).toMatchObject({
+            violation: { rule: 'labels', token: 'Secret' },
+            statement: 1,
+          });
+        }
+        expect(client.runTransaction).not.toHaveBeenCalled();
       });
     });
+
+    describe('redaction', () => {
+      const redactionRules = [
+        { properties: ['email'], labels: ['Customer'], action: 'hash' as const },
+        { detect: 'phone' as const, action: 'mask' as const },
+      ];
+      const customer = { _element_id: '4:db:1', _labels: ['Customer'], name: 'Ada', email: 'ada@example.com' };
+
+      it('should redact read results and count the redactions', async () => {
+        const client = {
+          query: vi.fn().mockResolvedValue({
+            data: { fields: ['c', 'note'], values: [[customer, 'Call 070-123 45 67']] },
+          }),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'read_neo4j_cypher',
+          arguments: { query: 'MATCH (c:Customer) RETURN c, c.note AS note' },
+        }));
+
+        const result = await routeRequest(request, {
+          ...baseContext,
+          neo4jClient: client,
+          protocolVersion: '2025-06-18',
+          redactionRules,
+        });
+
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const { content, structuredContent } = result.result as {
+            content: Array<{ text: string }>;
+            structuredContent: { rows: Array<{ c: { email: string }; note: string }> };
+          };
+          const row = structuredContent.rows[0]!;
+          expect(row.c.email).toMatch(/^sha256:/);
+          expect(row.note).toBe('Call 070-*********');
+          expect(structuredContent).toMatchObject({ redactions: { drop: 0, hash: 1, mask: 1 } });
+          expect(content[0]!.text).not.toContain('ada@example.com');
+        }
+      });
+
+      it('should leave results alone without rules', async () => {
+        const client = {
+          query: vi.fn().mockResolvedValue({ data: { fields: ['c'], values: [[customer]] } }),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'read_neo4j_cypher',
+          arguments: { query: 'MATCH (c:Customer) RETURN c' },
+        }));
+
+        const result = await routeRequest(request, { ...baseContext, neo4jClient: client, protocolVersion: '2025-06-18' });
+
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const { structuredContent } = result.result as { structuredContent: unknown };
+          expect(structuredContent).not.toHaveProperty('redactions');
+          expect(JSON.stringify(structuredContent)).toContain('ada@example.com');
+        }
+      });
+    });
+
+    describe('row limit', () => {
+      const readRequest = (query: string) =>
+        parseJsonRpcRequest(createMcpRequest('tools/call', { name: 'read_neo4j_cypher', arguments: { query } }));
+
+      it('should limit queries without a LIMIT and report the result truncated', async () => {
+        const client = {
+          query: vi.fn().mockResolvedValue({ data: { fields: ['n'], values: [[1], [2], [3]] } }),
+        } as unknown as Neo4jClient;
+
+        const result = await routeRequest(readRequest('MATCH (n) RETURN n.x AS n'), {
+          ...baseContext,
+          neo4jClient: client,
+          maxRows: 2,
+        });
+
+        expect(client.query).toHaveBeenCalledWith('MATCH (n) RETURN n.x AS n\nLIMIT 3', undefined, expect.anything());
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const { content } = result.result as { content: Array<{ text: string }> };
+          expect(JSON.parse(content[0]!.text)).toEqual({ columns: ['n'], rowCount: 2, rows: [{ n: 1 }, { n: 2 }], truncated: true });
+        }
+      });
+
+      it('should not truncate results within the limit or with their own LIMIT', async () => {
+        const client = {
+          query: vi.fn().mockResolvedValue({ data: { fields: ['n'], values: [[1], [2], [3]] } }),
+        } as unknown as Neo4jClient;
+        const context = { ...baseContext, neo4jClient: client, maxRows: 3 };
+
+        const unlimited = await routeRequest(readRequest('MATCH (n) RETURN n.x AS n'), context);
+        const limited = await routeRequest(readRequest('MATCH (n) RETURN n.x AS n LIMIT 50'), { ...context, maxRows: 2 });
+
+        for (const result of [unlimited, limited]) {
+          expect(result.type).toBe('response');
+          if (result.type === 'response') {
+            const { content } = result.result as { content: Array<{ text: string }> };
+            expect(JSON.parse(content[0]!.text)).not.toHaveProperty('truncated');
+          }
+        }
+        expect(client.query).toHaveBeenLastCalledWith('MATCH (n) RETURN n.x AS n LIMIT 50', undefined, expect.anything());
+      });
+    });
+
+    describe('explain_neo4j_cypher', () => {
+      const plan = {
+        operatorType: 'ProduceResults@neo4j',
+        arguments: { Details: 'n', EstimatedRows: 1200 },
+        children: [{ operatorType: 'AllNodesScan@neo4j', arguments: { Details: 'n', EstimatedRows: 1200 } }],
+      };
+
+      it('should return the plan without running the query', async () => {
+        const client = {
+          query: vi.fn().mockResolvedValue({ queryPlan: plan }),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'explain_neo4j_cypher',
+          arguments: { query: 'MATCH (n) RETURN n' },
+        }));
+
+        const result = await routeRequest(request, {
+          ...baseContext,
+          neo4jClient: client,
+          protocolVersion: '2025-06-18',
+        });
+
+        expect(client.query).toHaveBeenCalledWith('EXPLAIN MATCH (n) RETURN n', undefined, expect.any(Object));
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const response = result.result as {
+            content: Array<{ text: string }>;
+            structuredContent: { mode: string; estimatedRows: number; warnings: string[] };
+          };
+          expect(response.content[0].text).toContain('- AllNodesScan n [est. 1200 rows]');
+          expect(response.structuredContent.mode).toBe('EXPLAIN');
+          expect(response.structuredContent.estimatedRows).toBe(1200);
+          expect(response.structuredContent.warnings[0]).toContain('AllNodesScan');
+        }
+      });
+
+      it('should explain write queries on read-only connections', async () => {
+        const client = {
+          query: vi.fn().mockResolvedValue({ queryPlan: { operatorType: 'EmptyResult@neo4j' } }),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'explain_neo4j_cypher',
+          arguments: { query: 'CREATE (n:Test)' },
+        }));
+
+        const result = await routeRequest(request, { ...baseContext, neo4jClient: client, readOnly: true });
+
+        expect(result.type).toBe('response');
+        expect(client.query).toHaveBeenCalledWith('EXPLAIN CREATE (n:Test)', undefined, expect.any(Object));
+      });
+
+      it('should refuse to profile write queries', async () => {
+        const client = { query: vi.fn() } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'explain_neo4j_cypher',
+          arguments: { query: 'CREATE (n:Test)', mode: 'PROFILE' },
+        }));
+
+        const result = await routeRequest(request, { ...baseContext, neo4jClient: client });
+
+        expect(result.type).toBe('error');
+        expect(client.query).not.toHaveBeenCalled();
+      });
+
+      it('should reject unknown modes', async () => {
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'explain_neo4j_cypher',
+          arguments: { query: 'MATCH (n) RETURN n', mode: 'ANALYZE' },
+        }));
+
+        const result = await routeRequest(request, baseContext);
+
+        expect(result.type).toBe('error');
+      });
+    });
+
+    describe('write_neo4j_cypher', () => {
+      it('should return error when read-only', async () => {
+        const readOnlyContext = { ...baseContext, readOnly: true };
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'write_neo4j_cypher',
+          arguments: { query: 'CREATE (n:Test) RETURN n' },
+        }));
+
+        const result = await routeRequest(request, readOnlyContext);
+
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const response = result.result as { content: Array<{ text: string }>, isError?: boolean };
+          expect(response.isError).toBe(true);
+          expect(response.content[0].text).toContain('Write operations disabled');
+        }
+      });
+
+      it('should return structured counters from protocol 2025-06-18', async () => {
+        const client = {
+          query: vi.fn().mockResolvedValue({
+            data: { fields: [], values: [] },
+            counters: { nodesCreated: 1, propertiesSet: 2, containsUpdates: true },
+          }),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'write_neo4j_cypher',
+          arguments: { query: 'CREATE (n:Test {a: 1, b: 2})' },
+        }));
+
+        const result = await routeRequest(request, {
+          ...baseContext,
+          neo4jClient: client,
+          protocolVersion: '2025-06-18',
+        });
+
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const response = result.result as { structuredContent?: Record<string, unknown> };
+          expect(response.structuredContent?.success).toBe(true);
+          expect(response.structuredContent?.counters).toEqual({
+            nodesCreated: 1,
+            propertiesSet: 2,
+            containsUpdates: true,
+          });
+        }
+      });
+
+      it('should roll back dry runs and say nothing was persisted', async () => {
+        const client = {
+          query: vi.fn(),
+          runTransaction: vi.fn().mockResolvedValue([{
+            data: { fields: ['name'], values: [['Alice'], ['Bob'], ['Carol']] },
+            counters: { propertiesSet: 3, containsUpdates: true },
+          }]),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'write_neo4j_cypher',
+          arguments: {
+            query: 'MATCH (p:Person) WHERE p.inactive SET p.archived = true RETURN p.name AS name',
+            dry_run: true,
+            sample_size: 2,
+          },
+        }));
+
+        const result = await routeRequest(request, {
+          ...baseContext,
+          neo4jClient: client,
+          protocolVersion: '2025-06-18',
+        });
+
+        expect(client.query).not.toHaveBeenCalled();
+        expect(client.runTransaction).toHaveBeenCalledWith(
+          [expect.objectContaining({ statement: 'MATCH (p:Person) WHERE p.inactive SET p.archived = true RETURN p.name AS name' })],
+          expect.objectContaining({ rollback: true, includeCounters: true })
+        );
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const response = result.result as { content: Array<{ text: string }>; structuredContent: Record<string, unknown> };
+          expect(response.content[0].text).toContain('Nothing was persisted');
+          expect(response.structuredContent).toMatchObject({
+            success: true,
+            dryRun: true,
+            persisted: false,
+            summary: '3 property(ies) set',
+            sample: { columns: ['name'], rowCount: 3, rows: [{ name: 'Alice' }, { name: 'Bob' }], truncated: true },
+          });
+        }
+      });
+
+      it('should leave the sample out unless asked for', async () => {
+        const client = {
+          runTransaction: vi.fn().mockResolvedValue([{
+            data: { fields: ['n'], values: [[{}]] },
+            counters: { nodesCreated: 1 },
+          }]),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'write_neo4j_cypher',
+          arguments: { query: 'MERGE (n:Tag {name: "x"}) RETURN n', dry_run: true },
+        }));
+
+        const result = await routeRequest(request, { ...baseContext, neo4jClient: client });
+
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const response = result.result as { content: Array<{ text: string }> };
+          const output = JSON.parse(response.content[0].text);
+          expect(output.persisted).toBe(false);
+          expect(output).not.toHaveProperty('sample');
+        }
+      });
+
+      it('should reject invalid typed parameters as a validation error', async () => {
+        const client = createNeo4jClient({
+          uri: 'neo4j+s://test.databases.neo4j.io',
+          username: 'neo4j',
+          password: 'password123',
+          database: 'neo4j',
+        });
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'write_neo4j_cypher',
+          arguments: {
+            query: 'CREATE (e:Event {on: $on})',
+            params: { on: { $type: 'Date', value: 'next tuesday' } },
+          },
+        }));
+
+        const result = await routeRequest(request, { ...baseContext, neo4jClient: client });
+
+        expect(result.type).toBe('error');
+        if (result.type === 'error') {
+          expect(result.error.code).toBe(-32005);
+          expect(result.error.message).toContain('Parameter on: Date value must be an ISO 8601 string');
+        }
+      });
+
+      it('should reject a sample without dry_run', async () => {
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'write_neo4j_cypher',
+          arguments: { query: 'CREATE (n:Test)', sample_size: 5 },
+        }));
+
+        const result = await routeRequest(request, baseContext);
+
+        expect(result.type).toBe('error');
+      });
+
+      it('should store the bookmarks of a write on the session', async () => {
+        const session = await createMcpSession(mockEnv.SESSIONS, { userId: 'user-1' });
+        const client = {
+          query: vi.fn().mockResolvedValue({ counters: { nodesCreated: 1 } }),
+          getBookmarks: vi.fn().mockReturnValue(['FB:bookmark-1']),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'write_neo4j_cypher',
+          arguments: { query: 'CREATE (n:Test)' },
+        }));
+
+        await routeRequest(request, { ...baseContext, neo4jClient: client, sessionId: session.id });
+
+        expect((await getMcpSession(mockEnv.SESSIONS, session.id))?.bookmarks).toEqual(['FB:bookmark-1']);
+      });
+
+      it('should not store bookmarks for dry runs', async () => {
+        const session = await createMcpSession(mockEnv.SESSIONS, { userId: 'user-1' });
+        const client = {
+          runTransaction: vi.fn().mockResolvedValue([{ counters: { nodesCreated: 1 } }]),
+          getBookmarks: vi.fn().mockReturnValue(['FB:bookmark-1']),
+        } as unknown as Neo4jClient;
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'write_neo4j_cypher',
+          arguments: { query: 'CREATE (n:Test)', dry_run: true },
+        }));
+
+        await routeRequest(request, { ...baseContext, neo4jClient: client, sessionId: session.id });
+
+        expect((await getMcpSession(mockEnv.SESSIONS, session.id))?.bookmarks).toBeUndefined();
+      });
+
+      it('should return error when no neo4j client', async () => {
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'write_neo4j_cypher',
+          arguments: { query: 'CREATE (n:Test) RETURN n' },
+        }));
+
+        const result = await routeRequest(request, baseContext);
+
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const response = result.result as { content: Array<{ text: string }>, isError?: boolean };
+          expect(response.isError).toBe(true);
+          expect(response.content[0].text).toContain('No Neo4j connection');
+        }
+      });
+    });
+
+    describe('write_neo4j_cypher_batch', () => {
+      const callBatch = (statements: unknown) =>
+        parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'write_neo4j_cypher_batch',
+          arguments: { statements },
+        }));
+
+      it('should return per-statement and total counters', async () => {
+        const client = {
+          runTransaction: vi.fn().mockResolvedValue([
+            { counters: { nodesCreated: 2, propertiesSet: 2, containsUpdates: true } },
+            { counters: { relationshipsCreated: 1, containsUpdates: true } },
+          ]),
+        } as unknown as Neo4jClient;
+
+        const result = await routeRequest(callBatch([
+          { query: 'CREATE (:Person {name: $a}), (:Person {name: $b})', params: { a: 'Alice', b: 'Bob' } },
+          { query: 'MATCH (a:Person {name: "Alice"}), (b:Person {name: "Bob"}) CREATE (a)-[:KNOWS]->(b)' },
+        ]), { ...baseContext, neo4jClient: client, protocolVersion: '2025-06-18' });
+
+        expect(client.runTransaction).toHaveBeenCalledWith(
+          [
+            { statement: 'CREATE (:Person {name: $a}), (:Person {name: $b})', parameters: { a: 'Alice', b: 'Bob' } },
+            { statement: 'MATCH (a:Person {name: "Alice"}), (b:Person {name: "Bob"}) CREATE (a)-[:KNOWS]->(b)', parameters: undefined },
+          ],
+          expect.objectContaining({ includeCounters: true })
+        );
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const response = result.result as { structuredContent: Record<string, unknown> };
+          expect(response.structuredContent).toEqual({
+            success: true,
+            summary: '2 node(s) created, 1 relationship(s) created, 2 property(ies) set',
+            counters: { nodesCreated: 2, propertiesSet: 2, relationshipsCreated: 1, containsUpdates: true },
+            statements: [
+              { summary: '2 node(s) created, 2 property(ies) set', counters: { nodesCreated: 2, propertiesSet: 2, containsUpdates: true } },
+              { summary: '1 relationship(s) created', counters: { relationshipsCreated: 1, containsUpdates: true } },
+            ],
+          });
+        }
+      });
+
+      it('should report a rolled back transaction as a tool error', async () => {
+        const client = {
+          runTransaction: vi.fn().mockRejectedValue(
+            new Neo4jQueryError('Statement 2 of 2 failed: Node already exists', 'Neo.ClientError.Schema.ConstraintValidationFailed')
+          ),
+        } as unknown as Neo4jClient;
+
+        const result = await routeRequest(callBatch([
+          { query: 'CREATE (:Person {name: "Alice"})' },
+          { query: 'CREATE (:Person {name: "Alice"})' },
+        ]), { ...baseContext, neo4jClient: client });
+
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const response = result.result as { content: Array<{ text: string }>, isError?: boolean };
+          expect(response.isError).toBe(true);
+          expect(JSON.parse(response.content[0].text)).toEqual({
+            error: 'Transaction rolled back',
+            message: 'Statement 2 of 2 failed: Node already exists',
+          });
+        }
+      });
+
+      it('should validate every statement before running any', async () => {
+        const client = { runTransaction: vi.fn() } as unknown as Neo4jClient;
+        const context = { ...baseContext, neo4jClient: client };
+
+        const empty = await routeRequest(callBatch([]), context);
+        const missingQuery = await routeRequest(callBatch([{ query: 'CREATE (n)' }, { params: {} }]), context);
+        const unbalanced = await routeRequest(callBatch([{ query: 'CREATE (n)' }, { query: 'CREATE (n' }]), context);
+
+        expect(empty.type).toBe('error');
+        expect(missingQuery.type).toBe('error');
+        if (missingQuery.type === 'error') {
+          expect(missingQuery.error.message).toContain('statements[1].query');
+        }
+        expect(unbalanced.type).toBe('error');
+        if (unbalanced.type === 'error') {
+          expect(unbalanced.error.message).toContain('statements[1]:');
+        }
+        expect(client.runTransaction).not.toHaveBeenCalled();
+      });
+
+      it('should return error when read-only', async () => {
+        const result = await routeRequest(callBatch([{ query: 'CREATE (n:Test)' }]), { ...baseContext, readOnly: true });
+
+        expect(result.type).toBe('response');
+        if (result.type === 'response') {
+          const response = result.result as { content: Array<{ text: string }>, isError?: boolean };
+          expect(response.isError).toBe(true);
+          expect(response.content[0].text).toContain('Write operations disabled');
+        }
+      });
+    });
+
+    describe('unknown tool', () => {
+      it('should return error for unknown tool', async () => {
+        const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+          name: 'unknown_tool',
+          arguments: {},
+        }));
+
+        const result = await routeRequest(request, baseContext);
+
+        expect(result.type).toBe('error');
+      });
+    });
+  });
+
+  describe('resources', () => {
+    const schema: ProcessedSchema = {
+      labels: [
+        {
+          name: 'Person',
+          properties: [{ name: 'name', type: 'String' }],
+          outgoingRelationships: [{ type: 'KNOWS', targetLabel: 'Person' }],
+          incomingRelationships: [],
+        },
+      ],
+      relationshipTypes: [{ name: 'KNOWS', properties: [], startLabels: [], endLabels: [] }],
+      summary: 'Database Schema Summary:',
+    };
+
+    let connectedContext: HandlerContext;
+
+    beforeEach(async () => {
+      connectedContext = {
+        ...baseContext,
+        neo4jClient: {} as Neo4jClient,
+        connectionId: 'conn_test',
+      };
+      await cacheSchema(mockEnv.SESSIONS, 'conn_test', schema);
+    });
+
+    it('should advertise the resources capability', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('initialize', {}));
+
+      const result = await routeRequest(request, baseContext);
+
+      expect(result.type).toBe('response');
+      if (result.type === 'response') {
+        const response = result.result as { capabilities: Record<string, unknown> };
+        expect(response.capabilities.resources).toEqual({ subscribe: true, listChanged: false });
+      }
+    });
+
+    it('should list resource templates', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('resources/templates/list', {}));
+
+      const result = await routeRequest(request, baseContext);
+
+      expect(result.type).toBe('response');
+      if (result.type === 'response') {
+        const response = result.result as { resourceTemplates: Array<{ uriTemplate: string }> };
+        expect(response.resourceTemplates.map(t => t.uriTemplate)).toEqual([
+          'neo4j://schema/label/{label}',
+          'neo4j://schema/relationship/{type}',
+        ]);
+      }
+    });
+
+    it('should list no resources without a neo4j client', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('resources/list', {}));
+
+      const result = await routeRequest(request, baseContext);
+
+      expect(result.type).toBe('response');
+      if (result.type === 'response') {
+        expect(result.result).toEqual({ resources: [] });
+      }
+    });
+
+    it('should list schema resources from the cached schema', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('resources/list', {}));
+
+      const result = await routeRequest(request, connectedContext);
+
+      expect(result.type).toBe('response');
+      if (result.type === 'response') {
+        const response = result.result as { resources: Array<{ uri: string }> };
+        expect(response.resources.map(r => r.uri)).toEqual([
+          'neo4j://schema',
+          'neo4j://schema/label/Person',
+          'neo4j://schema/relationship/KNOWS',
+        ]);
+      }
+    });
+
+    it('should read the full schema', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('resources/read', { uri: 'neo4j://schema' }));
+
+      const result = await routeRequest(request, connectedContext);
+
+      expect(result.type).toBe('response');
+      if (result.type === 'response') {
+        const response = result.result as { contents: Array<{ uri: string; text: string }> };
+        expect(response.contents[0].uri).toBe('neo4j://schema');
+        expect(response.contents[0].text).toContain('(Person)-[:KNOWS]->(Person)');
+      }
+    });
+
+    it('should read a single label', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('resources/read', {
+        uri: 'neo4j://schema/label/Person',
+      }));
+
+      const result = await routeRequest(request, connectedContext);
+
+      expect(result.type).toBe('response');
+      if (result.type === 'response') {
+        const response = result.result as { contents: Array<{ text: string }> };
+        expect(JSON.parse(response.contents[0].text).name).toBe('Person');
+      }
+    });
+
+    it('should return error for unknown labels', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('resources/read', {
+        uri: 'neo4j://schema/label/Missing',
+      }));
+
+      const result = await routeRequest(request, connectedContext);
+
+      expect(result.type).toBe('error');
+    });
+
+    it('should subscribe and unsubscribe', async () => {
+      const subscribe = parseJsonRpcRequest(createMcpRequest('resources/subscribe', { uri: 'neo4j://schema' }));
+      const unsubscribe = parseJsonRpcRequest(createMcpRequest('resources/unsubscribe', { uri: 'neo4j://schema' }));
+
+      expect((await routeRequest(subscribe, connectedContext)).type).toBe('response');
+      expect(await mockEnv.SESSIONS.get('subs:conn_test')).toBe('["neo4j://schema"]');
+
+      expect((await routeRequest(unsubscribe, connectedContext)).type).toBe('response');
+      expect(await mockEnv.SESSIONS.get('subs:conn_test')).toBeNull();
+    });
+
+    it('should notify every subscribed session when another session refreshes the schema', async () => {
+      const sessionA = await createMcpSession(mockEnv.SESSIONS, { connectionId: 'conn_test' });
+      const sessionB = await createMcpSession(mockEnv.SESSIONS, { connectionId: 'conn_test' });
+      const subscribe = parseJsonRpcRequest(createMcpRequest('resources/subscribe', { uri: 'neo4j://schema' }));
+      expect((await routeRequest(subscribe, { ...connectedContext, sessionId: sessionA.id })).type).toBe('response');
+
+      await mockEnv.SESSIONS.delete('schema:conn_test');
+      const client = {
+        query: vi.fn().mockResolvedValue({ data: { fields: ['value'], values: [[{}]] } }),
+      } as unknown as Neo4jClient;
+      const sendNotification = vi.fn();
+      const refresh = parseJsonRpcRequest(createMcpRequest('tools/call', { name: 'get_neo4j_schema', arguments: {} }));
+
+      const result = await routeRequest(refresh, {
+        ...connectedContext,
+        neo4jClient: client,
+        sessionId: sessionB.id,
+        sendNotification,
+      });
+
+      expect(result.type).toBe('response');
+      expect(sendNotification).not.toHaveBeenCalledWith('notifications/resources/updated', expect.anything());
+      expect(await drainSessionMessages(mockEnv.SESSIONS, sessionA.id)).toEqual([
+        { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'neo4j://schema' } },
+      ]);
+      expect(await drainSessionMessages(mockEnv.SESSIONS, sessionB.id)).toEqual([]);
+    });
+
+    it('should reject subscriptions without a connection', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('resources/subscribe', { uri: 'neo4j://schema' }));
+
+      const result = await routeRequest(request, baseContext);
+
+      expect(result.type).toBe('error');
+    });
+  });
+
+  describe('prompts', () => {
+    it('should list prompt templates', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('prompts/list', {}));
+
+      const result = await routeRequest(request, baseContext);
+
+      expect(result.type).toBe('response');
+      if (result.type === 'response') {
+        const response = result.result as { prompts: Array<{ name: string }> };
+        expect(response.prompts.map(p => p.name)).toEqual([
+          'explore_label',
+          'find_shortest_path',
+          'explain_query',
+          'question_to_cypher',
+        ]);
+      }
+    });
+
+    it('should render a prompt with the cached schema', async () => {
+      await cacheSchema(mockEnv.SESSIONS, 'conn_test', {
+        labels: [{ name: 'Person', properties: [], outgoingRelationships: [], incomingRelationships: [] }],
+        relationshipTypes: [],
+        summary: 'Database Schema Summary:',
+      });
+      const request = parseJsonRpcRequest(createMcpRequest('prompts/get', {
+        name: 'explore_label',
+        arguments: { label: 'Person' },
+      }));
+
+      const result = await routeRequest(request, {
+        ...baseContext,
+        neo4jClient: {} as Neo4jClient,
+        connectionId: 'conn_test',
+      });
+
+      expect(result.type).toBe('response');
+      if (result.type === 'response') {
+        const response = result.result as { messages: Array<{ role: string; content: { text: string } }> };
+        expect(response.messages[0].role).toBe('user');
+        expect(response.messages[0].content.text).toContain('labelled `Person`');
+        expect(response.messages[0].content.text).toContain('### Person');
+      }
+    });
+
+    it('should render without a schema when not connected', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('prompts/get', {
+        name: 'question_to_cypher',
+        arguments: { question: 'Who knows Alice?' },
+      }));
+
+      const result = await routeRequest(request, baseContext);
+
+      expect(result.type).toBe('response');
+      if (result.type === 'response') {
+        const response = result.result as { messages: Array<{ content: { text: string } }> };
+        expect(response.messages[0].content.text).toContain('Call get_neo4j_schema first');
+      }
+    });
+
+    it('should require prompt arguments', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('prompts/get', { name: 'explain_query' }));
+
+      const result = await routeRequest(request, baseContext);
+
+      expect(result.type).toBe('error');
+    });
+
+    it('should return error for unknown prompts', async () => {
+      const request = parseJsonRpcRequest(createMcpRequest('prompts/get', { name: 'unknown_prompt' }));
+
+      const result = await routeRequest(request, baseContext);
+
+      expect(result.type).toBe('error');
+    });
+  });
+
+  describe('batch', () => {
+    /**
+     * Mock client that records how many queries run at the same time
+     */
+    function createConcurrencyTrackingClient() {
+      const tracker = { active: 0, maxActive: 0, calls: [] as string[] };
+      const client = {
+        query: vi.fn(async (cypher: string) => {
+          tracker.active++;
+          tracker.maxActive = Math.max(tracker.maxActive, tracker.active);
+          tracker.calls.push(cypher);
+          await new Promise(resolve => setTimeout(resolve, 10));
+          tracker.active--;
+          return { data: { fields: ['n'], values: [[1]] }, counters: { nodesCreated: 1 } };
+        }),
+      };
+      return { tracker, client: client as unknown as Neo4jClient };
+    }
+
+    const readCall = (id: number, query = 'MATCH (n) RETURN n') =>
+      createMcpRequest('tools/call', { name: 'read_neo4j_cypher', arguments: { query } }, id);
+
+    it('should return responses in request order without notifications', async () => {
+      const entries = parseJsonRpcBatch([
+        createMcpRequest('tools/list', {}, 'a'),
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        createMcpRequest('ping', {}, 'b'),
+        createMcpRequest('unknown/method', {}, 'c'),
+      ]);
+
+      const responses = await dispatchBatch(entries, baseContext);
+
+      expect(responses.map(r => r.id)).toEqual(['a', 'b', 'c']);
+      expect(responses[0].result).toHaveProperty('tools');
+      expect(responses[1].result).toEqual({});
+      expect(responses[2].error?.code).toBe(-32601);
+    });
+
+    it('should include errors for invalid entries', async () => {
+      const entries = parseJsonRpcBatch([
+        createMcpRequest('ping', {}, 1),
+        { jsonrpc: '2.0', id: 2 },
+      ]);
+
+      const responses = await dispatchBatch(entries, baseContext);
+
+      expect(responses).toHaveLength(2);
+      expect(responses[1].id).toBe(2);
+      expect(responses[1].error?.code).toBe(-32600);
+    });
+
+    it('should leave cancelled requests out of the responses', async () => {
+      const client = {
+        query: vi.fn(async (cypher: string) => {
+          if (cypher.includes('slow')) {
+            throw new RequestCancelledError();
+          }
+          return { data: { fields: ['n'], values: [[1]] } };
+        }),
+      } as unknown as Neo4jClient;
+      const entries = parseJsonRpcBatch([readCall(1), readCall(2, 'MATCH (slow) RETURN slow')]);
+
+      const responses = await dispatchBatch(entries, { ...baseContext, neo4jClient: client });
+
+      expect(responses.map(r => r.id)).toEqual([1]);
+    });
+
+    it('should run independent reads concurrently', async () => {
+      const { tracker, client } = createConcurrencyTrackingClient();
+      const entries = parseJsonRpcBatch([readCall(1), readCall(2), readCall(3)]);
+
+      const responses = await dispatchBatch(entries, { ...baseContext, neo4jClient: client });
+
+      expect(responses).toHaveLength(3);
+      expect(tracker.maxActive).toBe(3);
+    });
+
+    it('should treat writes on a read-only connection as reads', async () => {
+      const { tracker, client } = createConcurrencyTrackingClient();
+      const entries = parseJsonRpcBatch([
+        readCall(1),
+        createMcpRequest('tools/call', {
+          name: 'write_neo4j_cypher',
+          arguments: { query: 'CREATE (n:Test)' },
+        }, 2),
+        readCall(3),
+      ]);
+
+      const responses = await dispatchBatch(entries, { ...baseContext, neo4jClient: client, readOnly: true });
+
+      expect(responses.map(r => r.id)).toEqual([1, 2, 3]);
+      expect(tracker.maxActive).toBe(2);
+      expect(tracker.calls).toHaveLength(2);
+    });
+
+    it('should not run writes concurrently with other calls', async () => {
+      const { tracker, client } = createConcurrencyTrackingClient();
+      const entries = parseJsonRpcBatch([
+        readCall(1, 'MATCH (a) RETURN a LIMIT 10'),
+        createMcpRequest('tools/call', {
+          name: 'write_neo4j_cypher',
+          arguments: { query: 'CREATE (n:Test)' },
+        }, 2),
+        readCall(3, 'MATCH (b) RETURN b LIMIT 10'),
+      ]);
+
+      const responses = await dispatchBatch(entries, { ...baseContext, neo4jClient: client });
+
+      expect(responses.map(r => r.id)).toEqual([1, 2, 3]);
+      expect(tracker.maxActive).toBe(1);
+      expect(tracker.calls).toEqual(['MATCH (a) RETURN a LIMIT 10', 'CREATE (n:Test)', 'MATCH (b) RETURN b LIMIT 10']);
+    });
+  });
+
+  describe('cancellation and progress', () => {
+    it('should abort a running query on notifications/cancelled', async () => {
+      const client = {
+        query: vi.fn((_cypher: string, _params: unknown, options: { signal?: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            options.signal?.addEventListener('abort', () => reject(new RequestCancelledError()));
+          })
+        ),
+      } as unknown as Neo4jClient;
+      const context = { ...baseContext, neo4jClient: client, sessionId: 'session-1' };
+
+      const pending = routeRequest(parseJsonRpcRequest(createMcpRequest('tools/call', {
+        name: 'read_neo4j_cypher',
+        arguments: { query: 'MATCH (n) RETURN n' },
+      }, 'slow-1')), context);
+
+      const cancel = await routeRequest(parseJsonRpcRequest({
+        jsonrpc: '2.0',
+        method: 'notifications/cancelled',
+        params: { requestId: 'slow-1', reason: 'User pressed stop' },
+      }), context);
+
+      expect(cancel.type).toBe('notification');
+      const result = await pending;
+      expect(result.type).toBe('error');
+      if (result.type === 'error') {
+        expect(result.error).toBeInstanceOf(RequestCancelledError);
+      }
+    });
+
+    it('should ignore cancellation of unknown requests', async () => {
+      const result = await routeRequest(parseJsonRpcRequest({
+        jsonrpc: '2.0',
+        method: 'notifications/cancelled',
+        params: { requestId: 'never-sent' },
+      }), { ...baseContext, sessionId: 'session-1' });
+
+      expect(result.type).toBe('notification');
+    });
+
+    it('should report progress during manual schema extraction', async () => {
+      const client = {
+        query: vi.fn(async (cypher: string) => {
+          if (cypher.includes('apoc.meta.schema')) {
+            throw new Error('There is no procedure with the name `apoc.meta.schema`');
+          }
+          if (cypher.includes('db.labels()')) {
+            return { data: { fields: ['label'], values: [['Person'], ['Movie']] } };
+          }
+          if (cypher.includes('db.relationshipTypes()')) {
+            return { data: { fields: ['relationshipType'], values: [['ACTED_IN']] } };
+          }
+          return { data: { fields: [], values: [] } };
+        }),
+      } as unknown as Neo4jClient;
+      const sendNotification = vi.fn();
+
+      const result = await routeRequest(parseJsonRpcRequest(createMcpRequest('tools/call', {
+        name: 'get_neo4j_schema',
+        arguments: {},
+        _meta: { progressToken: 'schema-progress' },
+      })), { ...baseContext, neo4jClient: client, sendNotification });
+
+      expect(result.type).toBe('response');
+      const progress = sendNotification.mock.calls
+        .filter(([method]) => method === 'notifications/progress')
+        .map(([, params]) => params as { progressToken: string; progress: number; total: number });
+      expect(progress.map(p => p.progress)).toEqual([1, 2, 3, 4]);
+      expect(progress.every(p => p.progressToken === 'schema-progress' && p.total === 4)).toBe(true);
+      expect(sendNotification).toHaveBeenCalledWith('notifications/message', expect.objectContaining({
+        level: 'warning',
+        data: expect.objectContaining({ message: 'APOC schema extraction failed, using fallback' }),
+      }));
+    });
+  });
+
+  describe('logging', () => {
+    it('should advertise the logging capability', async () => {
+      const result = await routeRequest(parseJsonRpcRequest(createMcpRequest('initialize', {
+        protocolVersion: '2025-06-18',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '1.0.0' },
+      })), baseContext);
+
+      expect(result.type).toBe('response');
+      if (result.type === 'response') {
+        expect((result.result as { capabilities: Record<string, unknown> }).capabilities.logging).toEqual({});
+      }
+    });
+
+    it('should store the level on the MCP session', async () => {
+      const session = await createMcpSession(mockEnv.SESSIONS);
+      const request = parseJsonRpcRequest(createMcpRequest('logging/setLevel', { level: 'error' }));
+
+      const result = await routeRequest(request, { ...baseContext, sessionId: session.id });
+
+      expect(result.type).toBe('response');
+      expect((await getMcpSession(mockEnv.SESSIONS, session.id))?.logLevel).toBe('error');
+    });
+
+    it('should reject unknown levels', async () => {
+      const session = await createMcpSession(mockEnv.SESSIONS);
+      const request = parseJsonRpcRequest(createMcpRequest('logging/setLevel', { level: 'verbose' }));
+
+      const result = await routeRequest(request, { ...baseContext, sessionId: session.id });
+
+      expect(result.type).toBe('error');
+    });
+
+    it('should forward query warnings to the client', async () => {
+      const client = {
+        query: vi.fn().mockResolvedValue({ data: { fields: ['n'], values: [] } }),
+      } as unknown as Neo4jClient;
+      const sendNotification = vi.fn();
+      const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+        name: 'read_neo4j_cypher',
+        arguments: { query: 'MATCH (n) RETURN n LIMIT 50000' },
+      }));
+
+      await routeRequest(request, { ...baseContext, neo4jClient: client, sendNotification });
+
+      expect(sendNotification).toHaveBeenCalledWith('notifications/message', expect.objectContaining({
+        level: 'warning',
+        data: expect.objectContaining({ message: 'Large LIMIT value may cause performance issues' }),
+      }));
+    });
+
+    it('should tell the client when results are truncated', async () => {
+      const rows = Array.from({ length: 200 }, (_, i) => [`node-${i}`, 'x'.repeat(50)]);
+      const client = {
+        query: vi.fn().mockResolvedValue({ data: { fields: ['id', 'payload'], values: rows } }),
+      } as unknown as Neo4jClient;
+      const sendNotification = vi.fn();
+      const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+        name: 'read_neo4j_cypher',
+        arguments: { query: 'MATCH (n) WHERE n.id IS NOT NULL RETURN n.id AS id, n.payload AS payload' },
+      }));
+
+      await routeRequest(request, { ...baseContext, tokenLimit: 500, neo4jClient: client, sendNotification });
+
+      expect(sendNotification).toHaveBeenCalledWith('notifications/message', expect.objectContaining({
+        level: 'notice',
+        data: expect.objectContaining({ message: 'Query results truncated to fit the token limit', tokenLimit: 500 }),
+      }));
+    });
+  });
+
+  describe('completion', () => {
+    const complete = (params: Record<string, unknown>) =>
+      parseJsonRpcRequest(createMcpRequest('completion/complete', params));
+
+    beforeEach(() => {
+      baseContext = { ...baseContext, protocolVersion: '2025-03-26' };
+    });
+
+    const completionSchema: ProcessedSchema = {
+      labels: [
+        {
+          name: 'Person',
+          properties: [{ name: 'name', type: 'STRING' }, { name: 'nickname', type: 'STRING' }],
+          outgoingRelationships: [],
+          incomingRelationships: [],
+        },
+        {
+          name: 'Pet',
+          properties: [{ name: 'species', type: 'STRING' }],
+          outgoingRelationships: [],
+          incomingRelationships: [],
+        },
+        { name: 'Company', properties: [], outgoingRelationships: [], incomingRelationships: [] },
+      ],
+      relationshipTypes: [
+        { name: 'WORKS_AT', properties: [{ name: 'since', type: 'INTEGER' }], startLabels: [], endLabels: [] },
+        { name: 'KNOWS', properties: [], startLabels: [], endLabels: [] },
+      ],
+      summary: 'Database Schema Summary:',
+    };
+
+    it('should advertise completions from 2025-03-26', async () => {
+      const initialize = (protocolVersion: string) => routeRequest(
+        parseJsonRpcRequest(createMcpRequest('initialize', {
+          protocolVersion,
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' },
+        })),
+        { ...baseContext }
+      );
+
+      const [legacy, current] = await Promise.all([initialize('2024-11-05'), initialize('2025-03-26')]);
+
+      expect(legacy.type === 'response' && legacy.result).not.toHaveProperty('capabilities.completions');
+      expect(current.type === 'response' && current.result).toHaveProperty('capabilities.completions', {});
+    });
+
+    it('should complete labels from the cached schema by prefix', async () => {
+      await cacheSchema(mockEnv.SESSIONS, 'conn_test', completionSchema);
+      const client = { query: vi.fn() } as unknown as Neo4jClient;
+
+      const result = await routeRequest(complete({
+        ref: { type: 'ref/prompt', name: 'explore_label' },
+        argument: { name: 'label', value: 'pe' },
+      }), { ...baseContext, neo4jClient: client, connectionId: 'conn_test' });
+
+      expect(result.type).toBe('response');
+      if (result.type === 'response') {
+        expect(result.result).toEqual({ completion: { values: ['Person', 'Pet'], total: 2, hasMore: false } });
+      }
+      expect(client.query).not.toHaveBeenCalled();
+    });
+
+    it('should complete relationship types for resource templates', async () => {
+      await cacheSchema(mockEnv.SESSIONS, 'conn_test', completionSchema);
+
+      const result = await routeRequest(complete({
+        ref: { type: 'ref/resource', uri: 'neo4j://schema/relationship/{type}' },
+        argument: { name: 'type', value: 'W' },
+      }), { ...baseContext, connectionId: 'conn_test' });
+
+      expect(result.type === 'response' && result.result).toEqual({
+        completion: { values: ['WORKS_AT'], total: 1, hasMore: false },
+      });
+    });
+
+    it('should scope property keys to the chosen label', async () => {
+      await cacheSchema(mockEnv.SESSIONS, 'conn_test', completionSchema);
+
+      const result = await routeRequest(complete({
+        ref: { type: 'ref/prompt', name: 'explore_label' },
+        argument: { name: 'property', value: '' },
+        context: { arguments: { label: 'Person' } },
+      }), { ...baseContext, connectionId: 'conn_test' });
+
+      expect(result.type === 'response' && result.result).toEqual({
+        completion: { values: ['name', 'nickname'], total: 2, hasMore: false },
+      });
+    });
+
+    it('should not suggest names the query policy denies', async () => {
+      await cacheSchema(mockEnv.SESSIONS, 'conn_test', completionSchema);
+      const context = {
+        ...baseContext,
+        connectionId: 'conn_test',
+        queryPolicy: { labels: { deny: ['Pet'] }, relationshipTypes: { allow: ['KNOWS'] } },
+      };
+
+      const [labels, types] = await Promise.all([
+        routeRequest(complete({
+          ref: { type: 'ref/prompt', name: 'explore_label' },
+          argument: { name: 'label', value: 'pe' },
+        }), context),
+        routeRequest(complete({
+          ref: { type: 'ref/resource', uri: 'neo4j://schema/relationship/{type}' },
+          argument: { name: 'type', value: '' },
+        }), context),
+      ]);
+
+      expect(labels.type === 'response' && labels.result).toEqual({
+        completion: { values: ['Person'], total: 1, hasMore: false },
+      });
+      expect(types.type === 'response' && types.result).toEqual({
+        completion: { values: ['KNOWS'], total: 1, hasMore: false },
+      });
+    });
+
+    it('should not suggest property keys a redaction rule drops', async () => {
+      await cacheSchema(mockEnv.SESSIONS, 'conn_test', completionSchema);
+
+      const result = await routeRequest(complete({
+        ref: { type: 'ref/prompt', name: 'explore_label' },
+        argument: { name: 'property', value: '' },
+        context: { arguments: { label: 'Person' } },
+      }), {
+        ...baseContext,
+        connectionId: 'conn_test',
+        redactionRules: [{ properties: ['nickname'], action: 'drop' as const }],
+      });
+
+      expect(result.type === 'response' && result.result).toEqual({
+        completion: { values: ['name'], total: 1, hasMore: false },
+      });
+    });
+
+    it('should filter names from Neo4j when no schema is cached', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({ data: { fields: ['label'], values: [['Person'], ['Pet']] } })
+        .mockResolvedValueOnce({ data: { fields: ['propertyKey'], values: [['name'], ['ssn']] } });
+      const context = {
+        ...baseContext,
+        neo4jClient: { query } as unknown as Neo4jClient,
+        queryPolicy: { labels: { deny: ['Pet'] } },
+        redactionRules: [{ labels: ['Person'], properties: ['ssn'], action: 'drop' as const }],
+      };
+
+      const labels = await routeRequest(complete({
+        ref: { type: 'ref/prompt', name: 'explore_label' },
+        argument: { name: 'label', value: '' },
+      }), context);
+      const properties = await routeRequest(complete({
+        ref: { type: 'ref/prompt', name: 'explore_label' },
+        argument: { name: 'property', value: '' },
+      }), context);
+
+      expect(labels.type === 'response' && labels.result).toEqual({
+        completion: { values: ['Person'], total: 1, hasMore: false },
+      });
+      expect(properties.type === 'response' && properties.result).toEqual({
+        completion: { values: ['name'], total: 1, hasMore: false },
+      });
+    });
+
+    it('should fall back to db.labels() when no schema is cached', async () => {
+      const client = {
+        query: vi.fn().mockResolvedValue({ data: { fields: ['label'], values: [['Person'], ['Company']] } }),
+      } as unknown as Neo4jClient;
+
+      const result = await routeRequest(complete({
+        ref: { type: 'ref/resource', uri: 'neo4j://schema/label/{label}' },
+        argument: { name: 'label', value: 'C' },
+      }), { ...baseContext, neo4jClient: client, connectionId: 'conn_test' });
+
+      expect(client.query).toHaveBeenCalledWith('CALL db.labels()', {}, expect.any(Object));
+      expect(result.type === 'response' && result.result).toEqual({
+        completion: { values: ['Company'], total: 1, hasMore: false },
+      });
+    });
+
+    it('should read typed JSON rows from db.labels()', async () => {
+      const { client } = createTypedClient({
+        data: { fields: ['label'], values: [[{ $type: 'String', _value: 'Person' }], [{ $type: 'String', _value: 'Company' }]] },
+      });
+
+      const result = await routeRequest(complete({
+        ref: { type: 'ref/prompt', name: 'explore_label' },
+        argument: { name: 'label', value: '' },
+      }), { ...baseContext, neo4jClient: client });
+
+      expect(result.type === 'response' && result.result).toEqual({
+        completion: { values: ['Company', 'Person'], total: 2, hasMore: false },
+      });
+    });
+
+    it('should cap the number of values', async () => {
+      const labels = Array.from({ length: 150 }, (_, i) => [`Label${String(i).padStart(3, '0')}`]);
+      const client = {
+        query: vi.fn().mockResolvedValue({ data: { fields: ['label'], values: labels } }),
+      } as unknown as Neo4jClient;
+
+      const result = await routeRequest(complete({
+        ref: { type: 'ref/prompt', name: 'explore_label' },
+        argument: { name: 'label', value: 'Label' },
+      }), { ...baseContext, neo4jClient: client });
+
+      expect(result.type).toBe('response');
+      if (result.type === 'response') {
+        const { completion } = result.result as { completion: { values: string[]; total: number; hasMore: boolean } };
+        expect(completion.values).toHaveLength(100);
+        expect(completion.total).toBe(150);
+        expect(completion.hasMore).toBe(true);
+      }
+    });
+
+    it('should return no values for free-text arguments', async () => {
+      const result = await routeRequest(complete({
+        ref: { type: 'ref/prompt', name: 'question_to_cypher' },
+        argument: { name: 'question', value: 'Who' },
+      }), baseContext);
+
+      expect(result.type === 'response' && result.result).toEqual({
+        completion: { values: [], total: 0, hasMore: false },
+      });
+    });
+
+    it('should reject unknown prompts and older revisions', async () => {
+      const params = {
+        ref: { type: 'ref/prompt', name: 'unknown_prompt' },
+        argument: { name: 'label', value: '' },
+      };
+
+      const [unknown, legacy] = await Promise.all([
+        routeRequest(complete(params), baseContext),
+        routeRequest(complete({ ...params, ref: { type: 'ref/prompt', name: 'explore_label' } }), {
+          ...baseContext,
+          protocolVersion: '2024-11-05',
+        }),
+      ]);
+
+      expect(unknown.type).toBe('error');
+      expect(legacy.type).toBe('error');
+    });
   });
 
   describe('ping', () => {
@@ -5,6 +5,7 @@
  */
 
 import { vi } from 'vitest';
+import { CancellationChannel } from '../src/mcp/requests.js';
 
 // Mock crypto for Node.js environment
 if (typeof globalThis.crypto === 'undefined') {
@@ -33,8 +34,10 @@ export function createMockKV(): KVNamespace {
     delete: vi.fn(async (key: string) => {
       store.delete(key);
     }),
-    list: vi.fn(async () => ({
-      keys: Array.from(store.keys()).map(name => ({ name })),
+    list: vi.fn(async (options?: { prefix?: string }) => ({
+      keys: Array.from(store.keys())
+        .filter(name => !options?.prefix || name.startsWith(options.prefix))
+        .map(name => ({ name })),
       list_complete: true,
       cacheStatus: null,
     })),
@@ -93,16 +96,39 @@ export function createMockD1(): D1Database {
   } as unknown as D1Database;
 }
 
+// Mock Durable Object namespace, with one object per name
+export function createMockDurableObjectNamespace(
+  create: () => { fetch(request: Request): Promise<Response> }
+): DurableObjectNamespace {
+  const objects = new Map<string, { fetch(request: Request): Promise<Response> }>();
+
+  return {
+    idFromName: vi.fn((name: string) => name),
+    get: vi.fn((id: string) => ({
+      fetch: async (input: string, init?: RequestInit) => {
+        let object = objects.get(id);
+        if (!object) {
+          object = create();
+          objects.set(id, object);
+        }
+        return object.fetch(new Request(input, init));
+      },
+    })),
+  } as unknown as DurableObjectNamespace;
+}
+
 // Mock Env
 export function createMockEnv() {
   return {
     DB: createMockD1(),
     SESSIONS: createMockKV(),
+    CANCELLATIONS: createMockDurableObjectNamespace(() => new CancellationChannel()),
     ENVIRONMENT: 'test',
     ENCRYPTION_KEY: 'test-encryption-key-32-bytes-ok!',
     DEFAULT_READ_TIMEOUT: '30',
     DEFAULT_TOKEN_LIMIT: '10000',
     DEFAULT_SCHEMA_SAMPLE: '1000',
+    DEFAULT_MAX_ROWS: '1000',
     ALLOWED_ORIGINS: 'https://claude.ai',
   };
 }
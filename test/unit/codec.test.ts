@@ -0,0 +1,266 @@
+/**
+ * Tests for neo4j/codec.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { collectGraph, decodeValue, encodeParameters, parsePoint, isDecodedPoint } from '../../src/neo4j/codec.js';
+import { ValidationError } from '../../src/utils/errors.js';
+import type { Neo4jValue } from '../../src/neo4j/types.js';
+
+const typed = ($type: string, _value: unknown) => ({ $type, _value }) as Neo4jValue;
+
+describe('decodeValue', () => {
+  describe('typed JSON primitives', () => {
+    it.each([
+      ['Null', null, null],
+      ['Boolean', true, true],
+      ['String', 'Alice', 'Alice'],
+      ['Integer', '42', 42],
+      ['Integer', '9007199254740993', '9007199254740993'],
+      ['Float', '1.5', 1.5],
+      ['Float', 'NaN', 'NaN'],
+    ])('should decode %s %j', (type, value, expected) => {
+      expect(decodeValue(typed(type, value))).toEqual(expected);
+    });
+  });
+
+  describe('temporals', () => {
+    it.each([
+      ['Date', '2024-05-01'],
+      ['Time', '12:50:35.556+01:00'],
+      ['LocalTime', '12:50:35.556'],
+      ['DateTime', '2015-11-21T21:40:32.142Z'],
+      ['OffsetDateTime', '2015-11-21T21:40:32.142+01:00'],
+      ['LocalDateTime', '2015-07-04T19:32:24'],
+      ['ZonedDateTime', '2015-11-21T21:40:32.142+01:00[Europe/Berlin]'],
+      ['Duration', 'P14DT16H12M'],
+    ])('should tag %s values', (type, value) => {
+      expect(decodeValue(typed(type, value))).toEqual({ $type: type, value });
+    });
+  });
+
+  describe('points', () => {
+    it('should decode 2D and 3D points', () => {
+      expect(decodeValue(typed('Point', 'SRID=4326;POINT (12.5 56.1)'))).toEqual({ srid: 4326, x: 12.5, y: 56.1 });
+      expect(decodeValue(typed('Point', 'SRID=9157;POINT Z (1 2 3)'))).toEqual({ srid: 9157, x: 1, y: 2, z: 3 });
+    });
+
+    it('should keep points it cannot parse tagged', () => {
+      expect(decodeValue(typed('Point', 'POINT (1 2)'))).toEqual({ $type: 'Point', value: 'POINT (1 2)' });
+    });
+  });
+
+  it('should summarise byte arrays by length', () => {
+    expect(decodeValue(typed('Base64', 'AQIDBA=='))).toEqual({ $type: 'ByteArray', length: 4 });
+    expect(decodeValue(typed('Base64', 'AQID'))).toEqual({ $type: 'ByteArray', length: 3 });
+  });
+
+  it('should decode typed lists and maps recursively', () => {
+    const value = typed('Map', {
+      tags: typed('List', [typed('String', 'a'), typed('Integer', '2')]),
+      born: typed('Date', '1990-01-01'),
+    });
+
+    expect(decodeValue(value)).toEqual({
+      tags: ['a', 2],
+      born: { $type: 'Date', value: '1990-01-01' },
+    });
+  });
+
+  describe('graph values', () => {
+    const alice = { _element_id: '4:a:1', _labels: ['Person'], name: 'Alice' };
+    const bob = { _element_id: '4:a:2', _labels: ['Person'], name: 'Bob' };
+    const knows = {
+      _element_id: '5:a:1',
+      _start_node_element_id: '4:a:1',
+      _end_node_element_id: '4:a:2',
+      _type: 'KNOWS',
+      since: 2020,
+    };
+
+    it('should decode nodes and relationships to their properties', () => {
+      expect(decodeValue(alice)).toEqual({ _labels: ['Person'], name: 'Alice' });
+      expect(decodeValue(knows)).toEqual({ _type: 'KNOWS', since: 2020 });
+    });
+
+    it('should decode typed nodes with nested properties', () => {
+      const node = typed('Node', {
+        _element_id: '4:a:1',
+        _labels: ['Person'],
+        _properties: { name: typed('String', 'Alice'), born: typed('Date', '1990-01-01') },
+      });
+
+      expect(decodeValue(node)).toEqual({
+        _labels: ['Person'],
+        name: 'Alice',
+        born: { $type: 'Date', value: '1990-01-01' },
+      });
+    });
+
+    it('should decode paths to ordered nodes and relationships', () => {
+      const expected = {
+        $type: 'Path',
+        length: 1,
+        nodes: [{ _labels: ['Person'], name: 'Alice' }, { _labels: ['Person'], name: 'Bob' }],
+        relationships: [{ _type: 'KNOWS', since: 2020 }],
+      };
+
+      expect(decodeValue({ _nodes: [alice, bob], _relationships: [knows] })).toEqual(expected);
+      expect(decodeValue(typed('Path', [alice, knows, bob]))).toEqual(expected);
+    });
+  });
+});
+
+describe('parsePoint', () => {
+  it('should reject text that is not a point', () => {
+    expect(parsePoint('hello')).toBeNull();
+    expect(parsePoint('SRID=4326;POINT (a b)')).toBeNull();
+  });
+});
+
+describe('isDecodedPoint', () => {
+  it('should only match point-shaped objects', () => {
+    expect(isDecodedPoint({ srid: 7203, x: 1, y: 2 })).toBe(true);
+    expect(isDecodedPoint({ srid: 7203, x: 1, y: 2, label: 'home' })).toBe(false);
+    expect(isDecodedPoint({ x: 1, y: 2 })).toBe(false);
+  });
+});
+
+describe('encodeParameters', () => {
+  it.each([
+    ['Date', '2025-01-01'],
+    ['Time', '12:30:00+01:00'],
+    ['LocalTime', '12:30:00.123'],
+    ['DateTime', '2025-01-01T12:30:00Z'],
+    ['DateTime', '2025-01-01T12:30:00+01:00[Europe/Paris]'],
+    ['OffsetDateTime', '2025-01-01T12:30:00-05:00'],
+    ['LocalDateTime', '2025-01-01T12:30'],
+    ['ZonedDateTime', '2025-01-01T12:30:00[Europe/Paris]'],
+    ['Duration', 'P1Y2M3DT4H5M6.5S'],
+    ['Duration', 'PT90M'],
+  ])('should encode %s %s', (type, value) => {
+    expect(encodeParameters({ p: { $type: type, value } })).toEqual({ p: { $type: type, _value: value } });
+  });
+
+  it.each([
+    ['Date', '01/01/2025'],
+    ['Date', 20250101],
+    ['Time', '12:30:00'],
+    ['LocalDateTime', '2025-01-01T12:30:00Z'],
+    ['ZonedDateTime', '2025-01-01T12:30:00+01:00'],
+    ['Duration', 'P'],
+    ['Duration', 'P1DT'],
+  ])('should reject %s %j', (type, value) => {
+    expect(() => encodeParameters({ p: { $type: type, value } })).toThrow(ValidationError);
+  });
+
+  it('should encode points from objects and well-known text', () => {
+    expect(encodeParameters({
+      a: { $type: 'Point', value: { srid: 4326, x: 12.5, y: 56.1 } },
+      b: { $type: 'Point', value: { srid: 9157, x: 1, y: 2, z: 3 } },
+      c: { $type: 'Point', value: 'SRID=7203;POINT (1 2)' },
+    })).toEqual({
+      a: { $type: 'Point', _value: 'SRID=4326;POINT (12.5 56.1)' },
+      b: { $type: 'Point', _value: 'SRID=9157;POINT Z (1 2 3)' },
+      c: { $type: 'Point', _value: 'SRID=7203;POINT (1 2)' },
+    });
+  });
+
+  it('should encode integers up to 64 bits', () => {
+    expect(encodeParameters({
+      small: { $type: 'Integer', value: 42 },
+      big: { $type: 'Integer', value: '9223372036854775807' },
+    })).toEqual({
+      small: { $type: 'Integer', _value: '42' },
+      big: { $type: 'Integer', _value: '9223372036854775807' },
+    });
+    expect(() => encodeParameters({ n: { $type: 'Integer', value: '9223372036854775808' } })).toThrow('Integer value');
+    expect(() => encodeParameters({ n: { $type: 'Integer', value: 1.5 } })).toThrow('Integer value');
+  });
+
+  it('should encode special floats', () => {
+    expect(encodeParameters({ f: { $type: 'Float', value: 'NaN' } })).toEqual({ f: { $type: 'Float', _value: 'NaN' } });
+    expect(() => encodeParameters({ f: { $type: 'Float', value: 'one' } })).toThrow('Float value');
+  });
+
+  it('should encode typed values nested in lists and maps', () => {
+    const encoded = encodeParameters({
+      filter: { name: 'Alice', since: { $type: 'Date', value: '2020-01-01' } },
+      days: [{ $type: 'Date', value: '2025-01-01' }, 'plain'],
+    });
+
+    expect(encoded).toEqual({
+      filter: typed('Map', { name: typed('String', 'Alice'), since: typed('Date', '2020-01-01') }),
+      days: typed('List', [typed('Date', '2025-01-01'), typed('String', 'plain')]),
+    });
+  });
+
+  it('should name the offending parameter', () => {
+    expect(() => encodeParameters({ filter: { days: [{ $type: 'Week', value: 3 }] } }))
+      .toThrow('Parameter filter.days[0]: unknown $type "Week"');
+  });
+
+  it('should wrap plain JSON values by their type', () => {
+    expect(encodeParameters({
+      name: 'Alice',
+      ids: [1, 2],
+      score: 0.5,
+      huge: 1e21,
+      missing: null,
+      meta: { $type: 'label', other: true },
+    })).toEqual({
+      name: typed('String', 'Alice'),
+      ids: typed('List', [typed('Integer', '1'), typed('Integer', '2')]),
+      score: typed('Float', '0.5'),
+      huge: typed('Float', '1e+21'),
+      missing: typed('Null', null),
+      meta: typed('Map', { $type: typed('String', 'label'), other: typed('Boolean', true) }),
+    });
+  });
+});
+
+describe('collectGraph', () => {
+  const alice = { _element_id: '4:a:1', _labels: ['Person'], name: 'Alice' };
+  const bob = { _element_id: '4:a:2', _labels: ['Person'], name: 'Bob' };
+  const knows = {
+    _element_id: '5:a:1',
+    _start_node_element_id: '4:a:1',
+    _end_node_element_id: '4:a:2',
+    _type: 'KNOWS',
+    since: 2020,
+  };
+
+  it('should deduplicate nodes and relationships across rows and paths', () => {
+    const graph = collectGraph([
+      [alice, knows, bob],
+      [{ _nodes: [alice, bob], _relationships: [knows] }],
+      [[alice], { friend: bob }, 42],
+    ]);
+
+    expect(graph.nodes).toEqual([
+      { id: '4:a:1', labels: ['Person'], properties: { name: 'Alice' } },
+      { id: '4:a:2', labels: ['Person'], properties: { name: 'Bob' } },
+    ]);
+    expect(graph.relationships).toEqual([
+      { id: '5:a:1', type: 'KNOWS', startNodeId: '4:a:1', endNodeId: '4:a:2', properties: { since: 2020 } },
+    ]);
+  });
+
+  it('should read typed JSON graph elements', () => {
+    const graph = collectGraph([[
+      typed('Path', [
+        typed('Node', { _element_id: '4:a:1', _labels: ['Person'], _properties: { born: typed('Date', '1990-01-01') } }),
+        typed('Relationship', { ...knows, since: undefined, _properties: {} }),
+        typed('Node', { _element_id: '4:a:2', _labels: ['Person'], _properties: {} }),
+      ]),
+    ]]);
+
+    expect(graph.nodes.map(node => node.id)).toEqual(['4:a:1', '4:a:2']);
+    expect(graph.nodes[0]?.properties).toEqual({ born: { $type: 'Date', value: '1990-01-01' } });
+    expect(graph.relationships[0]).toMatchObject({ id: '5:a:1', startNodeId: '4:a:1', properties: {} });
+  });
+
+  it('should return an empty graph for results without graph elements', () => {
+    expect(collectGraph([[1, 'a', { x: 1 }]])).toEqual({ nodes: [], relationships: [] });
+  });
+});
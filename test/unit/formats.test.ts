@@ -0,0 +1,95 @@
+/**
+ * Tests for formats.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { flattenRow, encodeTable, formatResult, isOutputFormat } from '../../src/utils/formats.js';
+
+const rows = [
+  { name: 'Alice', age: 30 },
+  { name: 'Bob', age: null },
+];
+
+describe('isOutputFormat', () => {
+  it('should accept only supported formats', () => {
+    expect(isOutputFormat('csv')).toBe(true);
+    expect(isOutputFormat('compact_json')).toBe(true);
+    expect(isOutputFormat('yaml')).toBe(false);
+    expect(isOutputFormat(undefined)).toBe(false);
+  });
+});
+
+describe('flattenRow', () => {
+  it('should give nested maps one column per key', () => {
+    expect(flattenRow({ p: { _labels: ['Person'], name: 'Alice', address: { city: 'Malmö' } } })).toEqual({
+      'p._labels': '["Person"]',
+      'p.name': 'Alice',
+      'p.address.city': 'Malmö',
+    });
+  });
+
+  it('should turn Neo4j values into single cells', () => {
+    expect(flattenRow({
+      born: { $type: 'Date', value: '1990-01-01' },
+      avatar: { $type: 'ByteArray', length: 12 },
+      home: { srid: 4326, x: 1, y: 2 },
+      path: { $type: 'Path', length: 0, nodes: [{ _labels: ['A'] }], relationships: [] },
+      tags: ['a', 'b'],
+      empty: {},
+    })).toEqual({
+      born: '1990-01-01',
+      avatar: '[ByteArray: 12 bytes]',
+      'home.srid': 4326,
+      'home.x': 1,
+      'home.y': 2,
+      path: '{"$type":"Path","length":0,"nodes":[{"_labels":["A"]}],"relationships":[]}',
+      tags: '["a","b"]',
+      empty: '{}',
+    });
+  });
+});
+
+describe('encodeTable', () => {
+  it('should encode CSV with a header and quoting', () => {
+    const csv = encodeTable(['name', 'note'], [
+      { name: 'Alice', note: 'likes "tea", coffee' },
+      { name: 'Bob', note: 'line\nbreak' },
+    ], 'csv');
+
+    expect(csv).toBe('name,note\nAlice,"likes ""tea"", coffee"\nBob,"line\nbreak"');
+  });
+
+  it('should encode a Markdown table with escaped cells', () => {
+    const markdown = encodeTable(['name', 'age'], [{ name: 'A|B', age: 1 }, { name: 'C\nD', age: null }], 'markdown');
+
+    expect(markdown).toBe('| name | age |\n| --- | --- |\n| A\\|B | 1 |\n| C D |  |');
+  });
+
+  it('should fill missing nested columns and use the columns of empty results', () => {
+    expect(encodeTable(['p'], [{ p: { a: 1 } }, { p: { b: 2 } }], 'csv')).toBe('p.a,p.b\n1,\n,2');
+    expect(encodeTable(['name', 'age'], [], 'csv')).toBe('name,age');
+  });
+});
+
+describe('formatResult', () => {
+  const result = { columns: ['name', 'age'], rowCount: 5, rows };
+
+  it('should encode the whole result in JSON formats', () => {
+    expect(JSON.parse(formatResult(result, 'compact_json'))).toEqual(result);
+    expect(formatResult(result, 'json')).toBe(JSON.stringify(result, null, 2));
+  });
+
+  it('should encode flat rows smaller as tables than as pretty JSON', () => {
+    const json = formatResult(result, 'json');
+
+    expect(formatResult(result, 'compact_json').length).toBeLessThan(json.length);
+    expect(formatResult(result, 'csv').length).toBeLessThan(json.length);
+    expect(formatResult(result, 'markdown').length).toBeLessThan(json.length);
+  });
+
+  it('should note left out rows and the next cursor under tables', () => {
+    expect(formatResult(result, 'csv')).toBe('name,age\nAlice,30\nBob,');
+    expect(formatResult({ ...result, truncated: true, nextCursor: 'abc' }, 'csv'))
+      .toBe('name,age\nAlice,30\nBob,\n\nShowing 2 of 5 rows. nextCursor: abc');
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Tests for neo4j/lexer.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  tokenizeCypher,
+  classifyCypher,
+  hasWriteClause,
+  getProcedureName,
+  findClosingBracket,
+} from '../../src/neo4j/lexer.js';
+import { isWriteQuery, limitReadQuery, validateCypherSyntax } from '../../src/neo4j/queries.js';
+import { validateQuery } from '../../src/security/query-validator.js';
+
+const classify = (cypher: string) => classifyCypher(tokenizeCypher(cypher).tokens);
+const keywords = (cypher: string) => tokenizeCypher(cypher).tokens.flatMap(token => token.keyword ?? []);
+
+describe('tokenizeCypher', () => {
+  it('should split a query into typed tokens', () => {
+    const { tokens, error } = tokenizeCypher('MATCH (n:Person {name: $name}) WHERE n.age >= 18 RETURN n');
+
+    expect(error).toBeUndefined();
+    expect(tokens.map(token => [token.type, token.value])).toEqual([
+      ['word', 'MATCH'], ['symbol', '('], ['word', 'n'], ['symbol', ':'], ['word', 'Person'],
+      ['symbol', '{'], ['word', 'name'], ['symbol', ':'], ['parameter', 'name'], ['symbol', '}'],
+      ['symbol', ')'], ['word', 'WHERE'], ['word', 'n'], ['symbol', '.'], ['word', 'age'],
+      ['symbol', '>='], ['number', '18'], ['word', 'RETURN'], ['word', 'n'],
+    ]);
+    expect(tokens[0]).toMatchObject({ text: 'MATCH', offset: 0, keyword: 'MATCH' });
+  });
+
+  it.each([
+    ['escaped quote', `'it\\'s'`, 'string', `it's`],
+    ['double quotes', `"say \\"hi\\""`, 'string', 'say "hi"'],
+    ['newline escape', `'a\\nb'`, 'string', 'a\nb'],
+    ['unicode escape', `'\\u0041'`, 'string', 'A'],
+    ['backtick identifier', '`my label`', 'identifier', 'my label'],
+    ['doubled backtick', '`a``b`', 'identifier', 'a`b'],
+    ['parameter', '$limit', 'parameter', 'limit'],
+    ['numeric parameter', '$0', 'parameter', '0'],
+    ['quoted parameter', '$`my param`', 'parameter', 'my param'],
+    ['integer', '42', 'number', '42'],
+    ['float', '3.14', 'number', '3.14'],
+    ['exponent', '1e10', 'number', '1e10'],
+    ['hex', '0xFF', 'number', '0xFF'],
+    ['underscores', '1_000_000', 'number', '1_000_000'],
+    ['unicode word', 'café', 'word', 'café'],
+  ])('should read %s', (_, cypher, type, value) => {
+    expect(tokenizeCypher(cypher).tokens[0]).toMatchObject({ type, value });
+  });
+
+  it.each([
+    ['range', '[*1..3]', ['[', '*', '1', '..', '3', ']']],
+    ['open range', '[*..5]', ['[', '*', '..', '5', ']']],
+    ['arrows', '(a)-[r]->(b)<-[s]-(c)', ['(', 'a', ')', '-', '[', 'r', ']', '->', '(', 'b', ')', '<-', '[', 's', ']', '-', '(', 'c', ')']],
+    ['comparison', 'a <> b <= c', ['a', '<>', 'b', '<=', 'c']],
+    ['regex', "n.name =~ 'A.*'", ['n', '.', 'name', '=~', 'A.*']],
+    ['leading dot number', 'x + .5', ['x', '+', '.5']],
+    ['property after number', 'list[0].name', ['list', '[', '0', ']', '.', 'name']],
+  ])('should split %s', (_, cypher, values) => {
+    expect(tokenizeCypher(cypher).tokens.map(token => token.value)).toEqual(values);
+  });
+
+  it.each([
+    ['line comment', 'MATCH (n) // CREATE (m)\nRETURN n'],
+    ['block comment', 'MATCH (n) /* DELETE n */ RETURN n'],
+    ['comment at end', 'MATCH (n) RETURN n // SET n.x = 1'],
+    ['multi-line block comment', 'MATCH (n)\n/* SET\n n.x = 1 */\nRETURN n'],
+  ])('should drop a %s', (_, cypher) => {
+    expect(keywords(cypher)).toEqual(['MATCH', 'RETURN']);
+  });
+
+  it('should keep comment markers inside strings', () => {
+    const { tokens } = tokenizeCypher("RETURN 'http://example.com' AS url, '/* not */' AS text");
+    expect(tokens.filter(token => token.type === 'string').map(token => token.value))
+      .toEqual(['http://example.com', '/* not */']);
+  });
+
+  it.each([
+    ['string', "MATCH (n) WHERE n.name = 'Alice RETURN n", 'Unterminated string in query'],
+    ['double-quoted string', 'RETURN "abc', 'Unterminated string in query'],
+    ['string ending in an escape', "RETURN 'abc\\'", 'Unterminated string in query'],
+    ['identifier', 'MATCH (n:`Person) RETURN n', 'Unterminated quoted identifier in query'],
+    ['quoted parameter', 'RETURN $`name', 'Unterminated quoted identifier in query'],
+    ['block comment', 'MATCH (n) /* RETURN n', 'Unterminated comment in query'],
+  ])('should report an unterminated %s', (_, cypher, error) => {
+    const result = tokenizeCypher(cypher);
+    expect(result.error).toBe(error);
+    expect(result.tokens[0]?.value).toBe(cypher.split(/\s/)[0]);
+  });
+});
+
+describe('clause keywords', () => {
+  it.each([
+    ['property names', 'MATCH (n) RETURN n.set, n.create, n.delete', ['MATCH', 'RETURN']],
+    ['labels', 'MATCH (n:Create:Delete) RETURN n', ['MATCH', 'RETURN']],
+    ['relationship types', 'MATCH ()-[r:SET|REMOVE]->() RETURN r', ['MATCH', 'RETURN']],
+    ['label expressions', 'MATCH (n:Merge|Set) RETURN n', ['MATCH', 'RETURN']],
+    ['map keys', 'RETURN {create: 1, delete: 2}', ['RETURN']],
+    ['map projections', 'MATCH (n) RETURN n {.name, set}', ['MATCH', 'RETURN']],
+    ['aliases', 'MATCH (n) RETURN n.x AS set, n.y AS delete', ['MATCH', 'RETURN']],
+    ['variables after WITH', 'MATCH (n) WITH n AS merge RETURN merge', ['MATCH', 'WITH', 'RETURN']],
+    ['backticks', 'MATCH (`create`) RETURN `create`', ['MATCH', 'RETURN']],
+    ['strings', "RETURN 'please create a node'", ['RETURN']],
+    ['parameters', 'MATCH (n) WHERE n.id = $delete RETURN n', ['MATCH', 'WHERE', 'RETURN']],
+    ['lower-case clauses', 'match (n) where n.x > 1 return n', ['MATCH', 'WHERE', 'RETURN']],
+    ['clauses after brackets', 'MATCH (n) SET n.x = 1 RETURN n', ['MATCH', 'SET', 'RETURN']],
+    ['clauses after literals', "MATCH (n) WHERE n.x = 'a' DELETE n", ['MATCH', 'WHERE', 'DELETE']],
+    ['clauses after words', 'MATCH (n) WITH n DELETE n', ['MATCH', 'WITH', 'DELETE']],
+    ['clauses after keyword-named properties', 'MATCH (n) WHERE n.limit > 1 WITH n.as DELETE n', ['MATCH', 'WHERE', 'WITH', 'DELETE']],
+    ['subquery clauses', 'CALL { CREATE (n) } RETURN 1', ['CALL', 'CREATE', 'RETURN']],
+    ['FOREACH bodies', 'FOREACH (x IN $xs | CREATE (:N {v: x}))', ['FOREACH', 'CREATE']],
+    ['ON CREATE SET', 'MERGE (n:A) ON CREATE SET n.x = 1', ['MERGE', 'ON', 'CREATE', 'SET']],
+  ])('should ignore or find keywords in %s', (_, cypher, expected) => {
+    expect(keywords(cypher)).toEqual(expected);
+  });
+});
+
+describe('classifyCypher', () => {
+  it.each([
+    'MATCH (n) RETURN n',
+    'MATCH (n:Person) WHERE n.name = $name RETURN n.name AS name',
+    'OPTIONAL MATCH (n)-[r]->(m) RETURN n, r, m',
+    'UNWIND [1, 2, 3] AS x RETURN x',
+    'WITH 1 AS x RETURN x',
+    'CALL db.labels()',
+    'CALL db.labels() YIELD label RETURN label',
+    "RETURN 'please create'",
+    "RETURN 'MATCH (n) DETACH DELETE n' AS text",
+    'RETURN "SET x = 1"',
+    'MATCH (n) RETURN n.set',
+    'MATCH (n) RETURN n.`delete`',
+    'MATCH (n:Create) RETURN n',
+    'MATCH (n:`Drop Table`) RETURN n',
+    'MATCH ()-[r:SET]->() RETURN r',
+    'MATCH ()-[:SET|MERGE]->() RETURN count(*)',
+    'RETURN {delete: 1, merge: 2}',
+    'MATCH (n) RETURN n {.name, .set}',
+    'MATCH (n) RETURN n.x AS set',
+    'MATCH (n) WITH n AS create RETURN create',
+    'MATCH (`create`) RETURN `create`',
+    'MATCH (n) // DELETE n\nRETURN n',
+    'MATCH (n) /* SET n.x = 1 */ RETURN n',
+    'MATCH (n) WHERE n.status = $remove RETURN n',
+    'MATCH (n) WHERE n.name STARTS WITH "CREATE" RETURN n',
+    'MATCH p = (a)-[*1..3]->(b) RETURN p',
+    'MATCH (n) RETURN n ORDER BY n.name SKIP 10 LIMIT 5',
+    'MATCH (n) RETURN n UNION MATCH (m) RETURN m',
+    'MATCH (n) CALL { WITH n MATCH (n)--(m) RETURN count(m) AS c } RETURN n, c',
+    'MATCH (n) RETURN CASE WHEN n.x THEN "create" ELSE "delete" END',
+    'MATCH (n) RETURN [x IN n.tags WHERE x <> "set"] AS tags',
+    'MATCH (n) WHERE EXISTS { MATCH (n)-->(m) } RETURN n',
+    'RETURN 1 AS remove',
+  ])('should classify %j as read', cypher => {
+    expect(classify(cypher)).toBe('read');
+    expect(isWriteQuery(cypher)).toBe(false);
+  });
+
+  it.each([
+    'CREATE (n:Person {name: "Alice"})',
+    'create (n)',
+    'MERGE (n:Person {id: 1})',
+    'MERGE (n:A) ON CREATE SET n.created = timestamp() ON MATCH SET n.seen = true',
+    'MATCH (n) DELETE n',
+    'MATCH (n) DETACH DELETE n',
+    'MATCH (n) NODETACH DELETE n',
+    'MATCH (n) SET n.name = "test"',
+    'MATCH (n) SET n:Label',
+    'MATCH (n) SET n += $props',
+    'MATCH (n) REMOVE n.x',
+    'MATCH (n) REMOVE n:Label',
+    'FOREACH (x IN [1, 2] | CREATE (:N {v: x}))',
+    'UNWIND $rows AS row CREATE (:Row {id: row.id})',
+    'MATCH (n) WITH n SET n.x = 1',
+    'MATCH (n) WHERE n.x = 1 DELETE n',
+    "MATCH (n) WHERE n.name = 'a' SET n.x = 1",
+    'MATCH (n) CALL { WITH n DELETE n }',
+    'CALL { CREATE (:A) } IN TRANSACTIONS',
+    'MATCH (n:`Person`) SET n.`last name` = $name',
+    'LOAD CSV FROM "file:///x.csv" AS row CREATE (:Row)',
+    'DROP INDEX person_name',
+    'DROP CONSTRAINT person_id',
+  ])('should classify %j as writing', cypher => {
+    expect(classify(cypher)).toMatch(/^(write|admin)$/);
+    expect(isWriteQuery(cypher)).toBe(true);
+  });
+
+  it.each([
+    'CREATE INDEX person_name FOR (n:Person) ON (n.name)',
+    'CREATE TEXT INDEX t FOR (n:Doc) ON (n.body)',
+    'CREATE RANGE INDEX r FOR (n:A) ON (n.x)',
+    'CREATE VECTOR INDEX v FOR (n:Chunk) ON (n.embedding)',
+    'CREATE CONSTRAINT person_id FOR (n:Person) REQUIRE n.id IS UNIQUE',
+    'DROP INDEX person_name',
+    'CREATE DATABASE newdb',
+    'CREATE OR REPLACE DATABASE newdb',
+    'CREATE COMPOSITE DATABASE cdb',
+    'DROP DATABASE mydb IF EXISTS',
+    'CREATE USER bob SET PASSWORD "secret"',
+    'ALTER USER bob SET PASSWORD "secret"',
+    'CREATE ROLE reader',
+    'GRANT ROLE reader TO bob',
+    'REVOKE ROLE reader FROM bob',
+    'DENY WRITE ON GRAPH neo4j TO reader',
+    'RENAME USER bob TO robert',
+    'CREATE ALIAS a FOR DATABASE b',
+  ])('should classify %j as admin', cypher => {
+    expect(classify(cypher)).toBe('admin');
+  });
+
+  it.each([
+    '',
+    'SHOW INDEXES',
+    'SHOW DATABASES',
+    "RETURN_VALUE",
+    '// only a comment',
+  ])('should classify %j as unknown', cypher => {
+    expect(classify(cypher)).toBe('unknown');
+    expect(hasWriteClause(tokenizeCypher(cypher).tokens)).toBe(false);
+  });
+});
+
+describe('getProcedureName', () => {
+  it.each([
+    ['CALL db.labels()', 'db.labels'],
+    ['call dbms.security.createUser("a", "b")', 'dbms.security.createUser'],
+    ['CALL `dbms`.security.listUsers()', 'dbms.security.listUsers'],
+    ['CALL `dbms.components`()', 'dbms.components'],
+    ['CALL apoc.meta.schema() YIELD value', 'apoc.meta.schema'],
+    ['CALL { RETURN 1 }', undefined],
+    ['MATCH (n) RETURN n', undefined],
+  ])('should name the procedure in %j', (cypher, expected) => {
+    const { tokens } = tokenizeCypher(cypher);
+    expect(getProcedureName(tokens, tokens.findIndex(token => token.keyword === 'CALL'))).toBe(expected);
+  });
+});
+
+describe('findClosingBracket', () => {
+  it('should skip nested brackets and brackets in strings', () => {
+    const { tokens } = tokenizeCypher("(a {x: [1, ')']}) RETURN a");
+    expect(tokens[findClosingBracket(tokens, 0) + 1]?.value).toBe('RETURN');
+    expect(findClosingBracket(tokens, 1)).toBe(-1);
+  });
+});
+
+describe('validateCypherSyntax', () => {
+  it.each([
+    "MATCH (n) WHERE n.name = ')' RETURN n",
+    'MATCH (n:`Weird(Label`) RETURN n',
+    'MATCH (n) // unmatched (\nRETURN n',
+    'RETURN "[{"',
+    'MATCH (n) /* } */ RETURN n',
+  ])('should ignore brackets in %j', cypher => {
+    expect(validateCypherSyntax(cypher)).toEqual({ valid: true });
+  });
+
+  it.each([
+    ['   ', 'Query cannot be empty'],
+    ['MATCH (n RETURN n', 'Unbalanced parentheses in query'],
+    ['RETURN [1, 2', 'Unbalanced square brackets in query'],
+    ['RETURN {a: 1', 'Unbalanced curly braces in query'],
+    ['MATCH n) RETURN n', 'Unbalanced brackets in query'],
+    ["RETURN 'abc", 'Unterminated string in query'],
+    ['MATCH (n:`Person) RETURN n', 'Unterminated quoted identifier in query'],
+    ['MATCH (n) /* RETURN n', 'Unterminated comment in query'],
+  ])('should reject %j', (cypher, error) => {
+    expect(validateCypherSyntax(cypher)).toEqual({ valid: false, error });
+  });
+});
+
+describe('limitReadQuery', () => {
+  it.each([
+    ['MATCH (n) RETURN n', 'MATCH (n) RETURN n\nLIMIT 11'],
+    ['MATCH (n) RETURN n ORDER BY n.name SKIP 5;', 'MATCH (n) RETURN n ORDER BY n.name SKIP 5\nLIMIT 11'],
+    ['MATCH (n) RETURN n // all of them', 'MATCH (n) RETURN n // all of them\nLIMIT 11'],
+    ['MATCH (n) WITH n LIMIT 5 MATCH (n)--(m) RETURN m', 'MATCH (n) WITH n LIMIT 5 MATCH (n)--(m) RETURN m\nLIMIT 11'],
+    ['MATCH (n) CALL { WITH n RETURN n.x AS x LIMIT 1 } RETURN x', 'MATCH (n) CALL { WITH n RETURN n.x AS x LIMIT 1 } RETURN x\nLIMIT 11'],
+    ["RETURN 'LIMIT 5' AS text", "RETURN 'LIMIT 5' AS text\nLIMIT 11"],
+    ['MATCH (a) RETURN a.x AS x UNION MATCH (b) RETURN b.x AS x LIMIT 5', 'CALL {\nMATCH (a) RETURN a.x AS x UNION MATCH (b) RETURN b.x AS x LIMIT 5\n}\nRETURN * LIMIT 11'],
+    ['MATCH (n) RETURN n.limit', 'MATCH (n) RETURN n.limit\nLIMIT 11'],
+    ['MATCH (n) RETURN n ORDER BY n.limit', 'MATCH (n) RETURN n ORDER BY n.limit\nLIMIT 11'],
+    ['MATCH (n) RETURN n {.limit}', 'MATCH (n) RETURN n {.limit}\nLIMIT 11'],
+    ['WITH 5 AS limit MATCH (n) RETURN n, limit', 'WITH 5 AS limit MATCH (n) RETURN n, limit\nLIMIT 11'],
+    ['WITH 5 AS limit MATCH (n) RETURN n.x * limit', 'WITH 5 AS limit MATCH (n) RETURN n.x * limit\nLIMIT 11'],
+    ['WITH 5 AS limit MATCH (n) RETURN n.x * limit;', 'WITH 5 AS limit MATCH (n) RETURN n.x * limit\nLIMIT 11'],
+    ['MATCH (n) RETURN n /* LIMIT 5 */', 'MATCH (n) RETURN n /* LIMIT 5 */\nLIMIT 11'],
+    ['MATCH (n) RETURN n; // all of them', 'MATCH (n) RETURN n\nLIMIT 11'],
+    ['MATCH (n) RETURN n // all of them\n;', 'MATCH (n) RETURN n // all of them\nLIMIT 11'],
+    ['MATCH (n) RETURN n /* all */ ;', 'MATCH (n) RETURN n /* all */\nLIMIT 11'],
+  ])('should limit %j', (cypher, limited) => {
+    expect(limitReadQuery(cypher, 11)).toBe(limited);
+  });
+
+  it.each([
+    'MATCH (n) RETURN n LIMIT 5',
+    'MATCH (n) RETURN n ORDER BY n.name LIMIT $limit;',
+    'MATCH (n) RETURN n.limit LIMIT 5 // at most five',
+    'WITH 5 AS limit MATCH (n) RETURN n LIMIT limit;',
+    'CALL db.labels()',
+    'CALL db.labels() YIELD label RETURN label LIMIT 3',
+    'MATCH (n) RETURN n; MATCH (m) RETURN m',
+    'USE other MATCH (a) RETURN a UNION MATCH (b) RETURN b',
+    "MATCH (n) RETURN 'n",
+  ])('should leave %j unchanged', cypher => {
+    expect(limitReadQuery(cypher, 11)).toBe(cypher);
+  });
+});
+
+describe('validateQuery with tokens', () => {
+  it.each([
+    "RETURN 'DROP DATABASE neo4j' AS text",
+    'MATCH (n) WHERE n.note = "GRANT ALL" RETURN n',
+    'MATCH (n:Grant) RETURN n',
+    'MATCH (n) RETURN n.revoke, n.deny',
+    'MATCH (n) // CALL dbms.killQueries()\nRETURN n',
+    "RETURN 'CALL db.clearQueryCaches()'",
+    'MATCH (n) RETURN n.dbms',
+    "RETURN 'LOAD CSV FROM \"https://evil.com\"'",
+    'CALL db.labels()',
+    'CALL db.relationshipTypes()',
+    'CALL db.propertyKeys()',
+    'CALL db.schema.visualization()',
+    'LOAD CSV FROM "file:///data.csv" AS row RETURN row',
+  ])('should allow %j', cypher => {
+    const result = validateQuery(cypher);
+    expect(result.error).toBeUndefined();
+    expect(result.valid).toBe(true);
+  });
+
+  it.each([
+    ['DROP DATABASE mydb', 'DROP DATABASE is not allowed'],
+    ['create or replace database x', 'CREATE DATABASE is not allowed'],
+    ['START DATABASE x', 'START DATABASE is not allowed'],
+    ['STOP DATABASE x', 'STOP DATABASE is not allowed'],
+    ['ALTER USER bob SET PASSWORD "x"', 'ALTER USER is not allowed'],
+    ['CREATE ROLE r', 'CREATE ROLE is not allowed'],
+    ['DROP ROLE r', 'DROP ROLE is not allowed'],
+    ['DENY READ ON GRAPH neo4j TO r', 'DENY is not allowed'],
+    ['MATCH (n) DETACH DELETE n', 'DETACH DELETE is potentially dangerous - use with caution'],
+    ['CALL { MATCH (n) RETURN n } RETURN 1', 'Subquery CALL blocks may be restricted'],
+    ['MATCH (n) CALL (n) { RETURN 1 AS x } RETURN x', 'Subquery CALL blocks may be restricted'],
+    ['CALL `dbms`.security.createUser("a", "b")', 'System DBMS procedures are not allowed'],
+    ['CALL dbms.components()', 'System DBMS procedures are not allowed'],
+    ['CALL /* hidden */ db.clearQueryCaches()', 'Most db.* procedures are not allowed'],
+    ['CALL db.index.fulltext.queryNodes("i", "x")', 'Most db.* procedures are not allowed'],
+    ["LOAD CSV WITH HEADERS FROM 'http://evil.com/a.csv' AS row RETURN row", 'LOAD CSV from remote URLs is not allowed'],
+  ])('should block %j', (cypher, error) => {
+    expect(validateQuery(cypher)).toMatchObject({ valid: false, error });
+  });
+
+  it.each([
+    ['MATCH (n) RETURN n', []],
+    ['MATCH (n:Person) WITH n RETURN n', ['Unbounded MATCH may return large results']],
+    ['MATCH (n) WHERE n.x = 1 RETURN n', []],
+    ['MATCH (a)-[:KNOWS]->(b) RETURN b', []],
+    ['MATCH (a)<-[:KNOWS]-(b) RETURN b', []],
+    ['MATCH (n:A {id: 1}) RETURN n', []],
+    ['MATCH (n) WHERE n.x = 1 RETURN n LIMIT 20000', ['Large LIMIT value may cause performance issues']],
+    ['MATCH (n) WHERE n.x = 1 RETURN n LIMIT 10000', []],
+    ["MATCH (n) WHERE n.note = 'LIMIT 99999' RETURN n", []],
+  ])('should warn about %j', (cypher, warnings) => {
+    expect(validateQuery(cypher).warnings).toEqual(warnings);
+  });
+});
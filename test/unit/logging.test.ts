@@ -0,0 +1,74 @@
+/**
+ * Tests for MCP logging
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { isMcpLogLevel, notifyClient, logToClient } from '../../src/mcp/logging.js';
+import type { HandlerContext } from '../../src/mcp/handlers.js';
+import { createMockEnv } from '../setup.js';
+
+describe('isMcpLogLevel', () => {
+  it('should accept RFC 5424 levels', () => {
+    expect(isMcpLogLevel('notice')).toBe(true);
+    expect(isMcpLogLevel('emergency')).toBe(true);
+  });
+
+  it('should reject other values', () => {
+    expect(isMcpLogLevel('warn')).toBe(false);
+    expect(isMcpLogLevel(3)).toBe(false);
+  });
+});
+
+describe('notifyClient', () => {
+  const createContext = (logLevel?: HandlerContext['logLevel']) => {
+    const sendNotification = vi.fn();
+    const context: HandlerContext = {
+      env: createMockEnv(),
+      requestId: 'req-1',
+      sendNotification,
+      logLevel,
+    };
+    return { context, sendNotification };
+  };
+
+  it('should send notifications/message with the data', () => {
+    const { context, sendNotification } = createContext();
+
+    notifyClient(context, 'warning', 'Something degraded', { reason: 'test' });
+
+    expect(sendNotification).toHaveBeenCalledWith('notifications/message', {
+      level: 'warning',
+      logger: 'mcp-neo4j-cypher',
+      data: { message: 'Something degraded', reason: 'test' },
+    });
+  });
+
+  it('should drop messages below the client level', () => {
+    const { context, sendNotification } = createContext('error');
+
+    notifyClient(context, 'warning', 'Not important enough');
+
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('should default to info', () => {
+    const { context, sendNotification } = createContext();
+
+    notifyClient(context, 'debug', 'Too chatty');
+    notifyClient(context, 'info', 'Just right');
+
+    expect(sendNotification).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('logToClient', () => {
+  it('should also write the server log', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const context: HandlerContext = { env: createMockEnv(), requestId: 'req-1' };
+
+    logToClient(context, 'warning', 'Written to the server log');
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Written to the server log'));
+    warn.mockRestore();
+  });
+});
@@ -4,6 +4,7 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createNeo4jClient } from '../../src/neo4j/client.js';
+import { Neo4jQueryError, ValidationError } from '../../src/utils/errors.js';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -100,11 +101,39 @@ describe('Neo4jClient', () => {
       expect(mockFetch).toHaveBeenCalledWith(
         expect.any(String),
         expect.objectContaining({
-          body: expect.stringContaining('"parameters":{"id":123}'),
+          body: expect.stringContaining('"parameters":{"id":{"$type":"Integer","_value":"123"}}'),
         })
       );
     });
 
+    it('should encode typed parameters as typed JSON', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: { fields: ['n'], values: [] } }),
+      });
+
+      const client = createNeo4jClient(testConnection);
+      await client.query('MATCH (n) WHERE n.since >= $since AND n.id = $id RETURN n', {
+        since: { $type: 'Date', value: '2025-01-01' },
+        id: { $type: 'Integer', value: '9007199254740993' },
+      });
+
+      expect(JSON.parse(mockFetch.mock.calls[0]?.[1].body).parameters).toEqual({
+        since: { $type: 'Date', _value: '2025-01-01' },
+        id: { $type: 'Integer', _value: '9007199254740993' },
+      });
+      expect(mockFetch.mock.calls[0]?.[1].headers['Content-Type']).toBe('application/vnd.neo4j.query');
+    });
+
+    it('should reject invalid typed parameters without sending the query', async () => {
+      const client = createNeo4jClient(testConnection);
+
+      await expect(
+        client.query('RETURN $d', { d: { $type: 'Date', value: 'yesterday' } })
+      ).rejects.toThrow(ValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
     it('should include Authorization header', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -128,6 +157,18 @@ describe('Neo4jClient', () => {
       );
     });
 
+    it('should ask for results in the typed JSON format', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: { fields: [], values: [] } }),
+      });
+
+      const client = createNeo4jClient(testConnection);
+      await client.query('RETURN 1');
+
+      expect(mockFetch.mock.calls[0]?.[1].headers.Accept).toBe('application/vnd.neo4j.query');
+    });
+
     it('should throw error for failed query', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: false,
@@ -145,6 +186,61 @@ describe('Neo4jClient', () => {
       ).rejects.toThrow();
     });
 
+    it('should report the Neo4j error of a failed query', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        text: async () => JSON.stringify({
+          errors: [{ message: 'Invalid input', code: 'Neo.ClientError.Statement.SyntaxError' }],
+        }),
+      });
+
+      const client = createNeo4jClient(testConnection);
+
+      await expect(client.query('INVALID QUERY')).rejects.toMatchObject({
+        name: 'Neo4jQueryError',
+        neo4jCode: 'Neo.ClientError.Statement.SyntaxError',
+      });
+    });
+
+    it('should send read-only queries in the READ access mode', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ data: { fields: [], values: [] } }),
+      });
+
+      const client = createNeo4jClient(testConnection);
+      await client.query('MATCH (n) RETURN n', {}, { readOnly: true });
+      await client.query('CREATE (n)');
+
+      expect(JSON.parse(mockFetch.mock.calls[0]?.[1].body).accessMode).toBe('READ');
+      expect(JSON.parse(mockFetch.mock.calls[1]?.[1].body)).not.toHaveProperty('accessMode');
+    });
+
+    it.each([
+      'Neo.ClientError.Statement.AccessMode',
+      'Neo.ClientError.Cluster.NotALeader',
+      'Neo.ClientError.General.ForbiddenOnReadOnlyDatabase',
+    ])('should turn %s in a read-only query into a ValidationError', async code => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        text: async () => JSON.stringify({
+          errors: [{ message: 'Writing in read access mode not allowed.', code }],
+        }),
+      });
+
+      const client = createNeo4jClient(testConnection);
+
+      const error = await client.query('CALL apoc.create.node(["A"], {})', {}, { readOnly: true }).catch(e => e);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.message).toContain('write_neo4j_cypher');
+
+      await expect(client.query('CALL apoc.create.node(["A"], {})')).rejects.toThrow(Neo4jQueryError);
+    });
+
     it('should use correct database in URL', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -165,6 +261,248 @@ describe('Neo4jClient', () => {
         expect.anything()
       );
     });
+
+    it('should abort the request when the caller cancels', async () => {
+      mockFetch.mockImplementationOnce((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => {
+            reject(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }));
+          });
+        })
+      );
+
+      const client = createNeo4jClient(testConnection);
+      const controller = new AbortController();
+      const pending = client.query('MATCH (n) RETURN n', {}, { signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toThrow('Request cancelled');
+    });
+
+    it('should not send a request that was already cancelled', async () => {
+      const client = createNeo4jClient(testConnection);
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.query('RETURN 1', {}, { signal: controller.signal })
+      ).rejects.toThrow('Request cancelled');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runTransaction', () => {
+    const txResponse = (body: Record<string, unknown>, affinity?: string) => ({
+      ok: true,
+      headers: new Headers(affinity ? { 'neo4j-cluster-affinity': affinity } : {}),
+      json: async () => body,
+    });
+
+    it('should run statements in one transaction and commit', async () => {
+      mockFetch
+        .mockResolvedValueOnce(txResponse({ counters: { nodesCreated: 1 }, transaction: { id: 'tx1' } }, 'member-2'))
+        .mockResolvedValueOnce(txResponse({ counters: { relationshipsCreated: 1 } }))
+        .mockResolvedValueOnce(txResponse({}));
+
+      const client = createNeo4jClient(testConnection);
+      const responses = await client.runTransaction([
+        { statement: 'CREATE (:A)' },
+        { statement: 'MATCH (a:A) CREATE (a)-[:R]->(:B)', parameters: { x: 1 } },
+      ], { includeCounters: true });
+
+      expect(responses.map(response => response.counters)).toEqual([{ nodesCreated: 1 }, { relationshipsCreated: 1 }]);
+
+      const base = 'https://test.databases.neo4j.io/db/neo4j/query/v2/tx';
+      expect(mockFetch.mock.calls.map(call => [call[0], call[1].method])).toEqual([
+        [base, 'POST'],
+        [`${base}/tx1`, 'POST'],
+        [`${base}/tx1/commit`, 'POST'],
+      ]);
+      expect(JSON.parse(mockFetch.mock.calls[1]?.[1].body)).toEqual({
+        statement: 'MATCH (a:A) CREATE (a)-[:R]->(:B)',
+        parameters: { x: { $type: 'Integer', _value: '1' } },
+        includeCounters: true,
+      });
+      expect(mockFetch.mock.calls[1]?.[1].headers['Content-Type']).toBe('application/vnd.neo4j.query');
+      expect(mockFetch.mock.calls[2]?.[1].headers['neo4j-cluster-affinity']).toBe('member-2');
+    });
+
+    it('should roll back and name the statement that failed', async () => {
+      mockFetch
+        .mockResolvedValueOnce(txResponse({ transaction: { id: 'tx1' } }))
+        .mockResolvedValueOnce(txResponse({
+          errors: [{ code: 'Neo.ClientError.Schema.ConstraintValidationFailed', message: 'Node already exists' }],
+        }))
+        .mockResolvedValueOnce(txResponse({}));
+
+      const client = createNeo4jClient(testConnection);
+      const error = await client.runTransaction([
+        { statement: 'CREATE (:A {id: 1})' },
+        { statement: 'CREATE (:A {id: 1})' },
+      ]).catch(e => e);
+
+      expect(error).toBeInstanceOf(Neo4jQueryError);
+      expect(error.message).toBe('Statement 2 of 2 failed: Node already exists');
+      expect(error.neo4jCode).toBe('Neo.ClientError.Schema.ConstraintValidationFailed');
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://test.databases.neo4j.io/db/neo4j/query/v2/tx/tx1',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+
+    it('should not roll back when the first statement fails', async () => {
+      mockFetch.mockResolvedValueOnce(txResponse({
+        errors: [{ code: 'Neo.ClientError.Statement.SyntaxError', message: 'Invalid input' }],
+      }));
+
+      const client = createNeo4jClient(testConnection);
+
+      await expect(client.runTransaction([{ statement: 'CREAT (:A)' }])).rejects.toThrow('Invalid input');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject invalid typed parameters before opening the transaction', async () => {
+      const client = createNeo4jClient(testConnection);
+      const error = await client.runTransaction([
+        { statement: 'CREATE (:A)' },
+        { statement: 'CREATE (:B {at: $at})', parameters: { at: { $type: 'Point', value: { x: 1 } } } },
+      ]).catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.message).toMatch(/^Statement 2 of 2: Parameter at: Point value/);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should roll back instead of committing when asked', async () => {
+      mockFetch
+        .mockResolvedValueOnce(txResponse({ counters: { nodesDeleted: 3 }, transaction: { id: 'tx1' } }))
+        .mockResolvedValueOnce(txResponse({}));
+
+      const client = createNeo4jClient(testConnection);
+      const responses = await client.runTransaction([{ statement: 'MATCH (n:Temp) DELETE n' }], { rollback: true });
+
+      expect(responses[0]?.counters).toEqual({ nodesDeleted: 3 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://test.databases.neo4j.io/db/neo4j/query/v2/tx/tx1',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+  });
+
+  describe('typed JSON responses', () => {
+    const respond = (body: unknown) => mockFetch.mockResolvedValueOnce({ ok: true, json: async () => body });
+
+    it('should decode result values to plain values', async () => {
+      respond({
+        data: {
+          fields: ['name', 'age', 'person'],
+          values: [[
+            { $type: 'String', _value: 'Alice' },
+            { $type: 'Integer', _value: '30' },
+            {
+              $type: 'Node',
+              _value: {
+                _element_id: '4:abc:1',
+                _labels: ['Person'],
+                _properties: { born: { $type: 'Date', _value: '1990-01-01' } },
+              },
+            },
+          ]],
+        },
+      });
+
+      const client = createNeo4jClient(testConnection);
+      const result = await client.query('MATCH (p:Person) RETURN p.name, p.age, p');
+
+      expect(result.data?.values).toEqual([[
+        'Alice',
+        30,
+        { _labels: ['Person'], born: { $type: 'Date', value: '1990-01-01' } },
+      ]]);
+    });
+
+    it('should keep values as sent when asked for them raw', async () => {
+      const node = { $type: 'Node', _value: { _element_id: '4:abc:1', _labels: ['Person'], _properties: {} } };
+      respond({ data: { fields: ['p'], values: [[node]] } });
+
+      const client = createNeo4jClient(testConnection);
+      const result = await client.query('MATCH (p:Person) RETURN p', {}, { raw: true });
+
+      expect(result.data?.values).toEqual([[node]]);
+    });
+
+    it('should decode plan arguments', async () => {
+      respond({
+        queryPlan: {
+          operatorType: 'ProduceResults@neo4j',
+          arguments: { EstimatedRows: { $type: 'Float', _value: '12.5' } },
+          children: [
+            { operatorType: 'AllNodesScan@neo4j', arguments: { Details: { $type: 'String', _value: 'n' } } },
+          ],
+        },
+      });
+
+      const client = createNeo4jClient(testConnection);
+      const result = await client.query('EXPLAIN MATCH (n) RETURN n');
+
+      expect(result.queryPlan?.arguments).toEqual({ EstimatedRows: 12.5 });
+      expect(result.queryPlan?.children?.[0]?.arguments).toEqual({ Details: 'n' });
+    });
+
+    it('should decode the database name and version', async () => {
+      respond({
+        data: {
+          fields: ['name', 'version'],
+          values: [[{ $type: 'String', _value: 'Neo4j Kernel' }, { $type: 'String', _value: '5.26.0' }]],
+        },
+      });
+
+      const client = createNeo4jClient(testConnection);
+
+      expect(await client.getDatabaseInfo()).toEqual({ name: 'Neo4j Kernel', version: '5.26.0' });
+    });
+  });
+
+  describe('bookmarks', () => {
+    const bodyOf = (call: number) => JSON.parse(mockFetch.mock.calls[call]?.[1].body);
+
+    it('should send the bookmarks of earlier work and track new ones', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ data: { fields: [], values: [] }, bookmarks: ['bm2'] }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ data: { fields: [], values: [] } }) });
+
+      const client = createNeo4jClient(testConnection, { bookmarks: ['bm1'] });
+      await client.query('CREATE (:A)');
+      await client.query('MATCH (a:A) RETURN a');
+
+      expect(bodyOf(0).bookmarks).toEqual(['bm1']);
+      expect(bodyOf(1).bookmarks).toEqual(['bm2']);
+      expect(client.getBookmarks()).toEqual(['bm2']);
+    });
+
+    it('should take bookmarks from a transaction commit', async () => {
+      const headers = new Headers();
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, headers, json: async () => ({ transaction: { id: 'tx1' } }) })
+        .mockResolvedValueOnce({ ok: true, headers, json: async () => ({ bookmarks: ['bm-commit'] }) });
+
+      const client = createNeo4jClient(testConnection, { bookmarks: ['bm1'] });
+      await client.runTransaction([{ statement: 'CREATE (:A)' }]);
+
+      expect(bodyOf(0).bookmarks).toEqual(['bm1']);
+      expect(client.getBookmarks()).toEqual(['bm-commit']);
+    });
+
+    it('should neither send nor track bookmarks when causal consistency is off', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ data: { fields: [], values: [] }, bookmarks: ['bm2'] }) });
+
+      const client = createNeo4jClient(testConnection, { bookmarks: ['bm1'], causalConsistency: false });
+      await client.query('CREATE (:A)');
+
+      expect(bodyOf(0)).not.toHaveProperty('bookmarks');
+      expect(client.getBookmarks()).toEqual([]);
+    });
   });
 
   describe('URI conversion', () => {
@@ -0,0 +1,228 @@
+/**
+ * Tests for neo4j/plan.ts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  stripPlanPrefix,
+  summarizePlan,
+  formatPlanForLLM,
+  explainQuery,
+  isUnboundedVarLength,
+  normalizeCostBudget,
+  findCostViolations,
+  enforceCostBudget,
+} from '../../src/neo4j/plan.js';
+import { ValidationError } from '../../src/utils/errors.js';
+import type { Neo4jClient } from '../../src/neo4j/client.js';
+import type { Neo4jQueryPlan } from '../../src/neo4j/types.js';
+
+const cartesianPlan: Neo4jQueryPlan = {
+  operatorType: 'ProduceResults@neo4j',
+  arguments: { Details: 'p, c', EstimatedRows: 5000.4 },
+  children: [
+    {
+      operatorType: 'CartesianProduct@neo4j',
+      arguments: { EstimatedRows: 5000.4 },
+      children: [
+        {
+          operatorType: 'NodeIndexSeek@neo4j',
+          arguments: { Details: 'RANGE INDEX p:Person(name) WHERE name = $name', EstimatedRows: 1 },
+        },
+        {
+          operatorType: 'NodeByLabelScan@neo4j',
+          arguments: { Details: 'c:Company', EstimatedRows: 5000 },
+        },
+      ],
+    },
+  ],
+};
+
+describe('stripPlanPrefix', () => {
+  it('should remove a leading EXPLAIN or PROFILE', () => {
+    expect(stripPlanPrefix('EXPLAIN MATCH (n) RETURN n')).toBe('MATCH (n) RETURN n');
+    expect(stripPlanPrefix('  profile\nMATCH (n) RETURN n')).toBe('MATCH (n) RETURN n');
+  });
+
+  it('should leave other queries alone', () => {
+    expect(stripPlanPrefix('MATCH (explain) RETURN explain')).toBe('MATCH (explain) RETURN explain');
+  });
+});
+
+describe('summarizePlan', () => {
+  it('should build a compact operator tree', () => {
+    const summary = summarizePlan(cartesianPlan, 'EXPLAIN');
+
+    expect(summary.estimatedRows).toBe(5000);
+    expect(summary.root.operator).toBe('ProduceResults');
+    expect(summary.root.children[0]?.operator).toBe('CartesianProduct');
+    expect(summary.root.children[0]?.children.map(child => child.operator)).toEqual([
+      'NodeIndexSeek',
+      'NodeByLabelScan',
+    ]);
+    expect(summary).not.toHaveProperty('totalDbHits');
+  });
+
+  it('should list indexes and warn about expensive operators', () => {
+    const summary = summarizePlan(cartesianPlan, 'EXPLAIN');
+
+    expect(summary.indexes).toEqual(['NodeIndexSeek: RANGE INDEX p:Person(name) WHERE name = $name']);
+    expect(summary.warnings).toHaveLength(2);
+    expect(summary.warnings[0]).toContain('CartesianProduct');
+    expect(summary.warnings[1]).toContain('NodeByLabelScan (c:Company)');
+  });
+
+  it('should include Neo4j notifications as warnings', () => {
+    const summary = summarizePlan({ operatorType: 'ProduceResults@neo4j' }, 'EXPLAIN', [
+      {
+        code: 'Neo.ClientNotification.Statement.UnboundedVariableLengthPattern',
+        title: 'The provided pattern is unbounded',
+        description: 'Using shortest path with an unbounded pattern will likely result in long execution times.',
+        severity: 'INFORMATION',
+      },
+    ]);
+
+    expect(summary.warnings).toEqual([
+      'Using shortest path with an unbounded pattern will likely result in long execution times.',
+    ]);
+  });
+
+  it('should add rows and db hits for PROFILE', () => {
+    const summary = summarizePlan({
+      operatorType: 'ProduceResults@neo4j',
+      records: 3,
+      dbHits: 0,
+      children: [{ operatorType: 'AllNodesScan@neo4j', arguments: { Details: 'n' }, records: 3, dbHits: 4 }],
+    }, 'PROFILE');
+
+    expect(summary.totalDbHits).toBe(4);
+    expect(summary.root.children[0]).toMatchObject({ operator: 'AllNodesScan', rows: 3, dbHits: 4 });
+    expect(summary.warnings[0]).toContain('AllNodesScan (n)');
+  });
+});
+
+describe('formatPlanForLLM', () => {
+  it('should put warnings and indexes before the operator tree', () => {
+    const text = formatPlanForLLM(summarizePlan(cartesianPlan, 'EXPLAIN'));
+
+    expect(text.startsWith('EXPLAIN plan (estimated rows: 5000)')).toBe(true);
+    expect(text.indexOf('Warnings:')).toBeLessThan(text.indexOf('Operators:'));
+    expect(text.indexOf('Indexes used:')).toBeLessThan(text.indexOf('Operators:'));
+    expect(text).toContain('    - NodeByLabelScan c:Company [est. 5000 rows]');
+  });
+});
+
+describe('explainQuery', () => {
+  it('should prefix the query and read the matching plan', async () => {
+    const client = {
+      query: vi.fn().mockResolvedValue({ queryPlan: cartesianPlan }),
+    } as unknown as Neo4jClient;
+
+    const summary = await explainQuery(client, 'EXPLAIN MATCH (p), (c) RETURN p, c', {}, 'EXPLAIN');
+
+    expect(client.query).toHaveBeenCalledWith('EXPLAIN MATCH (p), (c) RETURN p, c', {}, expect.any(Object));
+    expect(summary.root.operator).toBe('ProduceResults');
+  });
+
+  it('should fail when Neo4j returns no plan', async () => {
+    const client = {
+      query: vi.fn().mockResolvedValue({ queryPlan: cartesianPlan }),
+    } as unknown as Neo4jClient;
+
+    await expect(explainQuery(client, 'MATCH (n) RETURN n', {}, 'PROFILE')).rejects.toThrow('did not return a query plan');
+  });
+});
+
+describe('isUnboundedVarLength', () => {
+  const expand = (details: string) => ({ operator: 'VarLengthExpand(All)', details, children: [] });
+
+  it('should detect patterns without an upper bound', () => {
+    expect(isUnboundedVarLength(expand('(a)-[anon_0*]->(b)'))).toBe(true);
+    expect(isUnboundedVarLength(expand('(a)-[r*2..]->(b)'))).toBe(true);
+    expect(isUnboundedVarLength(expand('(a)-[r* ..]->(b)'))).toBe(true);
+  });
+
+  it('should accept bounded patterns', () => {
+    expect(isUnboundedVarLength(expand('(a)-[r*1..5]->(b)'))).toBe(false);
+    expect(isUnboundedVarLength(expand('(a)-[r*..3]->(b)'))).toBe(false);
+    expect(isUnboundedVarLength(expand('(a)-[r*3]->(b)'))).toBe(false);
+  });
+
+  it('should ignore other operators', () => {
+    expect(isUnboundedVarLength({ operator: 'Expand(All)', details: '(a)-[r]->(b)', children: [] })).toBe(false);
+  });
+});
+
+describe('normalizeCostBudget', () => {
+  it('should turn the guard off for empty values', () => {
+    expect(normalizeCostBudget(undefined)).toBeNull();
+    expect(normalizeCostBudget(null)).toBeNull();
+    expect(normalizeCostBudget(false)).toBeNull();
+  });
+
+  it('should fill in defaults', () => {
+    expect(normalizeCostBudget(true)).toEqual({
+      maxEstimatedRows: 100000,
+      rejectAllNodesScan: true,
+      rejectCartesianProduct: true,
+      rejectUnboundedVarLength: true,
+    });
+    expect(normalizeCostBudget({ maxEstimatedRows: 500, rejectCartesianProduct: false })).toMatchObject({
+      maxEstimatedRows: 500,
+      rejectCartesianProduct: false,
+      rejectAllNodesScan: true,
+    });
+  });
+
+  it('should reject invalid fields', () => {
+    expect(() => normalizeCostBudget('yes')).toThrow(ValidationError);
+    expect(() => normalizeCostBudget({ maxEstimatedRows: -1 })).toThrow('positive integer');
+    expect(() => normalizeCostBudget({ rejectAllNodesScan: 'no' })).toThrow('must be a boolean');
+  });
+});
+
+describe('findCostViolations', () => {
+  const budget = normalizeCostBudget({ maxEstimatedRows: 1000 })!;
+
+  it('should report expensive operators and row estimates', () => {
+    const violations = findCostViolations(summarizePlan(cartesianPlan, 'EXPLAIN'), budget);
+
+    expect(violations).toHaveLength(2);
+    expect(violations[0]).toContain('CartesianProduct');
+    expect(violations[1]).toContain('estimated to produce 5000 rows, over the budget of 1000');
+    expect(violations[1]).toContain('Add a LIMIT');
+  });
+
+  it('should respect disabled checks', () => {
+    const violations = findCostViolations(summarizePlan(cartesianPlan, 'EXPLAIN'), {
+      ...budget,
+      maxEstimatedRows: 10000,
+      rejectCartesianProduct: false,
+    });
+
+    expect(violations).toEqual([]);
+  });
+});
+
+describe('enforceCostBudget', () => {
+  it('should reject plans over budget with the violations', async () => {
+    const client = {
+      query: vi.fn().mockResolvedValue({ queryPlan: cartesianPlan }),
+    } as unknown as Neo4jClient;
+
+    const error = await enforceCostBudget(client, 'MATCH (p), (c) RETURN p, c', {}, normalizeCostBudget(true)!)
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toContain('Query rejected by the cost guard');
+    expect(error.data.violations).toHaveLength(1);
+  });
+
+  it('should pass plans within budget', async () => {
+    const client = {
+      query: vi.fn().mockResolvedValue({ queryPlan: { operatorType: 'ProduceResults@neo4j' } }),
+    } as unknown as Neo4jClient;
+
+    await expect(enforceCostBudget(client, 'RETURN 1', {}, normalizeCostBudget(true)!)).resolves.toBeUndefined();
+  });
+});
@@ -9,6 +9,9 @@ import {
   jsonRpcError,
   isNotification,
   validateToolCallParams,
+  validateCompleteParams,
+  isBatchRequest,
+  parseJsonRpcBatch,
 } from '../../src/mcp/protocol.js';
 import { createMcpRequest } from '../setup.js';
 
@@ -215,3 +218,82 @@ describe('validateToolCallParams', () => {
     });
   });
 });
+
+describe('validateCompleteParams', () => {
+  it('should validate prompt and resource refs', () => {
+    const prompt = validateCompleteParams({
+      ref: { type: 'ref/prompt', name: 'explore_label' },
+      argument: { name: 'label', value: 'Pe' },
+    });
+    const resource = validateCompleteParams({
+      ref: { type: 'ref/resource', uri: 'neo4j://schema/label/{label}' },
+      argument: { name: 'label', value: '' },
+    });
+
+    expect(prompt.ref).toEqual({ type: 'ref/prompt', name: 'explore_label' });
+    expect(prompt.argument).toEqual({ name: 'label', value: 'Pe' });
+    expect(resource.ref).toEqual({ type: 'ref/resource', uri: 'neo4j://schema/label/{label}' });
+  });
+
+  it('should keep only string context arguments', () => {
+    const result = validateCompleteParams({
+      ref: { type: 'ref/prompt', name: 'explore_label' },
+      argument: { name: 'property', value: 'na' },
+      context: { arguments: { label: 'Person', sample_size: 10 } },
+    });
+
+    expect(result.context?.arguments).toEqual({ label: 'Person' });
+  });
+
+  it('should throw for invalid refs and arguments', () => {
+    expect(() => validateCompleteParams(undefined)).toThrow();
+    expect(() => validateCompleteParams({
+      ref: { type: 'ref/tool', name: 'read_neo4j_cypher' },
+      argument: { name: 'query', value: '' },
+    })).toThrow();
+    expect(() => validateCompleteParams({
+      ref: { type: 'ref/prompt', name: 'explore_label' },
+      argument: { name: 'label' },
+    })).toThrow();
+  });
+});
+
+describe('parseJsonRpcBatch', () => {
+  it('should detect batch requests', () => {
+    expect(isBatchRequest([createMcpRequest('ping')])).toBe(true);
+    expect(isBatchRequest(createMcpRequest('ping'))).toBe(false);
+  });
+
+  it('should parse every entry in order', () => {
+    const entries = parseJsonRpcBatch([
+      createMcpRequest('ping', {}, 1),
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      createMcpRequest('tools/list', {}, 2),
+    ]);
+
+    expect(entries).toHaveLength(3);
+    expect(entries.map(entry => ('method' in entry ? entry.method : null))).toEqual([
+      'ping',
+      'notifications/initialized',
+      'tools/list',
+    ]);
+  });
+
+  it('should turn invalid entries into errors without failing the batch', () => {
+    const entries = parseJsonRpcBatch([
+      createMcpRequest('ping', {}, 1),
+      { jsonrpc: '1.0', method: 'ping', id: 2 },
+      42,
+    ]);
+
+    expect(entries[0]).toHaveProperty('method', 'ping');
+    expect(entries[1]).toHaveProperty('id', 2);
+    expect(entries[1]).toHaveProperty('error');
+    expect(entries[2]).toHaveProperty('id', null);
+    expect(entries[2]).toHaveProperty('error');
+  });
+
+  it('should reject an empty batch', () => {
+    expect(() => parseJsonRpcBatch([])).toThrow('Batch');
+  });
+});
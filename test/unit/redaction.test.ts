@@ -0,0 +1,215 @@
+/**
+ * Tests for redaction.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createRedaction,
+  getRedactionCounts,
+  normalizeRedactionRules,
+  redactSchema,
+} from '../../src/security/redaction.js';
+import { sanitizeNeo4jResults, sanitizeProperties } from '../../src/utils/sanitize.js';
+import { formatSchemaForLLM } from '../../src/neo4j/schema.js';
+import type { RedactionRule } from '../../src/types.js';
+import type { ProcessedSchema } from '../../src/neo4j/types.js';
+
+/**
+ * Sanitize rows with redaction rules, returning the rows and the counts
+ */
+function redactRows(rows: unknown[], rules: RedactionRule[]) {
+  const redaction = createRedaction(rules);
+  const sanitized = sanitizeNeo4jResults(rows, { redaction });
+  return { rows: sanitized, redactions: getRedactionCounts(redaction) };
+}
+
+describe('normalizeRedactionRules', () => {
+  it('should accept rules with properties, detectors or both', () => {
+    const rules = [
+      { properties: ['ssn', '*_token'], action: 'drop' },
+      { properties: ['email'], labels: ['Customer'], action: 'hash' },
+      { detect: 'phone', action: 'mask' },
+      { properties: ['notes'], detect: 'email', action: 'drop' },
+    ];
+
+    expect(normalizeRedactionRules(rules)).toEqual(rules);
+  });
+
+  it('should treat missing and empty rules as none', () => {
+    expect(normalizeRedactionRules(undefined)).toBeNull();
+    expect(normalizeRedactionRules(null)).toBeNull();
+    expect(normalizeRedactionRules([])).toBeNull();
+  });
+
+  it.each([
+    [{ rules: [] }, 'redactionRules must be a list of rules'],
+    [['email'], 'redactionRules[0] must be an object'],
+    [[{ properties: ['email'], action: 'encrypt' }], 'redactionRules[0].action must be drop, hash or mask'],
+    [[{ detect: 'iban', action: 'mask' }], 'redactionRules[0].detect must be email or phone'],
+    [[{ properties: 'email', action: 'drop' }], 'redactionRules[0].properties must be a list of non-empty strings'],
+    [[{ properties: ['email'], labels: [''], action: 'drop' }], 'redactionRules[0].labels must be a list of non-empty strings'],
+    [[{ labels: ['Person'], action: 'drop' }], 'redactionRules[0] needs properties, detect or both'],
+    [[{ properties: ['email'], action: 'drop', when: 'always' }], 'redactionRules[0] has unknown field "when"'],
+  ])('should reject %j', (rules, message) => {
+    expect(() => normalizeRedactionRules(rules)).toThrow(message);
+  });
+});
+
+describe('redacting results', () => {
+  const customer = { _labels: ['Customer'], name: 'Ada', email: 'ada@example.com', phone: '+46 70 123 45 67' };
+  const employee = { _labels: ['Employee'], name: 'Bob', email: 'bob@example.com' };
+
+  it('should drop, hash and mask properties by name', () => {
+    const { rows, redactions } = redactRows([{ c: customer }], [
+      { properties: ['email'], action: 'hash' },
+      { properties: ['PHONE'], action: 'mask' },
+      { properties: ['na*'], action: 'drop' },
+    ]);
+
+    const c = (rows[0] as { c: Record<string, unknown> }).c;
+    expect(c).not.toHaveProperty('name');
+    expect(c.email).toMatch(/^sha256:[0-9a-f]{16}$/);
+    expect(c.phone).toBe('+46 **********');
+    expect(c._labels).toEqual(['Customer']);
+    expect(redactions).toEqual({ drop: 1, hash: 1, mask: 1 });
+  });
+
+  it('should hash equal values to equal pseudonyms', () => {
+    const { rows } = redactRows([{ a: customer }, { a: { ...customer, name: 'Other' } }], [
+      { properties: ['email'], action: 'hash' },
+    ]);
+
+    const [first, second] = rows as Array<{ a: { email: string } }>;
+    expect(first!.a.email).toBe(second!.a.email);
+    expect(first!.a.email).not.toContain('ada');
+  });
+
+  it('should only apply label-scoped rules to elements with those labels', () => {
+    const { rows, redactions } = redactRows([{ c: customer, e: employee }], [
+      { properties: ['email'], labels: ['Cust*'], action: 'drop' },
+    ]);
+
+    const row = rows[0] as { c: Record<string, unknown>; e: Record<string, unknown> };
+    expect(row.c).not.toHaveProperty('email');
+    expect(row.e.email).toBe('bob@example.com');
+    expect(redactions).toEqual({ drop: 1, hash: 0, mask: 0 });
+  });
+
+  it('should scope rules to relationship types', () => {
+    const { rows } = redactRows([{ r: { _type: 'PAID', amount: 120, card: '4111111111111111' } }], [
+      { properties: ['card'], labels: ['PAID'], action: 'mask' },
+    ]);
+
+    expect(rows[0]).toEqual({ r: { _type: 'PAID', amount: 120, card: '4111**********' } });
+  });
+
+  it('should match result columns by the property they return', () => {
+    const { rows } = redactRows([{ 'c.email': 'ada@example.com', 'c.name': 'Ada' }], [
+      { properties: ['email'], action: 'drop' },
+    ]);
+
+    expect(rows[0]).toEqual({ 'c.name': 'Ada' });
+  });
+
+  it('should not drop whole nodes whose column matches a rule', () => {
+    const { rows } = redactRows([{ email: employee }], [{ properties: ['email'], action: 'drop' }]);
+
+    expect(rows[0]).toEqual({ email: { _labels: ['Employee'], name: 'Bob' } });
+  });
+
+  it('should redact detected emails and phone numbers inside strings', () => {
+    const { rows, redactions } = redactRows([{
+      note: 'Call +1 (555) 010-9999 or write to ada@example.com, not 2024-01-01.',
+      tags: ['bob@example.org'],
+    }], [
+      { detect: 'email', action: 'drop' },
+      { detect: 'phone', action: 'mask' },
+    ]);
+
+    expect(rows[0]).toEqual({
+      note: 'Call +1 (********** or write to [redacted], not 2024-01-01.',
+      tags: ['[redacted]'],
+    });
+    expect(redactions).toEqual({ drop: 2, hash: 0, mask: 1 });
+  });
+
+  it('should limit detectors to the given properties', () => {
+    const { rows } = redactRows([{ n: { _labels: ['Ticket'], body: 'from ada@example.com', author: 'bob@example.com' } }], [
+      { properties: ['body'], detect: 'email', action: 'hash' },
+    ]);
+
+    const n = (rows[0] as { n: { body: string; author: string } }).n;
+    expect(n.body).toMatch(/^from sha256:[0-9a-f]{16}$/);
+    expect(n.author).toBe('bob@example.com');
+  });
+
+  it('should redact the nodes of paths', () => {
+    const path = { $type: 'Path', length: 0, nodes: [customer], relationships: [] };
+
+    const { rows } = redactRows([{ p: path }], [{ properties: ['email', 'phone'], action: 'drop' }]);
+
+    expect(rows[0]).toEqual({ p: { ...path, nodes: [{ _labels: ['Customer'], name: 'Ada' }] } });
+  });
+
+  it('should redact graph element properties with their labels', () => {
+    const redaction = createRedaction([{ properties: ['email'], labels: ['Customer'], action: 'drop' }]);
+
+    expect(sanitizeProperties({ name: 'Ada', email: 'ada@example.com' }, ['Customer'], { redaction }))
+      .toEqual({ name: 'Ada' });
+    expect(sanitizeProperties({ name: 'Bob', email: 'bob@example.com' }, ['Employee'], { redaction }))
+      .toEqual({ name: 'Bob', email: 'bob@example.com' });
+  });
+
+  it('should report no counts when nothing was redacted', () => {
+    expect(redactRows([{ n: 1 }], [{ properties: ['email'], action: 'drop' }]).redactions).toBeUndefined();
+    expect(createRedaction([])).toBeNull();
+  });
+});
+
+describe('redactSchema', () => {
+  const schema: ProcessedSchema = {
+    labels: [{
+      name: 'Customer',
+      properties: [
+        { name: 'name', type: 'STRING' },
+        { name: 'email', type: 'STRING', indexed: true },
+        { name: 'ssn', type: 'STRING' },
+        { name: 'notes', type: 'STRING' },
+      ],
+      outgoingRelationships: [],
+      incomingRelationships: [],
+    }],
+    relationshipTypes: [{
+      name: 'PAID',
+      properties: [{ name: 'card', type: 'STRING' }],
+      startLabels: ['Customer'],
+      endLabels: ['Shop'],
+    }],
+    summary: 'Graph Schema Summary',
+  };
+
+  it('should leave out dropped properties and tag the others', () => {
+    const redaction = createRedaction([
+      { properties: ['ssn'], action: 'drop' },
+      { properties: ['email'], labels: ['Customer'], action: 'hash' },
+      { properties: ['card'], action: 'mask' },
+      { properties: ['notes'], detect: 'phone', action: 'drop' },
+    ])!;
+
+    const redacted = redactSchema(schema, redaction);
+
+    expect(redacted.labels[0]!.properties).toEqual([
+      { name: 'name', type: 'STRING' },
+      { name: 'email', type: 'STRING', indexed: true, redacted: 'hash' },
+      { name: 'notes', type: 'STRING', redacted: 'detect' },
+    ]);
+    expect(redacted.relationshipTypes[0]!.properties).toEqual([{ name: 'card', type: 'STRING', redacted: 'mask' }]);
+    expect(getRedactionCounts(redaction)).toEqual({ drop: 2, hash: 1, mask: 1 });
+
+    const text = formatSchemaForLLM(redacted);
+    expect(text).toContain('  - email: STRING [indexed] [hashed]');
+    expect(text).toContain('  - notes: STRING [redacted]');
+    expect(text).toContain('  - card: STRING [masked]');
+    expect(text).not.toContain('ssn');
+  });
+});
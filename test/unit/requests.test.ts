@@ -0,0 +1,189 @@
+/**
+ * Tests for in-flight request tracking and progress reporting
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  trackRequest,
+  cancelRequest,
+  CancellationChannel,
+  getProgressToken,
+  createProgressReporter,
+} from '../../src/mcp/requests.js';
+import type { HandlerContext } from '../../src/mcp/handlers.js';
+import { createMockEnv, createMockDurableObjectNamespace, createMcpRequest } from '../setup.js';
+import { parseJsonRpcRequest } from '../../src/mcp/protocol.js';
+
+describe('trackRequest / cancelRequest', () => {
+  const channels = createMockDurableObjectNamespace(() => new CancellationChannel());
+
+  it('should abort a tracked request', async () => {
+    const tracked = trackRequest(channels, 'session-a', 1);
+
+    expect(await cancelRequest(channels, 'session-a', 1)).toBe(true);
+    expect(tracked.signal.aborted).toBe(true);
+    tracked.done();
+  });
+
+  it('should not cancel requests of another scope', async () => {
+    const tracked = trackRequest(channels, 'session-a', 2);
+
+    expect(await cancelRequest(channels, 'session-b', 2)).toBe(false);
+    expect(tracked.signal.aborted).toBe(false);
+    tracked.done();
+  });
+
+  it('should distinguish numeric and string IDs', async () => {
+    const tracked = trackRequest(channels, 'session-a', 3);
+
+    expect(await cancelRequest(channels, 'session-a', '3')).toBe(false);
+    tracked.done();
+  });
+
+  it('should ignore finished requests', async () => {
+    const tracked = trackRequest(channels, 'session-a', 4);
+    tracked.done();
+
+    expect(await cancelRequest(channels, 'session-a', 4)).toBe(false);
+    expect(tracked.signal.aborted).toBe(false);
+  });
+
+  it('should not make unscoped requests cancellable', async () => {
+    const tracked = trackRequest(channels, undefined, 5);
+
+    expect(await cancelRequest(channels, undefined, 5)).toBe(false);
+    expect(tracked.signal.aborted).toBe(false);
+  });
+
+  describe('across instances', () => {
+    /**
+     * Load a second copy of the module, standing in for another Worker
+     * instance that shares nothing but the Durable Object namespace
+     */
+    const loadOtherInstance = async () => {
+      vi.resetModules();
+      return import('../../src/mcp/requests.js');
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should abort requests cancelled from another instance', async () => {
+      const shared = createMockDurableObjectNamespace(() => new CancellationChannel());
+      const other = await loadOtherInstance();
+      const tracked = trackRequest(shared, 'session-a', 6);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(await other.cancelRequest(shared, 'session-a', 6)).toBe(false);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(tracked.signal.aborted).toBe(true);
+      tracked.done();
+    });
+
+    it('should pass on cancellations sent before the request listened', async () => {
+      const shared = createMockDurableObjectNamespace(() => new CancellationChannel());
+      const other = await loadOtherInstance();
+      const tracked = trackRequest(shared, 'session-a', 7);
+
+      await other.cancelRequest(shared, 'session-a', 7);
+      expect(tracked.signal.aborted).toBe(false);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(tracked.signal.aborted).toBe(true);
+      tracked.done();
+    });
+
+    it('should not abort a later request that reuses a cancelled ID', async () => {
+      const shared = createMockDurableObjectNamespace(() => new CancellationChannel());
+      const other = await loadOtherInstance();
+      const first = trackRequest(shared, 'session-a', 8);
+      await vi.advanceTimersByTimeAsync(1000);
+      await other.cancelRequest(shared, 'session-a', 8);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(first.signal.aborted).toBe(true);
+      first.done();
+
+      await vi.advanceTimersByTimeAsync(100);
+      const reused = trackRequest(shared, 'session-a', 8);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(reused.signal.aborted).toBe(false);
+
+      // ...but it can still be cancelled itself
+      await other.cancelRequest(shared, 'session-a', 8);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(reused.signal.aborted).toBe(true);
+      reused.done();
+    });
+
+    it('should not contact the channel for requests that finish quickly', async () => {
+      const shared = createMockDurableObjectNamespace(() => new CancellationChannel());
+      const tracked = trackRequest(shared, 'session-a', 9);
+      tracked.done();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(shared.get).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('getProgressToken', () => {
+  it('should read the token from _meta', () => {
+    const request = parseJsonRpcRequest(createMcpRequest('tools/call', {
+      name: 'get_neo4j_schema',
+      _meta: { progressToken: 'tok-1' },
+    }));
+
+    expect(getProgressToken(request)).toBe('tok-1');
+  });
+
+  it('should return undefined without a token', () => {
+    const request = parseJsonRpcRequest(createMcpRequest('tools/call', { name: 'get_neo4j_schema' }));
+
+    expect(getProgressToken(request)).toBeUndefined();
+  });
+});
+
+describe('createProgressReporter', () => {
+  const createContext = (sendNotification?: HandlerContext['sendNotification']): HandlerContext => ({
+    env: createMockEnv(),
+    requestId: 'req-1',
+    sendNotification,
+  });
+
+  it('should send notifications/progress with the token', () => {
+    const send = vi.fn();
+    const report = createProgressReporter(createContext(send), 7);
+
+    report?.(1, 4, 'Found 2 labels');
+
+    expect(send).toHaveBeenCalledWith('notifications/progress', {
+      progressToken: 7,
+      progress: 1,
+      total: 4,
+      message: 'Found 2 labels',
+    });
+  });
+
+  it('should only send increasing progress', () => {
+    const send = vi.fn();
+    const report = createProgressReporter(createContext(send), 'tok');
+
+    report?.(1);
+    report?.(1);
+    report?.(2);
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not report without a token or notification sink', () => {
+    expect(createProgressReporter(createContext(vi.fn()), undefined)).toBeUndefined();
+    expect(createProgressReporter(createContext(), 'tok')).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for mcp/resources.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseResourceUri,
+  labelResourceUri,
+  relationshipResourceUri,
+  getSchemaResources,
+} from '../../src/mcp/resources.js';
+import type { ProcessedSchema } from '../../src/neo4j/types.js';
+
+const schema: ProcessedSchema = {
+  labels: [
+    { name: 'Person', properties: [], outgoingRelationships: [], incomingRelationships: [] },
+    { name: 'Film Star', properties: [], outgoingRelationships: [], incomingRelationships: [] },
+  ],
+  relationshipTypes: [
+    { name: 'ACTED_IN', properties: [], startLabels: [], endLabels: [] },
+  ],
+  summary: '',
+};
+
+describe('parseResourceUri', () => {
+  it('should parse the full schema URI', () => {
+    expect(parseResourceUri('neo4j://schema')).toEqual({ kind: 'schema' });
+  });
+
+  it('should parse label URIs', () => {
+    expect(parseResourceUri('neo4j://schema/label/Person')).toEqual({ kind: 'label', name: 'Person' });
+  });
+
+  it('should decode percent-encoded names', () => {
+    expect(parseResourceUri('neo4j://schema/label/Film%20Star')).toEqual({ kind: 'label', name: 'Film Star' });
+  });
+
+  it('should parse relationship URIs', () => {
+    expect(parseResourceUri('neo4j://schema/relationship/ACTED_IN')).toEqual({
+      kind: 'relationship',
+      name: 'ACTED_IN',
+    });
+  });
+
+  it('should reject unknown URIs', () => {
+    expect(parseResourceUri('neo4j://other')).toBeNull();
+    expect(parseResourceUri('neo4j://schema/label/')).toBeNull();
+    expect(parseResourceUri('neo4j://schema/label/%E0%A4%A')).toBeNull();
+  });
+});
+
+describe('resource URI builders', () => {
+  it('should round-trip through parseResourceUri', () => {
+    expect(parseResourceUri(labelResourceUri('Film Star'))).toEqual({ kind: 'label', name: 'Film Star' });
+    expect(parseResourceUri(relationshipResourceUri('A/B'))).toEqual({ kind: 'relationship', name: 'A/B' });
+  });
+});
+
+describe('getSchemaResources', () => {
+  it('should list the schema plus one resource per label and relationship type', () => {
+    const uris = getSchemaResources(schema).map(r => r.uri);
+
+    expect(uris).toEqual([
+      'neo4j://schema',
+      'neo4j://schema/label/Person',
+      'neo4j://schema/label/Film%20Star',
+      'neo4j://schema/relationship/ACTED_IN',
+    ]);
+  });
+});
@@ -202,3 +202,43 @@ describe('sanitizeNeo4jResults', () => {
     expect(largeList[largeList.length - 1]).toContain('more items truncated');
   });
 });
+
+describe('decoded Neo4j values', () => {
+  it('should keep temporals, points and byte arrays unchanged', () => {
+    const row = {
+      born: { $type: 'Date', value: '1990-01-01' },
+      location: { srid: 4326, x: 12.5, y: 56.1 },
+      avatar: { $type: 'ByteArray', length: 2048 },
+    };
+
+    expect(sanitize(row)).toEqual(row);
+  });
+
+  it('should truncate long paths keeping nodes and relationships aligned', () => {
+    const path = {
+      $type: 'Path',
+      length: 4,
+      nodes: [0, 1, 2, 3, 4].map(id => ({ _labels: ['Step'], id })),
+      relationships: [0, 1, 2, 3].map(id => ({ _type: 'NEXT', id })),
+    };
+    const result = sanitize(path, { maxListSize: 3 }) as Record<string, unknown[]>;
+
+    expect(result.length).toBe(4);
+    expect(result.nodes).toHaveLength(3);
+    expect(result.relationships).toHaveLength(2);
+    expect(result.truncated).toBe('...[2 more nodes truncated]');
+  });
+
+  it('should filter embeddings inside path nodes', () => {
+    const path = {
+      $type: 'Path',
+      length: 0,
+      nodes: [{ _labels: ['Doc'], title: 'A', embedding: Array(128).fill(0.1) }],
+      relationships: [],
+    };
+    const result = sanitize(path) as { nodes: Record<string, unknown>[] };
+
+    expect(result.nodes[0]?.title).toBe('A');
+    expect(result.nodes[0]?.embedding).toBe('[Embedding property - filtered]');
+  });
+});
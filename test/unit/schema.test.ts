@@ -0,0 +1,97 @@
+/**
+ * Tests for neo4j/schema.ts
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { extractSchema } from '../../src/neo4j/schema.js';
+import { createNeo4jClient } from '../../src/neo4j/client.js';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const str = (value: string) => ({ $type: 'String', _value: value });
+const int = (value: number) => ({ $type: 'Integer', _value: String(value) });
+const map = (value: Record<string, unknown>) => ({ $type: 'Map', _value: value });
+const list = (value: unknown[]) => ({ $type: 'List', _value: value });
+
+/**
+ * Answer each statement with the typed JSON rows of the first matching pattern
+ */
+function answerStatements(responses: Array<[RegExp, unknown[][] | 'error']>): void {
+  mockFetch.mockImplementation(async (_url: string, init: { body: string }) => {
+    const { statement } = JSON.parse(init.body) as { statement: string };
+    const rows = responses.find(([pattern]) => pattern.test(statement))?.[1] ?? [];
+
+    if (rows === 'error') {
+      return {
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        text: async () => JSON.stringify({
+          errors: [{ code: 'Neo.ClientError.Procedure.ProcedureNotFound', message: 'There is no procedure' }],
+        }),
+      };
+    }
+
+    return { ok: true, json: async () => ({ data: { fields: ['value'], values: rows } }) };
+  });
+}
+
+describe('extractSchema', () => {
+  const client = () => createNeo4jClient({
+    uri: 'neo4j+s://test.databases.neo4j.io',
+    username: 'neo4j',
+    password: 'password123',
+    database: 'neo4j',
+  });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should read a typed APOC schema', async () => {
+    answerStatements([[/apoc\.meta\.schema/, [[map({
+      Person: map({
+        type: str('node'),
+        count: int(3),
+        properties: map({ name: map({ type: str('STRING'), indexed: { $type: 'Boolean', _value: true } }) }),
+        relationships: map({
+          WORKS_AT: map({ count: int(2), direction: str('out'), labels: list([str('Company')]) }),
+        }),
+      }),
+      WORKS_AT: map({ type: str('relationship'), count: int(2) }),
+    })]]]]);
+
+    const schema = await extractSchema(client(), 100);
+
+    expect(schema.labels).toEqual([{
+      name: 'Person',
+      count: 3,
+      properties: [{ name: 'name', type: 'STRING', indexed: true, unique: undefined }],
+      outgoingRelationships: [{ type: 'WORKS_AT', targetLabel: 'Company', count: 2 }],
+      incomingRelationships: [],
+    }]);
+    expect(schema.relationshipTypes.map(type => type.name)).toEqual(['WORKS_AT']);
+  });
+
+  it('should read typed rows when falling back from APOC', async () => {
+    answerStatements([
+      [/apoc\.meta\.schema/, 'error'],
+      [/db\.labels/, [[str('Person')]]],
+      [/UNWIND keys/, [[str('name'), str('String')]]],
+      [/\)-\[r\]->/, [[str('KNOWS'), str('Person')]]],
+      [/db\.relationshipTypes/, [[str('KNOWS')]]],
+    ]);
+
+    const schema = await extractSchema(client(), 100);
+
+    expect(schema.labels).toEqual([{
+      name: 'Person',
+      properties: [{ name: 'name', type: 'String' }],
+      outgoingRelationships: [{ type: 'KNOWS', targetLabel: 'Person' }],
+      incomingRelationships: [],
+    }]);
+    expect(schema.relationshipTypes.map(type => type.name)).toEqual(['KNOWS']);
+  });
+});
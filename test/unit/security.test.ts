@@ -5,6 +5,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { validateQuery, isReadOnlyQuery, containsWriteOperations, sanitizeParameters } from '../../src/security/query-validator.js';
 import { checkRateLimit, getRateLimitIdentifier, createRateLimitHeaders } from '../../src/security/ratelimit.js';
+import { normalizeQueryPolicy } from '../../src/security/query-policy.js';
+import type { QueryPolicy } from '../../src/types.js';
 import { createMockKV, createMockRequest } from '../setup.js';
 
 describe('Query Validator', () => {
@@ -173,6 +175,149 @@ describe('Query Validator', () => {
   });
 });
 
+describe('Query Policy', () => {
+  describe('validateQuery with a policy', () => {
+    const policy: QueryPolicy = {
+      labels: { deny: ['Secret*'] },
+      relationshipTypes: { allow: ['KNOWS', 'WORKS_*'] },
+      procedures: { allow: ['db.labels', 'apoc.path.*', 'apoc.load.*'], deny: ['apoc.load.*'] },
+      clauses: { deny: ['LOAD', 'FOREACH'] },
+      maxVarLengthHops: 5,
+    };
+
+    it.each([
+      'MATCH (n:Person) RETURN n',
+      'MATCH (a:Person)-[:KNOWS]->(b) RETURN b',
+      'MATCH (a)-[:WORKS_AT|WORKS_FOR]->(c) RETURN c',
+      'MATCH p = (a)-[:KNOWS*1..5]->(b) RETURN p',
+      'MATCH p = (a)-[*..3]->(b) RETURN p',
+      'MATCH p = ((a)-[:KNOWS]->(b)){1,5} RETURN p',
+      'CALL db.labels()',
+      'CALL apoc.path.expand(n, "KNOWS", null, 1, 3) YIELD path RETURN path',
+      "MATCH (n:Person) WHERE n.note = ':Secret' RETURN n",
+      'MATCH (n:Person {Secret: true}) RETURN n',
+      'RETURN {Secret: 1, LOAD: 2}',
+      'MATCH (n:Person) // MATCH (s:Secret)\nRETURN n',
+      'MATCH (n:Person) RETURN n.x * 10',
+      'MATCH (n:Person) WHERE EXISTS { MATCH (n)-[:KNOWS]->(:Person) } RETURN n',
+      'MATCH (n:Person) RETURN n {.name, Secret: n.x, isPerson: n:Person}',
+      'MATCH (n:Person) RETURN toUpper(n.name), count(*), date.truncate("month", date())',
+      'MATCH (a:Person) RETURN apoc.path.elements(a)',
+    ])('should allow %j', query => {
+      const result = validateQuery(query, policy);
+      expect(result.error).toBeUndefined();
+      expect(result.valid).toBe(true);
+    });
+
+    it.each([
+      ['MATCH (n:SecretAgent) RETURN n', 'labels', 'SecretAgent', 'Label "SecretAgent" is not allowed on this connection'],
+      ['MATCH (n:Person:`Secret`) RETURN n', 'labels', 'Secret', undefined],
+      ['MATCH (n:Person|Secret) RETURN n', 'labels', 'Secret', undefined],
+      ['MATCH (n:(Person&!Secret)) RETURN n', 'labels', 'Secret', undefined],
+      ['MATCH (n) WHERE n:Secret RETURN n', 'labels', 'Secret', undefined],
+      ['MATCH (n) SET n:Secret', 'labels', 'Secret', undefined],
+      ['MATCH (n) WHERE EXISTS { MATCH (n)--(:Secret) } RETURN n', 'labels', 'Secret', undefined],
+      ['MATCH (n) RETURN {x: n:Secret}', 'labels', 'Secret', undefined],
+      ['MATCH (n) RETURN n {.name, x: 1, y: n:Person|Secret}', 'labels', 'Secret', undefined],
+      ["MATCH (n) WHERE 'Secret' IN labels(n) RETURN n", 'labels', 'labels', 'Function "labels()" is not allowed on this connection; match labels in the pattern instead'],
+      ['MATCH (n:$($label)) RETURN n', 'labels', '$', 'Dynamic labels are not allowed on this connection'],
+      ['MATCH (n) SET n:$any($labels)', 'labels', '$any', undefined],
+      ["MATCH (a)-[r]->(b) WHERE type(r) = 'OWNS' RETURN b", 'relationshipTypes', 'type', 'Function "type()" is not allowed on this connection; match relationship types in the pattern instead'],
+      ['MATCH (a)-[:OWNS]->(b) RETURN b', 'relationshipTypes', 'OWNS', 'Relationship type "OWNS" is not allowed on this connection'],
+      ['MATCH (a)-[r:KNOWS|:OWNS]->(b) RETURN b', 'relationshipTypes', 'OWNS', undefined],
+      ['CALL apoc.load.json("file:///x.json")', 'procedures', 'apoc.load.json', 'Procedure "apoc.load.json" is not allowed on this connection'],
+      ['CALL `apoc`.load.csv("x")', 'procedures', 'apoc.load.csv', undefined],
+      ['CALL gds.graph.list()', 'procedures', 'gds.graph.list', undefined],
+      ["RETURN apoc.text.join(['a', 'b'], ',')", 'procedures', 'apoc.text.join', 'Function "apoc.text.join()" is not allowed on this connection'],
+      ["RETURN apoc.load.jsonParams('http://x', {}, null)", 'procedures', 'apoc.load.jsonParams', undefined],
+      ['MATCH (n:Person) WHERE `gds`.similarity.cosine(n.a, n.b) > 0.5 RETURN n', 'procedures', 'gds.similarity.cosine', undefined],
+      ['LOAD CSV FROM "file:///x.csv" AS row RETURN row', 'clauses', 'LOAD', 'Clause "LOAD" is not allowed on this connection'],
+      ['foreach (x IN [1] | CREATE (:Person))', 'clauses', 'FOREACH', undefined],
+      ['MATCH p = (a)-[:KNOWS*]->(b) RETURN p', 'maxVarLengthHops', '*', 'Variable-length pattern "*" has no upper bound; this connection allows at most 5 hops'],
+      ['MATCH p = (a)-[:KNOWS*2..]->(b) RETURN p', 'maxVarLengthHops', '*2..', undefined],
+      ['MATCH p = (a)-[:KNOWS*1..20]->(b) RETURN p', 'maxVarLengthHops', '*1..20', 'Variable-length pattern "*1..20" allows 20 hops; this connection allows at most 5'],
+      ['MATCH p = (a)-[:KNOWS*6]->(b) RETURN p', 'maxVarLengthHops', '*6', undefined],
+      ['MATCH p = ((a)-[:KNOWS]->(b)){1,} RETURN p', 'maxVarLengthHops', '{1,}', undefined],
+      ['MATCH p = ((a)-[:KNOWS]->(b)){2,9} RETURN p', 'maxVarLengthHops', '{2,9}', undefined],
+    ])('should reject %j', (query, rule, token, message) => {
+      const result = validateQuery(query, policy);
+
+      expect(result.valid).toBe(false);
+      expect(result.violation).toMatchObject({ rule, token });
+      expect(result.error).toBe(result.violation?.message);
+      if (message) {
+        expect(result.error).toBe(message);
+      }
+    });
+
+    it('should point at the offending token', () => {
+      const query = 'MATCH (a:Person) CALL apoc.load.json($url) YIELD value RETURN value';
+      const { violation } = validateQuery(query, policy);
+
+      expect(violation?.offset).toBe(query.indexOf('apoc.load.json'));
+    });
+
+    it('should reject Cypher run from a string while labels or relationship types are restricted', () => {
+      const labelsOnly: QueryPolicy = { labels: { deny: ['Secret'] } };
+      const run = "CALL apoc.cypher.run('MATCH (n:Secret) RETURN n', {}) YIELD value RETURN value";
+      const runFunction = "RETURN apoc.cypher.runFirstColumnSingle('MATCH (n:Secret) RETURN n', {})";
+
+      expect(validateQuery(run, labelsOnly).violation).toMatchObject({
+        rule: 'labels',
+        token: 'apoc.cypher.run',
+        message: '"apoc.cypher.run" runs Cypher from a string, which the label and relationship type rules of this connection cannot check',
+      });
+      expect(validateQuery(runFunction, labelsOnly).violation)
+        .toMatchObject({ rule: 'labels', token: 'apoc.cypher.runFirstColumnSingle' });
+      expect(validateQuery(run, { clauses: { deny: ['LOAD'] } }).valid).toBe(true);
+      expect(validateQuery('MATCH (n) RETURN labels(n)', { clauses: { deny: ['LOAD'] } }).valid).toBe(true);
+    });
+
+    it('should only allow what an allow list names', () => {
+      const readOnlyClauses: QueryPolicy = { clauses: { allow: ['match', 'where', 'return'] } };
+
+      expect(validateQuery('MATCH (n:Person) WHERE n.age > 30 RETURN n', readOnlyClauses).valid).toBe(true);
+      expect(validateQuery('MATCH (n:Person) WITH n RETURN n', readOnlyClauses).violation)
+        .toMatchObject({ rule: 'clauses', token: 'WITH' });
+    });
+
+    it('should still apply the global checks first', () => {
+      const result = validateQuery('DROP DATABASE neo4j', { labels: { allow: ['*'] } });
+      expect(result.error).toBe('DROP DATABASE is not allowed');
+      expect(result.violation).toBeUndefined();
+    });
+  });
+
+  describe('normalizeQueryPolicy', () => {
+    it('should accept a complete policy', () => {
+      const policy = {
+        labels: { allow: ['Person'], deny: ['Secret'] },
+        relationshipTypes: { deny: ['OWNS'] },
+        procedures: { allow: ['apoc.path.*'] },
+        clauses: { deny: ['LOAD'] },
+        maxVarLengthHops: 4,
+      };
+      expect(normalizeQueryPolicy(policy)).toEqual(policy);
+    });
+
+    it('should treat a missing policy as none', () => {
+      expect(normalizeQueryPolicy(undefined)).toBeNull();
+      expect(normalizeQueryPolicy(null)).toBeNull();
+    });
+
+    it.each([
+      ['not an object', 'strict', 'queryPolicy must be an object'],
+      ['an unknown field', { nodes: {} }, 'queryPolicy has unknown field "nodes"'],
+      ['a rule that is not an object', { labels: ['Person'] }, 'queryPolicy.labels must be an object with allow and/or deny'],
+      ['an unknown rule field', { labels: { only: ['Person'] } }, 'queryPolicy.labels has unknown field "only"'],
+      ['globs that are not strings', { procedures: { deny: [1] } }, 'queryPolicy.procedures.deny must be a list of non-empty strings'],
+      ['a fractional hop limit', { maxVarLengthHops: 2.5 }, 'queryPolicy.maxVarLengthHops must be a positive integer'],
+    ])('should reject %s', (_, value, message) => {
+      expect(() => normalizeQueryPolicy(value)).toThrow(message);
+    });
+  });
+});
+
 describe('Rate Limiting', () => {
   let mockKv: KVNamespace;
 
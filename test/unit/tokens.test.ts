@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { estimateTokens, truncateToTokens } from '../../src/utils/tokens.js';
+import { estimateTokens, truncateToTokens, truncateRowsToTokens } from '../../src/utils/tokens.js';
 
 describe('estimateTokens', () => {
   it('should estimate tokens for empty string', () => {
@@ -113,3 +113,32 @@ describe('truncateToTokens', () => {
     expect(result10.truncated).toBe(false);
   });
 });
+
+describe('truncateRowsToTokens', () => {
+  const rows = Array.from({ length: 100 }, (_, i) => ({ id: i, name: `node-${i}` }));
+
+  it('should keep all rows within the limit', () => {
+    const result = truncateRowsToTokens(rows, { maxTokens: 10000 });
+
+    expect(result.truncated).toBe(false);
+    expect(result.rows).toHaveLength(100);
+  });
+
+  it('should keep only whole leading rows over the limit', () => {
+    const result = truncateRowsToTokens(rows, { maxTokens: 100 });
+
+    expect(result.truncated).toBe(true);
+    expect(result.rows.length).toBeGreaterThan(0);
+    expect(result.rows.length).toBeLessThan(100);
+    expect(result.rows).toEqual(rows.slice(0, result.rows.length));
+    expect(result.finalTokens).toBeLessThanOrEqual(100);
+  });
+
+  it('should measure rows in the given encoding', () => {
+    const compact = truncateRowsToTokens(rows, { maxTokens: 200 });
+    const pretty = truncateRowsToTokens(rows, { maxTokens: 200 }, items => JSON.stringify(items, null, 2));
+
+    expect(pretty.rows.length).toBeLessThan(compact.rows.length);
+    expect(pretty.finalTokens).toBeLessThanOrEqual(200);
+  });
+});
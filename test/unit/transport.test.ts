@@ -0,0 +1,143 @@
+/**
+ * Tests for mcp/transport.ts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ResponseChannel, acceptsEventStream, formatSseEvent } from '../../src/mcp/transport.js';
+import {
+  createMcpSession,
+  getMcpSession,
+  deleteMcpSession,
+  enqueueSessionMessages,
+  drainSessionMessages,
+} from '../../src/storage/mcp-sessions.js';
+import { createMockKV, createMockRequest } from '../setup.js';
+
+describe('acceptsEventStream', () => {
+  it('should detect text/event-stream in Accept', () => {
+    const request = createMockRequest('https://example.com/mcp', {
+      headers: { Accept: 'application/json, text/event-stream' },
+    });
+    expect(acceptsEventStream(request)).toBe(true);
+  });
+
+  it('should return false for JSON-only clients', () => {
+    const request = createMockRequest('https://example.com/mcp', {
+      headers: { Accept: 'application/json' },
+    });
+    expect(acceptsEventStream(request)).toBe(false);
+  });
+});
+
+describe('formatSseEvent', () => {
+  it('should format a message event', () => {
+    expect(formatSseEvent({ jsonrpc: '2.0', method: 'ping' })).toBe(
+      'event: message\ndata: {"jsonrpc":"2.0","method":"ping"}\n\n'
+    );
+  });
+
+  it('should pass pre-serialized messages through', () => {
+    expect(formatSseEvent('{"id":1}')).toBe('event: message\ndata: {"id":1}\n\n');
+  });
+});
+
+describe('ResponseChannel', () => {
+  it('should respond with JSON when no notifications are sent', async () => {
+    const channel = new ResponseChannel(true, { 'X-Request-Id': 'req-1' });
+
+    await channel.complete('{"jsonrpc":"2.0","id":1,"result":{}}');
+    const response = await channel.response;
+
+    expect(response.headers.get('Content-Type')).toBe('application/json');
+    expect(response.headers.get('X-Request-Id')).toBe('req-1');
+    expect(await response.json()).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+  });
+
+  it('should upgrade to an event stream on the first notification', async () => {
+    const channel = new ResponseChannel(true, {});
+
+    channel.notify({ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } });
+    const response = await channel.response;
+    const [undelivered, text] = await Promise.all([
+      channel.complete('{"jsonrpc":"2.0","id":1,"result":{}}'),
+      response.text(),
+    ]);
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(undelivered).toEqual([]);
+    expect(text).toBe(
+      'event: message\ndata: {"jsonrpc":"2.0","method":"notifications/progress","params":{"progress":1}}\n\n' +
+      'event: message\ndata: {"jsonrpc":"2.0","id":1,"result":{}}\n\n'
+    );
+  });
+
+  it('should return notifications it cannot stream', async () => {
+    const channel = new ResponseChannel(false, {});
+    const notification = { jsonrpc: '2.0' as const, method: 'notifications/resources/updated' };
+
+    channel.notify(notification);
+    const undelivered = await channel.complete(null, 202);
+    const response = await channel.response;
+
+    expect(response.status).toBe(202);
+    expect(undelivered).toEqual([notification]);
+  });
+});
+
+describe('MCP session storage', () => {
+  it('should create, read and delete sessions', async () => {
+    const kv = createMockKV();
+
+    const session = await createMcpSession(kv, { userId: 'user_1', connectionId: 'conn_1' });
+    expect(session.id).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(await getMcpSession(kv, session.id)).toEqual(session);
+
+    await deleteMcpSession(kv, session.id);
+    expect(await getMcpSession(kv, session.id)).toBeNull();
+  });
+
+  it('should queue and drain messages in order', async () => {
+    const kv = createMockKV();
+
+    await enqueueSessionMessages(kv, 'sess', [{ jsonrpc: '2.0', method: 'a' }]);
+    await enqueueSessionMessages(kv, 'sess', [{ jsonrpc: '2.0', method: 'b' }]);
+
+    expect((await drainSessionMessages(kv, 'sess')).map(m => m.method)).toEqual(['a', 'b']);
+    expect(await drainSessionMessages(kv, 'sess')).toEqual([]);
+  });
+
+  it('should keep messages queued concurrently for the same session', async () => {
+    const kv = createMockKV();
+
+    await Promise.all([
+      enqueueSessionMessages(kv, 'sess', [{ jsonrpc: '2.0', method: 'a' }, { jsonrpc: '2.0', method: 'b' }]),
+      enqueueSessionMessages(kv, 'sess', [{ jsonrpc: '2.0', method: 'c' }]),
+    ]);
+
+    expect((await drainSessionMessages(kv, 'sess')).map(m => m.method)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should keep messages queued while the queue is drained', async () => {
+    const kv = createMockKV();
+    await enqueueSessionMessages(kv, 'sess', [{ jsonrpc: '2.0', method: 'a' }]);
+
+    const get = kv.get;
+    vi.mocked(kv.get).mockImplementationOnce(async (key: string) => {
+      await enqueueSessionMessages(kv, 'sess', [{ jsonrpc: '2.0', method: 'b' }]);
+      return get(key);
+    });
+
+    expect((await drainSessionMessages(kv, 'sess')).map(m => m.method)).toEqual(['a']);
+    expect((await drainSessionMessages(kv, 'sess')).map(m => m.method)).toEqual(['b']);
+  });
+
+  it('should delete queued messages with the session', async () => {
+    const kv = createMockKV();
+    const session = await createMcpSession(kv);
+    await enqueueSessionMessages(kv, session.id, [{ jsonrpc: '2.0', method: 'a' }]);
+
+    await deleteMcpSession(kv, session.id);
+
+    expect((await kv.list({ prefix: 'mcp_queue:' })).keys).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Tests for MCP protocol revision negotiation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  negotiateProtocolVersion,
+  isSupportedProtocolVersion,
+  supportsFeature,
+} from '../../src/mcp/versions.js';
+
+describe('negotiateProtocolVersion', () => {
+  it('should accept every supported revision as requested', () => {
+    expect(negotiateProtocolVersion('2024-11-05')).toBe('2024-11-05');
+    expect(negotiateProtocolVersion('2025-03-26')).toBe('2025-03-26');
+    expect(negotiateProtocolVersion('2025-06-18')).toBe('2025-06-18');
+  });
+
+  it('should pick the highest supported revision not newer than the request', () => {
+    expect(negotiateProtocolVersion('2025-05-01')).toBe('2025-03-26');
+    expect(negotiateProtocolVersion('2099-01-01')).toBe('2025-06-18');
+  });
+
+  it('should answer with the latest revision if the client is too old', () => {
+    expect(negotiateProtocolVersion('2024-01-01')).toBe('2025-06-18');
+  });
+
+  it('should answer with the latest revision if none was requested', () => {
+    expect(negotiateProtocolVersion(undefined)).toBe('2025-06-18');
+    expect(negotiateProtocolVersion(42)).toBe('2025-06-18');
+  });
+});
+
+describe('isSupportedProtocolVersion', () => {
+  it('should only accept known revisions', () => {
+    expect(isSupportedProtocolVersion('2025-03-26')).toBe(true);
+    expect(isSupportedProtocolVersion('2025-05-01')).toBe(false);
+    expect(isSupportedProtocolVersion(undefined)).toBe(false);
+  });
+});
+
+describe('supportsFeature', () => {
+  it('should gate features introduced in later revisions', () => {
+    expect(supportsFeature('2024-11-05', 'toolAnnotations')).toBe(false);
+    expect(supportsFeature('2025-03-26', 'toolAnnotations')).toBe(true);
+    expect(supportsFeature('2025-03-26', 'structuredContent')).toBe(false);
+    expect(supportsFeature('2025-06-18', 'structuredContent')).toBe(true);
+  });
+
+  it('should gate features removed in later revisions', () => {
+    expect(supportsFeature('2025-03-26', 'batching')).toBe(true);
+    expect(supportsFeature('2025-06-18', 'batching')).toBe(false);
+  });
+
+  it('should use the oldest revision when unknown', () => {
+    expect(supportsFeature(undefined, 'batching')).toBe(true);
+    expect(supportsFeature(undefined, 'toolAnnotations')).toBe(false);
+    expect(supportsFeature(undefined, 'structuredContent')).toBe(false);
+  });
+});